@@ -0,0 +1,16 @@
+// Imported into the generated service worker (vite.config.ts → workbox.importScripts).
+// Clicking a journey reminder focuses an open app window, or opens one, at the
+// URL in the notification's data.
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close()
+  const url = new URL(event.notification.data?.url ?? '', self.registration.scope).href
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(async (windows) => {
+      const client = windows[0]
+      if (!client) return self.clients.openWindow(url)
+      await client.focus()
+      return client.navigate(url).catch(() => self.clients.openWindow(url))
+    }),
+  )
+})
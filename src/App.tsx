@@ -1,17 +1,31 @@
-import { useState, useCallback, useRef, useEffect } from 'react'
-import type { SessionPreset, SessionOptions, MoodRating, Journey } from './types'
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react'
+import type { SessionPreset, SessionOptions, MoodRating, Journey, SelfRating } from './types'
 import { useAudioEngine } from './hooks/useAudioEngine'
 import { useWakeLock } from './hooks/useWakeLock'
 import { useSessionHistory } from './hooks/useSessionHistory'
 import { useMediaSession } from './hooks/useMediaSession'
 import { useCustomPresets } from './hooks/useCustomPresets'
+import { usePresetFiles, sharePresetLink } from './hooks/usePresetFiles'
+import { useStorageErrors } from './hooks/useStorageErrors'
+import { useJourneyReminders, JOURNEY_LINK_PARAM } from './hooks/useJourneyReminders'
+import { presetLinkPayload, readPresetLink } from './presetLink'
+import { prepareImport } from './presetFormat'
+import { FileFormatError } from './fileFormat'
 import { Onboarding } from './components/Onboarding'
 import { PresetList } from './components/PresetList'
 import { SessionSetup } from './components/SessionSetup'
 import { Player } from './components/Player'
 import { CompletionScreen } from './components/CompletionScreen'
 import { JourneyDetail } from './components/JourneyDetail'
+import { JourneyBuilder } from './components/JourneyBuilder'
 import { SessionBuilder } from './components/SessionBuilder'
+import { SettingsSheet } from './components/SettingsSheet'
+import { PresetImportDialog } from './components/PresetImportDialog'
+import { StorageErrorBanner } from './components/StorageErrorBanner'
+import { HistorySheet } from './components/HistorySheet'
+import { InsightsSheet } from './components/InsightsSheet'
+import { allPresets } from './presets'
+import { journeys } from './journeys'
 
 type View = 'discover' | 'setup' | 'countdown' | 'session'
 
@@ -31,13 +45,20 @@ function App() {
   const wakeLock = useWakeLock()
   const history = useSessionHistory()
   const custom = useCustomPresets()
+  const presetFiles = usePresetFiles(custom.customPresets, custom.importPresets)
+  const storage = useStorageErrors()
   const countdownIntervalRef = useRef<ReturnType<typeof setInterval>>(null)
   // Stable refs for values read inside callbacks to avoid unstable deps
   const audioStateRef = useRef(audio.state)
   audioStateRef.current = audio.state
   const activeJourneyDayRef = useRef<{ journeyId: string; day: number } | null>(null)
   const [lastCompletedSessionId, setLastCompletedSessionId] = useState<string | null>(null)
+  // Check-in from setup, held until the session is logged
+  const sessionPreRatingRef = useRef<SelfRating | undefined>(undefined)
+  const [completionPreRating, setCompletionPreRating] = useState<SelfRating | undefined>(undefined)
   const [selectedJourney, setSelectedJourney] = useState<Journey | null>(null)
+  const [showJourneyBuilder, setShowJourneyBuilder] = useState(false)
+  const [editingJourney, setEditingJourney] = useState<Journey | null>(null)
   const [activeJourneyDay, setActiveJourneyDay] = useState<{ journeyId: string; day: number } | null>(null)
   activeJourneyDayRef.current = activeJourneyDay
   const [completionPreset, setCompletionPreset] = useState<SessionPreset | null>(null)
@@ -45,6 +66,11 @@ function App() {
   const [completedFull, setCompletedFull] = useState(true)
   const [showBuilder, setShowBuilder] = useState(false)
   const [editingPreset, setEditingPreset] = useState<SessionPreset | null>(null)
+  const [showSettings, setShowSettings] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const [showInsights, setShowInsights] = useState(false)
+  const [sharedPreset, setSharedPreset] = useState<SessionPreset | null>(null)
+  const [linkError, setLinkError] = useState<string | null>(null)
 
   // Clean up countdown interval on unmount
   useEffect(() => {
@@ -55,6 +81,47 @@ function App() {
     }
   }, [])
 
+  // Open `#preset=` share links, on load and when pasted into an open tab
+  useEffect(() => {
+    const openLink = () => {
+      const payload = presetLinkPayload(window.location.hash)
+      if (payload === null) return
+      window.history.replaceState(null, '', window.location.pathname + window.location.search)
+      readPresetLink(payload)
+        .then((preset) => {
+          setSharedPreset(preset)
+          setSelectedPreset(preset)
+          setView('setup')
+        })
+        .catch((err) => {
+          if (!(err instanceof FileFormatError)) console.warn('Share link failed:', err)
+          setLinkError(err instanceof FileFormatError ? err.message : 'This link could not be opened')
+        })
+    }
+    openLink()
+    window.addEventListener('hashchange', openLink)
+    return () => window.removeEventListener('hashchange', openLink)
+  }, [])
+
+  const allJourneys = useMemo(() => [...custom.customJourneys, ...journeys], [custom.customJourneys])
+
+  // Open `#journey=` links from reminder notifications. Custom journeys load
+  // asynchronously, so the link waits until its journey is known.
+  useEffect(() => {
+    const openJourney = () => {
+      const id = new URLSearchParams(window.location.hash.slice(1)).get(JOURNEY_LINK_PARAM)
+      const journey = id !== null && allJourneys.find((j) => j.id === id)
+      if (!journey) return
+      window.history.replaceState(null, '', window.location.pathname + window.location.search)
+      setSelectedJourney(journey)
+    }
+    openJourney()
+    window.addEventListener('hashchange', openJourney)
+    return () => window.removeEventListener('hashchange', openJourney)
+  }, [allJourneys])
+
+  useJourneyReminders(history.journeyProgress, allJourneys)
+
   const handlePresetSelect = useCallback((preset: SessionPreset) => {
     setSelectedPreset(preset)
     setView('setup')
@@ -62,11 +129,13 @@ function App() {
 
   const handleSetupClose = useCallback(() => {
     setSelectedPreset(null)
+    setSharedPreset(null)
     setView('discover')
   }, [])
 
   const handleBeginSession = useCallback(
-    async (preset: SessionPreset, options: SessionOptions) => {
+    async (preset: SessionPreset, options: SessionOptions, preRating?: SelfRating) => {
+      sessionPreRatingRef.current = preRating
       setView('countdown')
       setCountdownNum(3)
 
@@ -94,21 +163,26 @@ function App() {
           ambientSound: options.ambientSound,
           ambientVolume: options.ambientVolume,
           voiceEnabled: options.voiceEnabled,
+          speakerMode: options.speakerMode,
+          narration: history.preferences.narration,
+          sleepMode: options.sleepMode,
         })
-        await wakeLock.request()
+        // Overnight sessions let the screen sleep
+        if (!options.sleepMode) await wakeLock.request()
         setView('session')
       } catch (err) {
         console.error('Failed to start session:', err)
         setView('discover')
       }
     },
-    [audio.startSession, wakeLock],
+    [audio.startSession, wakeLock, history.preferences.narration],
   )
 
   const handleDismissSession = useCallback(() => {
     audio.stop()
     wakeLock.release()
     setSelectedPreset(null)
+    setSharedPreset(null)
     setCompletionPreset(null)
     setView('discover')
   }, [audio.stop, wakeLock])
@@ -124,21 +198,30 @@ function App() {
 
     // Save partial session to history
     wakeLock.release()
+    const journeyDay = activeJourneyDayRef.current
     const session = history.addSession({
       presetId: preset.id,
       presetName: preset.name,
       category: preset.category,
+      targetBand: preset.targetBand,
       durationSeconds: Math.round(elapsed),
       completedAt: new Date().toISOString(),
       completedFull: false,
+      preRating: sessionPreRatingRef.current,
+      journeyId: journeyDay?.journeyId,
+      journeyDay: journeyDay?.day,
     })
-    setLastCompletedSessionId(session.id)
+    setLastCompletedSessionId(session?.id ?? null)
+    setCompletionPreRating(sessionPreRatingRef.current)
+    sessionPreRatingRef.current = undefined
+    setActiveJourneyDay(null)
 
     audio.stop()
     setView('discover')
   }, [audio.stop, wakeLock, history])
 
   // MediaSession API for lock screen controls + silent audio keepalive
+  const alarmActive = !!audio.state.alarm && audio.state.elapsed >= audio.state.alarm.rampStart
   useMediaSession({
     preset: audio.state.activePreset,
     isPlaying: audio.state.isPlaying,
@@ -147,8 +230,11 @@ function App() {
     duration: audio.state.duration,
     onPause: audio.pause,
     onResume: audio.resume,
-    onStop: handleEarlyStop,
-    onSeek: audio.seek,
+    // Stopping an alarm ends the night's session as completed
+    onStop: alarmActive ? audio.stopAlarm : handleEarlyStop,
+    // An alarm keeps to the wall clock
+    onSeek: audio.state.alarm ? undefined : audio.seek,
+    onSnooze: alarmActive ? audio.snooze : undefined,
   })
 
   const handleSessionComplete = useCallback(() => {
@@ -159,18 +245,24 @@ function App() {
       setEarlyExitDuration(st.duration)
       setCompletedFull(true)
 
+      const journeyDay = activeJourneyDayRef.current
       const session = history.addSession({
         presetId: st.activePreset.id,
         presetName: st.activePreset.name,
         category: st.activePreset.category,
+        targetBand: st.activePreset.targetBand,
         durationSeconds: Math.round(st.elapsed),
         completedAt: new Date().toISOString(),
         completedFull: true,
+        preRating: sessionPreRatingRef.current,
+        journeyId: journeyDay?.journeyId,
+        journeyDay: journeyDay?.day,
       })
-      setLastCompletedSessionId(session.id)
+      setLastCompletedSessionId(session?.id ?? null)
+      setCompletionPreRating(sessionPreRatingRef.current)
+      sessionPreRatingRef.current = undefined
 
       // Mark journey day as complete if this was a journey session
-      const journeyDay = activeJourneyDayRef.current
       if (journeyDay) {
         history.completeJourneyDay(journeyDay.journeyId, journeyDay.day)
         setActiveJourneyDay(null)
@@ -187,6 +279,15 @@ function App() {
     [lastCompletedSessionId, history],
   )
 
+  const handlePostRating = useCallback(
+    (rating: SelfRating) => {
+      if (lastCompletedSessionId) {
+        history.updateSessionPostRating(lastCompletedSessionId, rating)
+      }
+    },
+    [lastCompletedSessionId, history],
+  )
+
   const handleSelectJourney = useCallback((journey: Journey) => {
     setSelectedJourney(journey)
   }, [])
@@ -225,15 +326,62 @@ function App() {
   }, [custom])
 
   const handleSaveCustom = useCallback((preset: SessionPreset) => {
-    custom.savePreset(preset)
+    // Past the custom session limit the builder stays open, with the banner saying why
+    if (!custom.savePreset(preset)) return
     setShowBuilder(false)
     setEditingPreset(null)
   }, [custom])
 
+  const historyPresets = useMemo(() => [...allPresets, ...custom.customPresets], [custom.customPresets])
+
+  const handleCreateJourney = useCallback(() => {
+    setEditingJourney(null)
+    setShowJourneyBuilder(true)
+  }, [])
+
+  const handleEditJourney = useCallback((journey: Journey) => {
+    setSelectedJourney(null)
+    setEditingJourney(journey)
+    setShowJourneyBuilder(true)
+  }, [])
+
+  const handleSaveJourney = useCallback((journey: Journey) => {
+    if (!custom.saveJourney(journey)) return
+    setShowJourneyBuilder(false)
+    setEditingJourney(null)
+    setSelectedJourney(journey)
+  }, [custom])
+
+  const handleDeleteJourney = useCallback((journeyId: string) => {
+    custom.deleteJourney(journeyId)
+    history.deleteJourneyProgress(journeyId)
+    setSelectedJourney(null)
+  }, [custom, history])
+
+  const handleReplay = useCallback((preset: SessionPreset) => {
+    setShowHistory(false)
+    setSelectedPreset(preset)
+    setView('setup')
+  }, [])
+
+  const handleSaveShared = useCallback((preset: SessionPreset) => {
+    const [saved] = prepareImport([preset], custom.customPresets, 'copy')
+    return custom.savePreset(saved)
+  }, [custom])
+
+  const storageBanner = storage.error && (
+    <StorageErrorBanner message={storage.error} onDismiss={storage.dismiss} />
+  )
+
   if (showOnboarding) {
     return <Onboarding onComplete={handleOnboardingComplete} />
   }
 
+  // History and custom sessions can't be changed until they've been read from storage
+  if (!history.isLoaded || !custom.isLoaded) {
+    return <div className="min-h-dvh" style={{ background: 'var(--color-bg-deep)' }} />
+  }
+
   if (view === 'countdown') {
     return (
       <div className="fixed inset-0 flex items-center justify-center" style={{ background: 'var(--color-bg-deep)' }}>
@@ -247,14 +395,19 @@ function App() {
   // Show CompletionScreen from App level (so it persists after audio stops)
   if (completionPreset) {
     return (
-      <CompletionScreen
-        preset={completionPreset}
-        duration={earlyExitDuration}
-        stats={history.stats}
-        completedFull={completedFull}
-        onMoodSelect={handleMoodSelect}
-        onDone={handleDismissSession}
-      />
+      <>
+        <CompletionScreen
+          preset={completionPreset}
+          duration={earlyExitDuration}
+          stats={history.stats}
+          completedFull={completedFull}
+          onMoodSelect={handleMoodSelect}
+          preRating={completionPreRating}
+          onPostRating={handlePostRating}
+          onDone={handleDismissSession}
+        />
+        {storageBanner}
+      </>
     )
   }
 
@@ -266,6 +419,8 @@ function App() {
         onResume={audio.resume}
         onEarlyStop={handleEarlyStop}
         onSeek={audio.seek}
+        onSnooze={audio.snooze}
+        onStopAlarm={audio.stopAlarm}
         onVolumeChange={audio.setVolume}
         onToggleIsochronic={audio.toggleIsochronic}
         onToggleBreathingGuide={audio.toggleBreathingGuide}
@@ -280,6 +435,8 @@ function App() {
 
   return (
     <div className="min-h-dvh" style={{ background: 'var(--color-bg-deep)' }}>
+      {storageBanner}
+
       <PresetList
         onSelect={handlePresetSelect}
         stats={history.stats}
@@ -287,19 +444,44 @@ function App() {
         onToggleFavorite={history.toggleFavorite}
         journeyProgress={history.journeyProgress}
         onSelectJourney={handleSelectJourney}
+        customJourneys={custom.customJourneys}
+        onCreateJourney={handleCreateJourney}
         customPresets={custom.customPresets}
         onCreateCustom={handleCreateCustom}
         onEditCustom={handleEditCustom}
         onDeleteCustom={handleDeleteCustom}
+        onOpenSettings={() => setShowSettings(true)}
+        onOpenHistory={() => setShowHistory(true)}
+        onOpenInsights={() => setShowInsights(true)}
+        onImportPresets={presetFiles.importFile}
+        onExportPresets={presetFiles.exportPresets}
+        onShareCustom={sharePresetLink}
       />
 
       {selectedJourney && (
         <JourneyDetail
           journey={selectedJourney}
+          presets={historyPresets}
           progress={history.getJourneyProgress(selectedJourney.id)}
+          sessions={history.sessions}
           onClose={handleJourneyClose}
           onStartDay={handleStartJourneyDay}
           onReset={history.resetJourney}
+          onScheduleChange={history.updateJourneySchedule}
+          onEdit={selectedJourney.category === 'custom' ? handleEditJourney : undefined}
+          onDelete={selectedJourney.category === 'custom' ? handleDeleteJourney : undefined}
+        />
+      )}
+
+      {showJourneyBuilder && (
+        <JourneyBuilder
+          editingJourney={editingJourney}
+          presets={historyPresets}
+          onSave={handleSaveJourney}
+          onClose={() => {
+            setShowJourneyBuilder(false)
+            setEditingJourney(null)
+          }}
         />
       )}
 
@@ -308,6 +490,52 @@ function App() {
           preset={selectedPreset}
           onClose={handleSetupClose}
           onBegin={handleBeginSession}
+          onSaveToPresets={selectedPreset === sharedPreset ? handleSaveShared : undefined}
+        />
+      )}
+
+      {showHistory && (
+        <HistorySheet
+          sessions={history.sessions}
+          presets={historyPresets}
+          onReplay={handleReplay}
+          onMoodChange={history.updateSessionMood}
+          onNoteChange={history.updateSessionNote}
+          onDelete={history.deleteSession}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {showInsights && (
+        <InsightsSheet
+          sessions={history.sessions}
+          presets={historyPresets}
+          streaks={history.streaks}
+          onClose={() => setShowInsights(false)}
+        />
+      )}
+
+      {showSettings && (
+        <SettingsSheet
+          preferences={history.preferences}
+          onChange={history.updatePreferences}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {linkError && (
+        <PresetImportDialog
+          state={{ status: 'error', message: linkError }}
+          onResolve={() => {}}
+          onClose={() => setLinkError(null)}
+        />
+      )}
+
+      {presetFiles.importState.status !== 'idle' && (
+        <PresetImportDialog
+          state={presetFiles.importState}
+          onResolve={presetFiles.resolve}
+          onClose={presetFiles.dismiss}
         />
       )}
 
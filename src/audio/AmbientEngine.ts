@@ -1,12 +1,13 @@
 import type { AmbientSoundType } from '../types'
 import { ambientSounds } from './ambientSounds'
+import { scheduleRamp } from './automation'
 
 const MAX_CACHED_BUFFERS = 3
 
 export class AmbientEngine {
   private source: AudioBufferSourceNode | null = null
   private gainNode: GainNode | null = null
-  private ctx: AudioContext | null = null
+  private ctx: BaseAudioContext | null = null
   private destination: AudioNode | null = null
   currentSound: AmbientSoundType = 'none'
   private bufferCache = new Map<string, AudioBuffer>()
@@ -17,10 +18,12 @@ export class AmbientEngine {
   }
 
   async start(
-    ctx: AudioContext,
+    ctx: BaseAudioContext,
     destination: AudioNode,
     sound: AmbientSoundType,
     volume: number,
+    /** Seconds into the (looping) recording to start from */
+    offset = 0,
   ): Promise<void> {
     if (sound === 'none') return
 
@@ -40,7 +43,7 @@ export class AmbientEngine {
 
     this.source.connect(this.gainNode)
     this.gainNode.connect(destination)
-    this.source.start()
+    this.source.start(0, offset % buffer.duration)
   }
 
   setVolume(volume: number): void {
@@ -59,6 +62,17 @@ export class AmbientEngine {
     this.gainNode.gain.linearRampToValueAtTime(targetVolume, now + durationSec)
   }
 
+  /** Drops volume automation scheduled at or after `time` */
+  cancelScheduled(time: number): void {
+    this.gainNode?.gain.cancelScheduledValues(time)
+  }
+
+  /** Schedules a linear volume ramp between two context times */
+  scheduleVolumeRamp(from: number, to: number, startTime: number, endTime: number): void {
+    if (!this.gainNode) return
+    scheduleRamp(this.gainNode.gain, from, to, startTime, endTime)
+  }
+
   stop(): void {
     try {
       this.source?.stop()
@@ -136,7 +150,7 @@ export class AmbientEngine {
   }
 
   private async fetchBuffer(
-    ctx: AudioContext,
+    ctx: BaseAudioContext,
     sound: AmbientSoundType,
   ): Promise<AudioBuffer | null> {
     const meta = ambientSounds.find((s) => s.id === sound)
@@ -1,26 +1,61 @@
-import type { CarrierLayer } from '../types'
+import type { CarrierLayer, BeatMode } from '../types'
+import { scheduleRamp } from './automation'
+import { setStartPhase } from './phase'
+
+/** The lower and higher tone of a carrier layer at a given beat frequency */
+export function beatPairFrequencies(carrierFreq: number, beatFreq: number, mode: BeatMode = 'binaural'): [number, number] {
+  if (mode === 'centered') return [carrierFreq - beatFreq / 2, carrierFreq + beatFreq / 2]
+  return [carrierFreq, carrierFreq + beatFreq]
+}
+
+/**
+ * Cycles the lower and higher tone of a carrier layer have turned through
+ * after `elapsed` seconds, given the cycles of the beat frequency itself
+ * over that time. Both tones are linear in the beat frequency, so their
+ * phase is too; a fixed beat just turns at a constant rate.
+ */
+export function beatPairCycles(layer: CarrierLayer, elapsed: number, beatCycles: number): [number, number] {
+  const mode = layer.beatMode ?? 'binaural'
+  const fixed = layer.fixedBeatFreq
+  const [low0, high0] = beatPairFrequencies(layer.carrierFreq, fixed ?? 0, mode)
+  const [low1, high1] = beatPairFrequencies(layer.carrierFreq, fixed ?? 1, mode)
+  return [
+    low0 * elapsed + (low1 - low0) * beatCycles,
+    high0 * elapsed + (high1 - high0) * beatCycles,
+  ]
+}
+
+/** Stereo pan of the lower and higher tone for a beat mode */
+export function beatPairPans(mode: BeatMode = 'binaural'): [number, number] {
+  switch (mode) {
+    case 'monaural': return [0, 0]
+    case 'swapped': return [1, -1]
+    default: return [-1, 1]
+  }
+}
 
 interface OscillatorPair {
-  left: OscillatorNode
-  right: OscillatorNode
-  leftGain: GainNode
-  rightGain: GainNode
-  leftPan: StereoPannerNode
-  rightPan: StereoPannerNode
+  low: OscillatorNode
+  high: OscillatorNode
+  lowGain: GainNode
+  highGain: GainNode
+  lowPan: StereoPannerNode
+  highPan: StereoPannerNode
   carrierFreq: number
-  /** If set, the right oscillator stays at (carrierFreq + fixedBeatFreq) — ignores envelope ramps */
+  mode: BeatMode
+  /** If set, the pair stays `fixedBeatFreq` apart — ignores envelope ramps */
   fixedBeatFreq?: number
 }
 
 export class BinauralEngine {
-  private ctx: AudioContext | null = null
+  private ctx: BaseAudioContext | null = null
   private masterGain: GainNode | null = null
   private analyser: AnalyserNode | null = null
   private pairs: OscillatorPair[] = []
   private _currentBeatFreq = 0
   private _isRunning = false
 
-  get audioContext(): AudioContext | null {
+  get audioContext(): BaseAudioContext | null {
     return this.ctx
   }
 
@@ -62,9 +97,9 @@ export class BinauralEngine {
     this._isRunning = true
   }
 
-  /** Start with an existing AudioContext (for sharing with IsochronicEngine) */
+  /** Start with an existing context (shared live AudioContext or an OfflineAudioContext) */
   startWithContext(
-    ctx: AudioContext,
+    ctx: BaseAudioContext,
     destination: AudioNode,
     carriers: CarrierLayer[],
     beatFreq: number,
@@ -92,46 +127,77 @@ export class BinauralEngine {
     return { masterGain: this.masterGain, analyser: this.analyser }
   }
 
+  /**
+   * Starts every tone part-way through its cycle — where it would be
+   * `elapsed` seconds into the session, with the beat frequency having
+   * turned `beatCycles` cycles by then. Offline chunks call this so each
+   * one picks up where the previous chunk left off.
+   */
+  setStartPhases(carriers: CarrierLayer[], elapsed: number, beatCycles: number): void {
+    this.pairs.forEach((pair, i) => {
+      const [low, high] = beatPairCycles(carriers[i], elapsed, beatCycles)
+      setStartPhase(pair.low, low)
+      setStartPhase(pair.high, high)
+    })
+  }
+
   private createPair(layer: CarrierLayer, beatFreq: number): OscillatorPair {
     const ctx = this.ctx!
+    const mode = layer.beatMode ?? 'binaural'
+    // fixedBeatFreq: the pair stays this far apart regardless of envelope changes
+    const [lowFreq, highFreq] = beatPairFrequencies(layer.carrierFreq, layer.fixedBeatFreq ?? beatFreq, mode)
+    const [lowPanValue, highPanValue] = beatPairPans(mode)
 
-    const left = ctx.createOscillator()
-    left.type = 'sine'
-    left.frequency.value = layer.carrierFreq
+    const low = ctx.createOscillator()
+    low.type = 'sine'
+    low.frequency.value = lowFreq
 
-    const right = ctx.createOscillator()
-    right.type = 'sine'
-    // fixedBeatFreq: right ear stays at this offset regardless of envelope changes
-    right.frequency.value = layer.carrierFreq + (layer.fixedBeatFreq ?? beatFreq)
+    const high = ctx.createOscillator()
+    high.type = 'sine'
+    high.frequency.value = highFreq
 
     // 0.3 amplitude per oscillator for headroom with multi-layer stacking
     const linearGain = Math.pow(10, layer.gainDb / 20) * 0.3
 
-    const leftGain = ctx.createGain()
-    leftGain.gain.value = linearGain
+    const lowGain = ctx.createGain()
+    lowGain.gain.value = linearGain
 
-    const rightGain = ctx.createGain()
-    rightGain.gain.value = linearGain
+    const highGain = ctx.createGain()
+    highGain.gain.value = linearGain
 
-    // Hard pan: critical for binaural beats
-    const leftPan = ctx.createStereoPanner()
-    leftPan.pan.value = -1
+    // Hard pan for binaural delivery (critical), centre for monaural
+    const lowPan = ctx.createStereoPanner()
+    lowPan.pan.value = lowPanValue
 
-    const rightPan = ctx.createStereoPanner()
-    rightPan.pan.value = 1
+    const highPan = ctx.createStereoPanner()
+    highPan.pan.value = highPanValue
 
-    left.connect(leftGain)
-    leftGain.connect(leftPan)
-    leftPan.connect(this.masterGain!)
+    low.connect(lowGain)
+    lowGain.connect(lowPan)
+    lowPan.connect(this.masterGain!)
 
-    right.connect(rightGain)
-    rightGain.connect(rightPan)
-    rightPan.connect(this.masterGain!)
+    high.connect(highGain)
+    highGain.connect(highPan)
+    highPan.connect(this.masterGain!)
 
-    left.start()
-    right.start()
+    low.start()
+    high.start()
+
+    return {
+      low, high, lowGain, highGain, lowPan, highPan,
+      carrierFreq: layer.carrierFreq,
+      mode,
+      fixedBeatFreq: layer.fixedBeatFreq,
+    }
+  }
 
-    return { left, right, leftGain, rightGain, leftPan, rightPan, carrierFreq: layer.carrierFreq, fixedBeatFreq: layer.fixedBeatFreq }
+  /** Oscillators that follow the envelope, with their frequency at `beatFreq` */
+  private tracked(pair: OscillatorPair, beatFreq: number): Array<[OscillatorNode, number]> {
+    const [lowFreq, highFreq] = beatPairFrequencies(pair.carrierFreq, beatFreq, pair.mode)
+    // Only centered pairs move the lower tone
+    return pair.mode === 'centered'
+      ? [[pair.low, lowFreq], [pair.high, highFreq]]
+      : [[pair.high, highFreq]]
   }
 
   rampBeatFrequency(newBeatFreq: number, durationSec: number): void {
@@ -141,18 +207,19 @@ export class BinauralEngine {
     for (const pair of this.pairs) {
       // Fixed-beat pairs (e.g. 40 Hz Gamma overlay) are immune to envelope ramps
       if (pair.fixedBeatFreq !== undefined) continue
-      const targetFreq = pair.carrierFreq + newBeatFreq
-      pair.right.frequency.cancelScheduledValues(now)
-      pair.right.frequency.setValueAtTime(pair.right.frequency.value, now)
-      // Use linearRamp for small changes (habituation oscillation),
-      // exponentialRamp for larger frequency sweeps
-      if (Math.abs(newBeatFreq - this._currentBeatFreq) < 1) {
-        pair.right.frequency.linearRampToValueAtTime(targetFreq, now + durationSec)
-      } else {
-        pair.right.frequency.exponentialRampToValueAtTime(
-          Math.max(targetFreq, 0.01),
-          now + durationSec,
-        )
+      for (const [osc, targetFreq] of this.tracked(pair, newBeatFreq)) {
+        osc.frequency.cancelScheduledValues(now)
+        osc.frequency.setValueAtTime(osc.frequency.value, now)
+        // Use linearRamp for small changes (habituation oscillation),
+        // exponentialRamp for larger frequency sweeps
+        if (Math.abs(newBeatFreq - this._currentBeatFreq) < 1) {
+          osc.frequency.linearRampToValueAtTime(targetFreq, now + durationSec)
+        } else {
+          osc.frequency.exponentialRampToValueAtTime(
+            Math.max(targetFreq, 0.01),
+            now + durationSec,
+          )
+        }
       }
     }
     this._currentBeatFreq = newBeatFreq
@@ -163,7 +230,7 @@ export class BinauralEngine {
     for (const pair of this.pairs) {
       // Fixed-beat pairs are immune to envelope changes
       if (pair.fixedBeatFreq !== undefined) continue
-      pair.right.frequency.value = pair.carrierFreq + beatFreq
+      for (const [osc, freq] of this.tracked(pair, beatFreq)) osc.frequency.value = freq
     }
     this._currentBeatFreq = beatFreq
   }
@@ -179,13 +246,59 @@ export class BinauralEngine {
     const now = this.ctx.currentTime
     const scaledGain = targetGain * 0.3
 
-    for (const gainNode of [pair.leftGain, pair.rightGain]) {
+    for (const gainNode of [pair.lowGain, pair.highGain]) {
       gainNode.gain.cancelScheduledValues(now)
       gainNode.gain.setValueAtTime(gainNode.gain.value, now)
       gainNode.gain.linearRampToValueAtTime(scaledGain, now + rampSec)
     }
   }
 
+  /**
+   * Schedules the beat frequency along a pre-computed curve on the context
+   * timeline, replacing anything scheduled from `startTime` on.
+   */
+  scheduleBeatCurve(curve: Float32Array, startTime: number, duration: number): void {
+    if (!this.ctx || !this._isRunning || curve.length < 2) return
+    for (const pair of this.pairs) {
+      if (pair.fixedBeatFreq !== undefined) continue
+      const tracked = this.tracked(pair, curve[0])
+      tracked.forEach(([osc], i) => {
+        const values = curve.map((beat) => this.tracked(pair, beat)[i][1])
+        osc.frequency.cancelScheduledValues(startTime)
+        try {
+          osc.frequency.setValueCurveAtTime(values, startTime, duration)
+        } catch {
+          // A curve still in progress can't always be replaced — jump instead
+          osc.frequency.value = values[0]
+        }
+      })
+    }
+    this._currentBeatFreq = curve[0]
+  }
+
+  /** Drops carrier-layer gain automation scheduled at or after `time` */
+  cancelCarrierGains(time: number): void {
+    for (const pair of this.pairs) {
+      pair.lowGain.gain.cancelScheduledValues(time)
+      pair.highGain.gain.cancelScheduledValues(time)
+    }
+  }
+
+  /** Schedules a linear carrier-layer gain ramp (0–1 scale) between two context times */
+  scheduleCarrierGainRamp(layerIndex: number, from: number, to: number, startTime: number, endTime: number): void {
+    if (!this.ctx || layerIndex >= this.pairs.length) return
+    const pair = this.pairs[layerIndex]
+    for (const gainNode of [pair.lowGain, pair.highGain]) {
+      scheduleRamp(gainNode.gain, from * 0.3, to * 0.3, startTime, endTime)
+    }
+  }
+
+  /** Schedules a linear master volume ramp between two context times */
+  scheduleVolumeRamp(from: number, to: number, startTime: number, endTime: number): void {
+    if (!this.masterGain) return
+    scheduleRamp(this.masterGain.gain, from, to, startTime, endTime)
+  }
+
   setVolume(volume: number): void {
     if (!this.masterGain || !this.ctx) return
     const now = this.ctx.currentTime
@@ -205,14 +318,14 @@ export class BinauralEngine {
   private stopNodes(): void {
     for (const pair of this.pairs) {
       try {
-        pair.left.stop()
-        pair.right.stop()
-        pair.left.disconnect()
-        pair.right.disconnect()
-        pair.leftGain.disconnect()
-        pair.rightGain.disconnect()
-        pair.leftPan.disconnect()
-        pair.rightPan.disconnect()
+        pair.low.stop()
+        pair.high.stop()
+        pair.low.disconnect()
+        pair.high.disconnect()
+        pair.lowGain.disconnect()
+        pair.highGain.disconnect()
+        pair.lowPan.disconnect()
+        pair.highPan.disconnect()
       } catch {
         // Already stopped
       }
@@ -232,7 +345,7 @@ export class BinauralEngine {
 
   stop(): void {
     this.stopNodes()
-    if (this.ctx && this.ctx.state !== 'closed') {
+    if (this.ctx instanceof AudioContext && this.ctx.state !== 'closed') {
       this.ctx.close()
     }
     this.ctx = null
@@ -1,24 +1,28 @@
 export class ChimeEngine {
-  private ctx: AudioContext | null = null
+  private ctx: BaseAudioContext | null = null
   private dest: AudioNode | null = null
+  // Oscillators scheduled for the future, with their start times
+  private pending = new Map<OscillatorNode, number>()
 
-  init(ctx: AudioContext, destination: AudioNode): void {
+  init(ctx: BaseAudioContext, destination: AudioNode): void {
     this.ctx = ctx
     this.dest = destination
   }
 
-  playChime(type: 'transition' | 'start' | 'end'): void {
+  /** Plays a chime now, or at a future context time when `when` is given */
+  playChime(type: 'transition' | 'start' | 'end', when?: number): void {
     if (!this.ctx || !this.dest) return
+    const at = when ?? this.ctx.currentTime
 
     switch (type) {
       case 'transition':
-        this.playTransitionChime()
+        this.playTransitionChime(at)
         break
       case 'start':
-        this.playMultiNoteChime([523.25, 659.25, 783.99]) // C5, E5, G5 ascending
+        this.playMultiNoteChime([523.25, 659.25, 783.99], at) // C5, E5, G5 ascending
         break
       case 'end':
-        this.playMultiNoteChime([783.99, 659.25, 523.25]) // G5, E5, C5 descending
+        this.playMultiNoteChime([783.99, 659.25, 523.25], at) // G5, E5, C5 descending
         break
     }
   }
@@ -27,10 +31,10 @@ export class ChimeEngine {
    * Rocket-pan transition FX — a rising-pitch tone sweeping 200→800 Hz over 3 seconds
    * panned hard left to right simultaneously. Used at the Focus 10→12 transition (~25:30).
    */
-  playRocketPan(): void {
+  playRocketPan(when?: number): void {
     if (!this.ctx || !this.dest) return
 
-    const now = this.ctx.currentTime
+    const now = when ?? this.ctx.currentTime
     const duration = 3.0
 
     // Left channel: pitch sweeps upward
@@ -49,6 +53,7 @@ export class ChimeEngine {
     gainLeft.connect(panLeft)
     panLeft.connect(this.dest)
     oscLeft.start(now)
+    this.track(oscLeft, now)
     oscLeft.stop(now + duration)
 
     // Right channel: same sweep but starts slightly after, panned right
@@ -67,18 +72,34 @@ export class ChimeEngine {
     gainRight.connect(panRight)
     panRight.connect(this.dest)
     oscRight.start(now + 0.1)
+    this.track(oscRight, now + 0.1)
     oscRight.stop(now + duration + 0.1)
   }
 
+  /** Silences chimes that were scheduled but haven't started yet */
+  cancelScheduled(): void {
+    const now = this.ctx?.currentTime ?? 0
+    for (const [osc, start] of this.pending) {
+      if (start > now) {
+        try { osc.stop() } catch { /* */ }
+      }
+    }
+    this.pending.clear()
+  }
+
   stop(): void {
+    this.pending.clear()
     this.ctx = null
     this.dest = null
   }
 
-  private playTransitionChime(): void {
-    if (!this.ctx || !this.dest) return
+  private track(osc: OscillatorNode, start: number): void {
+    this.pending.set(osc, start)
+    osc.onended = () => this.pending.delete(osc)
+  }
 
-    const now = this.ctx.currentTime
+  private playTransitionChime(now: number): void {
+    if (!this.ctx || !this.dest) return
 
     // Two-tone bell: 784 Hz + 1175 Hz
     const frequencies = [784, 1175]
@@ -97,13 +118,12 @@ export class ChimeEngine {
 
       osc.start(now)
       osc.stop(now + 2)
+      this.track(osc, now)
     }
   }
 
-  private playMultiNoteChime(frequencies: number[]): void {
+  private playMultiNoteChime(frequencies: number[], now: number): void {
     if (!this.ctx || !this.dest) return
-
-    const now = this.ctx.currentTime
     const spacing = 0.15 // 150ms between notes
 
     for (let i = 0; i < frequencies.length; i++) {
@@ -123,6 +143,7 @@ export class ChimeEngine {
 
       osc.start(noteStart)
       osc.stop(noteStart + 1.5)
+      this.track(osc, noteStart)
     }
   }
 }
@@ -1,61 +1,119 @@
+import { scheduleRamp } from './automation'
+import { setStartPhase } from './phase'
+import { workletsReady } from './worklets'
+
+/** Slowest gate rate (the slowest beat a preset may use) — the worklet applies the same floor */
+export const MIN_PULSE_HZ = 0.1
+
 /**
  * Isochronic tone generator — pulses a single tone on/off at the target
- * brainwave frequency. Uses trapezoidal envelope (2ms attack/release)
- * to avoid clicks. Only effective for frequencies >= 8 Hz.
+ * brainwave frequency. Uses trapezoidal envelope (2ms attack/release by
+ * default) to avoid clicks. Most effective for frequencies >= 8 Hz; speaker
+ * mode runs it lower with softened pulses.
+ *
+ * The on/off gate is generated by the 'isochronic-pulse' AudioWorklet
+ * processor, so pulses stay sample-accurate when the page is throttled in
+ * the background. Call loadWorklets(ctx) before start().
  */
 export class IsochronicEngine {
-  private ctx: AudioContext | null = null
+  private ctx: BaseAudioContext | null = null
   private oscillator: OscillatorNode | null = null
   private pulseGain: GainNode | null = null
   private masterGain: GainNode | null = null
-  private schedulerInterval: ReturnType<typeof setInterval> | null = null
+  private gate: AudioWorkletNode | null = null
   private _beatFreq = 10
   private _isRunning = false
-  private lastScheduledTime = 0
+  private pulseRamp = 0
 
   get isRunning(): boolean {
     return this._isRunning
   }
 
   start(
-    ctx: AudioContext,
+    ctx: BaseAudioContext,
     destination: AudioNode,
     carrierFreq: number,
     beatFreq: number,
     volume: number,
+    /** Seconds already played — offline chunks pick the carrier up mid-cycle */
+    elapsed = 0,
+    /** Cycles the gate has already turned through by then */
+    gateCycles = 0,
   ): void {
     this.stop()
+    if (!workletsReady(ctx)) {
+      console.warn('IsochronicEngine: worklets not loaded on this context')
+      return
+    }
     this.ctx = ctx
-    this._beatFreq = beatFreq
+    this._beatFreq = Math.max(beatFreq, MIN_PULSE_HZ)
 
     this.oscillator = ctx.createOscillator()
     this.oscillator.type = 'sine'
     this.oscillator.frequency.value = carrierFreq
+    if (elapsed > 0) setStartPhase(this.oscillator, carrierFreq * elapsed)
 
-    // Pulse gain — modulated on/off at beat frequency
+    // Pulse gain — opened and closed by the worklet's gate signal
     this.pulseGain = ctx.createGain()
     this.pulseGain.gain.value = 0
 
+    this.gate = new AudioWorkletNode(ctx, 'isochronic-pulse', {
+      numberOfInputs: 0,
+      numberOfOutputs: 1,
+      outputChannelCount: [1],
+      parameterData: { beatFreq: this._beatFreq },
+      processorOptions: { rampFraction: this.pulseRamp, phase: gateCycles - Math.floor(gateCycles) },
+    })
+
     // Master gain for overall volume (at -6dB relative to binaural)
     this.masterGain = ctx.createGain()
     this.masterGain.gain.value = volume * 0.5
 
+    this.gate.connect(this.pulseGain.gain)
     this.oscillator.connect(this.pulseGain)
     this.pulseGain.connect(this.masterGain)
     this.masterGain.connect(destination)
 
     this.oscillator.start()
-    this.lastScheduledTime = ctx.currentTime
-
-    // Schedule first batch and start recurring scheduler
-    this.schedulePulses()
-    this.schedulerInterval = setInterval(() => this.schedulePulses(), 900)
-
     this._isRunning = true
   }
 
+  private get beatParam(): AudioParam | null {
+    return this.gate?.parameters.get('beatFreq') ?? null
+  }
+
   setBeatFrequency(freq: number): void {
-    this._beatFreq = Math.max(freq, 1)
+    this._beatFreq = Math.max(freq, MIN_PULSE_HZ)
+    const param = this.beatParam
+    if (!param || !this.ctx) return
+    param.cancelScheduledValues(this.ctx.currentTime)
+    param.setValueAtTime(this._beatFreq, this.ctx.currentTime)
+  }
+
+  /**
+   * Follows a pre-computed beat frequency curve on the context timeline,
+   * replacing anything scheduled from `startTime` on.
+   */
+  scheduleBeatCurve(curve: Float32Array, startTime: number, duration: number): void {
+    const param = this.beatParam
+    if (!param || curve.length < 2) return
+    param.cancelScheduledValues(startTime)
+    try {
+      param.setValueCurveAtTime(curve, startTime, duration)
+    } catch {
+      // A curve still in progress can't always be replaced — jump instead
+      param.value = curve[0]
+    }
+    this._beatFreq = Math.max(curve[0], MIN_PULSE_HZ)
+  }
+
+  /**
+   * Softens the pulse envelope: each attack and release takes this fraction
+   * of the pulse period (0 = the default 2ms edges, up to 0.25).
+   */
+  setPulseRamp(fraction: number): void {
+    this.pulseRamp = Math.max(0, Math.min(fraction, 0.25))
+    this.gate?.port.postMessage({ rampFraction: this.pulseRamp })
   }
 
   setVolume(volume: number): void {
@@ -66,67 +124,28 @@ export class IsochronicEngine {
     this.masterGain.gain.linearRampToValueAtTime(volume * 0.5, now + 0.05)
   }
 
+  /** Schedules a linear volume ramp between two context times */
+  scheduleVolumeRamp(from: number, to: number, startTime: number, endTime: number): void {
+    if (!this.masterGain) return
+    scheduleRamp(this.masterGain.gain, from * 0.5, to * 0.5, startTime, endTime)
+  }
+
   stop(): void {
-    if (this.schedulerInterval) {
-      clearInterval(this.schedulerInterval)
-      this.schedulerInterval = null
-    }
     try {
       this.oscillator?.stop()
       this.oscillator?.disconnect()
     } catch { /* */ }
+    if (this.gate) {
+      this.gate.port.postMessage({ stop: true })
+      try { this.gate.disconnect() } catch { /* */ }
+    }
     try { this.pulseGain?.disconnect() } catch { /* */ }
     try { this.masterGain?.disconnect() } catch { /* */ }
     this.oscillator = null
+    this.gate = null
     this.pulseGain = null
     this.masterGain = null
     this.ctx = null
     this._isRunning = false
   }
-
-  /**
-   * Pre-schedules ~1.1 seconds of on/off gain ramps using Web Audio's
-   * built-in scheduler. Trapezoidal envelope: 2ms attack, 2ms release.
-   */
-  private schedulePulses(): void {
-    if (!this.ctx || !this.pulseGain) return
-
-    const now = this.ctx.currentTime
-    const scheduleAhead = 1.1 // seconds
-    const endTime = now + scheduleAhead
-
-    // If lastScheduledTime is too far in the past (e.g., after tab backgrounding),
-    // reset to now to avoid scheduling a huge backlog of pulses
-    const startFrom = this.lastScheduledTime < now - 0.1
-      ? now
-      : Math.max(this.lastScheduledTime, now)
-
-    // Cancel any previously scheduled values beyond startFrom to prevent overlap
-    this.pulseGain.gain.cancelScheduledValues(startFrom)
-
-    const period = 1 / this._beatFreq
-    const halfPeriod = period / 2
-    const rampTime = 0.002 // 2ms attack/release
-
-    let t = startFrom
-    while (t < endTime) {
-      const onEnd = t + halfPeriod
-      const offEnd = t + period
-
-      // Ramp up (attack)
-      this.pulseGain.gain.setValueAtTime(0, t)
-      this.pulseGain.gain.linearRampToValueAtTime(1, t + rampTime)
-
-      // Ramp down (release)
-      this.pulseGain.gain.setValueAtTime(1, onEnd - rampTime)
-      this.pulseGain.gain.linearRampToValueAtTime(0, onEnd)
-
-      // Hold off until next cycle
-      this.pulseGain.gain.setValueAtTime(0, offEnd)
-
-      t = offEnd
-    }
-
-    this.lastScheduledTime = t
-  }
 }
@@ -0,0 +1,178 @@
+import type { IsochronicLayer, PulseShape } from '../types'
+import { setStartPhase } from './phase'
+
+/**
+ * Scripted multi-tone isochronic pulses for one IsochronicWindow.
+ *
+ * Each layer is its own carrier tone gated by a low-frequency oscillator
+ * running at the layer's pulse rate. The LFO plays a PeriodicWave built from
+ * the pulse shape and duty cycle, so a whole window of pulses costs a single
+ * oscillator per layer instead of thousands of gain automation events — and
+ * renders identically live and offline.
+ *
+ * Like SAMEngine, the whole window (fade-in, pulses, fade-out and stop) is
+ * scheduled on the context timeline when it starts.
+ */
+export interface PulseScheduleWindow {
+  /** Context time the layers start */
+  startTime: number
+  /** Context time the 2s fade-out begins */
+  endTime: number
+  /** Fade in over 3s from startTime (false when resuming mid-window) */
+  fadeIn: boolean
+  /** Seconds of the window already played — tones and pulses resume mid-cycle */
+  elapsed?: number
+}
+
+/** Harmonics used to build each pulse shape */
+const PULSE_HARMONICS = 48
+/** Samples per cycle used to analyse a pulse shape */
+const PULSE_RESOLUTION = 1024
+
+interface LayerNodes {
+  oscillator: OscillatorNode
+  lfo: OscillatorNode
+  pulseGain: GainNode
+  layerGain: GainNode
+}
+
+/** Gate level (0–1) at `x` (0–1) through one cycle of a pulse */
+function pulseLevel(shape: PulseShape, duty: number, x: number): number {
+  if (x >= duty) return 0
+  const p = x / duty
+  switch (shape) {
+    case 'sine':
+      return 0.5 - 0.5 * Math.cos(2 * Math.PI * p)
+    case 'sawtooth':
+      // Instant attack, linear decay across the on-time
+      return 1 - p
+    default: {
+      // Trapezoid: short linear attack and release, held in between
+      const edge = 0.1
+      if (p < edge) return p / edge
+      if (p > 1 - edge) return (1 - p) / edge
+      return 1
+    }
+  }
+}
+
+/**
+ * Fourier coefficients of a pulse shape, with Lanczos smoothing so sharp
+ * edges don't ring above full level. Returns the mean (the DC term a
+ * PeriodicWave can't carry) alongside the wave's real/imag arrays.
+ */
+function pulseSeries(shape: PulseShape, duty: number): { mean: number; real: Float32Array; imag: Float32Array } {
+  const samples = new Float32Array(PULSE_RESOLUTION)
+  let mean = 0
+  for (let i = 0; i < PULSE_RESOLUTION; i++) {
+    samples[i] = pulseLevel(shape, duty, i / PULSE_RESOLUTION)
+    mean += samples[i]
+  }
+  mean /= PULSE_RESOLUTION
+
+  const real = new Float32Array(PULSE_HARMONICS + 1)
+  const imag = new Float32Array(PULSE_HARMONICS + 1)
+  for (let k = 1; k <= PULSE_HARMONICS; k++) {
+    let a = 0
+    let b = 0
+    for (let i = 0; i < PULSE_RESOLUTION; i++) {
+      const phase = (2 * Math.PI * k * i) / PULSE_RESOLUTION
+      a += samples[i] * Math.cos(phase)
+      b += samples[i] * Math.sin(phase)
+    }
+    const x = (Math.PI * k) / (PULSE_HARMONICS + 1)
+    const sigma = Math.sin(x) / x
+    real[k] = ((2 * a) / PULSE_RESOLUTION) * sigma
+    imag[k] = ((2 * b) / PULSE_RESOLUTION) * sigma
+  }
+  return { mean, real, imag }
+}
+
+export class IsochronicWindowEngine {
+  private masterGain: GainNode | null = null
+  private layers: LayerNodes[] = []
+  private _isRunning = false
+
+  get isRunning(): boolean {
+    return this._isRunning
+  }
+
+  start(
+    ctx: BaseAudioContext,
+    destination: AudioNode,
+    layers: IsochronicLayer[],
+    volume: number,
+    window: PulseScheduleWindow,
+  ): void {
+    this.stop()
+    const { startTime, endTime } = window
+    const level = volume * 0.5 // same headroom as IsochronicEngine
+    const elapsed = window.elapsed ?? 0
+
+    this.masterGain = ctx.createGain()
+    this.masterGain.gain.value = 0
+    if (window.fadeIn) {
+      this.masterGain.gain.setValueAtTime(0, startTime)
+      this.masterGain.gain.linearRampToValueAtTime(level, startTime + 3)
+    } else {
+      this.masterGain.gain.setValueAtTime(level, startTime)
+    }
+    this.masterGain.gain.setValueAtTime(level, endTime)
+    this.masterGain.gain.linearRampToValueAtTime(0, endTime + 2)
+    this.masterGain.connect(destination)
+
+    for (const layer of layers) {
+      const duty = Math.max(0.05, Math.min(layer.dutyCycle ?? 0.5, 1))
+      const { mean, real, imag } = pulseSeries(layer.shape ?? 'trapezoid', duty)
+
+      const oscillator = ctx.createOscillator()
+      oscillator.type = 'sine'
+      oscillator.frequency.value = layer.carrierFreq
+      if (elapsed > 0) setStartPhase(oscillator, layer.carrierFreq * elapsed)
+
+      // Gate = mean level + the shape's AC part from the LFO
+      const pulseGain = ctx.createGain()
+      pulseGain.gain.value = mean
+
+      const lfo = ctx.createOscillator()
+      setStartPhase(lfo, layer.pulseHz * elapsed, { real, imag })
+      lfo.frequency.value = layer.pulseHz
+
+      const layerGain = ctx.createGain()
+      layerGain.gain.value = Math.pow(10, (layer.gainDb ?? 0) / 20)
+
+      lfo.connect(pulseGain.gain)
+      oscillator.connect(pulseGain)
+      pulseGain.connect(layerGain)
+      layerGain.connect(this.masterGain)
+
+      oscillator.start(startTime)
+      lfo.start(startTime)
+      oscillator.stop(endTime + 2)
+      lfo.stop(endTime + 2)
+
+      this.layers.push({ oscillator, lfo, pulseGain, layerGain })
+    }
+
+    this._isRunning = true
+  }
+
+  stop(): void {
+    for (const layer of this.layers) {
+      try {
+        layer.oscillator.stop()
+        layer.lfo.stop()
+      } catch { /* */ }
+      try {
+        layer.oscillator.disconnect()
+        layer.lfo.disconnect()
+        layer.pulseGain.disconnect()
+        layer.layerGain.disconnect()
+      } catch { /* */ }
+    }
+    this.layers = []
+    try { this.masterGain?.disconnect() } catch { /* */ }
+    this.masterGain = null
+    this._isRunning = false
+  }
+}
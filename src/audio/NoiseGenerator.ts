@@ -1,4 +1,6 @@
 import type { NoiseType, NoiseFilterConfig } from '../types'
+import { scheduleRamp } from './automation'
+import { setStartPhase } from './phase'
 
 export class NoiseGenerator {
   private source: AudioBufferSourceNode | null = null
@@ -7,35 +9,27 @@ export class NoiseGenerator {
   private breathingGain: GainNode | null = null
   private breathingLFO: OscillatorNode | null = null
   private breathingLFOGain: GainNode | null = null
-  private ctx: AudioContext | null = null
+  private ctx: BaseAudioContext | null = null
+  /** Generated loops by noise type, reused while the sample rate stays the same */
+  private buffers = new Map<NoiseType, AudioBuffer>()
 
   get isRunning(): boolean {
     return this.source !== null
   }
 
   start(
-    ctx: AudioContext,
+    ctx: BaseAudioContext,
     destination: AudioNode,
     type: NoiseType,
     volume: number,
     filterConfig?: NoiseFilterConfig,
+    /** Seconds into the session to pick up from (offline chunks) */
+    offset = 0,
   ): void {
     if (type === 'none') return
     this.ctx = ctx
 
-    // 10-second buffer to avoid audible loop artifacts
-    const bufferSize = ctx.sampleRate * 10
-    const buffer = ctx.createBuffer(2, bufferSize, ctx.sampleRate)
-
-    for (let ch = 0; ch < 2; ch++) {
-      const data = buffer.getChannelData(ch)
-      if (type === 'pink') {
-        this.fillPinkNoise(data)
-      } else {
-        this.fillBrownNoise(data)
-      }
-    }
-
+    const buffer = this.loopBuffer(ctx, type)
     this.source = ctx.createBufferSource()
     this.source.buffer = buffer
     this.source.loop = true
@@ -64,6 +58,7 @@ export class NoiseGenerator {
       this.breathingLFO = ctx.createOscillator()
       this.breathingLFO.type = 'sine'
       this.breathingLFO.frequency.value = 0.2 // 12 cycles/min
+      if (offset > 0) setStartPhase(this.breathingLFO, 0.2 * offset)
 
       this.breathingLFOGain = ctx.createGain()
       this.breathingLFOGain.gain.value = 0.12 // ±12% amplitude swing
@@ -78,7 +73,7 @@ export class NoiseGenerator {
 
     this.source.connect(this.gainNode)
     chainEnd.connect(destination)
-    this.source.start()
+    this.source.start(0, offset % buffer.duration)
   }
 
   setVolume(volume: number): void {
@@ -97,6 +92,12 @@ export class NoiseGenerator {
     this.gainNode.gain.linearRampToValueAtTime(targetVolume, now + durationSec)
   }
 
+  /** Schedules a linear volume ramp between two context times */
+  scheduleVolumeRamp(from: number, to: number, startTime: number, endTime: number): void {
+    if (!this.gainNode) return
+    scheduleRamp(this.gainNode.gain, from, to, startTime, endTime)
+  }
+
   stop(): void {
     try {
       this.source?.stop()
@@ -119,6 +120,24 @@ export class NoiseGenerator {
     this.ctx = null
   }
 
+  /** 10-second stereo loop — long enough to avoid audible loop artifacts */
+  private loopBuffer(ctx: BaseAudioContext, type: NoiseType): AudioBuffer {
+    const cached = this.buffers.get(type)
+    if (cached && cached.sampleRate === ctx.sampleRate) return cached
+
+    const buffer = ctx.createBuffer(2, ctx.sampleRate * 10, ctx.sampleRate)
+    for (let ch = 0; ch < 2; ch++) {
+      const data = buffer.getChannelData(ch)
+      if (type === 'pink') {
+        this.fillPinkNoise(data)
+      } else {
+        this.fillBrownNoise(data)
+      }
+    }
+    this.buffers.set(type, buffer)
+    return buffer
+  }
+
   /** Pink noise — Paul Kellet's refined Voss-McCartney (1/f spectrum) */
   private fillPinkNoise(data: Float32Array): void {
     let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0
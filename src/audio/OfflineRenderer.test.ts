@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import { nextQuietTime } from './OfflineRenderer'
+
+describe('nextQuietTime', () => {
+  it('keeps a boundary that falls in a quiet moment, on the next curve point', () => {
+    expect(nextQuietTime(300, [[100, 200]], 600)).toBe(300)
+    expect(nextQuietTime(300.1, [], 600)).toBe(300.25)
+  })
+
+  it('moves past a voice clip and its preroll', () => {
+    expect(nextQuietTime(300, [[295, 310.1]], 600)).toBe(310.5)
+    // The preroll before the boundary must clear the clip too
+    expect(nextQuietTime(300, [[290, 299.9]], 600)).toBe(300.25)
+  })
+
+  it('follows clips that run on from one another', () => {
+    expect(nextQuietTime(300, [[320, 330], [299, 320.1]], 600)).toBe(330.25)
+  })
+
+  it('splits at the latest time when narration never pauses', () => {
+    const narration = Array.from({ length: 100 }, (_, i): [number, number] => [290 + i * 10, 300 + i * 10])
+    expect(nextQuietTime(300, narration, 600)).toBe(600)
+    expect(nextQuietTime(300, narration, 600.1)).toBe(600)
+  })
+})
@@ -0,0 +1,339 @@
+import type { SessionPreset, AmbientSoundType } from '../types'
+import { BinauralEngine } from './BinauralEngine'
+import { NoiseGenerator } from './NoiseGenerator'
+import { IsochronicEngine, MIN_PULSE_HZ } from './IsochronicEngine'
+import { AmbientEngine } from './AmbientEngine'
+import { VoiceCueEngine } from './VoiceCueEngine'
+import { ChimeEngine } from './ChimeEngine'
+import { PhasedNoiseEngine, MIN_PAN_HZ } from './PhasedNoiseEngine'
+import { ResonantToneEngine } from './ResonantToneEngine'
+import { SAMEngine } from './SAMEngine'
+import { IsochronicWindowEngine } from './IsochronicWindowEngine'
+import { SessionTimeline, CURVE_RATE } from './SessionTimeline'
+import { buildRamps, scheduleRamp, scheduleRamps, type Ramp } from './automation'
+import { crossfade } from './phase'
+import { loadWorklets } from './worklets'
+import { WavEncoder, FlacEncoder, type AudioEncoder } from './encoders'
+
+export type ExportFormat = 'wav' | 'flac'
+
+export interface ExportOptions {
+  format: ExportFormat
+  sampleRate?: number
+  volume?: number
+  isochronicEnabled?: boolean
+  ambientSound?: AmbientSoundType
+  ambientVolume?: number
+  voiceEnabled?: boolean
+  /** Called after each rendered chunk with overall progress (0–1) */
+  onProgress?: (progress: number) => void
+}
+
+/** Nominal chunk length — keeps each OfflineAudioContext's buffer small */
+const CHUNK_SECONDS = 300
+/** Longest a chunk may grow while its boundary waits for a quiet moment */
+const MAX_CHUNK_SECONDS = 600
+/** Overlap rendered before each chunk boundary and crossfaded away */
+const PREROLL_SECONDS = 0.25
+/** Fade-out appended after the session ends */
+const TAIL_SECONDS = 5
+/** Roughly how long a chime rings after it is triggered */
+const CHIME_SECONDS = 4
+
+interface VoiceClip {
+  buffer: AudioBuffer
+  start: number
+  stop: number
+}
+
+/** Everything about a render that doesn't depend on which chunk is being rendered */
+interface RenderPlan {
+  timeline: SessionTimeline
+  sampleRate: number
+  volume: number
+  isochronic: boolean
+  ambientSound: AmbientSoundType
+  busRamps: Ramp[]
+  binauralRamps: Ramp[]
+  noiseRamps: Ramp[]
+  ambientRamps: Ramp[]
+  voiceClips: VoiceClip[]
+  voiceVolume: number
+  /** Session-time spans a chunk boundary should not cut through */
+  busy: Array<[number, number]>
+}
+
+/**
+ * Renders a complete SessionPreset to a stereo audio file without playing it.
+ *
+ * The preset's compiled SessionTimeline — beat frequency curve, carrier gain
+ * events, ambient fades, SAM and isochronic windows, voice cues and chimes —
+ * is scheduled onto OfflineAudioContext time, just as SessionManager
+ * schedules it onto the live AudioContext. Long sessions are rendered a few minutes at a time to
+ * bound memory, with a short crossfade at each chunk boundary.
+ * Boundaries are nudged so they never cut through a chime, voice cue or
+ * window transition, and land on a beat curve point.
+ *
+ * Each chunk picks every tone up at the phase it had reached, and noise and
+ * ambient loops at the same position, so the overlap at a boundary renders
+ * the same audio twice and the crossfade between the copies is seamless.
+ */
+export class OfflineRenderer {
+  private cancelled = false
+  private ambient = new AmbientEngine()
+  // Held across chunks so each one loops the same noise
+  private noise = new NoiseGenerator()
+  private phasedNoise = new PhasedNoiseEngine()
+
+  cancel(): void {
+    this.cancelled = true
+  }
+
+  async render(preset: SessionPreset, options: ExportOptions): Promise<Blob> {
+    this.cancelled = false
+    const plan = await this.buildPlan(preset, options)
+    const { sampleRate } = plan
+    const encoder: AudioEncoder = options.format === 'flac'
+      ? new FlacEncoder(sampleRate)
+      : new WavEncoder(sampleRate)
+
+    const totalSamples = Math.ceil((preset.duration + TAIL_SECONDS) * sampleRate)
+    const overlap = Math.round(PREROLL_SECONDS * sampleRate)
+    let held: Float32Array[] | null = null
+    let start = 0
+
+    while (start < totalSamples) {
+      this.throwIfCancelled()
+
+      const boundary = nextQuietTime(start / sampleRate + CHUNK_SECONDS, plan.busy, start / sampleRate + MAX_CHUNK_SECONDS)
+      let end = Math.round(boundary * sampleRate)
+      if (end >= totalSamples - overlap) end = totalSamples
+
+      const baseSample = start === 0 ? 0 : start - overlap
+      const buffer = await this.renderChunk(plan, baseSample, end - baseSample)
+      this.throwIfCancelled()
+
+      const channels = [buffer.getChannelData(0), buffer.getChannelData(1)]
+      let from = 0
+      if (held) {
+        encoder.append(held.map((tail, c) => crossfade(tail, channels[c].subarray(0, overlap))))
+        from = overlap
+      }
+
+      if (end === totalSamples) {
+        encoder.append(channels.map((ch) => ch.subarray(from)))
+        held = null
+      } else {
+        encoder.append(channels.map((ch) => ch.subarray(from, ch.length - overlap)))
+        held = channels.map((ch) => ch.slice(ch.length - overlap))
+      }
+
+      start = end
+      options.onProgress?.(end / totalSamples)
+    }
+
+    return encoder.finish()
+  }
+
+  // ── Planning ────────────────────────────────────────
+
+  private async buildPlan(preset: SessionPreset, options: ExportOptions): Promise<RenderPlan> {
+    const timeline = new SessionTimeline(preset)
+    const sampleRate = options.sampleRate ?? 44100
+    const volume = options.volume ?? 0.7
+    const ambientSound = options.ambientSound ?? preset.ambientSound
+    const ambientVolume = options.ambientVolume ?? preset.ambientVolume
+    const noiseVolume = preset.noiseVolume * volume
+
+    const voiceClips = timeline.isGuided && options.voiceEnabled !== false
+      ? await this.loadVoiceClips(timeline, sampleRate)
+      : []
+
+    // Everything but the chimes fades out together once the session is over
+    const busy = timeline.transitions(CHIME_SECONDS)
+    busy.push([preset.duration, preset.duration + TAIL_SECONDS])
+    for (const clip of voiceClips) busy.push([clip.start, clip.stop])
+
+    return {
+      timeline,
+      sampleRate,
+      volume,
+      isochronic: (options.isochronicEnabled ?? false) && preset.isochronicAvailable,
+      ambientSound,
+      busRamps: buildRamps(1, [{ time: preset.duration, target: 0, durationSec: TAIL_SECONDS }]),
+      binauralRamps: buildRamps(0, [{ time: 0, target: volume, durationSec: 2 }]),
+      noiseRamps: buildRamps(0, [{ time: 0, target: noiseVolume, durationSec: 2 }]),
+      ambientRamps: timeline.ambientRamps(ambientVolume),
+      voiceClips,
+      voiceVolume: preset.guidanceScript?.voiceVolume ?? 0.71,
+      busy,
+    }
+  }
+
+  /** Decodes every narration clip and works out when each one is cut off */
+  private async loadVoiceClips(timeline: SessionTimeline, sampleRate: number): Promise<VoiceClip[]> {
+    const { preset, voiceCues: cues } = timeline
+    const loader = new OfflineAudioContext(2, 1, sampleRate)
+    const voice = new VoiceCueEngine()
+    voice.init(loader, loader.destination, preset.id, cues)
+    const buffers = await voice.loadAllBuffers()
+    voice.stop()
+
+    const clips: VoiceClip[] = []
+    for (let i = 0; i < cues.length; i++) {
+      const buffer = buffers.get(i)
+      if (!buffer) continue
+      // A new spoken cue (or the end of the session) stops the previous one
+      const next = cues.slice(i + 1).find((c) => !c.chimeOnly && c.text && c.time > cues[i].time)
+      const stop = Math.min(cues[i].time + buffer.duration, next?.time ?? Infinity, preset.duration)
+      clips.push({ buffer, start: cues[i].time, stop })
+    }
+    return clips
+  }
+
+  // ── Chunk rendering ─────────────────────────────────
+
+  private async renderChunk(plan: RenderPlan, baseSample: number, length: number): Promise<AudioBuffer> {
+    const { timeline, sampleRate, volume } = plan
+    const preset = timeline.preset
+    const script = preset.guidanceScript ?? null
+    const ctx = new OfflineAudioContext(2, length, sampleRate)
+    await loadWorklets(ctx)
+    const base = baseSample / sampleRate
+    const seconds = length / sampleRate
+    const end = base + seconds
+
+    const bus = ctx.createGain()
+    bus.connect(ctx.destination)
+    scheduleRamps(1, plan.busRamps, base, (from, to, s, e) => scheduleRamp(bus.gain, from, to, s, e))
+
+    const { curve, duration: curveDuration } = timeline.beatCurve(base, end)
+
+    const binaural = new BinauralEngine()
+    binaural.startWithContext(ctx, bus, preset.carriers, curve[0], 0)
+    binaural.setStartPhases(preset.carriers, base, timeline.beatCycles(base))
+    binaural.scheduleBeatCurve(curve, 0, curveDuration)
+    scheduleRamps(0, plan.binauralRamps, base, (from, to, s, e) => binaural.scheduleVolumeRamp(from, to, s, e))
+    for (const [index, { initial, ramps }] of timeline.carrierRamps) {
+      scheduleRamps(initial, ramps, base, (from, to, s, e) => binaural.scheduleCarrierGainRamp(index, from, to, s, e))
+    }
+
+    if (script?.phasedNoise) {
+      const panCycles = timeline.beatCycles(base, MIN_PAN_HZ)
+      this.phasedNoise.start(ctx, bus, curve[0], preset.noiseVolume * volume, base, panCycles)
+      this.phasedNoise.schedulePanCurve(curve, 0, curveDuration)
+    } else if (preset.noiseType !== 'none') {
+      this.noise.start(ctx, bus, preset.noiseType, 0, script?.noiseFilter, base)
+      scheduleRamps(0, plan.noiseRamps, base, (from, to, s, e) => this.noise.scheduleVolumeRamp(from, to, s, e))
+    }
+
+    if (plan.isochronic) {
+      const isochronic = new IsochronicEngine()
+      const gateCycles = timeline.beatCycles(base, MIN_PULSE_HZ)
+      isochronic.start(ctx, bus, preset.carriers[0].carrierFreq, curve[0], volume, base, gateCycles)
+      isochronic.scheduleBeatCurve(curve, 0, curveDuration)
+    }
+
+    if (plan.ambientSound !== 'none') {
+      await this.ambient.start(ctx, bus, plan.ambientSound, 0, base)
+      scheduleRamps(0, plan.ambientRamps, base, (from, to, s, e) => this.ambient.scheduleVolumeRamp(from, to, s, e))
+    }
+
+    if (timeline.resonantTuning) {
+      const rt = timeline.resonantTuning
+      const stopAt = Math.min(rt.endTime, preset.duration)
+      if (rt.startTime < end && stopAt > base) {
+        const tone = new ResonantToneEngine()
+        tone.start(
+          ctx,
+          bus,
+          rt.frequency ?? 136,
+          rt.gainDb ?? -6,
+          Math.max(rt.startTime - base, 0),
+          rt.startTime >= base,
+          Math.max(base - rt.startTime, 0),
+        )
+        tone.scheduleStop(stopAt - base)
+      }
+    }
+
+    for (const win of timeline.samWindows) {
+      const stopAt = Math.min(win.endTime, preset.duration)
+      if (win.startTime >= end || stopAt <= base) continue
+      new SAMEngine().start(ctx, bus, win.rotationHz, win.mode, volume, win.carrierFreq ?? 303, {
+        startTime: Math.max(win.startTime - base, 0),
+        endTime: stopAt - base,
+        fadeIn: win.startTime >= base,
+        elapsed: Math.max(base - win.startTime, 0),
+      }, win)
+    }
+
+    for (const win of timeline.isochronicWindows) {
+      const stopAt = Math.min(win.endTime, preset.duration)
+      if (win.startTime >= end || stopAt <= base) continue
+      new IsochronicWindowEngine().start(ctx, bus, win.layers, volume, {
+        startTime: Math.max(win.startTime - base, 0),
+        endTime: stopAt - base,
+        fadeIn: win.startTime >= base,
+        elapsed: Math.max(base - win.startTime, 0),
+      })
+    }
+
+    if (plan.voiceClips.length > 0) {
+      const voiceGain = ctx.createGain()
+      voiceGain.gain.value = plan.voiceVolume
+      voiceGain.connect(bus)
+      for (const clip of plan.voiceClips) {
+        if (clip.start < base || clip.start >= end) continue
+        const source = ctx.createBufferSource()
+        source.buffer = clip.buffer
+        source.connect(voiceGain)
+        source.start(clip.start - base)
+        source.stop(clip.stop - base)
+      }
+    }
+
+    // Chimes bypass the bus so the end chime rings out over the final fade
+    const chime = new ChimeEngine()
+    chime.init(ctx, ctx.destination)
+    for (const evt of timeline.chimes) {
+      if (evt.time < base || evt.time >= end) continue
+      if (evt.type === 'rocket') {
+        chime.playRocketPan(evt.time - base)
+      } else {
+        chime.playChime(evt.type, evt.time - base)
+      }
+    }
+
+    return ctx.startRendering()
+  }
+
+  private throwIfCancelled(): void {
+    if (this.cancelled) throw new DOMException('Export cancelled', 'AbortError')
+  }
+}
+
+/**
+ * Earliest time at or after `time` where a chunk boundary (and the preroll
+ * rendered before it) doesn't overlap any of the busy spans. Boundaries sit
+ * on beat curve points, so each chunk's curve samples the same times a
+ * single continuous curve would. Busy spans that run on back to back (a
+ * long stretch of narration) would push the boundary out indefinitely, so
+ * it stops at `latest` and the crossfade falls wherever that is.
+ */
+export function nextQuietTime(time: number, busy: Array<[number, number]>, latest: number): number {
+  const onCurve = (t: number) => Math.ceil(t * CURVE_RATE) / CURVE_RATE
+  const limit = Math.max(onCurve(time), Math.floor(latest * CURVE_RATE) / CURVE_RATE)
+  let t = onCurve(time)
+  let moved = true
+  while (moved && t < limit) {
+    moved = false
+    for (const [start, end] of busy) {
+      if (start < t && end > t - PREROLL_SECONDS) {
+        t = onCurve(end + PREROLL_SECONDS)
+        moved = true
+      }
+    }
+  }
+  return Math.min(t, limit)
+}
@@ -1,25 +1,43 @@
+import { scheduleRamp } from './automation'
+import { setStartPhase } from './phase'
+
+/** Slowest pan rate the LFO follows */
+export const MIN_PAN_HZ = 0.1
+
 export class PhasedNoiseEngine {
   private source: AudioBufferSourceNode | null = null
   private gainNode: GainNode | null = null
   private panner: StereoPannerNode | null = null
   private lfo: OscillatorNode | null = null
   private lfoGain: GainNode | null = null
-  private ctx: AudioContext | null = null
+  private ctx: BaseAudioContext | null = null
   private targetVolume = 0
+  /** Generated loop, reused while the sample rate stays the same */
+  private buffer: AudioBuffer | null = null
 
   get isRunning(): boolean {
     return this.source !== null
   }
 
-  start(ctx: AudioContext, destination: AudioNode, beatFreq: number, volume: number): void {
+  start(
+    ctx: BaseAudioContext,
+    destination: AudioNode,
+    beatFreq: number,
+    volume: number,
+    /** Seconds into the session to pick up from (offline chunks) */
+    offset = 0,
+    /** Cycles the pan has already turned through by then */
+    panCycles = 0,
+  ): void {
     this.ctx = ctx
     this.targetVolume = volume
 
-    // Generate mono pink noise buffer (10 seconds)
-    const bufferSize = ctx.sampleRate * 10
-    const buffer = ctx.createBuffer(1, bufferSize, ctx.sampleRate)
-    const data = buffer.getChannelData(0)
-    this.fillPinkNoise(data)
+    // Mono pink noise buffer (10 seconds)
+    if (this.buffer?.sampleRate !== ctx.sampleRate) {
+      this.buffer = ctx.createBuffer(1, ctx.sampleRate * 10, ctx.sampleRate)
+      this.fillPinkNoise(this.buffer.getChannelData(0))
+    }
+    const buffer = this.buffer
 
     // Source
     this.source = ctx.createBufferSource()
@@ -37,6 +55,7 @@ export class PhasedNoiseEngine {
     this.lfo = ctx.createOscillator()
     this.lfo.type = 'sine'
     this.lfo.frequency.value = beatFreq
+    if (offset > 0) setStartPhase(this.lfo, panCycles)
 
     this.lfoGain = ctx.createGain()
     this.lfoGain.gain.value = 0.8 // Pan depth (0-1 range, 0.8 = near full pan)
@@ -50,7 +69,7 @@ export class PhasedNoiseEngine {
     this.gainNode.connect(this.panner)
     this.panner.connect(destination)
 
-    this.source.start()
+    this.source.start(0, offset % buffer.duration)
     this.lfo.start()
   }
 
@@ -59,7 +78,19 @@ export class PhasedNoiseEngine {
     const now = this.ctx.currentTime
     this.lfo.frequency.cancelScheduledValues(now)
     this.lfo.frequency.setValueAtTime(this.lfo.frequency.value, now)
-    this.lfo.frequency.linearRampToValueAtTime(Math.max(hz, 0.1), now + 0.5)
+    this.lfo.frequency.linearRampToValueAtTime(Math.max(hz, MIN_PAN_HZ), now + 0.5)
+  }
+
+  /** Schedules the pan rate along a pre-computed beat frequency curve */
+  schedulePanCurve(curve: Float32Array, startTime: number, duration: number): void {
+    if (!this.lfo || curve.length < 2) return
+    const values = curve.map((hz) => Math.max(hz, MIN_PAN_HZ))
+    this.lfo.frequency.cancelScheduledValues(startTime)
+    try {
+      this.lfo.frequency.setValueCurveAtTime(values, startTime, duration)
+    } catch {
+      this.lfo.frequency.value = values[0]
+    }
   }
 
   setVolume(volume: number): void {
@@ -84,6 +115,12 @@ export class PhasedNoiseEngine {
     this.fadeVolume(this.targetVolume, durationSec)
   }
 
+  /** Schedules a linear volume ramp between two context times */
+  scheduleVolumeRamp(from: number, to: number, startTime: number, endTime: number): void {
+    if (!this.gainNode) return
+    scheduleRamp(this.gainNode.gain, from, to, startTime, endTime)
+  }
+
   stop(): void {
     try { this.lfo?.stop() } catch { /* */ }
     try { this.source?.stop() } catch { /* */ }
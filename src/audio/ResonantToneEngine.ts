@@ -1,31 +1,57 @@
+import { setStartPhase } from './phase'
+
 export class ResonantToneEngine {
   private osc: OscillatorNode | null = null
   private gainNode: GainNode | null = null
-  private ctx: AudioContext | null = null
+  private ctx: BaseAudioContext | null = null
+  private level = 0
 
   get isRunning(): boolean {
     return this.osc !== null
   }
 
-  start(ctx: AudioContext, destination: AudioNode, frequency = 136, gainDb = -6): void {
+  start(
+    ctx: BaseAudioContext,
+    destination: AudioNode,
+    frequency = 136,
+    gainDb = -6,
+    when = ctx.currentTime,
+    /** Skip the fade-in when picking the tone up mid-window (offline chunks) */
+    fadeIn = true,
+    /** Seconds the tone has already played, so it resumes mid-cycle */
+    elapsed = 0,
+  ): void {
     this.ctx = ctx
 
     this.osc = ctx.createOscillator()
     this.osc.type = 'sine'
     this.osc.frequency.value = frequency
+    if (elapsed > 0) setStartPhase(this.osc, frequency * elapsed)
 
     this.gainNode = ctx.createGain()
     const linearGain = Math.pow(10, gainDb / 20)
+    this.level = linearGain
     this.gainNode.gain.value = 0
 
     this.osc.connect(this.gainNode)
     this.gainNode.connect(destination)
-    this.osc.start()
+    this.osc.start(when)
 
     // Fade in over 2 seconds
-    const now = ctx.currentTime
-    this.gainNode.gain.setValueAtTime(0, now)
-    this.gainNode.gain.linearRampToValueAtTime(linearGain, now + 2)
+    if (fadeIn) {
+      this.gainNode.gain.setValueAtTime(0, when)
+      this.gainNode.gain.linearRampToValueAtTime(linearGain, when + 2)
+    } else {
+      this.gainNode.gain.setValueAtTime(linearGain, when)
+    }
+  }
+
+  /** Schedules the 0.5s fade-out and oscillator stop at a future context time */
+  scheduleStop(when: number): void {
+    if (!this.osc || !this.gainNode) return
+    this.gainNode.gain.setValueAtTime(this.level, when)
+    this.gainNode.gain.linearRampToValueAtTime(0, when + 0.5)
+    this.osc.stop(when + 0.6)
   }
 
   fadeVolume(targetVolume: number, durationSec: number): void {
@@ -1,3 +1,7 @@
+import type { SAMMode, OrbitPath } from '../types'
+import { SINE_SERIES, setStartPhase, type WaveSeries } from './phase'
+import { workletsReady } from './worklets'
+
 /**
  * Spatial Angle Modulation (SAM) Engine
  *
@@ -7,21 +11,60 @@
  * around their head, reinforcing cortical entrainment through spatial
  * rather than tonal cues.
  *
- * Two modes:
- *   'smooth'  — sine-LFO panning creates a smooth circular orbit
+ * Three modes:
+ *   'smooth'  — sine-LFO panning sweeps the tone left↔right
  *   'erratic' — random discontinuous pan jumps disorient spatial tracking
  *               (used in deep Focus 21 states for dimensional-shift effect)
+ *   'spatial' — an HRTF PannerNode carries the tone along a 3D path
+ *               (circle, ellipse or figure-eight) at a set radius and
+ *               elevation, so it is heard in front of and behind the head
+ *               rather than only between the ears
+ *
+ * Erratic jumps come from the 'erratic-pan' AudioWorklet processor, so
+ * they keep their timing when the page is throttled in the background.
+ *
+ * Passing a `window` to start() schedules the whole window (fade-in, pan
+ * motion, fade-out and stop) on the context timeline up front, which is how
+ * offline rendering drives it.
  */
+export interface SAMScheduleWindow {
+  /** Context time the tone starts */
+  startTime: number
+  /** Context time the 2s fade-out begins */
+  endTime: number
+  /** Fade in over 3s from startTime (false when resuming mid-window) */
+  fadeIn: boolean
+  /** Seconds of the window already played — the tone and motion resume mid-cycle */
+  elapsed?: number
+}
+
+/** Shape of a 'spatial' orbit — a SAMWindow can be passed as-is */
+export interface SpatialOrbit {
+  path?: OrbitPath
+  /** Degrees above (+) or below (−) ear level */
+  elevation?: number
+  /** Meters from the listener */
+  radius?: number
+}
+
+/** Front-back depth of an ellipse or figure-eight, relative to its width */
+const ORBIT_DEPTH = 0.5
+
 export class SAMEngine {
-  private ctx: AudioContext | null = null
+  private ctx: BaseAudioContext | null = null
   private oscillator: OscillatorNode | null = null
   private panner: StereoPannerNode | null = null
   private masterGain: GainNode | null = null
   private lfo: OscillatorNode | null = null
   private lfoGain: GainNode | null = null
-  private erraticInterval: ReturnType<typeof setInterval> | null = null
+  private erratic: AudioWorkletNode | null = null
+  private spatialPanner: PannerNode | null = null
+  /** Orbit LFOs with their frequency multiple of rotationHz */
+  private orbitLfos: Array<[OscillatorNode, number]> = []
+  private orbitGains: GainNode[] = []
+  private orbit: SpatialOrbit = {}
   private _rotationHz = 4
-  private _mode: 'smooth' | 'erratic' = 'smooth'
+  private _mode: SAMMode = 'smooth'
   private _isRunning = false
 
   get isRunning(): boolean {
@@ -29,40 +72,55 @@ export class SAMEngine {
   }
 
   start(
-    ctx: AudioContext,
+    ctx: BaseAudioContext,
     destination: AudioNode,
     rotationHz: number,
-    mode: 'smooth' | 'erratic',
+    mode: SAMMode,
     volume: number,
     carrierFreq = 303,
+    window?: SAMScheduleWindow,
+    orbit: SpatialOrbit = {},
   ): void {
     this.stop()
     this.ctx = ctx
     this._rotationHz = rotationHz
     this._mode = mode
+    this.orbit = orbit
 
     // 303 Hz carrier oscillator
     this.oscillator = ctx.createOscillator()
     this.oscillator.type = 'sine'
     this.oscillator.frequency.value = carrierFreq
+    const elapsed = window?.elapsed ?? 0
+    if (elapsed > 0) setStartPhase(this.oscillator, carrierFreq * elapsed)
 
     // Stereo panner driven by LFO (or random jumps in erratic mode)
     this.panner = ctx.createStereoPanner()
     this.panner.pan.value = 0
 
     // Master gain — SAM sits below binaural beats in the mix
+    const startTime = window?.startTime ?? ctx.currentTime
     this.masterGain = ctx.createGain()
     this.masterGain.gain.value = 0 // start silent, fade in
-    this.masterGain.gain.setValueAtTime(0, ctx.currentTime)
-    this.masterGain.gain.linearRampToValueAtTime(volume * 0.4, ctx.currentTime + 3)
+    if (window && !window.fadeIn) {
+      this.masterGain.gain.setValueAtTime(volume * 0.4, startTime)
+    } else {
+      this.masterGain.gain.setValueAtTime(0, startTime)
+      this.masterGain.gain.linearRampToValueAtTime(volume * 0.4, startTime + 3)
+    }
 
-    this.oscillator.connect(this.panner)
     this.panner.connect(this.masterGain)
     this.masterGain.connect(destination)
-    this.oscillator.start()
+    this.oscillator.start(startTime)
 
-    this._applyMode(mode, rotationHz)
     this._isRunning = true
+    this._applyMode(mode, rotationHz, window)
+
+    if (window) {
+      this.masterGain.gain.setValueAtTime(volume * 0.4, window.endTime)
+      this.masterGain.gain.linearRampToValueAtTime(0, window.endTime + 2)
+      this.oscillator.stop(window.endTime + 2)
+    }
   }
 
   setRotationHz(hz: number): void {
@@ -71,10 +129,15 @@ export class SAMEngine {
     if (this._mode === 'smooth' && this.lfo) {
       this.lfo.frequency.value = hz
     }
-    // Erratic mode picks up new hz on next restart of interval (no special action needed)
+    for (const [lfo, multiple] of this.orbitLfos) {
+      lfo.frequency.value = hz * multiple
+    }
+    if (this._mode === 'erratic' && this.erratic && this.ctx) {
+      this.erratic.parameters.get('rotationHz')?.setValueAtTime(hz, this.ctx.currentTime)
+    }
   }
 
-  setMode(mode: 'smooth' | 'erratic'): void {
+  setMode(mode: SAMMode): void {
     if (this._mode === mode || !this._isRunning) return
     this._mode = mode
     this._clearMode()
@@ -112,8 +175,14 @@ export class SAMEngine {
     this._isRunning = false
   }
 
-  private _applyMode(mode: 'smooth' | 'erratic', rotationHz: number): void {
-    if (!this.ctx || !this.panner) return
+  private _applyMode(mode: SAMMode, rotationHz: number, window?: SAMScheduleWindow): void {
+    if (!this.ctx || !this.panner || !this.oscillator || !this.masterGain) return
+
+    if (mode === 'spatial') {
+      this._applyOrbit(rotationHz, window)
+      return
+    }
+    this.oscillator.connect(this.panner)
 
     if (mode === 'smooth') {
       // LFO oscillator drives the stereo panner.pan AudioParam directly.
@@ -121,6 +190,8 @@ export class SAMEngine {
       this.lfo = this.ctx.createOscillator()
       this.lfo.type = 'sine'
       this.lfo.frequency.value = rotationHz
+      const elapsed = window?.elapsed ?? 0
+      if (elapsed > 0) setStartPhase(this.lfo, rotationHz * elapsed)
 
       // lfoGain scales the LFO output to fill the ±1 pan range
       this.lfoGain = this.ctx.createGain()
@@ -128,28 +199,85 @@ export class SAMEngine {
 
       this.lfo.connect(this.lfoGain)
       this.lfoGain.connect(this.panner.pan)
-      this.lfo.start()
-    } else {
+      this.lfo.start(window?.startTime)
+      if (window) this.lfo.stop(window.endTime + 2)
+    } else if (workletsReady(this.ctx)) {
       // Erratic mode: random pan jumps at ~rotationHz rate (random interval ±50%)
-      const baseIntervalMs = (1 / Math.max(rotationHz, 0.5)) * 1000
-      const jump = (): void => {
-        if (!this.panner || !this._isRunning) return
-        const panPos = (Math.random() * 2 - 1)
-        this.panner.pan.value = panPos
-
-        // Re-schedule with randomised interval
-        const nextMs = baseIntervalMs * (0.5 + Math.random())
-        this.erraticInterval = setTimeout(jump, nextMs) as unknown as ReturnType<typeof setInterval>
-      }
-      this.erraticInterval = setTimeout(jump, baseIntervalMs * Math.random()) as unknown as ReturnType<typeof setInterval>
+      this.erratic = new AudioWorkletNode(this.ctx, 'erratic-pan', {
+        numberOfInputs: 0,
+        numberOfOutputs: 1,
+        outputChannelCount: [1],
+        parameterData: { rotationHz },
+        processorOptions: { endTime: window ? window.endTime + 2 : undefined },
+      })
+      this.erratic.connect(this.panner.pan)
+    } else {
+      console.warn('SAMEngine: worklets not loaded, erratic mode stays centered')
     }
   }
 
+  /**
+   * Moves the tone through 3D space with an HRTF panner. Each position axis
+   * is driven by its own LFO, so the path is sample-accurate and renders the
+   * same offline. The listener faces −z with +x to the right:
+   *   circle    — x = sin, z = −cos (a full orbit of the head)
+   *   ellipse   — the circle squashed front-to-back
+   *   figure8   — x = sin, z = sin at twice the rate: a lobe to each side,
+   *               crossing through the center of the head
+   */
+  private _applyOrbit(rotationHz: number, window?: SAMScheduleWindow): void {
+    if (!this.ctx || !this.oscillator || !this.masterGain) return
+    const ctx = this.ctx
+    const path = this.orbit.path ?? 'circle'
+    const radius = Math.max(0.25, Math.min(this.orbit.radius ?? 1, 10))
+    const elevation = (Math.max(-90, Math.min(this.orbit.elevation ?? 0, 90)) * Math.PI) / 180
+    const width = radius * Math.cos(elevation)
+    const depth = path === 'circle' ? width : width * ORBIT_DEPTH
+
+    this.spatialPanner = new PannerNode(ctx, {
+      panningModel: 'HRTF',
+      distanceModel: 'inverse',
+      refDistance: 1,
+      rolloffFactor: 1,
+      positionX: 0,
+      positionY: radius * Math.sin(elevation),
+      positionZ: 0,
+    })
+
+    const elapsed = window?.elapsed ?? 0
+    const axis = (param: AudioParam, wave: WaveSeries, multiple: number, amplitude: number): void => {
+      const lfo = ctx.createOscillator()
+      setStartPhase(lfo, rotationHz * multiple * elapsed, wave)
+      lfo.frequency.value = rotationHz * multiple
+      const gain = ctx.createGain()
+      gain.gain.value = amplitude
+      lfo.connect(gain)
+      gain.connect(param)
+      lfo.start(window?.startTime)
+      if (window) lfo.stop(window.endTime + 2)
+      this.orbitLfos.push([lfo, multiple])
+      this.orbitGains.push(gain)
+    }
+
+    axis(this.spatialPanner.positionX, SINE_SERIES, 1, width)
+    if (path === 'figure8') {
+      axis(this.spatialPanner.positionZ, SINE_SERIES, 2, depth)
+    } else {
+      // Cosine LFO, so x and z stay a quarter-cycle apart
+      const cosine = { real: new Float32Array([0, 1]), imag: new Float32Array([0, 0]) }
+      axis(this.spatialPanner.positionZ, cosine, 1, -depth)
+    }
+
+    this.oscillator.connect(this.spatialPanner)
+    this.spatialPanner.connect(this.masterGain)
+  }
+
   private _clearMode(): void {
-    if (this.erraticInterval !== null) {
-      clearTimeout(this.erraticInterval as unknown as ReturnType<typeof setTimeout>)
-      clearInterval(this.erraticInterval)
-      this.erraticInterval = null
+    try { this.oscillator?.disconnect() } catch { /* */ }
+    if (this.erratic) {
+      this.erratic.port.postMessage({ stop: true })
+      try { this.erratic.disconnect() } catch { /* */ }
+      this.erratic = null
     }
     if (this.lfo) {
       try {
@@ -162,5 +290,20 @@ export class SAMEngine {
       try { this.lfoGain.disconnect() } catch { /* */ }
       this.lfoGain = null
     }
+    for (const [lfo] of this.orbitLfos) {
+      try {
+        lfo.stop()
+        lfo.disconnect()
+      } catch { /* */ }
+    }
+    for (const gain of this.orbitGains) {
+      try { gain.disconnect() } catch { /* */ }
+    }
+    this.orbitLfos = []
+    this.orbitGains = []
+    if (this.spatialPanner) {
+      try { this.spatialPanner.disconnect() } catch { /* */ }
+      this.spatialPanner = null
+    }
   }
 }
@@ -1,4 +1,4 @@
-import type { SessionPreset, SessionPhase, FrequencyPoint, AmbientSoundType, GuidanceScript } from '../types'
+import type { SessionPreset, SessionPhase, AmbientSoundType, GuidanceScript, NarrationSettings, SleepModeSettings } from '../types'
 import { BinauralEngine } from './BinauralEngine'
 import { NoiseGenerator } from './NoiseGenerator'
 import { IsochronicEngine } from './IsochronicEngine'
@@ -8,16 +8,50 @@ import { ChimeEngine } from './ChimeEngine'
 import { PhasedNoiseEngine } from './PhasedNoiseEngine'
 import { ResonantToneEngine } from './ResonantToneEngine'
 import { SAMEngine } from './SAMEngine'
+import { IsochronicWindowEngine } from './IsochronicWindowEngine'
+import { SessionTimeline } from './SessionTimeline'
+import { scheduleRamp, scheduleRamps, type Ramp } from './automation'
+import { speakerVariant, SPEAKER_PULSE_RAMP } from './speakerMode'
+import { sleepVariant, sleepRamps, wakeTimes, snoozedWake, alarmChimes, type WakeTimes } from './sleepMode'
+import { loadWorklets } from './worklets'
 
 export type SessionCallback = (state: {
   phase: SessionPhase
   elapsed: number
   beatFreq: number
+  /** Envelope frequency without the habituation oscillation */
+  targetFreq: number
   guidancePhaseName?: string
 }) => void
 
+/** How far ahead voice cues are handed to the audio clock (covers 1s background ticks) */
+const VOICE_LOOKAHEAD = 2
+
+/** How far the audio clock may drift from the wall clock before an alarm session jumps back to it */
+const ALARM_DRIFT_TOLERANCE = 5
+
+/**
+ * Runs a live session. The preset is compiled into a SessionTimeline and
+ * scheduled onto AudioContext time up front (and again after a seek), so
+ * envelope and guidance events stay sample-accurate while the tab is hidden.
+ * The tick loop only reports progress to the UI and feeds voice cues ahead.
+ */
 export class SessionManager {
   private ctx: AudioContext | null = null
+  // Every engine plays through this bus so pause can fade it before suspending
+  private bus: GainNode | null = null
+  // Beat layers (binaural, isochronic, SAM, pulse windows) play through this so sleep mode can drop them alone
+  private beatBus: GainNode | null = null
+  // Sleep mode's overnight descent — after the bus, so pause fades don't cancel it
+  private level: GainNode | null = null
+  private sleep: { level: Ramp[]; beats: Ramp[] } | null = null
+  // Sleep mode: the preset before stretching, the settings, and the alarm if one is set
+  private sleepBase: SessionPreset | null = null
+  private sleepMode: SleepModeSettings | null = null
+  private wake: WakeTimes | null = null
+  /** Wall-clock time (ms) the alarm rings at */
+  private wakeAtMs = 0
+  private alarmChimes: number[] = []
   private engine = new BinauralEngine()
   private noise = new NoiseGenerator()
   private isochronic = new IsochronicEngine()
@@ -26,11 +60,14 @@ export class SessionManager {
   private chime = new ChimeEngine()
   private phasedNoise = new PhasedNoiseEngine()
   private resonantTone = new ResonantToneEngine()
-  private sam = new SAMEngine()
+  private samEngines: SAMEngine[] = []
+  private pulseEngines: IsochronicWindowEngine[] = []
   private preset: SessionPreset | null = null
-  private startTime = 0
-  private pausedAt = 0
-  private pauseOffset = 0
+  private timeline: SessionTimeline | null = null
+  /** AudioContext time corresponding to session time 0 */
+  private origin = 0
+  private paused = false
+  private suspendTimer: ReturnType<typeof setTimeout> | null = null
   private animFrameId = 0
   private fallbackInterval: ReturnType<typeof setInterval> | null = null
   private _phase: SessionPhase = 'idle'
@@ -38,17 +75,12 @@ export class SessionManager {
   private callback: SessionCallback | null = null
   private volume = 0.7
   private _isochronicEnabled = false
+  private _speakerMode = false
   private _starting = false
   private ambientVolume = 0
   private ambientSound: AmbientSoundType = 'none'
   private guidanceScript: GuidanceScript | null = null
   private isGuidedSession = false
-  private resonantToneActive = false
-  // ASGEP feature tracking
-  private activeSAMWindowIndex = -1
-  private firedCarrierGainEvents = new Set<number>()
-  private firedAmbientEvents = new Set<number>()
-  private rocketPanFired = false
 
   get phase(): SessionPhase {
     return this._phase
@@ -59,11 +91,11 @@ export class SessionManager {
   }
 
   get isPlaying(): boolean {
-    return this._phase !== 'idle' && this._phase !== 'complete' && this.pausedAt === 0
+    return this._phase !== 'idle' && this._phase !== 'complete' && !this.paused
   }
 
   get isPaused(): boolean {
-    return this.pausedAt > 0
+    return this.paused
   }
 
   get binauralEngine(): BinauralEngine {
@@ -71,13 +103,36 @@ export class SessionManager {
   }
 
   get currentBeatFreq(): number {
-    return this.engine.currentBeatFreq
+    return this.timeline ? this.timeline.beatFreqAt(this._elapsed) : this.engine.currentBeatFreq
+  }
+
+  get currentTargetFreq(): number {
+    return this.timeline ? this.timeline.envelopeFreqAt(this._elapsed) : this.engine.currentBeatFreq
+  }
+
+  /** Length of the session being played — longer than the preset's in sleep mode */
+  get duration(): number {
+    return this.preset?.duration ?? 0
+  }
+
+  /** The preset as stretched for sleep mode, or null outside it */
+  get sleepPreset(): SessionPreset | null {
+    return this.sleepBase ? this.preset : null
+  }
+
+  /** When the wake-up alarm rises and rings, in session seconds */
+  get alarm(): WakeTimes | null {
+    return this.wake
   }
 
   get isochronicEnabled(): boolean {
     return this._isochronicEnabled
   }
 
+  get speakerMode(): boolean {
+    return this._speakerMode
+  }
+
   async start(
     preset: SessionPreset,
     volume: number,
@@ -87,6 +142,9 @@ export class SessionManager {
     ambientVolume?: number,
     sessionOptions?: {
       voiceEnabled?: boolean
+      speakerMode?: boolean
+      narration?: NarrationSettings
+      sleepMode?: SleepModeSettings
     },
   ): Promise<void> {
     if (this._starting) return
@@ -94,32 +152,51 @@ export class SessionManager {
 
     try {
       this.stop()
+      // Speaker mode swaps binaural layers for monaural beats plus isochronic pulses
+      const speakerMode = !!sessionOptions?.speakerMode
+      if (speakerMode) preset = speakerVariant(preset)
+      this._speakerMode = speakerMode
+      // Sleep mode holds the final frequency past the preset's end
+      const sleepMode = sessionOptions?.sleepMode
+      if (sleepMode) {
+        this.sleepBase = preset
+        this.sleepMode = sleepMode
+        if (sleepMode.alarm) {
+          const now = new Date()
+          this.wake = wakeTimes(sleepMode.alarm, now)
+          this.wakeAtMs = now.getTime() + this.wake.wakeAt * 1000
+        }
+        preset = this.planSleep(preset, sleepMode)
+      }
       this.preset = preset
+      this.timeline = new SessionTimeline(preset)
       this.volume = volume
       this.callback = onUpdate
-      this.pauseOffset = 0
-      this.pausedAt = 0
-      this._isochronicEnabled = isochronicEnabled && preset.isochronicAvailable
+      this.paused = false
+      this._isochronicEnabled = speakerMode || (isochronicEnabled && preset.isochronicAvailable)
+      this.isochronic.setPulseRamp(speakerMode ? SPEAKER_PULSE_RAMP : 0)
       this.ambientSound = ambientSound ?? preset.ambientSound
       this.ambientVolume = ambientVolume ?? preset.ambientVolume
       this.guidanceScript = preset.guidanceScript ?? null
       this.isGuidedSession = !!this.guidanceScript
-      this.resonantToneActive = false
-      this.activeSAMWindowIndex = -1
-      this.firedCarrierGainEvents = new Set<number>()
-      this.firedAmbientEvents = new Set<number>()
-      this.rocketPanFired = false
 
       const initialBeatFreq = preset.frequencyEnvelope[0].beatFreq
 
       // Create shared AudioContext (must be in user gesture call stack)
       this.ctx = new AudioContext()
       await this.ctx.resume()
+      await loadWorklets(this.ctx)
+      this.level = this.ctx.createGain()
+      this.level.connect(this.ctx.destination)
+      this.bus = this.ctx.createGain()
+      this.bus.connect(this.level)
+      this.beatBus = this.ctx.createGain()
+      this.beatBus.connect(this.bus)
 
       // Start binaural engine with shared context
       this.engine.startWithContext(
         this.ctx,
-        this.ctx.destination,
+        this.beatBus,
         preset.carriers,
         initialBeatFreq,
         0, // start silent
@@ -132,13 +209,13 @@ export class SessionManager {
       if (this.isGuidedSession && this.guidanceScript?.phasedNoise) {
         this.phasedNoise.start(
           this.ctx,
-          this.ctx.destination,
+          this.bus,
           initialBeatFreq,
           preset.noiseVolume * volume,
         )
       } else if (preset.noiseType !== 'none') {
         const noiseFilter = this.guidanceScript?.noiseFilter
-        this.noise.start(this.ctx, this.ctx.destination, preset.noiseType, 0, noiseFilter)
+        this.noise.start(this.ctx, this.bus, preset.noiseType, 0, noiseFilter)
         this.noise.fadeVolume(preset.noiseVolume * volume, 2)
       }
 
@@ -146,37 +223,35 @@ export class SessionManager {
       if (this._isochronicEnabled) {
         this.isochronic.start(
           this.ctx,
-          this.ctx.destination,
+          this.beatBus,
           preset.carriers[0].carrierFreq,
           initialBeatFreq,
           volume,
         )
       }
 
-      // Start ambient sound (independent of master volume)
+      // Start ambient sound (independent of master volume); its fade-in is on the timeline
       if (this.ambientSound !== 'none') {
-        await this.ambient.start(this.ctx, this.ctx.destination, this.ambientSound, 0)
-        this.ambient.fadeVolume(this.ambientVolume, 2)
+        await this.ambient.start(this.ctx, this.bus, this.ambientSound, 0)
       }
 
       // Initialize guided session engines
       if (this.isGuidedSession && this.guidanceScript) {
-        // Initialize chime engine
-        this.chime.init(this.ctx, this.ctx.destination)
-
-        // Play start chime
-        this.chime.playChime('start')
+        this.chime.init(this.ctx, this.bus)
 
         // Initialize voice cue engine
         const voiceEnabled = sessionOptions?.voiceEnabled !== false
-        this.voiceCues.init(this.ctx, this.ctx.destination, preset.id, this.guidanceScript.voiceCues, {
+        this.voiceCues.init(this.ctx, this.bus, preset.id, this.timeline.voiceCues, {
           volume: this.guidanceScript.voiceVolume ?? 0.71,
           enabled: voiceEnabled,
+          narration: sessionOptions?.narration,
         })
       }
 
+      if (this.wake) this.chime.init(this.ctx, this.bus)
+
       this._phase = 'induction'
-      this.startTime = performance.now()
+      this.scheduleFrom(0)
 
       // Set up visibility change handler
       document.addEventListener('visibilitychange', this.handleVisibilityChange)
@@ -188,79 +263,70 @@ export class SessionManager {
   }
 
   pause(): void {
-    if (this.pausedAt > 0 || this._phase === 'idle' || this._phase === 'complete') return
-    this.pausedAt = performance.now()
+    if (this.paused || this._phase === 'idle' || this._phase === 'complete') return
+    this.paused = true
     this.stopTickLoop()
-    this.engine.fadeVolume(0, 0.3)
-    this.noise.fadeVolume(0, 0.3)
-    this.ambient.fadeVolume(0, 0.3)
-    if (this._isochronicEnabled) this.isochronic.setVolume(0)
+    this.fadeBus(0, 0.3)
 
-    // Pause guided session engines
+    // Drop queued narration (cues not yet heard are re-queued) and hold live speech;
+    // a recorded cue already playing freezes with the context below
     if (this.isGuidedSession) {
-      this.voiceCues.pause()
-      this.phasedNoise.fadeVolume(0, 0.3)
-      if (this.resonantToneActive) {
-        this.resonantTone.fadeVolume(0, 0.3)
-      }
-      if (this.sam.isRunning) this.sam.fadeVolume(0, 0.3)
+      this.voiceCues.pause(this._elapsed)
     }
+
+    // Freeze the audio clock (and with it every scheduled event) once silent
+    this.suspendTimer = setTimeout(() => {
+      this.suspendTimer = null
+      this.ctx?.suspend()
+    }, 300)
   }
 
   resume(): void {
-    if (this.pausedAt === 0) return
-    this.pauseOffset += performance.now() - this.pausedAt
-    this.pausedAt = 0
-
-    // Check if session should have completed while paused
-    const elapsed = (performance.now() - this.startTime - this.pauseOffset) / 1000
-    if (this.preset && elapsed >= this.preset.duration) {
-      this.completeSession()
-      return
-    }
-
-    this.engine.fadeVolume(this.volume, 0.3)
-    if (this.preset) {
-      this.noise.fadeVolume(this.preset.noiseVolume * this.volume, 0.3)
-    }
-    this.ambient.fadeVolume(this.ambientVolume, 0.3)
-    if (this._isochronicEnabled) this.isochronic.setVolume(this.volume)
-
-    // Resume guided session engines
-    if (this.isGuidedSession && this.preset) {
+    if (!this.paused || !this.ctx) return
+    this.paused = false
+    if (this.suspendTimer) {
+      clearTimeout(this.suspendTimer)
+      this.suspendTimer = null
+    }
+    this.ctx.resume()
+    this.fadeBus(1, 0.3)
+    if (this.isGuidedSession) {
       this.voiceCues.resume()
-      if (this.phasedNoise.isRunning) {
-        this.phasedNoise.fadeVolume(this.preset.noiseVolume * this.volume, 0.3)
-      }
-      if (this.resonantToneActive) {
-        const gainDb = this.guidanceScript?.resonantTuning?.gainDb ?? -6
-        const linearGain = Math.pow(10, gainDb / 20)
-        this.resonantTone.fadeVolume(linearGain, 0.3)
-      }
-      if (this.sam.isRunning) this.sam.fadeVolume(this.volume, 0.3)
     }
-
     this.startTickLoop()
   }
 
+  /** Quiets a rising or ringing alarm for SNOOZE_MINUTES, then wakes again */
+  snooze(): void {
+    if (!this.wake || !this.sleepBase || !this.sleepMode || this._elapsed < this.wake.rampStart) return
+    this.wake = snoozedWake(this._elapsed)
+    this.wakeAtMs = Date.now() + (this.wake.wakeAt - this._elapsed) * 1000
+    this.preset = this.planSleep(this.sleepBase, this.sleepMode)
+    this.timeline = new SessionTimeline(this.preset)
+    this.scheduleFrom(this._elapsed)
+  }
+
+  /** Completes the session now, as if it had run to the end — how an alarm is stopped */
+  finish(): void {
+    if (this._phase === 'idle' || this._phase === 'complete') return
+    this.chime.cancelScheduled()
+    this.completeSession()
+  }
+
   /** Fade all audio to silence over the given duration */
   fadeOut(durationSec: number): void {
-    this.engine.fadeVolume(0, durationSec)
-    this.noise.fadeVolume(0, durationSec)
-    this.ambient.fadeVolume(0, durationSec)
-    if (this._isochronicEnabled) this.isochronic.setVolume(0)
+    this.fadeBus(0, durationSec)
     if (this.isGuidedSession) {
       this.voiceCues.stop()
-      this.phasedNoise.fadeVolume(0, durationSec)
-      if (this.resonantToneActive) {
-        this.resonantTone.fadeVolume(0, durationSec)
-      }
-      if (this.sam.isRunning) this.sam.fadeVolume(0, durationSec)
     }
   }
 
   stop(): void {
     this.stopTickLoop()
+    if (this.suspendTimer) {
+      clearTimeout(this.suspendTimer)
+      this.suspendTimer = null
+    }
     document.removeEventListener('visibilitychange', this.handleVisibilityChange)
     this.engine.stopShared()
     this.noise.stop()
@@ -270,32 +336,40 @@ export class SessionManager {
     this.chime.stop()
     this.phasedNoise.stop()
     this.resonantTone.stop()
-    this.sam.stop()
+    for (const sam of this.samEngines) sam.stop()
+    this.samEngines = []
+    for (const pulses of this.pulseEngines) pulses.stop()
+    this.pulseEngines = []
     if (this.ctx && this.ctx.state !== 'closed') {
       this.ctx.close()
     }
     this.ctx = null
+    this.bus = null
+    this.beatBus = null
+    this.level = null
+    this.sleep = null
+    this.sleepBase = null
+    this.sleepMode = null
+    this.wake = null
+    this.wakeAtMs = 0
+    this.alarmChimes = []
     this._phase = 'idle'
     this._elapsed = 0
-    this.pauseOffset = 0
-    this.pausedAt = 0
+    this.origin = 0
+    this.paused = false
     this.preset = null
+    this.timeline = null
     this.callback = null
     this._isochronicEnabled = false
+    this._speakerMode = false
     this.ambientSound = 'none'
     this.ambientVolume = 0
     this.guidanceScript = null
     this.isGuidedSession = false
-    this.resonantToneActive = false
-    this.activeSAMWindowIndex = -1
-    this.firedCarrierGainEvents = new Set<number>()
-    this.firedAmbientEvents = new Set<number>()
-    this.rocketPanFired = false
   }
 
   setVolume(v: number): void {
     this.volume = v
-    if (this.pausedAt > 0) return
     this.engine.setVolume(v)
     if (this.preset) {
       this.noise.setVolume(this.preset.noiseVolume * v)
@@ -307,72 +381,65 @@ export class SessionManager {
   }
 
   toggleIsochronic(): void {
-    if (!this.preset || !this.preset.isochronicAvailable || !this.ctx) return
+    if (!this.preset || !this.preset.isochronicAvailable || !this.ctx || !this.beatBus) return
 
     this._isochronicEnabled = !this._isochronicEnabled
     if (this._isochronicEnabled) {
       this.isochronic.start(
         this.ctx,
-        this.ctx.destination,
+        this.beatBus,
         this.preset.carriers[0].carrierFreq,
-        this.engine.currentBeatFreq,
-        this.pausedAt > 0 ? 0 : this.volume,
+        this.currentBeatFreq,
+        this.volume,
       )
+      if (this.timeline) {
+        const { curve, duration } = this.timeline.beatCurve(
+          this._elapsed,
+          Math.max(this.timeline.duration, this._elapsed + 1),
+        )
+        this.isochronic.scheduleBeatCurve(curve, this.ctx.currentTime, duration)
+      }
     } else {
       this.isochronic.stop()
     }
   }
 
-  /** Seek to a specific time in the session */
+  /** Seek to a specific time in the session. An alarm session follows the wall clock and can't be moved. */
   seek(targetTime: number): void {
-    if (!this.preset) return
+    if (this.wake) return
+    this.jumpTo(targetTime)
+  }
+
+  private jumpTo(targetTime: number): void {
+    if (!this.preset || !this.timeline) return
 
     // Clamp to [0, duration - 0.1] to avoid accidental completion
     const clampedTime = Math.max(0, Math.min(targetTime, this.preset.duration - 0.1))
 
-    // Adjust pauseOffset so that elapsed calculation yields clampedTime
-    const now = this.pausedAt > 0 ? this.pausedAt : performance.now()
-    this.pauseOffset = now - this.startTime - clampedTime * 1000
-
     this._elapsed = clampedTime
-
-    // Update phase
     this.updatePhase()
 
-    // Set beat frequency instantly (no ramp, to support rapid scrubbing)
-    const targetFreq = Math.max(this.interpolateFrequency(clampedTime), 0.1)
-    this.engine.setBeatFrequency(targetFreq)
-    if (this._isochronicEnabled) {
-      this.isochronic.setBeatFrequency(targetFreq)
-    }
-
-    // Seek voice cues
-    if (this.isGuidedSession) {
-      this.voiceCues.seek(clampedTime)
-    }
-
-    // Fire callback immediately
-    const guidancePhaseName = this.isGuidedSession
-      ? this.getCurrentGuidancePhaseName(clampedTime)
-      : undefined
+    // Re-anchor the timeline so everything from here on is rescheduled
+    this.scheduleFrom(clampedTime)
 
     this.callback?.({
       phase: this._phase,
       elapsed: clampedTime,
-      beatFreq: targetFreq,
-      guidancePhaseName,
+      beatFreq: this.timeline.beatFreqAt(clampedTime),
+      targetFreq: this.timeline.envelopeFreqAt(clampedTime),
+      guidancePhaseName: this.isGuidedSession ? this.timeline.guidancePhaseAt(clampedTime) : undefined,
     })
   }
 
   setAmbientVolume(v: number): void {
     this.ambientVolume = v
-    if (this.pausedAt > 0) return
     this.ambient.setVolume(v)
+    this.scheduleUpcomingAmbientEvents()
   }
 
   async setAmbientSound(sound: AmbientSoundType): Promise<void> {
     this.ambientSound = sound
-    if (!this.ctx || this.pausedAt > 0) return
+    if (!this.ctx || !this.bus) return
 
     if (sound === 'none') {
       this.ambient.fadeVolume(0, 1)
@@ -383,9 +450,160 @@ export class SessionManager {
     if (this.ambient.isRunning) {
       await this.ambient.switchSound(sound, this.ambientVolume)
     } else {
-      await this.ambient.start(this.ctx, this.ctx.destination, sound, 0)
+      await this.ambient.start(this.ctx, this.bus, sound, 0)
       this.ambient.fadeVolume(this.ambientVolume, 1)
     }
+    this.scheduleUpcomingAmbientEvents()
+  }
+
+  // ── Timeline scheduling ───────────────────────────────────
+
+  /**
+   * Anchors session time `time` to the current AudioContext time and
+   * schedules everything the timeline holds from there to the end.
+   */
+  private scheduleFrom(time: number): void {
+    if (!this.ctx || !this.bus || !this.beatBus || !this.level || !this.timeline) return
+    const timeline = this.timeline
+    const now = this.ctx.currentTime
+    this.origin = now - time
+
+    // Sleep mode's overnight volume descent and ambient-only drop
+    this.scheduleGainRamps(this.level.gain, this.sleep?.level ?? [], time)
+    this.scheduleGainRamps(this.beatBus.gain, this.sleep?.beats ?? [], time)
+
+    // Beat frequency envelope (plus habituation wobble) for the rest of the session
+    const { curve, duration } = timeline.beatCurve(time, Math.max(timeline.duration, time + 1))
+    this.engine.scheduleBeatCurve(curve, now, duration)
+    if (this.isochronic.isRunning) {
+      this.isochronic.scheduleBeatCurve(curve, now, duration)
+    }
+    if (this.phasedNoise.isRunning) {
+      this.phasedNoise.schedulePanCurve(curve, now, duration)
+    }
+
+    // Carrier layer fades (e.g. the 40 Hz Gamma overlay)
+    this.engine.cancelCarrierGains(now)
+    for (const [index, { initial, ramps }] of timeline.carrierRamps) {
+      scheduleRamps(initial, ramps, time, (from, to, s, e) =>
+        this.engine.scheduleCarrierGainRamp(index, from, to, now + s, now + e))
+    }
+
+    // Ambient fade-in and scripted fades (e.g. void silence drop at Focus 15 entry)
+    if (this.ambient.isRunning) {
+      this.ambient.cancelScheduled(now)
+      scheduleRamps(0, timeline.ambientRamps(this.ambientVolume), time, (from, to, s, e) =>
+        this.ambient.scheduleVolumeRamp(from, to, now + s, now + e))
+    }
+
+    // SAM windows — one engine per window so adjacent windows crossfade
+    for (const sam of this.samEngines) sam.stop()
+    this.samEngines = []
+    for (const win of timeline.samWindows) {
+      const end = Math.min(win.endTime, timeline.duration)
+      if (end <= time) continue
+      const sam = new SAMEngine()
+      sam.start(this.ctx, this.beatBus, win.rotationHz, win.mode, this.volume, win.carrierFreq ?? 303, {
+        startTime: this.origin + Math.max(win.startTime, time),
+        endTime: this.origin + end,
+        fadeIn: win.startTime >= time,
+      }, win)
+      this.samEngines.push(sam)
+    }
+
+    // Scripted isochronic windows — one engine per window, like SAM
+    for (const pulses of this.pulseEngines) pulses.stop()
+    this.pulseEngines = []
+    for (const win of timeline.isochronicWindows) {
+      const end = Math.min(win.endTime, timeline.duration)
+      if (end <= time) continue
+      const pulses = new IsochronicWindowEngine()
+      pulses.start(this.ctx, this.beatBus, win.layers, this.volume, {
+        startTime: this.origin + Math.max(win.startTime, time),
+        endTime: this.origin + end,
+        fadeIn: win.startTime >= time,
+      })
+      this.pulseEngines.push(pulses)
+    }
+
+    // Resonant tuning window
+    if (this.resonantTone.isRunning) this.resonantTone.stop()
+    const rt = timeline.resonantTuning
+    if (rt && Math.min(rt.endTime, timeline.duration) > time) {
+      this.resonantTone.start(
+        this.ctx,
+        this.beatBus,
+        rt.frequency ?? 136,
+        rt.gainDb ?? -6,
+        this.origin + Math.max(rt.startTime, time),
+        rt.startTime >= time,
+      )
+      this.resonantTone.scheduleStop(this.origin + Math.min(rt.endTime, timeline.duration))
+    }
+
+    // Chimes and the rocket-pan FX
+    this.chime.cancelScheduled()
+    for (const evt of timeline.chimes) {
+      if (evt.time < time) continue
+      if (evt.type === 'rocket') {
+        this.chime.playRocketPan(this.origin + evt.time)
+      } else {
+        this.chime.playChime(evt.type, this.origin + evt.time)
+      }
+    }
+
+    // Alarm chimes, every CHIME_INTERVAL from the wake time
+    for (const at of this.alarmChimes) {
+      if (at >= time) this.chime.playChime('start', this.origin + at)
+    }
+
+    if (this.isGuidedSession) {
+      this.voiceCues.seek(time)
+    }
+  }
+
+  /** Stretches the preset for sleep mode and plans the tail's volume and the alarm's chimes */
+  private planSleep(base: SessionPreset, settings: SleepModeSettings): SessionPreset {
+    this.sleep = sleepRamps(base, settings, this.wake)
+    this.alarmChimes = this.wake ? alarmChimes(base, settings, this.wake) : []
+    return sleepVariant(base, settings, this.wake)
+  }
+
+  /**
+   * Keeps an alarm on the wall clock. The audio clock stops while the
+   * context is suspended — by a pause, or by the browser in the background —
+   * so once it falls behind, resume it and jump ahead to where the session
+   * should be. Anything that moved it ahead is pulled back the same way.
+   */
+  private syncAlarmClock(): void {
+    if (!this.wake || !this.ctx) return
+    if (this.ctx.state === 'suspended') this.ctx.resume()
+    const wallElapsed = this.wake.wakeAt - (this.wakeAtMs - Date.now()) / 1000
+    if (Math.abs(wallElapsed - this._elapsed) > ALARM_DRIFT_TOLERANCE) this.jumpTo(wallElapsed)
+  }
+
+  /** Re-applies the ambient events still to come after a manual ambient change */
+  private scheduleUpcomingAmbientEvents(): void {
+    if (!this.timeline || !this.ambient.isRunning) return
+    for (const ramp of this.timeline.ambientRampsAfter(this._elapsed, this.ambientVolume)) {
+      this.ambient.scheduleVolumeRamp(ramp.from, ramp.to, this.origin + ramp.start, this.origin + ramp.end)
+    }
+  }
+
+  /** Replaces a gain's automation with `ramps` from session time `time` on (full gain when empty) */
+  private scheduleGainRamps(param: AudioParam, ramps: Ramp[], time: number): void {
+    if (!this.ctx) return
+    const now = this.ctx.currentTime
+    param.cancelScheduledValues(now)
+    scheduleRamps(1, ramps, time, (from, to, start, end) => scheduleRamp(param, from, to, now + start, now + end))
+  }
+
+  private fadeBus(target: number, durationSec: number): void {
+    if (!this.bus || !this.ctx) return
+    const now = this.ctx.currentTime
+    this.bus.gain.cancelScheduledValues(now)
+    this.bus.gain.setValueAtTime(this.bus.gain.value, now)
+    this.bus.gain.linearRampToValueAtTime(target, now + durationSec)
   }
 
   // ── Tick loop ─────────────────────────────────────────────
@@ -411,7 +629,7 @@ export class SessionManager {
   }
 
   private handleVisibilityChange = (): void => {
-    if (this._phase === 'idle' || this._phase === 'complete' || this.pausedAt > 0) return
+    if (this._phase === 'idle' || this._phase === 'complete' || this.paused) return
 
     this.stopTickLoop()
     if (document.visibilityState === 'hidden') {
@@ -423,11 +641,11 @@ export class SessionManager {
   }
 
   private tick = (): void => {
-    if (!this.preset || this.pausedAt > 0) return
+    if (!this.preset || !this.timeline || !this.ctx || this.paused) return
 
     try {
-      const now = performance.now()
-      this._elapsed = (now - this.startTime - this.pauseOffset) / 1000
+      this._elapsed = this.ctx.currentTime - this.origin
+      if (this.wake) this.syncAlarmClock()
 
       if (this._elapsed >= this.preset.duration) {
         this.completeSession()
@@ -436,59 +654,18 @@ export class SessionManager {
 
       this.updatePhase()
 
-      // Interpolate target beat frequency from envelope
-      let targetFreq = this.interpolateFrequency(this._elapsed)
-
-      // Apply habituation oscillation during main phase (±0.3 Hz, 45s period)
-      if (this._phase === 'main') {
-        const oscillation = Math.sin((this._elapsed * 2 * Math.PI) / 45) * 0.3
-        targetFreq += oscillation
-      }
-
-      // Ensure beat frequency stays positive
-      targetFreq = Math.max(targetFreq, 0.1)
-
-      // Smooth micro-ramp toward target
-      if (Math.abs(targetFreq - this.engine.currentBeatFreq) > 0.01) {
-        this.engine.rampBeatFrequency(targetFreq, 0.5)
-      }
-
-      // Update isochronic beat frequency to match
-      if (this._isochronicEnabled) {
-        this.isochronic.setBeatFrequency(targetFreq)
-      }
-
-      // Guided session tick updates
+      // Everything audible is already on the audio clock — just queue narration
       let guidancePhaseName: string | undefined
-      if (this.isGuidedSession && this.guidanceScript) {
-        // Voice cue processing
-        const { shouldChime } = this.voiceCues.tick(this._elapsed)
-        if (shouldChime) {
-          this.chime.playChime('transition')
-        }
-
-        // Resonant tuning management
-        this.updateResonantTone(this._elapsed)
-
-        // Update phased noise pan rate to match beat frequency
-        if (this.phasedNoise.isRunning) {
-          this.phasedNoise.setPanRate(targetFreq)
-        }
-
-        // ASGEP feature updates
-        this.updateSAM(this._elapsed)
-        this.updateCarrierGainEvents(this._elapsed)
-        this.updateAmbientEvents(this._elapsed)
-        this.checkRocketPan(this._elapsed)
-
-        // Get current guidance phase name
-        guidancePhaseName = this.getCurrentGuidancePhaseName(this._elapsed)
+      if (this.isGuidedSession) {
+        this.voiceCues.tick(this._elapsed, VOICE_LOOKAHEAD, (time) => this.origin + time)
+        guidancePhaseName = this.timeline.guidancePhaseAt(this._elapsed)
       }
 
       this.callback?.({
         phase: this._phase,
         elapsed: this._elapsed,
-        beatFreq: targetFreq,
+        beatFreq: this.timeline.beatFreqAt(this._elapsed),
+        targetFreq: this.timeline.envelopeFreqAt(this._elapsed),
         guidancePhaseName,
       })
     } catch (err) {
@@ -514,188 +691,24 @@ export class SessionManager {
       }
     }
 
-    // Play end chime for guided sessions
+    // The end chime is already scheduled on the timeline
     if (this.isGuidedSession) {
-      this.chime.playChime('end')
       this.voiceCues.stop()
-      if (this.resonantToneActive) {
+      if (this.resonantTone.isRunning) {
         this.resonantTone.stop()
-        this.resonantToneActive = false
       }
     }
 
     this.callback?.({
       phase: 'complete',
-      elapsed: this.preset?.duration ?? this._elapsed,
-      beatFreq: this.engine.currentBeatFreq,
+      elapsed: Math.min(this._elapsed, this.preset?.duration ?? this._elapsed),
+      beatFreq: this.currentBeatFreq,
+      targetFreq: this.currentTargetFreq,
     })
   }
 
   private updatePhase(): void {
-    if (!this.preset) return
-    const env = this.preset.frequencyEnvelope
-    const dur = this.preset.duration
-    const t = this._elapsed
-
-    if (env.length < 2) {
-      this._phase = 'main'
-      return
-    }
-
-    const inductionEnd = env[1].time
-    const returnStart = env.length >= 3 ? env[env.length - 2].time : dur * 0.85
-
-    if (t < inductionEnd) {
-      this._phase = 'induction'
-    } else if (this.preset.hasReturnPhase && t > returnStart) {
-      this._phase = 'return'
-    } else {
-      this._phase = 'main'
-    }
-  }
-
-  /** Linear interpolation between frequency envelope keyframes */
-  interpolateFrequency(time: number): number {
-    if (!this.preset) return 10
-
-    const env = this.preset.frequencyEnvelope
-    if (env.length === 0) return 10
-    if (env.length === 1) return env[0].beatFreq
-    if (time <= env[0].time) return env[0].beatFreq
-    if (time >= env[env.length - 1].time) return env[env.length - 1].beatFreq
-
-    let prev: FrequencyPoint = env[0]
-    let next: FrequencyPoint = env[env.length - 1]
-
-    for (let i = 0; i < env.length - 1; i++) {
-      if (time >= env[i].time && time < env[i + 1].time) {
-        prev = env[i]
-        next = env[i + 1]
-        break
-      }
-    }
-
-    const segDur = next.time - prev.time
-    if (segDur === 0) return prev.beatFreq
-    const progress = (time - prev.time) / segDur
-    return prev.beatFreq + (next.beatFreq - prev.beatFreq) * progress
-  }
-
-  // ── Guided session helpers ──────────────────────────────
-
-  private getCurrentGuidancePhaseName(elapsed: number): string | undefined {
-    if (!this.guidanceScript) return undefined
-    const phases = this.guidanceScript.phases
-    for (let i = phases.length - 1; i >= 0; i--) {
-      if (elapsed >= phases[i].startTime && elapsed < phases[i].endTime) {
-        return phases[i].name
-      }
-    }
-    return undefined
-  }
-
-  private updateResonantTone(elapsed: number): void {
-    if (!this.guidanceScript?.resonantTuning || !this.ctx) return
-
-    const rt = this.guidanceScript.resonantTuning
-    const inWindow = elapsed >= rt.startTime && elapsed < rt.endTime
-
-    if (inWindow && !this.resonantToneActive) {
-      this.resonantTone.start(
-        this.ctx,
-        this.ctx.destination,
-        rt.frequency ?? 136,
-        rt.gainDb ?? -6,
-      )
-      this.resonantToneActive = true
-    } else if (!inWindow && this.resonantToneActive) {
-      this.resonantTone.stop()
-      this.resonantToneActive = false
-    }
-  }
-
-  // ── ASGEP feature helpers ─────────────────────────────
-
-  /** Manages SAM engine activation/deactivation based on samWindows in the guidance script */
-  private updateSAM(elapsed: number): void {
-    if (!this.guidanceScript?.samWindows || !this.ctx) return
-
-    const windows = this.guidanceScript.samWindows
-    let activeIdx = -1
-
-    for (let i = 0; i < windows.length; i++) {
-      if (elapsed >= windows[i].startTime && elapsed < windows[i].endTime) {
-        activeIdx = i
-        break
-      }
-    }
-
-    if (activeIdx === this.activeSAMWindowIndex) {
-      // Already in correct state — just update mode if it changed
-      if (activeIdx >= 0) {
-        const win = windows[activeIdx]
-        this.sam.setRotationHz(win.rotationHz)
-        this.sam.setMode(win.mode)
-      }
-      return
-    }
-
-    // Window changed — stop old SAM if running, start new if entering a window
-    if (this.sam.isRunning) {
-      this.sam.fadeVolume(0, 2)
-      setTimeout(() => { if (!this.sam.isRunning) return; this.sam.stop() }, 2100)
-    }
-
-    if (activeIdx >= 0) {
-      const win = windows[activeIdx]
-      this.sam.start(
-        this.ctx,
-        this.ctx.destination,
-        win.rotationHz,
-        win.mode,
-        this.volume,
-        win.carrierFreq ?? 303,
-      )
-    }
-
-    this.activeSAMWindowIndex = activeIdx
-  }
-
-  /** Fires one-shot carrier gain events (e.g. fading in the 40 Hz Gamma overlay) */
-  private updateCarrierGainEvents(elapsed: number): void {
-    if (!this.guidanceScript?.carrierGainEvents) return
-
-    const events = this.guidanceScript.carrierGainEvents
-    for (let i = 0; i < events.length; i++) {
-      if (!this.firedCarrierGainEvents.has(i) && elapsed >= events[i].time) {
-        const evt = events[i]
-        this.engine.setCarrierGain(evt.carrierIndex, evt.targetGain, evt.durationSec)
-        this.firedCarrierGainEvents.add(i)
-      }
-    }
-  }
-
-  /** Fires one-shot ambient fade events (e.g. void silence drop at Focus 15 entry) */
-  private updateAmbientEvents(elapsed: number): void {
-    if (!this.guidanceScript?.ambientEvents) return
-
-    const events = this.guidanceScript.ambientEvents
-    for (let i = 0; i < events.length; i++) {
-      if (!this.firedAmbientEvents.has(i) && elapsed >= events[i].time) {
-        const evt = events[i]
-        this.ambient.fadeVolume(evt.targetVolume, evt.durationSec)
-        this.ambientVolume = evt.targetVolume
-        this.firedAmbientEvents.add(i)
-      }
-    }
-  }
-
-  /** Fires the one-shot rocket-pan transition FX at the specified timestamp */
-  private checkRocketPan(elapsed: number): void {
-    if (this.rocketPanFired || !this.guidanceScript?.rocketPanTime) return
-    if (elapsed >= this.guidanceScript.rocketPanTime) {
-      this.chime.playRocketPan()
-      this.rocketPanFired = true
-    }
+    if (!this.timeline) return
+    this._phase = this.timeline.phaseAt(this._elapsed)
   }
 }
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest'
+import type { SessionPreset } from '../types'
+import { presets } from '../presets'
+import { buildRamps, rampsValueAt, scheduleRamps, type Ramp } from './automation'
+import { CURVE_RATE, SessionTimeline } from './SessionTimeline'
+
+/** Two carriers and ambient sound, faded through three stages of a twenty-minute script */
+const preset: SessionPreset = {
+  ...presets[0],
+  duration: 1200,
+  carriers: [
+    { carrierFreq: 200, gainDb: 0 },
+    { carrierFreq: 300, gainDb: -6 },
+  ],
+  frequencyEnvelope: [
+    { time: 0, beatFreq: 10 },
+    { time: 300, beatFreq: 6 },
+    { time: 1200, beatFreq: 6 },
+  ],
+  habituation: { enabled: false, depth: 0, period: 60, waveform: 'sine' },
+  guidanceScript: {
+    voiceCues: [
+      { time: 600, text: 'Deeper now', chime: true },
+      { time: 60, text: 'Settle in' },
+      { time: 600, text: 'Let go', chimeOnly: true },
+    ],
+    phases: [
+      { name: 'Arrive', startTime: 0, endTime: 300 },
+      { name: 'Descend', startTime: 300, endTime: 900 },
+      { name: 'Rest', startTime: 900, endTime: 1200 },
+    ],
+    carrierGainEvents: [
+      { time: 300, carrierIndex: 1, targetGain: 1, durationSec: 60 },
+      { time: 900, carrierIndex: 1, targetGain: 0, durationSec: 120 },
+      // Starts partway through the fade above and takes over from there
+      { time: 960, carrierIndex: 1, targetGain: 0.25, durationSec: 40 },
+    ],
+    ambientEvents: [{ time: 900, targetVolume: 0.1, durationSec: 100 }],
+  },
+}
+
+const timeline = new SessionTimeline(preset)
+
+/** The calls scheduleRamps() makes, resuming at `offset` */
+function scheduled(initial: number, ramps: Ramp[], offset: number): Ramp[] {
+  const calls: Ramp[] = []
+  scheduleRamps(initial, ramps, offset, (from, to, start, end) => calls.push({ from, to, start, end }))
+  return calls
+}
+
+describe('SessionTimeline', () => {
+  it('compiles chimes and cues in time order', () => {
+    expect(timeline.voiceCues.map((c) => c.time)).toEqual([60, 600, 600])
+    expect(timeline.chimes).toEqual([
+      { time: 0, type: 'start' },
+      { time: 600, type: 'transition' },
+      { time: 1200, type: 'end' },
+    ])
+    expect(timeline.guidancePhaseAt(450)).toBe('Descend')
+  })
+
+  it('turns carrier gain events into ramps, each starting where the last one had reached', () => {
+    const { initial, ramps } = timeline.carrierRamps.get(1)!
+    expect(initial).toBeCloseTo(Math.pow(10, -6 / 20), 9)
+    expect(ramps[0]).toEqual({ from: initial, to: 1, start: 300, end: 360 })
+    expect(ramps[1]).toEqual({ from: 1, to: 0.5, start: 900, end: 960 })
+    expect(ramps[2]).toEqual({ from: 0.5, to: 0.25, start: 960, end: 1000 })
+    expect(timeline.carrierRamps.has(0)).toBe(false)
+  })
+
+  it('fades ambient sound in, then follows the script', () => {
+    expect(timeline.ambientRamps(0.6)).toEqual([
+      { from: 0, to: 0.6, start: 0, end: 2 },
+      { from: 0.6, to: 0.1, start: 900, end: 1000 },
+    ])
+    expect(timeline.ambientRampsAfter(500, 0.4)).toEqual([{ from: 0.4, to: 0.1, start: 900, end: 1000 }])
+    expect(timeline.ambientRampsAfter(950, 0.4)).toEqual([])
+  })
+
+  it('samples the beat curve across stages', () => {
+    const { curve, duration } = timeline.beatCurve(290, 310)
+    expect(duration).toBe(20)
+    expect(curve).toHaveLength(20 * CURVE_RATE + 1)
+    expect(curve[0]).toBeCloseTo(10 - (4 * 290) / 300, 5)
+    expect(curve[curve.length - 1]).toBe(6)
+    expect(timeline.beatCycles(1200) - timeline.beatCycles(300)).toBeCloseTo(6 * 900, 6)
+  })
+})
+
+describe('scheduleRamps', () => {
+  const { initial, ramps } = timeline.carrierRamps.get(1)!
+
+  it('replays every ramp from the start of the session', () => {
+    expect(scheduled(initial, ramps, 0)).toEqual([{ from: initial, to: initial, start: 0, end: 0 }, ...ramps])
+  })
+
+  it('resumes partway through a stage from the value it had reached', () => {
+    const calls = scheduled(initial, ramps, 930)
+    expect(calls).toEqual([
+      { from: 0.75, to: 0.75, start: 0, end: 0 },
+      { from: 0.75, to: 0.5, start: 0, end: 30 },
+      { from: 0.5, to: 0.25, start: 30, end: 70 },
+    ])
+    expect(rampsValueAt(initial, ramps, 930)).toBe(0.75)
+  })
+
+  it('holds the final value once every ramp is over', () => {
+    expect(scheduled(initial, ramps, 1100)).toEqual([{ from: 0.25, to: 0.25, start: 0, end: 0 }])
+  })
+})
+
+describe('buildRamps', () => {
+  it('orders fades by time and jumps for instant ones', () => {
+    const ramps = buildRamps(1, [
+      { time: 20, target: 1, durationSec: 0 },
+      { time: 10, target: 0, durationSec: 5 },
+    ])
+    expect(ramps).toEqual([
+      { from: 1, to: 0, start: 10, end: 15 },
+      { from: 0, to: 1, start: 20, end: 20 },
+    ])
+  })
+})
@@ -0,0 +1,172 @@
+import type { SessionPreset, SessionPhase, SAMWindow, IsochronicWindow, ResonantTuningConfig, VoiceCue } from '../types'
+import { getPhaseAt, getTargetBeatFreq, interpolateFrequency } from './envelope'
+import { buildRamps, type Ramp, type FadeRequest } from './automation'
+
+/** Beat frequency curve resolution (points per second) */
+export const CURVE_RATE = 4
+
+export interface ChimeEvent {
+  time: number
+  type: 'transition' | 'start' | 'end' | 'rocket'
+}
+
+export interface CarrierRamps {
+  /** Layer gain (0–1 scale) before the first event */
+  initial: number
+  ramps: Ramp[]
+}
+
+/**
+ * A preset compiled ahead of time into everything that happens at a known
+ * session time: the beat frequency curve, chimes, carrier and ambient fades,
+ * SAM, isochronic and resonant tuning windows, and voice cues.
+ *
+ * Times are session seconds. Live playback maps them onto
+ * AudioContext.currentTime; offline rendering maps them onto each chunk's
+ * OfflineAudioContext. Neither needs a tick loop to fire events on time.
+ */
+export class SessionTimeline {
+  readonly preset: SessionPreset
+  readonly duration: number
+  /** Voice cues sorted by time — cue indices refer to this order */
+  readonly voiceCues: VoiceCue[]
+  readonly chimes: ChimeEvent[]
+  readonly carrierRamps: Map<number, CarrierRamps>
+  readonly samWindows: SAMWindow[]
+  readonly isochronicWindows: IsochronicWindow[]
+  readonly resonantTuning: ResonantTuningConfig | null
+  /** Running beatCycles() totals at each curve point, per floor */
+  private cycleTables = new Map<number, number[]>()
+
+  constructor(preset: SessionPreset) {
+    const script = preset.guidanceScript ?? null
+    this.preset = preset
+    this.duration = preset.duration
+    this.voiceCues = [...(script?.voiceCues ?? [])].sort((a, b) => a.time - b.time)
+    this.samWindows = [...(script?.samWindows ?? [])].sort((a, b) => a.startTime - b.startTime)
+    this.isochronicWindows = [...(script?.isochronicWindows ?? [])].sort((a, b) => a.startTime - b.startTime)
+    this.resonantTuning = script?.resonantTuning ?? null
+
+    this.chimes = []
+    if (script) {
+      this.chimes.push({ time: 0, type: 'start' })
+      // Cues landing together only ever produce one transition chime
+      const chimeTimes = new Set(this.voiceCues.filter((c) => c.chime || c.chimeOnly).map((c) => c.time))
+      for (const time of chimeTimes) this.chimes.push({ time, type: 'transition' })
+      if (script.rocketPanTime) this.chimes.push({ time: script.rocketPanTime, type: 'rocket' })
+      this.chimes.push({ time: preset.duration, type: 'end' })
+      this.chimes.sort((a, b) => a.time - b.time)
+    }
+
+    this.carrierRamps = new Map()
+    const gainEvents = script?.carrierGainEvents ?? []
+    for (const index of new Set(gainEvents.map((e) => e.carrierIndex))) {
+      if (index >= preset.carriers.length) continue
+      const initial = Math.pow(10, preset.carriers[index].gainDb / 20)
+      const fades = gainEvents
+        .filter((e) => e.carrierIndex === index)
+        .map((e) => ({ time: e.time, target: e.targetGain, durationSec: e.durationSec }))
+      this.carrierRamps.set(index, { initial, ramps: buildRamps(initial, fades) })
+    }
+  }
+
+  get isGuided(): boolean {
+    return !!this.preset.guidanceScript
+  }
+
+  beatFreqAt(time: number): number {
+    return getTargetBeatFreq(this.preset, time)
+  }
+
+  /** The envelope's frequency at `time`, without the habituation oscillation */
+  envelopeFreqAt(time: number): number {
+    return interpolateFrequency(this.preset.frequencyEnvelope, time)
+  }
+
+  phaseAt(time: number): SessionPhase {
+    return getPhaseAt(this.preset, time)
+  }
+
+  guidancePhaseAt(time: number): string | undefined {
+    const phases = this.preset.guidanceScript?.phases ?? []
+    for (let i = phases.length - 1; i >= 0; i--) {
+      if (time >= phases[i].startTime && time < phases[i].endTime) {
+        return phases[i].name
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Samples the beat frequency between two session times for
+   * setValueCurveAtTime. The returned duration may overshoot `to` slightly
+   * so the curve lands on a whole sample.
+   */
+  beatCurve(from: number, to: number): { curve: Float32Array; duration: number } {
+    const points = Math.max(Math.ceil((to - from) * CURVE_RATE), 1) + 1
+    const curve = new Float32Array(points)
+    for (let i = 0; i < points; i++) curve[i] = this.beatFreqAt(from + i / CURVE_RATE)
+    return { curve, duration: (points - 1) / CURVE_RATE }
+  }
+
+  /**
+   * How many cycles something following the beat frequency (never below
+   * `floor`) has turned through by `time` — the integral of the curve as
+   * beatCurve() samples it, linear between points. Offline chunks start
+   * their beat-driven oscillators from here.
+   */
+  beatCycles(time: number, floor = 0): number {
+    const rate = (t: number) => Math.max(this.beatFreqAt(t), floor)
+    let table = this.cycleTables.get(floor)
+    if (!table) {
+      table = [0]
+      this.cycleTables.set(floor, table)
+    }
+    const index = Math.floor(time * CURVE_RATE)
+    while (table.length <= index) {
+      const i = table.length
+      table.push(table[i - 1] + (rate((i - 1) / CURVE_RATE) + rate(i / CURVE_RATE)) / (2 * CURVE_RATE))
+    }
+    // Partial step into the next segment
+    const from = rate(index / CURVE_RATE)
+    const dt = time - index / CURVE_RATE
+    const reached = from + (rate((index + 1) / CURVE_RATE) - from) * dt * CURVE_RATE
+    return table[index] + (dt * (from + reached)) / 2
+  }
+
+  /** Ambient volume ramps: a 2s fade-in to `volume`, then the script's ambient events */
+  ambientRamps(volume: number): Ramp[] {
+    return buildRamps(0, [{ time: 0, target: volume, durationSec: 2 }, ...this.ambientFades()])
+  }
+
+  /** Ambient events still to come after `time`, starting from a manually set `volume` */
+  ambientRampsAfter(time: number, volume: number): Ramp[] {
+    return buildRamps(volume, this.ambientFades().filter((f) => f.time > time))
+  }
+
+  private ambientFades(): FadeRequest[] {
+    return (this.preset.guidanceScript?.ambientEvents ?? []).map((e) => ({
+      time: e.time,
+      target: e.targetVolume,
+      durationSec: e.durationSec,
+    }))
+  }
+
+  /**
+   * Session-time spans where something audibly starts or stops: chimes,
+   * window fades and the session's own fade-in. Offline rendering keeps chunk
+   * boundaries out of these.
+   */
+  transitions(chimeSeconds: number): Array<[number, number]> {
+    const spans: Array<[number, number]> = [[0, 2]]
+    for (const chime of this.chimes) spans.push([chime.time, chime.time + chimeSeconds])
+    if (this.resonantTuning) {
+      const { startTime, endTime } = this.resonantTuning
+      spans.push([startTime, startTime + 2], [endTime, endTime + 0.6])
+    }
+    for (const win of [...this.samWindows, ...this.isochronicWindows]) {
+      spans.push([win.startTime, win.startTime + 3], [win.endTime, win.endTime + 2])
+    }
+    return spans
+  }
+}
@@ -1,9 +1,30 @@
-import type { VoiceCue } from '../types'
+import type { VoiceCue, NarrationSettings } from '../types'
 
 interface VoiceManifest {
   [trackId: string]: string[]
 }
 
+export const DEFAULT_NARRATION: NarrationSettings = {
+  voiceURI: null,
+  rate: 0.85,
+  pitch: 0.92,
+  liveForUnrecorded: false,
+}
+
+/** Builds a Web Speech utterance with the user's narration voice, rate and pitch */
+export function createUtterance(text: string, narration: NarrationSettings, volume: number): SpeechSynthesisUtterance {
+  const utterance = new SpeechSynthesisUtterance(text)
+  const voice = narration.voiceURI
+    ? speechSynthesis.getVoices().find((v) => v.voiceURI === narration.voiceURI)
+    : undefined
+  if (voice) utterance.voice = voice
+  utterance.lang = voice?.lang ?? 'en-US'
+  utterance.rate = narration.rate
+  utterance.pitch = narration.pitch
+  utterance.volume = volume
+  return utterance
+}
+
 export class VoiceCueEngine {
   private cues: VoiceCue[] = []
   private nextCueIndex = 0
@@ -12,40 +33,56 @@ export class VoiceCueEngine {
   private trackId = ''
 
   // Web Audio graph
-  private ctx: AudioContext | null = null
+  private ctx: BaseAudioContext | null = null
   private gainNode: GainNode | null = null
   private activeSource: AudioBufferSourceNode | null = null
+  /** Recorded cues handed to the context, with the context time each starts */
+  private scheduledSources = new Map<AudioBufferSourceNode, number>()
+  private speechTimers = new Set<ReturnType<typeof setTimeout>>()
+  private lastScheduledCue = -1
 
   // Audio buffer cache (index -> AudioBuffer)
   private bufferCache = new Map<number, AudioBuffer>()
   private fetchPromises = new Map<number, Promise<AudioBuffer | null>>()
   private manifest: string[] = []
   private manifestLoaded = false
+  private manifestPromise: Promise<void> = Promise.resolve()
 
   // Fallback flag
   private useFallback = false
+  /** The manifest has no recordings for this track (e.g. a custom preset) */
+  private unrecorded = false
+
+  // Live narration — speechSynthesis can't be routed through gainNode, so
+  // pause/resume/cancel follow the session by hand
+  private narration: NarrationSettings = DEFAULT_NARRATION
+  private utterances = new Set<SpeechSynthesisUtterance>()
 
   init(
-    ctx: AudioContext,
+    ctx: BaseAudioContext,
     destination: AudioNode,
     trackId: string,
     cues: VoiceCue[],
     options?: {
       volume?: number
       enabled?: boolean
+      narration?: NarrationSettings
     },
   ): void {
     this.ctx = ctx
     this.trackId = trackId
     this.cues = [...cues].sort((a, b) => a.time - b.time)
     this.nextCueIndex = 0
+    this.lastScheduledCue = -1
     this.volume = options?.volume ?? 0.71
     this.enabled = options?.enabled ?? true
+    this.narration = options?.narration ?? DEFAULT_NARRATION
     this.bufferCache = new Map()
     this.fetchPromises = new Map()
     this.manifest = []
     this.manifestLoaded = false
     this.useFallback = false
+    this.unrecorded = false
 
     // Create gain node for volume control
     this.gainNode = ctx.createGain()
@@ -53,31 +90,42 @@ export class VoiceCueEngine {
     this.gainNode.connect(destination)
 
     // Load manifest and start prefetching
-    this.loadManifest()
+    this.manifestPromise = this.loadManifest()
   }
 
-  tick(elapsed: number): { shouldChime: boolean; cueText?: string } {
-    if (this.nextCueIndex >= this.cues.length) {
-      return { shouldChime: false }
+  /**
+   * Fetches and decodes every spoken cue up front, keyed by cue index.
+   * Used for offline rendering, where there is no chance to fetch on the fly.
+   * Cues that would need the Web Speech fallback can't be rendered and are
+   * left out of the map.
+   */
+  async loadAllBuffers(): Promise<Map<number, AudioBuffer>> {
+    await this.manifestPromise
+    if (this.useFallback) {
+      console.warn('Pre-generated voice audio unavailable, exporting without narration')
+      return new Map()
     }
+    for (let i = 0; i < this.cues.length; i++) {
+      if (!this.cues[i].chimeOnly && this.cues[i].text) {
+        await this.fetchBuffer(i)
+      }
+    }
+    return new Map(this.bufferCache)
+  }
 
-    let shouldChime = false
-    let cueText: string | undefined
-
-    while (this.nextCueIndex < this.cues.length && this.cues[this.nextCueIndex].time <= elapsed) {
+  /**
+   * Schedules every spoken cue due within `lookahead` seconds of `elapsed`.
+   * `contextTimeAt` maps a session time onto the AudioContext clock so each
+   * cue starts exactly on time even when ticks arrive late.
+   */
+  tick(elapsed: number, lookahead = 0, contextTimeAt?: (time: number) => number): void {
+    while (this.nextCueIndex < this.cues.length && this.cues[this.nextCueIndex].time <= elapsed + lookahead) {
       const cue = this.cues[this.nextCueIndex]
       const cueIndex = this.nextCueIndex
       this.nextCueIndex++
 
-      if (cue.chime || cue.chimeOnly) {
-        shouldChime = true
-      }
-
-      if (!cue.chimeOnly && cue.text) {
-        cueText = cue.text
-        if (this.enabled) {
-          this.playAudio(cueIndex)
-        }
+      if (!cue.chimeOnly && cue.text && this.enabled) {
+        this.playAudio(cueIndex, contextTimeAt?.(cue.time))
       }
     }
 
@@ -85,8 +133,6 @@ export class VoiceCueEngine {
     if (this.enabled && this.manifestLoaded) {
       this.prefetchAhead(this.nextCueIndex, 3)
     }
-
-    return { shouldChime, cueText }
   }
 
   /** Get the most recent cue text at or before the given time (for seek/display) */
@@ -101,38 +147,35 @@ export class VoiceCueEngine {
     return text
   }
 
-  pause(): void {
-    this.stopActiveSource()
+  /**
+   * Drops queued cues (those not yet heard are re-queued from `elapsed`) and
+   * holds any live utterance mid-sentence. A recorded cue already playing is
+   * left alone — the session suspends the context, which holds it mid-word
+   * until resume.
+   */
+  pause(elapsed: number): void {
+    this.dropQueued()
+    this.rewind(elapsed)
+    if (this.utterances.size > 0 && typeof speechSynthesis !== 'undefined') {
+      speechSynthesis.pause()
+    }
   }
 
   resume(): void {
-    // Audio cues are short; we don't resume mid-cue
+    if (this.utterances.size > 0 && typeof speechSynthesis !== 'undefined') {
+      speechSynthesis.resume()
+    }
   }
 
   seek(time: number): void {
     this.stopActiveSource()
-
-    // Binary search for the next cue at or after `time`
-    let lo = 0
-    let hi = this.cues.length
-    while (lo < hi) {
-      const mid = (lo + hi) >>> 1
-      if (this.cues[mid].time < time) {
-        lo = mid + 1
-      } else {
-        hi = mid
-      }
-    }
-    this.nextCueIndex = lo
-
-    // Prefetch around new position
-    if (this.manifestLoaded) {
-      this.prefetchAhead(lo, 3)
-    }
+    this.cancelSpeech()
+    this.rewind(time)
   }
 
   stop(): void {
     this.stopActiveSource()
+    this.cancelSpeech()
 
     if (this.gainNode) {
       try {
@@ -143,6 +186,7 @@ export class VoiceCueEngine {
 
     this.cues = []
     this.nextCueIndex = 0
+    this.lastScheduledCue = -1
     this.bufferCache = new Map()
     this.fetchPromises = new Map()
     this.manifest = []
@@ -152,6 +196,28 @@ export class VoiceCueEngine {
 
   // ── Private helpers ─────────────────────────────────
 
+  /** Re-queues every cue at or after `time` */
+  private rewind(time: number): void {
+    // Binary search for the next cue at or after `time`
+    let lo = 0
+    let hi = this.cues.length
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1
+      if (this.cues[mid].time < time) {
+        lo = mid + 1
+      } else {
+        hi = mid
+      }
+    }
+    this.nextCueIndex = lo
+    this.lastScheduledCue = lo - 1
+
+    // Prefetch around new position
+    if (this.manifestLoaded) {
+      this.prefetchAhead(lo, 3)
+    }
+  }
+
   private async loadManifest(): Promise<void> {
     try {
       const base = import.meta.env.BASE_URL
@@ -166,8 +232,11 @@ export class VoiceCueEngine {
       this.manifestLoaded = true
 
       if (this.manifest.length === 0) {
-        console.warn(`No voice files for track "${this.trackId}", falling back to Web Speech API`)
         this.useFallback = true
+        this.unrecorded = true
+        if (this.narration.liveForUnrecorded) {
+          console.warn(`No voice files for track "${this.trackId}", using live narration`)
+        }
         return
       }
 
@@ -236,57 +305,116 @@ export class VoiceCueEngine {
     return promise
   }
 
-  private async playAudio(cueIndex: number): Promise<void> {
+  /** Plays a cue at context time `when` (now if omitted), cutting off the one before it */
+  private async playAudio(cueIndex: number, when?: number): Promise<void> {
     if (!this.ctx || !this.gainNode) return
-
-    // Stop any currently playing source
-    this.stopActiveSource()
+    this.lastScheduledCue = cueIndex
 
     if (this.useFallback || !this.manifestLoaded) {
-      this.speakFallback(this.cues[cueIndex]?.text)
+      this.scheduleSpeech(this.cues[cueIndex]?.text, when)
       return
     }
 
     const buffer = await this.fetchBuffer(cueIndex)
+    // A later cue was scheduled while this one was loading — it wins
+    if (this.lastScheduledCue !== cueIndex) return
     if (!buffer) {
       // Fetch failed — try Web Speech API fallback for this cue
-      this.speakFallback(this.cues[cueIndex]?.text)
+      this.scheduleSpeech(this.cues[cueIndex]?.text, when)
       return
     }
 
     if (!this.ctx || !this.gainNode) return
 
+    const startAt = Math.max(when ?? 0, this.ctx.currentTime)
+    if (this.activeSource) {
+      try {
+        this.activeSource.stop(startAt)
+      } catch { /* already stopped */ }
+    }
+
     const source = this.ctx.createBufferSource()
     source.buffer = buffer
     source.connect(this.gainNode)
     source.onended = () => {
+      this.scheduledSources.delete(source)
       if (this.activeSource === source) {
         this.activeSource = null
       }
     }
     this.activeSource = source
-    source.start()
+    this.scheduledSources.set(source, startAt)
+    source.start(startAt)
   }
 
   private stopActiveSource(): void {
-    if (this.activeSource) {
+    for (const source of this.scheduledSources.keys()) {
       try {
-        this.activeSource.stop()
+        source.stop()
       } catch { /* already stopped */ }
-      this.activeSource = null
     }
+    this.scheduledSources.clear()
+    this.activeSource = null
+    for (const timer of this.speechTimers) clearTimeout(timer)
+    this.speechTimers.clear()
+  }
+
+  /** Cancels cues that haven't started yet, keeping the one being heard */
+  private dropQueued(): void {
+    const now = this.ctx?.currentTime ?? 0
+    this.activeSource = null
+    for (const [source, startAt] of this.scheduledSources) {
+      if (startAt > now) {
+        try {
+          source.stop()
+        } catch { /* already stopped */ }
+        this.scheduledSources.delete(source)
+      } else {
+        this.activeSource = source
+      }
+    }
+    for (const timer of this.speechTimers) clearTimeout(timer)
+    this.speechTimers.clear()
+  }
+
+  /** Speech synthesis runs on wall-clock time, so wait out the gap until `when` */
+  private scheduleSpeech(text: string | undefined, when?: number): void {
+    const delayMs = when !== undefined && this.ctx ? (when - this.ctx.currentTime) * 1000 : 0
+    if (delayMs <= 0) {
+      this.speakFallback(text)
+      return
+    }
+    const timer = setTimeout(() => {
+      this.speechTimers.delete(timer)
+      this.speakFallback(text)
+    }, delayMs)
+    this.speechTimers.add(timer)
   }
 
   /** Fallback: use Web Speech API if pre-generated audio is unavailable */
   private speakFallback(text?: string): void {
     if (!text || typeof speechSynthesis === 'undefined') return
+    if (this.unrecorded && !this.narration.liveForUnrecorded) return
     try {
-      const utterance = new SpeechSynthesisUtterance(text)
-      utterance.rate = 0.85
-      utterance.pitch = 0.92
-      utterance.volume = this.volume
-      utterance.lang = 'en-US'
+      // Follow the voice gain, so fades and volume changes apply to the next cue
+      const volume = this.gainNode ? this.gainNode.gain.value : this.volume
+      const utterance = createUtterance(text, this.narration, volume)
+      const done = (): void => {
+        this.utterances.delete(utterance)
+      }
+      utterance.onend = done
+      utterance.onerror = done
+      this.utterances.add(utterance)
       speechSynthesis.speak(utterance)
     } catch { /* silent fail */ }
   }
+
+  /** Cancels live narration this engine started (spoken or still queued) */
+  private cancelSpeech(): void {
+    if (this.utterances.size === 0 || typeof speechSynthesis === 'undefined') return
+    this.utterances.clear()
+    speechSynthesis.cancel()
+    // A paused synth stays paused after cancel() in some browsers
+    speechSynthesis.resume()
+  }
 }
@@ -0,0 +1,84 @@
+/** A linear ramp of some value between two points in session time (seconds). */
+export interface Ramp {
+  from: number
+  to: number
+  start: number
+  end: number
+}
+
+/** A scheduled fade request — the shape shared by carrier gain and ambient events. */
+export interface FadeRequest {
+  time: number
+  target: number
+  durationSec: number
+}
+
+/** Schedules a linear ramp on an AudioParam between two context times. */
+export function scheduleRamp(param: AudioParam, from: number, to: number, startTime: number, endTime: number): void {
+  const start = Math.max(startTime, 0)
+  param.setValueAtTime(from, start)
+  if (endTime > start) {
+    param.linearRampToValueAtTime(to, endTime)
+  } else {
+    param.setValueAtTime(to, start)
+  }
+}
+
+/** Value of a ramp at time `t` (holds `from` before it starts and `to` after it ends). */
+export function rampValueAt(ramp: Ramp, t: number): number {
+  if (t <= ramp.start) return ramp.from
+  if (t >= ramp.end) return ramp.to
+  return ramp.from + (ramp.to - ramp.from) * ((t - ramp.start) / (ramp.end - ramp.start))
+}
+
+/**
+ * Flattens a list of fade requests into non-overlapping ramps, mirroring the
+ * live behaviour where each fade cancels the previous one and starts from
+ * whatever value the parameter has reached at that moment.
+ */
+export function buildRamps(initial: number, fades: FadeRequest[]): Ramp[] {
+  const sorted = [...fades].sort((a, b) => a.time - b.time)
+  const ramps: Ramp[] = []
+  let current: Ramp = { from: initial, to: initial, start: 0, end: 0 }
+
+  for (const fade of sorted) {
+    const from = rampValueAt(current, fade.time)
+    if (fade.time < current.end) {
+      // Truncate the previous ramp where the new fade takes over
+      current.to = from
+      current.end = fade.time
+    }
+    current = { from, to: fade.target, start: fade.time, end: fade.time + Math.max(fade.durationSec, 0) }
+    ramps.push(current)
+  }
+  return ramps
+}
+
+/** Value of a ramp sequence at time `t`. */
+export function rampsValueAt(initial: number, ramps: Ramp[], t: number): number {
+  let value = initial
+  for (const ramp of ramps) {
+    if (ramp.start > t) break
+    value = rampValueAt(ramp, t)
+  }
+  return value
+}
+
+/**
+ * Replays a ramp sequence onto a context whose time 0 corresponds to session
+ * time `offset`, starting from the value the sequence has reached by then.
+ */
+export function scheduleRamps(
+  initial: number,
+  ramps: Ramp[],
+  offset: number,
+  schedule: (from: number, to: number, startTime: number, endTime: number) => void,
+): void {
+  const value = rampsValueAt(initial, ramps, offset)
+  schedule(value, value, 0, 0)
+  for (const ramp of ramps) {
+    if (ramp.end <= offset) continue
+    const start = Math.max(ramp.start, offset)
+    schedule(rampValueAt(ramp, start), ramp.to, start - offset, ramp.end - offset)
+  }
+}
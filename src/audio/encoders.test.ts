@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest'
+import { FlacEncoder, WavEncoder } from './encoders'
+
+/** A few cycles of a stereo test signal, including clipped samples */
+function testSignal(length: number): Float32Array[] {
+  const left = new Float32Array(length)
+  const right = new Float32Array(length)
+  for (let i = 0; i < length; i++) {
+    left[i] = 0.8 * Math.sin((2 * Math.PI * 220 * i) / 44100)
+    right[i] = 1.2 * Math.sin((2 * Math.PI * 7 * i) / 44100) + 0.01 * Math.cos(i)
+  }
+  return [left, right]
+}
+
+function toInt16(sample: number): number {
+  const s = Math.max(-1, Math.min(1, sample))
+  return s < 0 ? Math.round(s * 0x8000) : Math.round(s * 0x7fff)
+}
+
+async function bytesOf(blob: Blob): Promise<Uint8Array> {
+  return new Uint8Array(await blob.arrayBuffer())
+}
+
+/** MSB-first reader for the subset of FLAC that FlacEncoder writes */
+class BitReader {
+  private pos = 0
+  private readonly bytes: Uint8Array
+
+  constructor(bytes: Uint8Array, byteOffset: number) {
+    this.bytes = bytes
+    this.pos = byteOffset * 8
+  }
+
+  get byteOffset(): number {
+    return Math.ceil(this.pos / 8)
+  }
+
+  read(n: number): number {
+    let value = 0
+    for (let i = 0; i < n; i++) {
+      const bit = (this.bytes[this.pos >> 3] >> (7 - (this.pos & 7))) & 1
+      value = value * 2 + bit
+      this.pos++
+    }
+    return value
+  }
+
+  readSigned(n: number): number {
+    const value = this.read(n)
+    return value >= 2 ** (n - 1) ? value - 2 ** n : value
+  }
+
+  readUnary(): number {
+    let count = 0
+    while (this.read(1) === 0) count++
+    return count
+  }
+
+  align(): void {
+    this.pos = Math.ceil(this.pos / 8) * 8
+  }
+}
+
+function decodeSubframe(reader: BitReader, blockSize: number): number[] {
+  expect(reader.read(1)).toBe(0)
+  const type = reader.read(6)
+  expect(type & 0b111000).toBe(0b001000)
+  const order = type & 0b111
+  expect(reader.read(1)).toBe(0)
+
+  const samples: number[] = []
+  for (let i = 0; i < order; i++) samples.push(reader.readSigned(16))
+  expect(reader.read(2)).toBe(0)
+  expect(reader.read(4)).toBe(0)
+  const k = reader.read(4)
+  for (let i = order; i < blockSize; i++) {
+    const u = reader.readUnary() * 2 ** k + reader.read(k)
+    const r = u % 2 === 0 ? u / 2 : -(u + 1) / 2
+    const prediction = order === 0 ? 0 : order === 1 ? samples[i - 1] : 2 * samples[i - 1] - samples[i - 2]
+    samples.push(r + prediction)
+  }
+  return samples
+}
+
+/** Decodes a FlacEncoder stream back to 16-bit samples per channel */
+function decodeFlac(bytes: Uint8Array): { sampleRate: number; totalSamples: number; channels: number[][] } {
+  expect(String.fromCharCode(...bytes.subarray(0, 4))).toBe('fLaC')
+  const info = new BitReader(bytes, 8)
+  info.read(16 + 16 + 24 + 24)
+  const sampleRate = info.read(20)
+  expect(info.read(3)).toBe(1)
+  expect(info.read(5)).toBe(15)
+  const totalSamples = info.read(36)
+
+  const channels: number[][] = [[], []]
+  let offset = 42
+  while (offset < bytes.length) {
+    const reader = new BitReader(bytes, offset)
+    expect(reader.read(14)).toBe(0x3ffe)
+    reader.read(2)
+    expect(reader.read(4)).toBe(0b0111)
+    reader.read(4 + 4 + 3 + 1)
+    // Frame numbers stay below 0x80 in these tests
+    reader.read(8)
+    const blockSize = reader.read(16) + 1
+    reader.read(8)
+    channels[0].push(...decodeSubframe(reader, blockSize))
+    channels[1].push(...decodeSubframe(reader, blockSize))
+    reader.align()
+    reader.read(16)
+    offset = reader.byteOffset
+  }
+  return { sampleRate, totalSamples, channels }
+}
+
+describe('WavEncoder', () => {
+  it('writes a 16-bit stereo PCM file of every appended slice', async () => {
+    const [left, right] = testSignal(1000)
+    const encoder = new WavEncoder(44100)
+    encoder.append([left.subarray(0, 300), right.subarray(0, 300)])
+    encoder.append([left.subarray(300), right.subarray(300)])
+    const bytes = await bytesOf(encoder.finish())
+    const view = new DataView(bytes.buffer)
+
+    expect(String.fromCharCode(...bytes.subarray(0, 4))).toBe('RIFF')
+    expect(view.getUint32(4, true)).toBe(bytes.length - 8)
+    expect(view.getUint16(22, true)).toBe(2)
+    expect(view.getUint32(24, true)).toBe(44100)
+    expect(view.getUint32(40, true)).toBe(1000 * 4)
+
+    for (let i = 0; i < 1000; i++) {
+      expect(view.getInt16(44 + i * 4, true)).toBe(toInt16(left[i]))
+      expect(view.getInt16(46 + i * 4, true)).toBe(toInt16(right[i]))
+    }
+  })
+})
+
+describe('FlacEncoder', () => {
+  it('decodes back to the same 16-bit samples', async () => {
+    // Not a multiple of the block size, so the last frame is short
+    const length = 4096 * 2 + 1234
+    const [left, right] = testSignal(length)
+    const encoder = new FlacEncoder(48000)
+    for (let start = 0; start < length; start += 3000) {
+      encoder.append([left.subarray(start, start + 3000), right.subarray(start, start + 3000)])
+    }
+    const decoded = decodeFlac(await bytesOf(encoder.finish()))
+
+    expect(decoded.sampleRate).toBe(48000)
+    expect(decoded.totalSamples).toBe(length)
+    expect(decoded.channels[0]).toEqual(Array.from(left, toInt16))
+    expect(decoded.channels[1]).toEqual(Array.from(right, toInt16))
+  })
+
+  it('encodes silence and full-scale steps losslessly', async () => {
+    const left = new Float32Array(500)
+    const right = new Float32Array(500)
+    for (let i = 0; i < 500; i++) right[i] = i % 50 < 25 ? 1 : -1
+    const encoder = new FlacEncoder(44100)
+    encoder.append([left, right])
+    const decoded = decodeFlac(await bytesOf(encoder.finish()))
+
+    expect(decoded.channels[0]).toEqual(new Array(500).fill(0))
+    expect(decoded.channels[1]).toEqual(Array.from(right, toInt16))
+  })
+})
@@ -0,0 +1,339 @@
+/**
+ * Streaming stereo encoders for offline session export.
+ *
+ * Both take rendered Float32 channel data in arbitrary-sized slices via
+ * append() and produce a Blob on finish(). Samples are quantised to 16-bit,
+ * which is what car stereos and portable players reliably support.
+ */
+export interface AudioEncoder {
+  readonly mimeType: string
+  readonly extension: string
+  append(channels: Float32Array[]): void
+  finish(): Blob
+}
+
+function toInt16(sample: number): number {
+  const s = Math.max(-1, Math.min(1, sample))
+  return s < 0 ? Math.round(s * 0x8000) : Math.round(s * 0x7fff)
+}
+
+// ── WAV ─────────────────────────────────────────────
+
+export class WavEncoder implements AudioEncoder {
+  readonly mimeType = 'audio/wav'
+  readonly extension = 'wav'
+  private parts: ArrayBuffer[] = []
+  private dataBytes = 0
+  private readonly sampleRate: number
+
+  constructor(sampleRate: number) {
+    this.sampleRate = sampleRate
+  }
+
+  append(channels: Float32Array[]): void {
+    const [left, right] = channels
+    const length = left.length
+    const buffer = new ArrayBuffer(length * 4)
+    const view = new DataView(buffer)
+    for (let i = 0; i < length; i++) {
+      view.setInt16(i * 4, toInt16(left[i]), true)
+      view.setInt16(i * 4 + 2, toInt16(right[i]), true)
+    }
+    this.parts.push(buffer)
+    this.dataBytes += buffer.byteLength
+  }
+
+  finish(): Blob {
+    const header = new ArrayBuffer(44)
+    const view = new DataView(header)
+    const writeStr = (offset: number, str: string) => {
+      for (let i = 0; i < str.length; i++) view.setUint8(offset + i, str.charCodeAt(i))
+    }
+    writeStr(0, 'RIFF')
+    view.setUint32(4, 36 + this.dataBytes, true)
+    writeStr(8, 'WAVE')
+    writeStr(12, 'fmt ')
+    view.setUint32(16, 16, true)
+    view.setUint16(20, 1, true) // PCM
+    view.setUint16(22, 2, true) // stereo
+    view.setUint32(24, this.sampleRate, true)
+    view.setUint32(28, this.sampleRate * 4, true)
+    view.setUint16(32, 4, true)
+    view.setUint16(34, 16, true)
+    writeStr(36, 'data')
+    view.setUint32(40, this.dataBytes, true)
+
+    const blob = new Blob([header, ...this.parts], { type: this.mimeType })
+    this.parts = []
+    return blob
+  }
+}
+
+// ── FLAC ────────────────────────────────────────────
+
+const FLAC_BLOCK_SIZE = 4096
+
+const CRC8_TABLE = new Uint8Array(256)
+const CRC16_TABLE = new Uint16Array(256)
+for (let i = 0; i < 256; i++) {
+  let c8 = i
+  let c16 = i << 8
+  for (let b = 0; b < 8; b++) {
+    c8 = c8 & 0x80 ? ((c8 << 1) ^ 0x07) & 0xff : (c8 << 1) & 0xff
+    c16 = c16 & 0x8000 ? ((c16 << 1) ^ 0x8005) & 0xffff : (c16 << 1) & 0xffff
+  }
+  CRC8_TABLE[i] = c8
+  CRC16_TABLE[i] = c16
+}
+
+function crc8(bytes: Uint8Array, end: number): number {
+  let crc = 0
+  for (let i = 0; i < end; i++) crc = CRC8_TABLE[crc ^ bytes[i]]
+  return crc
+}
+
+function crc16(bytes: Uint8Array, end: number): number {
+  let crc = 0
+  for (let i = 0; i < end; i++) crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ bytes[i]]
+  return crc
+}
+
+/** MSB-first bit writer backed by a growable byte array */
+class BitWriter {
+  bytes: Uint8Array<ArrayBuffer>
+  length = 0
+  private acc = 0
+  private accBits = 0
+
+  constructor(capacity: number) {
+    this.bytes = new Uint8Array(capacity)
+  }
+
+  /** Writes the low `n` bits of `value` (n ≤ 24) */
+  write(value: number, n: number): void {
+    if (n === 0) return
+    this.acc = (this.acc << n) | (value & ((1 << n) - 1))
+    this.accBits += n
+    while (this.accBits >= 8) {
+      this.accBits -= 8
+      this.pushByte((this.acc >>> this.accBits) & 0xff)
+    }
+    this.acc &= (1 << this.accBits) - 1
+  }
+
+  /** Writes the low `n` bits of `value` for n up to 32 */
+  writeLong(value: number, n: number): void {
+    if (n > 24) {
+      this.write(Math.floor(value / 0x1000000), n - 24)
+      this.write(value % 0x1000000, 24)
+    } else {
+      this.write(value, n)
+    }
+  }
+
+  /** Unary code: `count` zero bits followed by a one */
+  writeUnary(count: number): void {
+    while (count >= 24) {
+      this.write(0, 24)
+      count -= 24
+    }
+    this.write(1, count + 1)
+  }
+
+  /** Pads with zero bits to the next byte boundary */
+  align(): void {
+    if (this.accBits > 0) this.write(0, 8 - this.accBits)
+  }
+
+  pushByte(byte: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2)
+      grown.set(this.bytes)
+      this.bytes = grown
+    }
+    this.bytes[this.length++] = byte
+  }
+}
+
+/** Residual of the FLAC fixed predictor of the given order at sample i */
+function fixedResidual(s: Int32Array, i: number, order: number): number {
+  switch (order) {
+    case 0: return s[i]
+    case 1: return s[i] - s[i - 1]
+    default: return s[i] - 2 * s[i - 1] + s[i - 2]
+  }
+}
+
+function riceCost(s: Int32Array, order: number, k: number): number {
+  let bits = 0
+  for (let i = order; i < s.length; i++) {
+    const r = fixedResidual(s, i, order)
+    bits += ((r >= 0 ? r * 2 : -r * 2 - 1) >>> k) + 1 + k
+  }
+  return bits
+}
+
+/**
+ * Minimal FLAC encoder: fixed 4096-sample blocks, independent stereo and
+ * FIXED-predictor subframes (order 0–2) with a single Rice partition.
+ * Compression is modest, but the stream is valid and lossless at 16-bit.
+ */
+export class FlacEncoder implements AudioEncoder {
+  readonly mimeType = 'audio/flac'
+  readonly extension = 'flac'
+  private frames: Uint8Array<ArrayBuffer>[] = []
+  private pendingL = new Int32Array(FLAC_BLOCK_SIZE)
+  private pendingR = new Int32Array(FLAC_BLOCK_SIZE)
+  private pendingCount = 0
+  private frameNumber = 0
+  private totalSamples = 0
+  private minFrameBytes = 0xffffff
+  private maxFrameBytes = 0
+  private readonly sampleRate: number
+
+  constructor(sampleRate: number) {
+    this.sampleRate = sampleRate
+  }
+
+  append(channels: Float32Array[]): void {
+    const [left, right] = channels
+    for (let i = 0; i < left.length; i++) {
+      this.pendingL[this.pendingCount] = toInt16(left[i])
+      this.pendingR[this.pendingCount] = toInt16(right[i])
+      this.pendingCount++
+      if (this.pendingCount === FLAC_BLOCK_SIZE) {
+        this.encodeFrame(this.pendingL, this.pendingR)
+        this.pendingCount = 0
+      }
+    }
+  }
+
+  finish(): Blob {
+    if (this.pendingCount > 0) {
+      this.encodeFrame(this.pendingL.subarray(0, this.pendingCount), this.pendingR.subarray(0, this.pendingCount))
+      this.pendingCount = 0
+    }
+
+    const header = new BitWriter(42)
+    for (const ch of 'fLaC') header.write(ch.charCodeAt(0), 8)
+    header.write(1, 1)   // last metadata block
+    header.write(0, 7)   // STREAMINFO
+    header.write(34, 24)
+    header.write(FLAC_BLOCK_SIZE, 16)
+    header.write(FLAC_BLOCK_SIZE, 16)
+    header.write(this.frames.length > 0 ? this.minFrameBytes : 0, 24)
+    header.write(this.maxFrameBytes, 24)
+    header.write(this.sampleRate >>> 4, 16)
+    header.write(this.sampleRate & 0xf, 4)
+    header.write(1, 3)   // channels - 1
+    header.write(15, 5)  // bits per sample - 1
+    header.write(Math.floor(this.totalSamples / 0x100000000), 4)
+    header.writeLong(this.totalSamples % 0x100000000, 32)
+    for (let i = 0; i < 16; i++) header.write(0, 8) // MD5 not computed
+
+    const blob = new Blob([header.bytes.slice(0, header.length), ...this.frames], { type: this.mimeType })
+    this.frames = []
+    return blob
+  }
+
+  private encodeFrame(left: Int32Array, right: Int32Array): void {
+    const blockSize = left.length
+    const out = new BitWriter(blockSize * 5 + 32)
+
+    // Frame header
+    out.write(0x3ffe, 14) // sync
+    out.write(0, 1)
+    out.write(0, 1)       // fixed blocking
+    out.write(0b0111, 4)  // 16-bit (blocksize - 1) follows
+    out.write(this.sampleRateCode(), 4)
+    out.write(0b0001, 4)  // independent stereo
+    out.write(0b100, 3)   // 16 bits per sample
+    out.write(0, 1)
+    this.writeUtf8(out, this.frameNumber)
+    out.write(blockSize - 1, 16)
+    out.write(crc8(out.bytes, out.length), 8)
+
+    this.encodeSubframe(out, left)
+    this.encodeSubframe(out, right)
+
+    out.align()
+    const crc = crc16(out.bytes, out.length)
+    out.write(crc, 16)
+
+    const frame = out.bytes.slice(0, out.length)
+    this.frames.push(frame)
+    this.minFrameBytes = Math.min(this.minFrameBytes, frame.length)
+    this.maxFrameBytes = Math.max(this.maxFrameBytes, frame.length)
+    this.frameNumber++
+    this.totalSamples += blockSize
+  }
+
+  private encodeSubframe(out: BitWriter, samples: Int32Array): void {
+    const n = samples.length
+
+    // Pick the predictor order with the smallest absolute residual sum
+    let order = 0
+    let bestSum = Infinity
+    for (let o = 0; o <= Math.min(2, n - 1); o++) {
+      let sum = 0
+      for (let i = o; i < n; i++) sum += Math.abs(fixedResidual(samples, i, o))
+      if (sum < bestSum) {
+        bestSum = sum
+        order = o
+      }
+    }
+
+    // Rice parameter from the mean residual, refined against its neighbours
+    const count = Math.max(n - order, 1)
+    const estimate = Math.max(0, Math.min(14, Math.floor(Math.log2(Math.max((2 * bestSum) / count, 1)))))
+    let k = estimate
+    let bestCost = riceCost(samples, order, k)
+    for (const candidate of [estimate - 1, estimate + 1]) {
+      if (candidate < 0 || candidate > 14) continue
+      const cost = riceCost(samples, order, candidate)
+      if (cost < bestCost) {
+        bestCost = cost
+        k = candidate
+      }
+    }
+
+    out.write(0, 1)
+    out.write(0b001000 | order, 6) // FIXED
+    out.write(0, 1)                // no wasted bits
+    for (let i = 0; i < order; i++) out.write(samples[i], 16)
+
+    out.write(0b00, 2) // Rice, 4-bit parameter
+    out.write(0, 4)    // partition order 0
+    out.write(k, 4)
+    for (let i = order; i < n; i++) {
+      const r = fixedResidual(samples, i, order)
+      const u = r >= 0 ? r * 2 : -r * 2 - 1
+      out.writeUnary(u >>> k)
+      out.write(u, k)
+    }
+  }
+
+  private sampleRateCode(): number {
+    switch (this.sampleRate) {
+      case 44100: return 0b1001
+      case 48000: return 0b1010
+      case 96000: return 0b1011
+      default: return 0b0000 // take it from STREAMINFO
+    }
+  }
+
+  /** FLAC's UTF-8-style variable-length frame number */
+  private writeUtf8(out: BitWriter, value: number): void {
+    if (value < 0x80) {
+      out.write(value, 8)
+      return
+    }
+    const extra = value < 0x800 ? 1 : value < 0x10000 ? 2 : value < 0x200000 ? 3 : value < 0x4000000 ? 4 : 5
+    const leadBits = 6 - extra
+    const lead = (0xff << (7 - extra)) & 0xff
+    out.write(lead | ((value >>> (extra * 6)) & ((1 << leadBits) - 1)), 8)
+    for (let i = extra - 1; i >= 0; i--) {
+      out.write(0x80 | ((value >>> (i * 6)) & 0x3f), 8)
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import type { FrequencyPoint } from '../types'
+import { allPresets } from '../presets'
+import { interpolateFrequency, segmentValue } from './envelope'
+
+/** interpolateFrequency as it was before segments had curves */
+function linearReference(envelope: FrequencyPoint[], time: number): number {
+  if (envelope.length === 0) return 10
+  if (envelope.length === 1) return envelope[0].beatFreq
+  if (time <= envelope[0].time) return envelope[0].beatFreq
+  if (time >= envelope[envelope.length - 1].time) return envelope[envelope.length - 1].beatFreq
+
+  let prev: FrequencyPoint = envelope[0]
+  let next: FrequencyPoint = envelope[envelope.length - 1]
+  for (let i = 0; i < envelope.length - 1; i++) {
+    if (time >= envelope[i].time && time < envelope[i + 1].time) {
+      prev = envelope[i]
+      next = envelope[i + 1]
+      break
+    }
+  }
+
+  const segDur = next.time - prev.time
+  if (segDur === 0) return prev.beatFreq
+  const progress = (time - prev.time) / segDur
+  return prev.beatFreq + (next.beatFreq - prev.beatFreq) * progress
+}
+
+/** One segment from 2 Hz to 8 Hz over 100 seconds, with the given curve */
+function segment(curve?: FrequencyPoint['curve']): FrequencyPoint[] {
+  return [{ time: 0, beatFreq: 2, ...(curve ? { curve } : {}) }, { time: 100, beatFreq: 8 }]
+}
+
+describe('interpolateFrequency', () => {
+  it('gives every envelope without curves exactly the values it had before', () => {
+    const plain = allPresets.filter((p) => p.frequencyEnvelope.every((point) => point.curve === undefined))
+    expect(plain.length).toBeGreaterThan(0)
+    for (const preset of plain) {
+      for (let time = -5; time <= preset.duration + 5; time += 7) {
+        expect(interpolateFrequency(preset.frequencyEnvelope, time)).toBe(linearReference(preset.frequencyEnvelope, time))
+      }
+    }
+  })
+
+  it('treats an explicit linear curve like none', () => {
+    for (const time of [0, 25, 50, 99.9, 100]) {
+      expect(interpolateFrequency(segment('linear'), time)).toBe(linearReference(segment(), time))
+    }
+  })
+
+  it('keeps the edge cases of an empty or single-point envelope', () => {
+    expect(interpolateFrequency([], 30)).toBe(10)
+    expect(interpolateFrequency([{ time: 0, beatFreq: 7 }], 30)).toBe(7)
+  })
+})
+
+describe('segment curves', () => {
+  it('exponential moves by equal ratios', () => {
+    expect(interpolateFrequency(segment('exponential'), 50)).toBeCloseTo(4, 9)
+    expect(interpolateFrequency(segment('exponential'), 25)).toBeCloseTo(2 * Math.SQRT2, 9)
+    // Falls back to linear when a frequency is zero
+    expect(segmentValue({ time: 0, beatFreq: 0, curve: 'exponential' }, { time: 10, beatFreq: 8 }, 0.5)).toBe(4)
+  })
+
+  it('ease starts and ends slowly, passing the midpoint halfway', () => {
+    expect(interpolateFrequency(segment('ease'), 50)).toBeCloseTo(5, 9)
+    expect(interpolateFrequency(segment('ease'), 10)).toBeCloseTo(2 + 6 * ((1 - Math.cos(Math.PI * 0.1)) / 2), 9)
+    expect(interpolateFrequency(segment('ease'), 10)).toBeLessThan(linearReference(segment(), 10))
+  })
+
+  it('hold keeps the first frequency until the next point', () => {
+    expect(interpolateFrequency(segment('hold'), 0)).toBe(2)
+    expect(interpolateFrequency(segment('hold'), 99.9)).toBe(2)
+    expect(interpolateFrequency(segment('hold'), 100)).toBe(8)
+  })
+
+  it('step jumps to the next frequency straight away', () => {
+    expect(interpolateFrequency(segment('step'), 0.1)).toBe(8)
+    expect(interpolateFrequency(segment('step'), 60)).toBe(8)
+  })
+})
@@ -0,0 +1,171 @@
+import type { SessionPreset, SessionPhase, FrequencyPoint, HabituationConfig, PhaseMarkers } from '../types'
+
+/** Frequency within one envelope segment at `progress` (0–1), shaped by the segment's curve */
+export function segmentValue(from: FrequencyPoint, to: FrequencyPoint, progress: number): number {
+  const a = from.beatFreq
+  const b = to.beatFreq
+  switch (from.curve ?? 'linear') {
+    case 'hold':
+      return progress < 1 ? a : b
+    case 'step':
+      return b
+    case 'exponential':
+      if (a > 0 && b > 0) return a * Math.pow(b / a, progress)
+      break
+    case 'ease':
+      return a + (b - a) * ((1 - Math.cos(Math.PI * progress)) / 2)
+  }
+  return a + (b - a) * progress
+}
+
+/** Interpolation between frequency envelope keyframes, honouring each segment's curve */
+export function interpolateFrequency(envelope: FrequencyPoint[], time: number): number {
+  if (envelope.length === 0) return 10
+  if (envelope.length === 1) return envelope[0].beatFreq
+  if (time <= envelope[0].time) return envelope[0].beatFreq
+  if (time >= envelope[envelope.length - 1].time) return envelope[envelope.length - 1].beatFreq
+
+  let prev: FrequencyPoint = envelope[0]
+  let next: FrequencyPoint = envelope[envelope.length - 1]
+
+  for (let i = 0; i < envelope.length - 1; i++) {
+    if (time >= envelope[i].time && time < envelope[i + 1].time) {
+      prev = envelope[i]
+      next = envelope[i + 1]
+      break
+    }
+  }
+
+  const segDur = next.time - prev.time
+  if (segDur === 0) return prev.beatFreq
+  return segmentValue(prev, next, (time - prev.time) / segDur)
+}
+
+/**
+ * Polyline tracing the envelope for drawing: the keyframes plus intermediate
+ * points on curved segments, with holds and steps drawn as square corners.
+ */
+export function envelopeOutline(envelope: FrequencyPoint[], samplesPerSegment = 16): FrequencyPoint[] {
+  const outline: FrequencyPoint[] = []
+  for (let i = 0; i < envelope.length - 1; i++) {
+    const from = envelope[i]
+    const to = envelope[i + 1]
+    outline.push({ time: from.time, beatFreq: from.beatFreq })
+    switch (from.curve ?? 'linear') {
+      case 'linear':
+        break
+      case 'hold':
+        outline.push({ time: to.time, beatFreq: from.beatFreq })
+        break
+      case 'step':
+        outline.push({ time: from.time, beatFreq: to.beatFreq })
+        break
+      default:
+        for (let k = 1; k < samplesPerSegment; k++) {
+          const progress = k / samplesPerSegment
+          outline.push({
+            time: from.time + (to.time - from.time) * progress,
+            beatFreq: segmentValue(from, to, progress),
+          })
+        }
+    }
+  }
+  const last = envelope[envelope.length - 1]
+  if (last) outline.push({ time: last.time, beatFreq: last.beatFreq })
+  return outline
+}
+
+/**
+ * Phase boundaries guessed from the envelope shape: induction ends at the
+ * second keyframe, return starts at the second-to-last. Used for presets
+ * saved before phase markers existed.
+ */
+export function derivePhaseMarkers(envelope: FrequencyPoint[], duration: number): PhaseMarkers {
+  if (envelope.length < 2) return { inductionEnd: 0 }
+  return {
+    inductionEnd: envelope[1].time,
+    returnStart: envelope.length >= 3 ? envelope[envelope.length - 2].time : duration * 0.85,
+  }
+}
+
+/**
+ * The preset's phase boundaries, with `returnStart` null when the session
+ * has no return phase.
+ */
+export function getPhaseMarkers(preset: SessionPreset): { inductionEnd: number; returnStart: number | null } {
+  const markers = preset.phases ?? derivePhaseMarkers(preset.frequencyEnvelope, preset.duration)
+  return {
+    inductionEnd: markers.inductionEnd,
+    returnStart: preset.hasReturnPhase ? markers.returnStart ?? null : null,
+  }
+}
+
+export function getPhaseAt(preset: SessionPreset, time: number): SessionPhase {
+  const { inductionEnd, returnStart } = getPhaseMarkers(preset)
+  if (time < inductionEnd) return 'induction'
+  if (returnStart !== null && time > returnStart) return 'return'
+  return 'main'
+}
+
+/** Habituation used by presets that don't configure their own */
+export const DEFAULT_HABITUATION: HabituationConfig = {
+  enabled: true,
+  depth: 0.3,
+  period: 45,
+  waveform: 'sine',
+}
+
+/** Deterministic 0–1 hash of an integer lattice point for a given seed */
+function latticeNoise(seed: number, n: number): number {
+  let h = (seed ^ Math.imul(n, 0x27d4eb2d)) >>> 0
+  h = Math.imul(h ^ (h >>> 15), 0x85ebca6b)
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35)
+  return ((h ^ (h >>> 16)) >>> 0) / 0xffffffff
+}
+
+function seedFrom(id: string): number {
+  let h = 2166136261
+  for (let i = 0; i < id.length; i++) h = Math.imul(h ^ id.charCodeAt(i), 16777619)
+  return h >>> 0
+}
+
+/**
+ * Smooth random wander in -1..1, one lattice point per `period`. Seeded from
+ * the preset id so live playback, seeking and export all hear the same drift.
+ */
+function driftAt(seed: number, time: number, period: number): number {
+  const x = time / period
+  const i = Math.floor(x)
+  const f = x - i
+  const blend = f * f * (3 - 2 * f)
+  const a = latticeNoise(seed, i) * 2 - 1
+  const b = latticeNoise(seed, i + 1) * 2 - 1
+  return a + (b - a) * blend
+}
+
+/**
+ * Offset the preset's habituation oscillation adds to the envelope at a
+ * given time. Zero outside the main phase or when disabled.
+ */
+export function habituationOffset(preset: SessionPreset, time: number): number {
+  const config = preset.habituation ?? DEFAULT_HABITUATION
+  if (!config.enabled || config.period <= 0) return 0
+  if (getPhaseAt(preset, time) !== 'main') return 0
+
+  const cycle = time / config.period
+  const wave = config.waveform === 'triangle'
+    ? 1 - 4 * Math.abs(cycle - 0.25 - Math.round(cycle - 0.25))
+    : Math.sin(cycle * 2 * Math.PI)
+  let offset = wave * config.depth
+  if (config.drift) offset += driftAt(seedFrom(preset.id), time, config.period * 2) * config.drift
+  return offset
+}
+
+/**
+ * Beat frequency actually delivered at a given time: the envelope value plus
+ * the main-phase habituation oscillation, kept positive.
+ */
+export function getTargetBeatFreq(preset: SessionPreset, time: number): number {
+  const freq = interpolateFrequency(preset.frequencyEnvelope, time) + habituationOffset(preset, time)
+  return Math.max(freq, 0.1)
+}
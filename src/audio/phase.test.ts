@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest'
+import type { CarrierLayer } from '../types'
+import { presets } from '../presets'
+import { beatPairCycles, beatPairFrequencies } from './BinauralEngine'
+import { CURVE_RATE, SessionTimeline } from './SessionTimeline'
+import { SINE_SERIES, crossfade, shiftSeries, type WaveSeries } from './phase'
+
+const SAMPLE_RATE = 8000
+/** A chunk boundary partway down the preset's 12 → 8 Hz ramp */
+const BOUNDARY = 300
+const OVERLAP = SAMPLE_RATE / CURVE_RATE
+const END = BOUNDARY + 1
+
+const timeline = new SessionTimeline({
+  ...presets[0],
+  carriers: [{ carrierFreq: 200, gainDb: 0, beatMode: 'centered' }],
+})
+
+function waveAt(series: WaveSeries, cycles: number): number {
+  let value = 0
+  for (let k = 1; k < series.real.length; k++) {
+    const x = 2 * Math.PI * k * cycles
+    value += series.real[k] * Math.cos(x) + series.imag[k] * Math.sin(x)
+  }
+  return value
+}
+
+/**
+ * Stand-in for an OscillatorNode in its own context: plays `series` with a
+ * frequency curve scheduled at time 0 (linear between points, as
+ * setValueCurveAtTime is), accumulating phase sample by sample.
+ */
+function renderTone(series: WaveSeries, curve: Float32Array, length: number): Float32Array {
+  const out = new Float32Array(length)
+  let cycles = 0
+  for (let n = 0; n < length; n++) {
+    const x = Math.min((n / SAMPLE_RATE) * CURVE_RATE, curve.length - 1)
+    const i = Math.min(Math.floor(x), curve.length - 2)
+    const freq = curve[i] + (curve[i + 1] - curve[i]) * (x - i)
+    out[n] = waveAt(series, cycles)
+    cycles += freq / SAMPLE_RATE
+  }
+  return out
+}
+
+/** One tone of a carrier layer rendered over session seconds [from, to), starting at the given phase */
+function renderPairTone(layer: CarrierLayer, tone: 0 | 1, from: number, to: number, cycles: number): Float32Array {
+  const { curve: beats } = timeline.beatCurve(from, to)
+  const curve = beats.map((beat) => beatPairFrequencies(layer.carrierFreq, beat, layer.beatMode)[tone])
+  return renderTone(shiftSeries(SINE_SERIES, cycles), curve, Math.round((to - from) * SAMPLE_RATE))
+}
+
+/** The largest difference between a two-chunk render and a continuous one, around the boundary */
+function stitchError(continuous: Float32Array, first: Float32Array, second: Float32Array): number {
+  const boundary = first.length
+  const stitched = new Float32Array(continuous.length)
+  stitched.set(first.subarray(0, boundary - OVERLAP))
+  stitched.set(crossfade(first.subarray(boundary - OVERLAP), second.subarray(0, OVERLAP)), boundary - OVERLAP)
+  stitched.set(second.subarray(OVERLAP), boundary)
+
+  let error = 0
+  for (let n = boundary - 2 * OVERLAP; n < continuous.length; n++) {
+    error = Math.max(error, Math.abs(stitched[n] - continuous[n]))
+  }
+  return error
+}
+
+describe('SessionTimeline.beatCycles', () => {
+  it('integrates the beat curve', () => {
+    // 12 Hz held through the two-minute induction
+    expect(timeline.beatCycles(60)).toBeCloseTo(720, 6)
+    expect(timeline.beatCycles(100.1)).toBeCloseTo(1201.2, 6)
+
+    // Into the ramp, with the habituation wobble on top — as scheduled, linear between curve points
+    const { curve } = timeline.beatCurve(0, BOUNDARY)
+    let cycles = 0
+    for (let i = 1; i < curve.length; i++) cycles += (curve[i - 1] + curve[i]) / (2 * CURVE_RATE)
+    expect(timeline.beatCycles(BOUNDARY)).toBeCloseTo(cycles, 3)
+  })
+
+  it('applies the floor', () => {
+    expect(timeline.beatCycles(10, 20)).toBeCloseTo(200, 6)
+  })
+})
+
+describe('chunked rendering', () => {
+  const layer = timeline.preset.carriers[0]
+  const base = BOUNDARY - OVERLAP / SAMPLE_RATE
+
+  for (const tone of [0, 1] as const) {
+    it(`keeps the ${tone === 0 ? 'lower' : 'higher'} tone continuous across a boundary`, () => {
+      const continuous = renderPairTone(layer, tone, 0, END, 0)
+      const first = renderPairTone(layer, tone, 0, BOUNDARY, 0)
+      const cycles = beatPairCycles(layer, base, timeline.beatCycles(base))[tone]
+
+      expect(stitchError(continuous, first, renderPairTone(layer, tone, base, END, cycles))).toBeLessThan(0.01)
+      // Restarting at phase 0, as a fresh context would, leaves a gap the crossfade can't hide
+      expect(stitchError(continuous, first, renderPairTone(layer, tone, base, END, 0))).toBeGreaterThan(0.1)
+    })
+  }
+
+  it('keeps shaped waves continuous across a boundary', () => {
+    const pulse: WaveSeries = {
+      real: new Float32Array([0, 0.3, 0.1, -0.05]),
+      imag: new Float32Array([0, 0.5, -0.2, 0.1]),
+    }
+    const rate = 7.5
+    const curve = new Float32Array(END * CURVE_RATE + 1).fill(rate)
+    const continuous = renderTone(pulse, curve, END * SAMPLE_RATE)
+    const first = continuous.slice(0, BOUNDARY * SAMPLE_RATE)
+    const second = renderTone(shiftSeries(pulse, rate * base), curve, (END - base) * SAMPLE_RATE)
+
+    expect(stitchError(continuous, first, second)).toBeLessThan(0.01)
+  })
+})
+
+describe('crossfade', () => {
+  it('passes identical material through unchanged', () => {
+    const a = Float32Array.from({ length: 100 }, (_, i) => Math.sin(i / 7))
+    const mixed = crossfade(a, a.slice())
+    for (let i = 0; i < a.length; i++) expect(mixed[i]).toBeCloseTo(a[i], 6)
+  })
+})
@@ -0,0 +1,55 @@
+/**
+ * Oscillator phase helpers for chunked offline rendering.
+ *
+ * Every chunk is rendered in a fresh OfflineAudioContext, where oscillators
+ * would normally start at phase 0. Instead each tone starts wherever it had
+ * reached in the previous chunk, so the overlap rendered at a boundary holds
+ * the same waveform twice and the two copies can be crossfaded without a dip.
+ */
+
+/** Fourier coefficients in the form createPeriodicWave() takes them */
+export interface WaveSeries {
+  real: Float32Array
+  imag: Float32Array
+}
+
+/** A plain sine — what an OscillatorNode of type 'sine' plays */
+export const SINE_SERIES: WaveSeries = {
+  real: new Float32Array([0, 0]),
+  imag: new Float32Array([0, 1]),
+}
+
+/** The same wave advanced by `cycles` periods (only the fractional part matters) */
+export function shiftSeries(series: WaveSeries, cycles: number): WaveSeries {
+  const theta = 2 * Math.PI * (cycles - Math.floor(cycles))
+  const real = new Float32Array(series.real.length)
+  const imag = new Float32Array(series.imag.length)
+  for (let k = 1; k < real.length; k++) {
+    const cos = Math.cos(k * theta)
+    const sin = Math.sin(k * theta)
+    real[k] = series.real[k] * cos + series.imag[k] * sin
+    imag[k] = series.imag[k] * cos - series.real[k] * sin
+  }
+  return { real, imag }
+}
+
+/** Makes an oscillator play `series` (a sine by default) from `cycles` periods in */
+export function setStartPhase(osc: OscillatorNode, cycles: number, series: WaveSeries = SINE_SERIES): void {
+  const { real, imag } = shiftSeries(series, cycles)
+  osc.setPeriodicWave(osc.context.createPeriodicWave(real, imag, { disableNormalization: true }))
+}
+
+/**
+ * Linear crossfade from one render of a stretch of audio to another. Both
+ * hold the same phase-aligned material, so the gains sum to one rather than
+ * to equal power.
+ */
+export function crossfade(from: Float32Array, to: Float32Array): Float32Array {
+  const length = from.length
+  const out = new Float32Array(length)
+  for (let i = 0; i < length; i++) {
+    const x = i / length
+    out[i] = from[i] * (1 - x) + to[i] * x
+  }
+  return out
+}
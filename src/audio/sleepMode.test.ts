@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest'
+import type { SessionPreset, SleepModeSettings } from '../types'
+import { presets } from '../presets'
+import { guidedPresets } from '../guidedPresets'
+import { interpolateFrequency } from './envelope'
+import {
+  DEFAULT_SLEEP_MODE,
+  SNOOZE_MINUTES,
+  alarmChimes,
+  sleepRamps,
+  sleepVariant,
+  snoozedWake,
+  supportsSleepMode,
+  wakeTimes,
+  type WakeTimes,
+} from './sleepMode'
+
+/** A half-hour descent into delta */
+const preset: SessionPreset = {
+  ...presets.find((p) => p.id === 'sleep-drift')!,
+  duration: 1800,
+  hasReturnPhase: false,
+  frequencyEnvelope: [
+    { time: 0, beatFreq: 10 },
+    { time: 600, beatFreq: 4 },
+    { time: 1800, beatFreq: 2 },
+  ],
+}
+
+const EIGHT_HOURS: SleepModeSettings = { ...DEFAULT_SLEEP_MODE, totalMinutes: 480 }
+
+describe('supportsSleepMode', () => {
+  it('takes sleep and delta presets without a script or return phase', () => {
+    expect(supportsSleepMode(preset)).toBe(true)
+    expect(supportsSleepMode({ ...preset, hasReturnPhase: true })).toBe(false)
+    expect(supportsSleepMode({ ...preset, category: 'focus', targetBand: 'beta' })).toBe(false)
+    expect(supportsSleepMode({ ...preset, category: 'focus', targetBand: 'delta' })).toBe(true)
+    expect(guidedPresets.some(supportsSleepMode)).toBe(false)
+  })
+})
+
+describe('sleepVariant', () => {
+  it('plays the envelope, then holds its final frequency to the end of the night', () => {
+    const night = sleepVariant(preset, EIGHT_HOURS)
+    expect(night.duration).toBe(8 * 3600)
+    for (const time of [0, 300, 600, 1200, 1800]) {
+      expect(interpolateFrequency(night.frequencyEnvelope, time)).toBeCloseTo(interpolateFrequency(preset.frequencyEnvelope, time), 9)
+    }
+    expect(night.frequencyEnvelope.at(-1)).toEqual({ time: 8 * 3600, beatFreq: 2 })
+    expect(interpolateFrequency(night.frequencyEnvelope, 5 * 3600)).toBe(2)
+  })
+
+  it('never cuts the preset short', () => {
+    const night = sleepVariant(preset, { ...EIGHT_HOURS, totalMinutes: 20 })
+    expect(night.duration).toBe(1800)
+    expect(night.frequencyEnvelope.at(-1)).toEqual({ time: 1800, beatFreq: 2 })
+  })
+})
+
+describe('sleepRamps', () => {
+  it('descends through the night, then stops gently over the last five minutes', () => {
+    const { level, beats } = sleepRamps(preset, EIGHT_HOURS)
+    expect(level).toEqual([
+      { from: 1, to: 0.3, start: 1800, end: 8 * 3600 - 300 },
+      { from: 0.3, to: 0, start: 8 * 3600 - 300, end: 8 * 3600 },
+    ])
+    expect(beats).toEqual([])
+  })
+
+  it('fades the beats out for ambient-only playback', () => {
+    const { beats } = sleepRamps(preset, { ...EIGHT_HOURS, ambientOnlyAfter: 60 })
+    expect(beats).toEqual([{ from: 1, to: 0, start: 3600, end: 3660 }])
+  })
+
+  it('leaves the beats alone when the night ends before ambient-only would start', () => {
+    const { beats } = sleepRamps(preset, { ...EIGHT_HOURS, totalMinutes: 60, ambientOnlyAfter: 60 })
+    expect(beats).toEqual([])
+  })
+})
+
+describe('wakeTimes', () => {
+  const bedtime = new Date(2026, 2, 11, 23, 0)
+
+  it('rings at the next occurrence of the wake time, with the rise before it', () => {
+    expect(wakeTimes({ time: '07:00', rampMinutes: 20 }, bedtime)).toEqual({ rampStart: 8 * 3600 - 1200, wakeAt: 8 * 3600 })
+    expect(wakeTimes({ time: '23:00', rampMinutes: 20 }, bedtime).wakeAt).toBe(24 * 3600)
+  })
+
+  it('starts the rise straight away when the alarm is that close', () => {
+    expect(wakeTimes({ time: '23:10', rampMinutes: 20 }, bedtime)).toEqual({ rampStart: 0, wakeAt: 600 })
+  })
+})
+
+describe('alarm sessions', () => {
+  const wake: WakeTimes = { rampStart: 27600, wakeAt: 28800 }
+
+  it('rise through theta and alpha into beta by the wake time, then ring for a while', () => {
+    const night = sleepVariant(preset, EIGHT_HOURS, wake)
+    expect(night.duration).toBe(28800 + 900)
+    expect(night.frequencyEnvelope.slice(3)).toEqual([
+      { time: 27600, beatFreq: 2 },
+      { time: 28080, beatFreq: 6 },
+      { time: 28440, beatFreq: 10 },
+      { time: 28800, beatFreq: 15 },
+      { time: 29700, beatFreq: 15 },
+    ])
+  })
+
+  it('bring the volume and the beats back up for the rise', () => {
+    const { level, beats } = sleepRamps(preset, { ...EIGHT_HOURS, ambientOnlyAfter: 60 }, wake)
+    expect(level).toEqual([
+      { from: 1, to: 0.3, start: 1800, end: 27600 },
+      { from: 0.3, to: 1, start: 27600, end: 28800 },
+    ])
+    expect(beats).toEqual([
+      { from: 1, to: 0, start: 3600, end: 3660 },
+      { from: 0, to: 1, start: 27600, end: 28800 },
+    ])
+  })
+
+  it('chime every half minute from the wake time to the end', () => {
+    const chimes = alarmChimes(preset, EIGHT_HOURS, wake)
+    expect(chimes[0]).toBe(28800)
+    expect(chimes.at(-1)).toBe(29670)
+    expect(chimes).toHaveLength(30)
+  })
+
+  it('wake again after a snooze, rising over its last five minutes', () => {
+    const snoozed = snoozedWake(28900)
+    expect(snoozed).toEqual({ rampStart: 28900 + SNOOZE_MINUTES * 60 - 300, wakeAt: 28900 + SNOOZE_MINUTES * 60 })
+    const night = sleepVariant(preset, EIGHT_HOURS, snoozed)
+    expect(night.duration).toBe(snoozed.wakeAt + 900)
+    expect(alarmChimes(preset, EIGHT_HOURS, snoozed)[0]).toBe(snoozed.wakeAt)
+  })
+})
@@ -0,0 +1,143 @@
+import type { FrequencyPoint, SessionPreset, SleepModeSettings, WakeAlarmSettings } from '../types'
+import { buildRamps, type FadeRequest, type Ramp } from './automation'
+import { interpolateFrequency } from './envelope'
+
+/** Overnight lengths offered, in minutes */
+export const SLEEP_LENGTHS = [60, 120, 240, 360, 480, 600]
+
+/** Points (minutes in) after which the beats can drop out, leaving ambient sound and noise */
+export const SLEEP_AMBIENT_ONLY_OPTIONS = [30, 60, 120]
+
+/** Lengths offered for the wake-up rise, in minutes */
+export const ALARM_RAMP_OPTIONS = [15, 20, 30]
+
+export const SNOOZE_MINUTES = 9
+
+export const DEFAULT_SLEEP_MODE: SleepModeSettings = {
+  totalMinutes: 480,
+  ambientOnlyAfter: null,
+  alarm: null,
+}
+
+export const DEFAULT_WAKE_ALARM: WakeAlarmSettings = {
+  time: '07:00',
+  rampMinutes: 20,
+}
+
+/** When the wake-up rise starts and the alarm rings, in session seconds */
+export interface WakeTimes {
+  rampStart: number
+  wakeAt: number
+}
+
+/** Level the tail descends to before the final stop (0–1 of the session volume) */
+const TAIL_LEVEL = 0.3
+
+/** The gentle stop: a fade to silence over the last few minutes */
+const STOP_SECONDS = 300
+
+/** How long the beats take to fade out for ambient-only playback */
+const BEATS_FADE_SECONDS = 60
+
+/** The wake-up rise passes through theta and alpha on its way to beta */
+const WAKE_STAGES = [
+  { at: 0.4, beatFreq: 6 },
+  { at: 0.7, beatFreq: 10 },
+  { at: 1, beatFreq: 15 },
+]
+
+/** How long the alarm keeps ringing before the session ends by itself */
+const RING_SECONDS = 900
+
+const CHIME_INTERVAL = 30
+
+/** A snooze is quiet at first, then rises again over its last few minutes */
+const SNOOZE_RISE_SECONDS = 300
+
+/**
+ * Whether a preset can run overnight. Guided sessions end on a script, and
+ * a return phase is meant to wake the listener — neither should be held for
+ * hours.
+ */
+export function supportsSleepMode(preset: SessionPreset): boolean {
+  if (preset.guidanceScript || preset.hasReturnPhase) return false
+  return preset.category === 'sleep' || preset.targetBand === 'delta'
+}
+
+/** Session times for an alarm set at `start`, ringing at the next occurrence of its wake time */
+export function wakeTimes(alarm: WakeAlarmSettings, start: Date): WakeTimes {
+  const [hours, minutes] = alarm.time.split(':').map(Number)
+  const at = new Date(start.getFullYear(), start.getMonth(), start.getDate(), hours, minutes)
+  if (at <= start) at.setDate(at.getDate() + 1)
+  const wakeAt = (at.getTime() - start.getTime()) / 1000
+  return { rampStart: Math.max(wakeAt - alarm.rampMinutes * 60, 0), wakeAt }
+}
+
+/** Wake times after a snooze pressed at session time `elapsed` */
+export function snoozedWake(elapsed: number): WakeTimes {
+  const wakeAt = elapsed + SNOOZE_MINUTES * 60
+  return { rampStart: wakeAt - SNOOZE_RISE_SECONDS, wakeAt }
+}
+
+function sleepDuration(preset: SessionPreset, settings: SleepModeSettings, wake: WakeTimes | null): number {
+  return wake ? wake.wakeAt + RING_SECONDS : Math.max(settings.totalMinutes * 60, preset.duration)
+}
+
+/**
+ * The preset stretched to the overnight length: its envelope plays as
+ * normal, then the final frequency is held until the end — or, with an
+ * alarm, until the wake-up rise into beta.
+ */
+export function sleepVariant(preset: SessionPreset, settings: SleepModeSettings, wake: WakeTimes | null = null): SessionPreset {
+  const duration = sleepDuration(preset, settings, wake)
+  const envelope = preset.frequencyEnvelope
+  const holdUntil = wake ? wake.rampStart : duration
+
+  const frequencyEnvelope: FrequencyPoint[] = envelope.filter((p) => p.time < holdUntil)
+  frequencyEnvelope.push({ time: holdUntil, beatFreq: interpolateFrequency(envelope, holdUntil) })
+  if (wake) {
+    const span = wake.wakeAt - wake.rampStart
+    for (const stage of WAKE_STAGES) {
+      frequencyEnvelope.push({ time: wake.rampStart + span * stage.at, beatFreq: stage.beatFreq })
+    }
+    frequencyEnvelope.push({ time: duration, beatFreq: WAKE_STAGES[WAKE_STAGES.length - 1].beatFreq })
+  }
+  return { ...preset, duration, frequencyEnvelope }
+}
+
+/**
+ * Volume automation for the overnight tail, in session seconds. `level`
+ * scales everything: it falls from full volume at the end of the preset to
+ * TAIL_LEVEL, then either to silence over the last STOP_SECONDS or back to
+ * full volume for the wake-up rise. `beats` scales the beat layers alone,
+ * dropping them for ambient-only playback and bringing them back to wake.
+ */
+export function sleepRamps(preset: SessionPreset, settings: SleepModeSettings, wake: WakeTimes | null = null): { level: Ramp[]; beats: Ramp[] } {
+  const duration = sleepDuration(preset, settings, wake)
+  const descendUntil = wake ? wake.rampStart : Math.max(duration - STOP_SECONDS, preset.duration)
+
+  const level: FadeRequest[] = []
+  if (descendUntil > preset.duration) {
+    level.push({ time: preset.duration, target: TAIL_LEVEL, durationSec: descendUntil - preset.duration })
+  }
+  level.push(wake
+    ? { time: wake.rampStart, target: 1, durationSec: wake.wakeAt - wake.rampStart }
+    : { time: descendUntil, target: 0, durationSec: duration - descendUntil })
+
+  const beats: FadeRequest[] = []
+  const ambientOnlyAt = settings.ambientOnlyAfter === null ? null : settings.ambientOnlyAfter * 60
+  if (ambientOnlyAt !== null && ambientOnlyAt < descendUntil) {
+    beats.push({ time: ambientOnlyAt, target: 0, durationSec: BEATS_FADE_SECONDS })
+    if (wake) beats.push({ time: wake.rampStart, target: 1, durationSec: wake.wakeAt - wake.rampStart })
+  }
+
+  return { level: buildRamps(1, level), beats: buildRamps(1, beats) }
+}
+
+/** Session times the alarm chimes at — from the wake time until the session ends */
+export function alarmChimes(preset: SessionPreset, settings: SleepModeSettings, wake: WakeTimes): number[] {
+  const times: number[] = []
+  const duration = sleepDuration(preset, settings, wake)
+  for (let time = wake.wakeAt; time < duration; time += CHIME_INTERVAL) times.push(time)
+  return times
+}
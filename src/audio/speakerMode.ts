@@ -0,0 +1,33 @@
+import type { SessionPreset } from '../types'
+
+/**
+ * Fraction of each isochronic period spent ramping in and out in speaker
+ * mode. Slow pulses with 2ms edges click audibly through a speaker; longer
+ * ramps turn them into a smooth swell.
+ */
+export const SPEAKER_PULSE_RAMP = 0.2
+
+/**
+ * Whether a preset still makes sense without headphones. Spatial effects —
+ * SAM rotation and the rocket pan — rely on each ear hearing a different
+ * signal and are lost on a speaker.
+ */
+export function isSpeakerSafe(preset: SessionPreset): boolean {
+  const script = preset.guidanceScript
+  if (!script) return true
+  return (script.samWindows?.length ?? 0) === 0 && !script.rocketPanTime
+}
+
+/**
+ * The preset as played through a speaker: every carrier layer delivers its
+ * beat monaurally (both tones in both ears, so the beat is in the air rather
+ * than in the head), and isochronic pulses are available at any beat
+ * frequency to carry the rhythm.
+ */
+export function speakerVariant(preset: SessionPreset): SessionPreset {
+  return {
+    ...preset,
+    carriers: preset.carriers.map((layer) => ({ ...layer, beatMode: 'monaural' })),
+    isochronicAvailable: true,
+  }
+}
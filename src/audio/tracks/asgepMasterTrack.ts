@@ -4,19 +4,19 @@
  * A single 60-minute Monroe-style guided session traversing:
  *   Phase 1 (0–15 min)  · Induction: Alpha (8 Hz) → Theta (6 Hz)
  *   Phase 2 (15–25 min) · Focus 10 — Mind Awake, Body Asleep (4 Hz dual-chord)
- *   Phase 3 (25–35 min) · Focus 12 — Expanded Awareness (SAM 15 Hz tremolo)
+ *   Phase 3 (25–35 min) · Focus 12 — Expanded Awareness (SAM 15 Hz figure-eight)
  *   Phase 4 (35–50 min) · Focus 15 / 21 — Delta + 40 Hz Gamma duality
  *   Phase 5 (50–60 min) · Return — Active isochronic drive back to Beta
  *
  * Key ASGEP features implemented:
- *   • SAM engine at phase-appropriate rotation frequencies
+ *   • SAM engine at phase-appropriate rotation frequencies, HRTF-spatialized in Focus 10 and 12
  *   • 40 Hz Gamma binaural carrier overlay during deep states (carrier index 2)
  *   • Near-silence ambient void drop at 35:00 (Focus 15 entry)
  *   • Rocket-pan spatial FX at 25:30 (Focus 10→12 transition)
  *   • 200 Hz low-pass filtered pink noise masking layer
  *   • 0.2 Hz breathing-pace LFO on noise (12 cycles/min)
- *   • Sub-8 Hz isochronic (4 Hz, 6 Hz) active during Phases 1–2
- *   • Isochronic 15 Hz + 20 Hz during Phase 5 return
+ *   • Sub-8 Hz isochronic (4 Hz, 6 Hz) active during Phases 1–2 (isochronicWindows)
+ *   • Isochronic 15 Hz + 20 Hz during Phase 5 return (isochronicWindows)
  */
 import type { SessionPreset } from '../../types'
 import { asgepVoiceScript } from './asgepVoiceScript'
@@ -79,11 +79,12 @@ export const asgepMasterTrack: SessionPreset = {
     { time: 3480, beatFreq: 20.0 }, // 58:00 — High Beta / fully waking
     { time: 3600, beatFreq: 20.0 }, // 60:00 — end
   ],
+  phases: { inductionEnd: 60, returnStart: 3480 },
 
   noiseType: 'pink',
   noiseVolume: 0.22, // slightly lower — LP filter concentrates energy in low frequencies
   hasReturnPhase: true,
-  isochronicAvailable: true, // User can enable; sub-8 Hz isochronic works (min = 1 Hz)
+  isochronicAvailable: true, // User can enable envelope-following pulses on top of the scripted windows
   icon: '🔮',
   color: '#1e40af',
   ambientSound: 'ocean',
@@ -110,16 +111,44 @@ export const asgepMasterTrack: SessionPreset = {
      * 303 Hz carrier rotates spatially at the target brainwave frequency.
      */
     samWindows: [
-      // Phase 2: Focus 10 — smooth 4 Hz orbit
-      { startTime: 900,  endTime: 1500, rotationHz: 4,  mode: 'smooth' },
-      // Phase 3: Focus 12 — smooth 15 Hz tremolo orbit
-      { startTime: 1500, endTime: 2100, rotationHz: 15, mode: 'smooth' },
+      // Phase 2: Focus 10 — slow 4 Hz orbit all the way around the head
+      { startTime: 900,  endTime: 1500, rotationHz: 4,  mode: 'spatial', path: 'circle' },
+      // Phase 3: Focus 12 — 15 Hz figure-eight, lifted above ear level
+      { startTime: 1500, endTime: 2100, rotationHz: 15, mode: 'spatial', path: 'figure8', elevation: 30 },
       // Phase 4: Focus 15/21 — fast smooth 40 Hz Gamma orbit
       { startTime: 2100, endTime: 2700, rotationHz: 40, mode: 'smooth' },
       // Deep Focus 21 hold: erratic discontinuous spatial jumps
       { startTime: 2700, endTime: 3000, rotationHz: 40, mode: 'erratic' },
     ],
 
+    /**
+     * Scripted isochronic windows — pulse layers on their own carriers,
+     * independent of the binaural envelope and the user's isochronic toggle.
+     */
+    isochronicWindows: [
+      // Phase 1: Alpha induction — soft 6 Hz Theta pulse leads the descent
+      {
+        startTime: 390, endTime: 900,
+        layers: [{ pulseHz: 6, carrierFreq: 250, shape: 'sine', gainDb: -14 }],
+      },
+      // Phase 2: Focus 10 — 4 Hz pulse with the 6 Hz layer fading underneath
+      {
+        startTime: 900, endTime: 1500,
+        layers: [
+          { pulseHz: 4, carrierFreq: 180, shape: 'sine', gainDb: -12 },
+          { pulseHz: 6, carrierFreq: 250, shape: 'sine', gainDb: -20 },
+        ],
+      },
+      // Phase 5: Return — crisp 15 Hz + 20 Hz Beta drive
+      {
+        startTime: 3000, endTime: 3600,
+        layers: [
+          { pulseHz: 15, carrierFreq: 300, shape: 'trapezoid', dutyCycle: 0.4, gainDb: -14 },
+          { pulseHz: 20, carrierFreq: 360, shape: 'sawtooth', dutyCycle: 0.5, gainDb: -18 },
+        ],
+      },
+    ],
+
     /**
      * Carrier gain events — one-shot automation.
      * Index 2 is the 40 Hz Gamma overlay carrier (400/440 Hz).
@@ -0,0 +1,24 @@
+import processorsUrl from './processors.ts?worker&url'
+
+const loaded = new WeakMap<BaseAudioContext, Promise<void>>()
+const ready = new WeakSet<BaseAudioContext>()
+
+/**
+ * Registers the app's AudioWorklet processors on a context. Safe to call
+ * repeatedly — each context loads the module once.
+ */
+export function loadWorklets(ctx: BaseAudioContext): Promise<void> {
+  let promise = loaded.get(ctx)
+  if (!promise) {
+    promise = ctx.audioWorklet.addModule(processorsUrl).then(() => {
+      ready.add(ctx)
+    })
+    loaded.set(ctx, promise)
+  }
+  return promise
+}
+
+/** Whether loadWorklets() has finished for this context */
+export function workletsReady(ctx: BaseAudioContext): boolean {
+  return ready.has(ctx)
+}
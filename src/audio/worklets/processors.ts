@@ -0,0 +1,116 @@
+/**
+ * AudioWorklet processors that generate control signals on the audio
+ * thread, so they stay sample-accurate however throttled the page is.
+ *
+ * This file runs in the AudioWorkletGlobalScope, not the page — it must not
+ * import anything. Load it through loadWorklets() in ./index.ts.
+ */
+
+// Globals of the AudioWorkletGlobalScope (not part of the DOM lib)
+declare const sampleRate: number
+declare const currentTime: number
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort
+}
+declare function registerProcessor(
+  name: string,
+  processor: new (options: { processorOptions?: Record<string, unknown> }) => AudioWorkletProcessor,
+): void
+
+type ParamValues = Record<string, Float32Array>
+
+/**
+ * Isochronic gate: 0 or 1 at the `beatFreq` parameter's rate, on for the
+ * first half of each cycle with linear attack/release edges. Edges last
+ * 2ms, or `rampFraction` of the period when that is longer.
+ *
+ * processorOptions: { rampFraction?: number, phase?: number } — phase is
+ *                   where in the cycle (0–1) to start
+ * port messages:    { rampFraction: number } | { stop: true }
+ */
+class IsochronicPulseProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [{ name: 'beatFreq', defaultValue: 10, minValue: 0, maxValue: 1000, automationRate: 'k-rate' }]
+  }
+
+  private phase = 0
+  private rampFraction: number
+  private stopped = false
+
+  constructor(options: { processorOptions?: Record<string, unknown> }) {
+    super()
+    this.rampFraction = Number(options.processorOptions?.rampFraction ?? 0)
+    this.phase = Number(options.processorOptions?.phase ?? 0)
+    this.port.onmessage = (e: MessageEvent) => {
+      if (e.data?.stop) this.stopped = true
+      if (typeof e.data?.rampFraction === 'number') this.rampFraction = e.data.rampFraction
+    }
+  }
+
+  process(_inputs: Float32Array[][], outputs: Float32Array[][], parameters: ParamValues): boolean {
+    if (this.stopped) return false
+    const out = outputs[0][0]
+    // MIN_PULSE_HZ in IsochronicEngine
+    const freq = Math.max(parameters.beatFreq[0], 0.1)
+    // Edge length in cycles, never more than half the on-time
+    const edge = Math.min(Math.max(0.002 * freq, this.rampFraction), 0.25)
+    const step = freq / sampleRate
+
+    for (let i = 0; i < out.length; i++) {
+      const p = this.phase
+      if (p >= 0.5) out[i] = 0
+      else if (p < edge) out[i] = p / edge
+      else if (p > 0.5 - edge) out[i] = (0.5 - p) / edge
+      else out[i] = 1
+      this.phase += step
+      if (this.phase >= 1) this.phase -= 1
+    }
+    return true
+  }
+}
+
+/**
+ * Erratic pan: holds a random position in -1..1 and jumps to a new one at
+ * roughly `rotationHz`, each interval randomised ±50%.
+ *
+ * processorOptions: { endTime?: number } — context time to finish at
+ * port messages:    { stop: true }
+ */
+class ErraticPanProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [{ name: 'rotationHz', defaultValue: 4, minValue: 0, maxValue: 1000, automationRate: 'k-rate' }]
+  }
+
+  private value = 0
+  private untilJump: number
+  private endTime: number
+  private stopped = false
+
+  constructor(options: { processorOptions?: Record<string, unknown> }) {
+    super()
+    this.endTime = Number(options.processorOptions?.endTime ?? Infinity)
+    this.untilJump = Math.random() * (sampleRate / 4)
+    this.port.onmessage = (e: MessageEvent) => {
+      if (e.data?.stop) this.stopped = true
+    }
+  }
+
+  process(_inputs: Float32Array[][], outputs: Float32Array[][], parameters: ParamValues): boolean {
+    if (this.stopped || currentTime >= this.endTime) return false
+    const out = outputs[0][0]
+    const interval = sampleRate / Math.max(parameters.rotationHz[0], 0.5)
+
+    for (let i = 0; i < out.length; i++) {
+      if (this.untilJump <= 0) {
+        this.value = Math.random() * 2 - 1
+        this.untilJump = interval * (0.5 + Math.random())
+      }
+      out[i] = this.value
+      this.untilJump--
+    }
+    return true
+  }
+}
+
+registerProcessor('isochronic-pulse', IsochronicPulseProcessor)
+registerProcessor('erratic-pan', ErraticPanProcessor)
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest'
+import type { Journey, UserPreferences } from './types'
+import { presets } from './presets'
+import { DEFAULT_STATS, withDefaultPreferences } from './defaults'
+import { BACKUP_VERSION, backupFileName, mergeBackup, parseBackup, serializeBackup, type BackupData } from './backup'
+
+const journey: Journey = {
+  id: 'custom_journey_a',
+  name: 'Slow Evenings',
+  description: 'A week of winding down',
+  category: 'custom',
+  days: [
+    { day: 1, presetId: presets[0].id, title: 'Settle', tip: '' },
+    {
+      day: 2,
+      presetId: presets[1].id,
+      title: 'Deepen',
+      tip: 'Lie down if you can',
+      rules: [{ when: 'endedEarly', then: 'repeat' }, { when: 'energized', then: 'swap', presetId: presets[0].id }],
+    },
+  ],
+  icon: '☾',
+  color: '#6366f1',
+}
+
+const data: BackupData = {
+  sessions: [
+    {
+      id: 's2',
+      presetId: journey.days[0].presetId,
+      presetName: presets[0].name,
+      category: presets[0].category,
+      targetBand: presets[0].targetBand,
+      durationSeconds: 600,
+      completedAt: '2026-03-02T21:00:00.000Z',
+      completedFull: true,
+      mood: 'calm',
+      preRating: { stress: 7, energy: 3 },
+      postRating: { stress: 3, note: 'Better' },
+      journeyId: journey.id,
+      journeyDay: 1,
+    },
+    {
+      id: 's1',
+      presetId: presets[1].id,
+      presetName: presets[1].name,
+      category: presets[1].category,
+      durationSeconds: 120,
+      completedAt: '2026-03-01T08:30:00.000Z',
+      completedFull: false,
+    },
+  ],
+  stats: { totalSessions: 2, totalMinutes: 12, currentStreak: 1, longestStreak: 4, lastSessionDate: '2026-03-02' },
+  preferences: withDefaultPreferences({ favorites: [presets[0].id] }),
+  journeys: [{
+    journeyId: journey.id,
+    completedDays: [1],
+    startedAt: '2026-03-02T21:00:00.000Z',
+    lastCompletedAt: '2026-03-02T21:10:00.000Z',
+    completedOn: { 1: '2026-03-02' },
+    practicedOn: ['2026-03-02'],
+    schedule: { daily: true, reminderTime: '20:30' },
+  }],
+  customPresets: [{ ...presets[0], id: 'custom_a', name: 'Mine', category: 'custom' }],
+  customJourneys: [journey],
+  onboardingComplete: true,
+}
+
+/** Plain JSON of a backup file, for editing before parsing */
+function fileOf(backup: BackupData): Record<string, unknown> {
+  return JSON.parse(serializeBackup(backup))
+}
+
+describe('parseBackup', () => {
+  it('reads back everything a backup holds', () => {
+    const file = parseBackup(serializeBackup(data))
+    expect(file.version).toBe(BACKUP_VERSION)
+    expect(file.data).toEqual(data)
+  })
+
+  it('upgrades a version 1 archive, which had no custom journeys', () => {
+    const v1Data: Partial<BackupData> = { ...data }
+    delete v1Data.customJourneys
+    const file = parseBackup(JSON.stringify({ ...fileOf(data), version: 1, data: v1Data }))
+    expect(file.version).toBe(BACKUP_VERSION)
+    expect(file.data).toEqual({ ...data, customJourneys: [] })
+  })
+
+  it('fills in preferences added since the archive was made', () => {
+    const older: Partial<UserPreferences> = { ...data.preferences }
+    delete older.streakRules
+    const file = parseBackup(JSON.stringify({ ...fileOf(data), data: { ...data, preferences: older } }))
+    expect(file.data.preferences).toEqual(withDefaultPreferences(older))
+  })
+
+  it('refuses other files and newer versions', () => {
+    expect(() => parseBackup(JSON.stringify({ format: 'bbpreset', version: 1 }))).toThrow(/^Not a backup file/)
+    expect(() => parseBackup(JSON.stringify({ ...fileOf(data), version: BACKUP_VERSION + 1 }))).toThrow(/update the app/)
+  })
+
+  it('points at the field that is wrong', () => {
+    const badRule = { ...journey, days: [{ ...journey.days[1], rules: [{ when: 'bored', then: 'repeat' }] }] }
+    expect(() => parseBackup(JSON.stringify({ ...fileOf(data), data: { ...data, customJourneys: [badRule] } })))
+      .toThrow(/^data\.customJourneys\[0\]\.days\[0\]\.rules\[0\]\.when: /)
+
+    const badStats = { ...DEFAULT_STATS, lastSessionDate: 'yesterday' }
+    expect(() => parseBackup(JSON.stringify({ ...fileOf(data), data: { ...data, stats: badStats } })))
+      .toThrow('data.stats.lastSessionDate: Expected a date')
+  })
+})
+
+describe('mergeBackup', () => {
+  /** Another device's archive with one five-minute session of its own */
+  const other: BackupData = {
+    ...data,
+    sessions: [{ ...data.sessions[1], id: 's3', durationSeconds: 300, completedAt: '2026-03-03T07:00:00.000Z' }],
+    stats: { totalSessions: 1, totalMinutes: 5, currentStreak: 1, longestStreak: 1, lastSessionDate: '2026-03-03' },
+  }
+
+  it('counts totals from the merged history', () => {
+    const merged = mergeBackup(data, other)
+    expect(merged.sessions.map((s) => s.id)).toEqual(['s3', 's2', 's1'])
+    expect(merged.stats).toMatchObject({ totalSessions: 3, totalMinutes: 17, currentStreak: 1, longestStreak: 4, lastSessionDate: '2026-03-03' })
+
+    // Restoring an archive of the same history changes nothing
+    expect(mergeBackup(data, data).stats).toEqual(data.stats)
+  })
+
+  it('keeps what was counted before a capped history, once', () => {
+    const capped = { ...data, stats: { ...data.stats, totalSessions: 10, totalMinutes: 100 } }
+    expect(mergeBackup(capped, other).stats).toMatchObject({ totalSessions: 11, totalMinutes: 105 })
+    expect(mergeBackup(capped, { ...other, stats: { ...other.stats, totalSessions: 6, totalMinutes: 60 } }).stats)
+      .toMatchObject({ totalSessions: 11, totalMinutes: 105 })
+  })
+})
+
+describe('backupFileName', () => {
+  it('dates the file', () => {
+    expect(backupFileName(new Date(2026, 2, 9))).toBe('binaural-beats-backup-2026-03-09.bbbackup.json')
+  })
+})
@@ -0,0 +1,460 @@
+import type {
+  CompletedSession,
+  UserStats,
+  UserPreferences,
+  JourneyProgress,
+  SessionPreset,
+  Journey,
+  JourneyDay,
+  JourneyRule,
+  MoodRating,
+  SelfRating,
+  StreakRules,
+  JourneySchedule,
+} from './types'
+import {
+  FileFormatError,
+  type Json,
+  parseJSON,
+  asObject,
+  object,
+  number,
+  string,
+  boolean,
+  oneOf,
+  optional,
+  list,
+  join,
+} from './fileFormat'
+import { readPreset, readColor, PRESET_CATEGORIES, BRAINWAVE_BANDS } from './presetFormat'
+import {
+  DEFAULT_STATS,
+  withDefaultPreferences,
+  MAX_CUSTOM_PRESETS,
+  MAX_CUSTOM_JOURNEYS,
+  MAX_JOURNEY_DAYS,
+  MAX_JOURNEY_PROGRESS,
+} from './defaults'
+import { DEFAULT_STREAK_RULES } from './streaks'
+import { JOURNEY_TRIGGERS, MAX_RULES_PER_DAY } from './journeyRules'
+import { loadSessions, loadValue, replaceAll, reportRefusedWrite, StorageError } from './storage'
+
+/**
+ * The `.bbbackup.json` archive — everything the app keeps on the device in
+ * one file: session history, stats, preferences, journey progress, custom
+ * presets and journeys, and onboarding state.
+ *
+ *   { "format": "bbbackup", "version": 1, "exportedAt": "…", "data": { … } }
+ *
+ * Older archives are upgraded one version at a time through MIGRATIONS
+ * before validation, so a restore always sees the current shape.
+ */
+
+export const BACKUP_FORMAT = 'bbbackup'
+export const BACKUP_VERSION = 2
+export const BACKUP_EXTENSION = '.bbbackup.json'
+
+/** Largest archive we'll read — years of history come to a few MB */
+export const MAX_BACKUP_BYTES = 50 * 1024 * 1024
+
+const ONBOARDING_KEY = 'onboarding_complete'
+
+export interface BackupData {
+  sessions: CompletedSession[]
+  stats: UserStats
+  preferences: UserPreferences
+  journeys: JourneyProgress[]
+  customPresets: SessionPreset[]
+  customJourneys: Journey[]
+  onboardingComplete: boolean
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT
+  version: number
+  /** ISO timestamp of the export */
+  exportedAt: string
+  data: BackupData
+}
+
+/**
+ * 'replace' — the archive becomes the device's data
+ * 'merge'   — the archive's history, journeys and presets are added to
+ *             what's already here; current preferences are kept
+ */
+export type RestoreMode = 'merge' | 'replace'
+
+/** Upgrades archive data from version n (the key) to n + 1 */
+const MIGRATIONS: Record<number, (data: Json) => Json> = {
+  // 2 adds custom journeys
+  1: (data) => ({ ...data, customJourneys: [] }),
+}
+
+// ── Export ───────────────────────────────────────────────
+
+function readOnboarding(): boolean {
+  try {
+    return !!localStorage.getItem(ONBOARDING_KEY)
+  } catch {
+    return false
+  }
+}
+
+/** Snapshot of everything stored on this device */
+export async function collectBackupData(): Promise<BackupData> {
+  const [sessions, stats, preferences, journeys, customPresets, customJourneys] = await Promise.all([
+    loadSessions(),
+    loadValue('stats'),
+    loadValue('preferences'),
+    loadValue('journeys'),
+    loadValue('customPresets'),
+    loadValue('customJourneys'),
+  ])
+  return {
+    sessions,
+    stats: stats ?? DEFAULT_STATS,
+    preferences: withDefaultPreferences(preferences),
+    journeys: journeys ?? [],
+    customPresets: customPresets ?? [],
+    customJourneys: customJourneys ?? [],
+    onboardingComplete: readOnboarding(),
+  }
+}
+
+export function serializeBackup(data: BackupData): string {
+  const file: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    data,
+  }
+  return JSON.stringify(file, null, 2)
+}
+
+export function backupFileName(date = new Date()): string {
+  return `binaural-beats-backup-${new Intl.DateTimeFormat('en-CA').format(date)}${BACKUP_EXTENSION}`
+}
+
+// ── Import ───────────────────────────────────────────────
+
+/** Parses, migrates and validates a backup archive. Throws FileFormatError. */
+export function parseBackup(text: string): BackupFile {
+  const file = asObject(parseJSON(text), '')
+  if (file.format !== BACKUP_FORMAT) {
+    throw new FileFormatError(`Not a backup file (expected "format": "${BACKUP_FORMAT}")`)
+  }
+  let version = file.version
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new FileFormatError('Missing or invalid format version', 'version')
+  }
+  if (version > BACKUP_VERSION) {
+    throw new FileFormatError(
+      `This backup uses format version ${version}, but this app reads up to version ${BACKUP_VERSION} — update the app to restore it`,
+      'version',
+    )
+  }
+
+  let data = object(file, 'data', '')
+  for (; version < BACKUP_VERSION; version++) {
+    data = MIGRATIONS[version](data)
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: typeof file.exportedAt === 'string' ? file.exportedAt : '',
+    data: readData(data, 'data'),
+  }
+}
+
+/**
+ * Writes an archive into storage, in one transaction so a failed restore
+ * leaves the old data intact. Throws StorageError. The app reloads
+ * afterwards to pick it up.
+ */
+export async function restoreBackup(backup: BackupData, mode: RestoreMode): Promise<void> {
+  const data = mode === 'replace' ? backup : mergeBackup(await collectBackupData(), backup)
+  await replaceAll(data)
+  try {
+    if (data.onboardingComplete) localStorage.setItem(ONBOARDING_KEY, 'true')
+    else localStorage.removeItem(ONBOARDING_KEY)
+  } catch { /* */ }
+}
+
+/** A merge past a list's limit is refused as a whole rather than dropping some of either side */
+function refuseOverLimit(count: number, limit: number, what: string): void {
+  if (count <= limit) return
+  const error = new StorageError(
+    `Couldn't restore — merged, there would be ${count} ${what} and there's room for ${limit}. Delete some first, or replace instead of merging.`,
+  )
+  reportRefusedWrite(error.message)
+  throw error
+}
+
+/** Minutes as UserStats counts them — each session rounded on its own */
+function totalMinutes(sessions: CompletedSession[]): number {
+  return sessions.reduce((sum, s) => sum + Math.round(s.durationSeconds / 60), 0)
+}
+
+/** Sessions and minutes a side's stats count beyond the history it still holds, once older sessions were trimmed */
+function totalsBeyondHistory({ stats, sessions }: BackupData): { sessions: number; minutes: number } {
+  return {
+    sessions: Math.max(0, stats.totalSessions - sessions.length),
+    minutes: Math.max(0, stats.totalMinutes - totalMinutes(sessions)),
+  }
+}
+
+/** An archive combined with what's on the device, for a merge restore. Throws StorageError past a list's limit. */
+export function mergeBackup(current: BackupData, backup: BackupData): BackupData {
+  // History — union by id, newest first
+  const sessionIds = new Set(current.sessions.map((s) => s.id))
+  const sessions = [...current.sessions, ...backup.sessions.filter((s) => !sessionIds.has(s.id))]
+    .sort((a, b) => b.completedAt.localeCompare(a.completedAt))
+
+  // Stats — totals are counted from the merged history, plus what either
+  // side counted for sessions older than the history it kept. Those older
+  // sessions are most likely the same ones on both sides (one device's
+  // history restored onto another), so the larger leftover is kept rather
+  // than the sum. The streak follows whichever side practiced most recently.
+  const currentBeyond = totalsBeyondHistory(current)
+  const backupBeyond = totalsBeyondHistory(backup)
+  const latest = (current.stats.lastSessionDate ?? '') >= (backup.stats.lastSessionDate ?? '') ? current.stats : backup.stats
+  const stats: UserStats = {
+    totalSessions: sessions.length + Math.max(currentBeyond.sessions, backupBeyond.sessions),
+    totalMinutes: totalMinutes(sessions) + Math.max(currentBeyond.minutes, backupBeyond.minutes),
+    currentStreak: latest.currentStreak,
+    longestStreak: Math.max(current.stats.longestStreak, backup.stats.longestStreak),
+    lastSessionDate: latest.lastSessionDate,
+  }
+
+  // Journeys — completed days from both sides
+  const journeys = [...current.journeys]
+  for (const incoming of backup.journeys) {
+    const idx = journeys.findIndex((j) => j.journeyId === incoming.journeyId)
+    if (idx < 0) {
+      journeys.push(incoming)
+      continue
+    }
+    const existing = journeys[idx]
+    const lastCompleted = [existing.lastCompletedAt, incoming.lastCompletedAt].filter((d): d is string => d !== null).sort()
+    journeys[idx] = {
+      journeyId: existing.journeyId,
+      completedDays: [...new Set([...existing.completedDays, ...incoming.completedDays])].sort((a, b) => a - b),
+      startedAt: existing.startedAt < incoming.startedAt ? existing.startedAt : incoming.startedAt,
+      lastCompletedAt: lastCompleted[lastCompleted.length - 1] ?? null,
+      ...(existing.completedOn || incoming.completedOn
+        ? { completedOn: { ...incoming.completedOn, ...existing.completedOn } }
+        : {}),
+      ...(existing.practicedOn || incoming.practicedOn
+        ? { practicedOn: [...new Set([...existing.practicedOn ?? [], ...incoming.practicedOn ?? []])].sort() }
+        : {}),
+      ...(existing.schedule ?? incoming.schedule ? { schedule: existing.schedule ?? incoming.schedule } : {}),
+    }
+  }
+
+  // Presets — saved ones win on an id clash
+  const presetIds = new Set(current.customPresets.map((p) => p.id))
+  const customPresets = [...current.customPresets, ...backup.customPresets.filter((p) => !presetIds.has(p.id))]
+  refuseOverLimit(customPresets.length, MAX_CUSTOM_PRESETS, 'custom sessions')
+  const journeyIds = new Set(current.customJourneys.map((j) => j.id))
+  const customJourneys = [...current.customJourneys, ...backup.customJourneys.filter((j) => !journeyIds.has(j.id))]
+  refuseOverLimit(customJourneys.length, MAX_CUSTOM_JOURNEYS, 'custom journeys')
+
+  return {
+    sessions,
+    stats,
+    preferences: {
+      ...current.preferences,
+      favorites: [...new Set([...current.preferences.favorites, ...backup.preferences.favorites])],
+    },
+    journeys,
+    customPresets,
+    customJourneys,
+    onboardingComplete: current.onboardingComplete || backup.onboardingComplete,
+  }
+}
+
+// ── Field readers ────────────────────────────────────────
+
+const MOODS = ['energized', 'calm', 'focused', 'sleepy'] as const satisfies readonly MoodRating[]
+
+function date(obj: Json, key: string, path: string): string {
+  const value = string(obj, key, path)
+  if (Number.isNaN(Date.parse(value))) throw new FileFormatError('Expected a date', join(path, key))
+  return value
+}
+
+function stringItem(value: unknown, path: string): string {
+  if (typeof value !== 'string') throw new FileFormatError('Expected a string', path)
+  return value
+}
+
+function dayItem(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    throw new FileFormatError('Expected a day number', path)
+  }
+  return value
+}
+
+function nullable<T>(obj: Json, key: string, read: () => T): T | null {
+  return obj[key] === null || obj[key] === undefined ? null : read()
+}
+
+function readData(obj: Json, path: string): BackupData {
+  return {
+    sessions: list(obj, 'sessions', path, readSession),
+    stats: readStats(object(obj, 'stats', path), join(path, 'stats')),
+    preferences: readPreferences(object(obj, 'preferences', path), join(path, 'preferences')),
+    journeys: list(obj, 'journeys', path, readJourney, { max: MAX_JOURNEY_PROGRESS }),
+    customPresets: list(obj, 'customPresets', path, readPreset, { max: MAX_CUSTOM_PRESETS }),
+    customJourneys: list(obj, 'customJourneys', path, readCustomJourney, { max: MAX_CUSTOM_JOURNEYS }),
+    onboardingComplete: boolean(obj, 'onboardingComplete', path),
+  }
+}
+
+function readSession(value: unknown, path: string): CompletedSession {
+  const obj = asObject(value, path)
+  return {
+    id: string(obj, 'id', path, { nonEmpty: true, maxLength: 100 }),
+    presetId: string(obj, 'presetId', path, { nonEmpty: true, maxLength: 100 }),
+    presetName: string(obj, 'presetName', path, { maxLength: 100 }),
+    category: oneOf(obj, 'category', path, PRESET_CATEGORIES),
+    ...optional(obj, 'targetBand', () => oneOf(obj, 'targetBand', path, BRAINWAVE_BANDS)),
+    durationSeconds: number(obj, 'durationSeconds', path, { min: 0 }),
+    completedAt: date(obj, 'completedAt', path),
+    completedFull: boolean(obj, 'completedFull', path),
+    ...optional(obj, 'mood', () => oneOf(obj, 'mood', path, MOODS)),
+    ...optional(obj, 'note', () => string(obj, 'note', path, { maxLength: 2000 })),
+    ...optional(obj, 'preRating', () => readRating(obj.preRating, join(path, 'preRating'))),
+    ...optional(obj, 'postRating', () => readRating(obj.postRating, join(path, 'postRating'))),
+    ...optional(obj, 'journeyId', () => string(obj, 'journeyId', path, { nonEmpty: true, maxLength: 100 })),
+    ...optional(obj, 'journeyDay', () => dayItem(obj.journeyDay, join(path, 'journeyDay'))),
+  }
+}
+
+function score(obj: Json, key: string, path: string): number {
+  const value = number(obj, key, path, { min: 1, max: 10 })
+  if (!Number.isInteger(value)) throw new FileFormatError('Expected a whole number', join(path, key))
+  return value
+}
+
+function readRating(value: unknown, path: string): SelfRating {
+  const obj = asObject(value, path)
+  return {
+    ...optional(obj, 'stress', () => score(obj, 'stress', path)),
+    ...optional(obj, 'energy', () => score(obj, 'energy', path)),
+    ...optional(obj, 'focus', () => score(obj, 'focus', path)),
+    ...optional(obj, 'note', () => string(obj, 'note', path, { maxLength: 2000 })),
+  }
+}
+
+function readStats(obj: Json, path: string): UserStats {
+  return {
+    totalSessions: number(obj, 'totalSessions', path, { min: 0 }),
+    totalMinutes: number(obj, 'totalMinutes', path, { min: 0 }),
+    currentStreak: number(obj, 'currentStreak', path, { min: 0 }),
+    longestStreak: number(obj, 'longestStreak', path, { min: 0 }),
+    lastSessionDate: nullable(obj, 'lastSessionDate', () => date(obj, 'lastSessionDate', path)),
+  }
+}
+
+function readPreferences(obj: Json, path: string): UserPreferences {
+  const narrationPath = join(path, 'narration')
+  const narration = object(obj, 'narration', path)
+  return {
+    favorites: list(obj, 'favorites', path, stringItem, { max: 500 }),
+    hapticEnabled: boolean(obj, 'hapticEnabled', path),
+    reducedMotion: boolean(obj, 'reducedMotion', path),
+    narration: {
+      voiceURI: nullable(narration, 'voiceURI', () => string(narration, 'voiceURI', narrationPath)),
+      rate: number(narration, 'rate', narrationPath, { min: 0.1, max: 10 }),
+      pitch: number(narration, 'pitch', narrationPath, { min: 0, max: 2 }),
+      liveForUnrecorded: boolean(narration, 'liveForUnrecorded', narrationPath),
+    },
+    // Added after version 1 shipped; older backups use the defaults
+    streakRules: obj.streakRules === undefined
+      ? DEFAULT_STREAK_RULES
+      : readStreakRules(object(obj, 'streakRules', path), join(path, 'streakRules')),
+  }
+}
+
+function readStreakRules(obj: Json, path: string): StreakRules {
+  return {
+    minMinutesPerDay: number(obj, 'minMinutesPerDay', path, { min: 0, max: 600 }),
+    countPartialSessions: boolean(obj, 'countPartialSessions', path),
+    restDaysPerWeek: number(obj, 'restDaysPerWeek', path, { min: 0, max: 6 }),
+    freezesPerMonth: number(obj, 'freezesPerMonth', path, { min: 0, max: 31 }),
+  }
+}
+
+function readJourney(value: unknown, path: string): JourneyProgress {
+  const obj = asObject(value, path)
+  return {
+    journeyId: string(obj, 'journeyId', path, { nonEmpty: true, maxLength: 100 }),
+    completedDays: list(obj, 'completedDays', path, dayItem, { max: 365 }),
+    startedAt: date(obj, 'startedAt', path),
+    lastCompletedAt: nullable(obj, 'lastCompletedAt', () => date(obj, 'lastCompletedAt', path)),
+    ...optional(obj, 'completedOn', () => readCompletedOn(object(obj, 'completedOn', path), join(path, 'completedOn'))),
+    ...optional(obj, 'practicedOn', () => list(obj, 'practicedOn', path, calendarDateItem, { max: 1000 })),
+    ...optional(obj, 'schedule', () => readSchedule(object(obj, 'schedule', path), join(path, 'schedule'))),
+  }
+}
+
+function readCustomJourney(value: unknown, path: string): Journey {
+  const obj = asObject(value, path)
+  return {
+    id: string(obj, 'id', path, { nonEmpty: true, maxLength: 100 }),
+    name: string(obj, 'name', path, { nonEmpty: true, maxLength: 100 }),
+    description: string(obj, 'description', path, { maxLength: 500 }),
+    category: oneOf(obj, 'category', path, PRESET_CATEGORIES),
+    days: list(obj, 'days', path, readJourneyDay, { min: 1, max: MAX_JOURNEY_DAYS }),
+    icon: string(obj, 'icon', path, { nonEmpty: true, maxLength: 16 }),
+    color: readColor(obj, path),
+  }
+}
+
+function readJourneyDay(value: unknown, path: string): JourneyDay {
+  const obj = asObject(value, path)
+  return {
+    day: dayItem(obj.day, join(path, 'day')),
+    presetId: string(obj, 'presetId', path, { nonEmpty: true, maxLength: 100 }),
+    title: string(obj, 'title', path, { nonEmpty: true, maxLength: 100 }),
+    tip: string(obj, 'tip', path, { maxLength: 500 }),
+    ...optional(obj, 'rules', () => list(obj, 'rules', path, readJourneyRule, { max: MAX_RULES_PER_DAY })),
+  }
+}
+
+function readJourneyRule(value: unknown, path: string): JourneyRule {
+  const obj = asObject(value, path)
+  const when = oneOf(obj, 'when', path, JOURNEY_TRIGGERS)
+  return oneOf(obj, 'then', path, ['repeat', 'swap']) === 'repeat'
+    ? { when, then: 'repeat' }
+    : { when, then: 'swap', presetId: string(obj, 'presetId', path, { nonEmpty: true, maxLength: 100 }) }
+}
+
+function calendarDateItem(value: unknown, path: string): string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new FileFormatError('Expected a YYYY-MM-DD date', path)
+  }
+  return value
+}
+
+function readCompletedOn(obj: Json, path: string): Record<number, string> {
+  const completedOn: Record<number, string> = {}
+  for (const key of Object.keys(obj)) {
+    dayItem(Number(key), join(path, key))
+    completedOn[Number(key)] = calendarDateItem(obj[key], join(path, key))
+  }
+  return completedOn
+}
+
+function readSchedule(obj: Json, path: string): JourneySchedule {
+  return {
+    daily: boolean(obj, 'daily', path),
+    reminderTime: nullable(obj, 'reminderTime', () => {
+      const value = string(obj, 'reminderTime', path)
+      if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(value)) throw new FileFormatError('Expected a time like 08:00', join(path, 'reminderTime'))
+      return value
+    }),
+  }
+}
@@ -1,6 +1,7 @@
 import { useState } from 'react'
-import type { SessionPreset, UserStats, MoodRating } from '../types'
-import { bandInfo } from '../presets'
+import type { SessionPreset, UserStats, MoodRating, SelfRating } from '../types'
+import { bandInfo, moodOptions, cleanRating } from '../presets'
+import { SelfRatingFields } from './SelfRatingFields'
 
 interface Props {
   preset: SessionPreset
@@ -8,24 +9,23 @@ interface Props {
   stats: UserStats
   completedFull?: boolean
   onMoodSelect: (mood: MoodRating) => void
+  /** Check-in from session setup, shown as the "before" on each scale */
+  preRating?: SelfRating
+  /** Stores the after-session check-in; called on Done when anything was rated */
+  onPostRating?: (rating: SelfRating) => void
   onDone: () => void
 }
 
-const MOODS: { value: MoodRating; emoji: string; label: string }[] = [
-  { value: 'energized', emoji: '⚡', label: 'Energized' },
-  { value: 'calm', emoji: '😌', label: 'Calm' },
-  { value: 'focused', emoji: '🎯', label: 'Focused' },
-  { value: 'sleepy', emoji: '😴', label: 'Sleepy' },
-]
-
 function formatTime(seconds: number): string {
   const m = Math.floor(seconds / 60)
   const s = Math.floor(seconds % 60)
   return `${m}:${s.toString().padStart(2, '0')}`
 }
 
-export function CompletionScreen({ preset, duration, stats, completedFull = true, onMoodSelect, onDone }: Props) {
+export function CompletionScreen({ preset, duration, stats, completedFull = true, onMoodSelect, preRating, onPostRating, onDone }: Props) {
   const [selectedMood, setSelectedMood] = useState<MoodRating | null>(null)
+  const [showCheckIn, setShowCheckIn] = useState(!!preRating)
+  const [postRating, setPostRating] = useState<SelfRating>({})
 
   const minBeatFreq = preset.frequencyEnvelope.length > 0
     ? preset.frequencyEnvelope.reduce((min, p) => Math.min(min, p.beatFreq), Infinity)
@@ -36,9 +36,15 @@ export function CompletionScreen({ preset, duration, stats, completedFull = true
     onMoodSelect(mood)
   }
 
+  const handleDone = () => {
+    const rating = cleanRating(postRating)
+    if (rating) onPostRating?.(rating)
+    onDone()
+  }
+
   return (
     <div
-      className="fixed inset-0 flex flex-col items-center justify-center px-8"
+      className="fixed inset-0 flex flex-col items-center justify-center-safe px-8 py-8 overflow-y-auto"
       style={{ background: 'var(--color-bg-deep)' }}
     >
       {/* Ambient glow */}
@@ -69,7 +75,7 @@ export function CompletionScreen({ preset, duration, stats, completedFull = true
         <div className="mb-6">
           <p className="text-xs text-slate-500 mb-3">How do you feel?</p>
           <div className="flex justify-center gap-3">
-            {MOODS.map((mood) => (
+            {moodOptions.map((mood) => (
               <button
                 key={mood.value}
                 onClick={() => handleMood(mood.value)}
@@ -87,6 +93,31 @@ export function CompletionScreen({ preset, duration, stats, completedFull = true
           </div>
         </div>
 
+        {/* Post-session check-in */}
+        {onPostRating && (
+          <div className="mb-6 text-left">
+            {showCheckIn ? (
+              <div className="glass rounded-2xl p-4 animate-fade-in">
+                <p className="text-xs text-slate-500 mb-3">{preRating ? 'Check in again to see what changed' : 'Check in'}</p>
+                <SelfRatingFields
+                  value={postRating}
+                  onChange={setPostRating}
+                  color={preset.color}
+                  compareTo={preRating}
+                  notePlaceholder="How was it?"
+                />
+              </div>
+            ) : (
+              <button
+                onClick={() => setShowCheckIn(true)}
+                className="w-full py-2 rounded-xl text-xs font-medium text-slate-400 border border-white/10 hover:border-white/20 transition-colors"
+              >
+                Rate stress, energy & focus
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Streak */}
         {stats.currentStreak > 1 && (
           <div className="mb-6 animate-fade-in">
@@ -99,7 +130,7 @@ export function CompletionScreen({ preset, duration, stats, completedFull = true
 
         {/* Done button */}
         <button
-          onClick={onDone}
+          onClick={handleDone}
           className="w-full py-3.5 rounded-2xl text-sm font-medium text-white transition-all active:scale-[0.98]"
           style={{
             background: `linear-gradient(135deg, ${preset.color}, ${preset.color}bb)`,
@@ -1,20 +1,37 @@
 import { useState, useCallback, useRef } from 'react'
-import type { FrequencyPoint } from '../types'
+import type { FrequencyPoint, EnvelopeCurve, PhaseMarkers } from '../types'
+import { envelopeOutline } from '../audio/envelope'
+import { PRESET_LIMITS } from '../presetFormat'
 
 interface Props {
   envelope: FrequencyPoint[]
   duration: number
   color: string
   onChange: (envelope: FrequencyPoint[]) => void
+  /** Phase boundaries to draw as draggable markers */
+  phases?: PhaseMarkers
+  /** Whether the return marker applies (the preset has a return phase) */
+  showReturn?: boolean
+  onPhasesChange?: (phases: PhaseMarkers) => void
 }
 
-const MIN_FREQ = 0.5
+type MarkerKey = keyof PhaseMarkers
+
+const MIN_FREQ = PRESET_LIMITS.beatFreq.min
 const MAX_FREQ = 50
-const MAX_POINTS = 10
-const MIN_POINTS = 2
+const MAX_POINTS = PRESET_LIMITS.envelopePoints.max
+const MIN_POINTS = PRESET_LIMITS.envelopePoints.min
 const SNAP_TIME = 15  // seconds
 const SNAP_FREQ = 0.5 // Hz
 
+const curveOptions: { id: EnvelopeCurve; label: string }[] = [
+  { id: 'linear', label: 'Linear' },
+  { id: 'exponential', label: 'Exp' },
+  { id: 'ease', label: 'Ease' },
+  { id: 'hold', label: 'Hold' },
+  { id: 'step', label: 'Step' },
+]
+
 // Brainwave bands for background coloring
 const bands = [
   { label: 'Gamma', min: 30, max: 50, color: 'rgba(249, 115, 22, 0.06)' },
@@ -59,9 +76,12 @@ function formatTime(seconds: number): string {
   return s > 0 ? `${m}m ${s}s` : `${m}m`
 }
 
-export function EnvelopeEditor({ envelope, duration, color, onChange }: Props) {
+export function EnvelopeEditor({ envelope, duration, color, onChange, phases, showReturn = true, onPhasesChange }: Props) {
   const svgRef = useRef<SVGSVGElement>(null)
   const [dragging, setDragging] = useState<number | null>(null)
+  const [draggingMarker, setDraggingMarker] = useState<MarkerKey | null>(null)
+  // Segment whose curve the picker edits (identified by its starting point)
+  const [selected, setSelected] = useState(0)
   const [tooltip, setTooltip] = useState<{ x: number; y: number; text: string } | null>(null)
   const lastTapRef = useRef<{ idx: number; time: number } | null>(null)
 
@@ -90,6 +110,7 @@ export function EnvelopeEditor({ envelope, duration, color, onChange }: Props) {
       // Double-tap → delete point
       if (envelope.length > MIN_POINTS && idx !== 0 && idx !== envelope.length - 1) {
         onChange(envelope.filter((_, i) => i !== idx))
+        setSelected(Math.max(0, idx - 1))
       }
       lastTapRef.current = null
       return
@@ -97,9 +118,37 @@ export function EnvelopeEditor({ envelope, duration, color, onChange }: Props) {
     lastTapRef.current = { idx, time: now }
 
     setDragging(idx)
+    setSelected(Math.min(idx, envelope.length - 2))
   }, [envelope, onChange])
 
+  const handleMarkerDown = useCallback((key: MarkerKey, e: React.MouseEvent | React.TouchEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+    setDraggingMarker(key)
+  }, [])
+
   const handlePointerMove = useCallback((e: React.MouseEvent | React.TouchEvent) => {
+    if (draggingMarker !== null && phases && onPhasesChange) {
+      e.preventDefault()
+      const pt = getSVGPoint(e)
+      if (!pt) return
+      let time = xToTime(pt.x, duration)
+      // Induction must end before the return phase begins
+      if (draggingMarker === 'inductionEnd') {
+        const limit = showReturn && phases.returnStart !== undefined ? phases.returnStart : duration
+        time = Math.max(0, Math.min(limit - SNAP_TIME, time))
+      } else {
+        time = Math.max(phases.inductionEnd + SNAP_TIME, Math.min(duration, time))
+      }
+      onPhasesChange({ ...phases, [draggingMarker]: time })
+      setTooltip({
+        x: timeToX(time, duration),
+        y: PADDING.top + 24,
+        text: `${draggingMarker === 'inductionEnd' ? 'Main' : 'Return'} at ${formatTime(time)}`,
+      })
+      return
+    }
+
     if (dragging === null) return
     e.preventDefault()
 
@@ -125,7 +174,7 @@ export function EnvelopeEditor({ envelope, duration, color, onChange }: Props) {
     }
 
     const updated = envelope.map((p, i) =>
-      i === dragging ? { time: newTime, beatFreq: newFreq } : p,
+      i === dragging ? { ...p, time: newTime, beatFreq: newFreq } : p,
     )
     onChange(updated)
 
@@ -134,15 +183,16 @@ export function EnvelopeEditor({ envelope, duration, color, onChange }: Props) {
       y: freqToY(newFreq),
       text: `${formatTime(newTime)} / ${newFreq.toFixed(1)} Hz`,
     })
-  }, [dragging, envelope, duration, getSVGPoint, onChange])
+  }, [dragging, draggingMarker, phases, showReturn, envelope, duration, getSVGPoint, onChange, onPhasesChange])
 
   const handlePointerUp = useCallback(() => {
     setDragging(null)
+    setDraggingMarker(null)
     setTooltip(null)
   }, [])
 
   const handleSVGClick = useCallback((e: React.MouseEvent) => {
-    if (dragging !== null) return
+    if (dragging !== null || draggingMarker !== null) return
     if (envelope.length >= MAX_POINTS) return
 
     const pt = getSVGPoint(e)
@@ -158,17 +208,33 @@ export function EnvelopeEditor({ envelope, duration, color, onChange }: Props) {
     // Don't add at exact same time as existing point
     if (envelope.some((p) => p.time === newTime)) return
 
-    const updated = [...envelope, { time: newTime, beatFreq: newFreq }]
-      .sort((a, b) => a.time - b.time)
+    // The new point continues the shape of the segment it splits
+    const before = [...envelope].reverse().find((p) => p.time < newTime)
+    const point: FrequencyPoint = before?.curve
+      ? { time: newTime, beatFreq: newFreq, curve: before.curve }
+      : { time: newTime, beatFreq: newFreq }
+    const updated = [...envelope, point].sort((a, b) => a.time - b.time)
     onChange(updated)
-  }, [dragging, envelope, duration, getSVGPoint, onChange])
+  }, [dragging, draggingMarker, envelope, duration, getSVGPoint, onChange])
+
+  const segment = Math.min(selected, envelope.length - 2)
+
+  const handleCurveChange = (curve: EnvelopeCurve) => {
+    onChange(envelope.map((p, i) => {
+      if (i !== segment) return p
+      // Linear is the default, so leave it implicit
+      return curve === 'linear' ? { time: p.time, beatFreq: p.beatFreq } : { ...p, curve }
+    }))
+  }
 
   // Build path
   const pathPoints = envelope.map((p) => ({
     x: timeToX(p.time, duration),
     y: freqToY(p.beatFreq),
   }))
-  const linePath = pathPoints.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ')
+  const linePath = envelopeOutline(envelope)
+    .map((p, i) => `${i === 0 ? 'M' : 'L'} ${timeToX(p.time, duration)} ${freqToY(p.beatFreq)}`)
+    .join(' ')
   const areaPath = linePath + ` L ${pathPoints[pathPoints.length - 1].x} ${freqToY(MIN_FREQ)} L ${pathPoints[0].x} ${freqToY(MIN_FREQ)} Z`
 
   // Y-axis tick values
@@ -177,6 +243,15 @@ export function EnvelopeEditor({ envelope, duration, color, onChange }: Props) {
   const xTickCount = Math.min(6, Math.floor(duration / 300))
   const xTicks = Array.from({ length: xTickCount + 1 }, (_, i) => Math.round((i / xTickCount) * duration))
 
+  // Phase markers (return only when the preset has a return phase)
+  const markers: { key: MarkerKey; label: string; time: number }[] = []
+  if (phases) {
+    markers.push({ key: 'inductionEnd', label: 'Main', time: phases.inductionEnd })
+    if (showReturn && phases.returnStart !== undefined) {
+      markers.push({ key: 'returnStart', label: 'Return', time: phases.returnStart })
+    }
+  }
+
   return (
     <div className="select-none touch-none">
       <svg
@@ -290,6 +365,48 @@ export function EnvelopeEditor({ envelope, duration, color, onChange }: Props) {
         {/* Line */}
         <path d={linePath} fill="none" stroke={color} strokeWidth="2" strokeLinejoin="round" />
 
+        {/* Phase markers — dragged by the handle above the plot */}
+        {markers.map((m) => {
+          const x = timeToX(m.time, duration)
+          return (
+            <g key={m.key}>
+              <line
+                x1={x}
+                y1={PADDING.top}
+                x2={x}
+                y2={SVG_HEIGHT - PADDING.bottom}
+                stroke="rgba(255,255,255,0.3)"
+                strokeWidth="1"
+                strokeDasharray="3 3"
+                className="pointer-events-none"
+              />
+              <text
+                x={x}
+                y={PADDING.top - 6}
+                fontSize="8"
+                fill={draggingMarker === m.key ? 'white' : 'rgba(148, 163, 184, 0.7)'}
+                textAnchor="middle"
+                fontFamily="sans-serif"
+                className="pointer-events-none"
+              >
+                {m.label}
+              </text>
+              {onPhasesChange && (
+                <rect
+                  x={x - 16}
+                  y={0}
+                  width={32}
+                  height={PADDING.top}
+                  fill="transparent"
+                  className="cursor-ew-resize"
+                  onMouseDown={(e) => handleMarkerDown(m.key, e)}
+                  onTouchStart={(e) => handleMarkerDown(m.key, e)}
+                />
+              )}
+            </g>
+          )
+        })}
+
         {/* Control points */}
         {pathPoints.map((p, i) => (
           <g key={i}>
@@ -358,9 +475,37 @@ export function EnvelopeEditor({ envelope, duration, color, onChange }: Props) {
           Tap to add point{envelope.length >= MAX_POINTS ? ' (max reached)' : ''}
         </span>
         <span className="text-[10px] text-slate-600">
-          Double-tap to remove
+          Double-tap to remove{markers.length > 0 && onPhasesChange ? ' · Drag labels to move phases' : ''}
         </span>
       </div>
+
+      {/* Curve picker for the selected segment */}
+      {segment < envelope.length - 1 && (
+        <div className="flex items-center gap-2 mt-3">
+          <span className="text-[10px] text-slate-500 shrink-0">
+            {formatTime(envelope[segment].time)} → {formatTime(envelope[segment + 1].time)}
+          </span>
+          <div className="flex gap-1 overflow-x-auto scrollbar-hide">
+            {curveOptions.map((opt) => {
+              const active = (envelope[segment].curve ?? 'linear') === opt.id
+              return (
+                <button
+                  key={opt.id}
+                  type="button"
+                  onClick={() => handleCurveChange(opt.id)}
+                  className={`shrink-0 px-2.5 py-1 rounded-full text-[10px] font-medium transition-all ${
+                    active
+                      ? 'bg-white/15 text-white border border-white/20'
+                      : 'text-slate-400 border border-white/5 hover:border-white/15'
+                  }`}
+                >
+                  {opt.label}
+                </button>
+              )
+            })}
+          </div>
+        </div>
+      )}
     </div>
   )
 }
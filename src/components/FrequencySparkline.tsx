@@ -1,4 +1,5 @@
 import type { FrequencyPoint } from '../types'
+import { envelopeOutline } from '../audio/envelope'
 
 interface Props {
   envelope: FrequencyPoint[]
@@ -21,13 +22,16 @@ export function FrequencySparkline({ envelope, duration, color, width = 240, hei
   const minFreq = Math.min(...freqs)
   const range = maxFreq - minFreq || 1
 
-  // Build SVG path
-  const points = envelope.map((p) => ({
+  const toPoint = (p: FrequencyPoint) => ({
     x: padding + (p.time / duration) * chartW,
     y: padding + (1 - (p.beatFreq - minFreq) / range) * chartH,
-  }))
+  })
 
-  const pathData = points
+  // Build SVG path (follows curved segments), with dots on the keyframes
+  const points = envelope.map(toPoint)
+  const line = envelopeOutline(envelope).map(toPoint)
+
+  const pathData = line
     .map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x.toFixed(1)} ${p.y.toFixed(1)}`)
     .join(' ')
 
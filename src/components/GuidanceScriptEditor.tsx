@@ -0,0 +1,866 @@
+import { useState, useCallback, useRef } from 'react'
+import type {
+  GuidanceScript,
+  GuidancePhase,
+  VoiceCue,
+  SAMWindow,
+  SAMMode,
+  OrbitPath,
+  IsochronicWindow,
+  IsochronicLayer,
+  PulseShape,
+  CarrierGainEvent,
+  AmbientFadeEvent,
+} from '../types'
+
+interface Props {
+  script: GuidanceScript
+  duration: number
+  color: string
+  /** Number of carrier layers carrier fade events can target */
+  carrierCount: number
+  onChange: (script: GuidanceScript) => void
+  /** Why the script can't be saved yet, if anything */
+  problem?: string | null
+}
+
+type ItemKind = 'phase' | 'cue' | 'sam' | 'pulses' | 'carrier' | 'ambient'
+
+interface ItemOf {
+  phase: GuidancePhase
+  cue: VoiceCue
+  sam: SAMWindow
+  pulses: IsochronicWindow
+  carrier: CarrierGainEvent
+  ambient: AmbientFadeEvent
+}
+
+type ScriptItem = ItemOf[ItemKind]
+
+interface Selection {
+  kind: ItemKind
+  index: number
+}
+
+const LIST_KEYS = {
+  phase: 'phases',
+  cue: 'voiceCues',
+  sam: 'samWindows',
+  pulses: 'isochronicWindows',
+  carrier: 'carrierGainEvents',
+  ambient: 'ambientEvents',
+} as const satisfies Record<ItemKind, keyof GuidanceScript>
+
+const LANES: { kind: ItemKind | 'fx'; label: string; add?: string }[] = [
+  { kind: 'phase', label: 'Phases', add: 'Phase' },
+  { kind: 'cue', label: 'Voice', add: 'Cue' },
+  { kind: 'sam', label: 'SAM', add: 'SAM' },
+  { kind: 'pulses', label: 'Pulses', add: 'Pulses' },
+  { kind: 'carrier', label: 'Layers', add: 'Layer fade' },
+  { kind: 'ambient', label: 'Ambient', add: 'Ambient fade' },
+  { kind: 'fx', label: 'FX' },
+]
+
+const SAM_MODES: { id: SAMMode; label: string }[] = [
+  { id: 'smooth', label: 'Smooth' },
+  { id: 'erratic', label: 'Erratic' },
+  { id: 'spatial', label: '3D' },
+]
+
+const ORBIT_PATHS: { id: OrbitPath; label: string }[] = [
+  { id: 'circle', label: 'Circle' },
+  { id: 'ellipse', label: 'Ellipse' },
+  { id: 'figure8', label: 'Figure 8' },
+]
+
+const PULSE_SHAPES: { id: PulseShape; label: string }[] = [
+  { id: 'trapezoid', label: 'Square' },
+  { id: 'sine', label: 'Sine' },
+  { id: 'sawtooth', label: 'Saw' },
+]
+
+const MAX_PULSE_LAYERS = 3
+const DEFAULT_WINDOW = 300 // seconds
+const SNAP_TIME = 5        // seconds
+
+const PADDING = { top: 6, right: 10, bottom: 18, left: 46 }
+const LANE_HEIGHT = 20
+const SVG_WIDTH = 360
+const SVG_HEIGHT = PADDING.top + LANES.length * LANE_HEIGHT + PADDING.bottom
+
+function timeToX(time: number, duration: number): number {
+  const plotW = SVG_WIDTH - PADDING.left - PADDING.right
+  return PADDING.left + (time / duration) * plotW
+}
+
+function xToTime(x: number, duration: number): number {
+  const plotW = SVG_WIDTH - PADDING.left - PADDING.right
+  const raw = ((x - PADDING.left) / plotW) * duration
+  return Math.max(0, Math.min(duration, Math.round(raw / SNAP_TIME) * SNAP_TIME))
+}
+
+function laneY(kind: ItemKind | 'fx'): number {
+  return PADDING.top + LANES.findIndex((l) => l.kind === kind) * LANE_HEIGHT
+}
+
+function formatClock(seconds: number): string {
+  const m = Math.floor(seconds / 60)
+  const s = Math.round(seconds % 60)
+  return `${m}:${s.toString().padStart(2, '0')}`
+}
+
+/** Parses "m:ss" or plain seconds */
+function parseClock(text: string): number | null {
+  const parts = text.trim().split(':')
+  if (parts.length > 2 || parts.some((p) => p === '' || isNaN(Number(p)))) return null
+  return parts.length === 2 ? Number(parts[0]) * 60 + Number(parts[1]) : Number(parts[0])
+}
+
+function getList<K extends ItemKind>(script: GuidanceScript, kind: K): ItemOf[K][] {
+  return (script[LIST_KEYS[kind]] ?? []) as ItemOf[K][]
+}
+
+function setList<K extends ItemKind>(script: GuidanceScript, kind: K, list: ItemOf[K][]): GuidanceScript {
+  return { ...script, [LIST_KEYS[kind]]: list }
+}
+
+function itemStart(item: ScriptItem): number {
+  return 'time' in item ? item.time : item.startTime
+}
+
+function itemEnd(item: ScriptItem): number {
+  if ('durationSec' in item) return item.time + item.durationSec
+  return 'endTime' in item ? item.endTime : item.time
+}
+
+function shiftItem<T extends ScriptItem>(item: T, delta: number): T {
+  if ('time' in item) return { ...item, time: item.time + delta }
+  return { ...item, startTime: item.startTime + delta, endTime: item.endTime + delta }
+}
+
+function createItem(kind: ItemKind, time: number, duration: number, script: GuidanceScript, carrierCount: number): ScriptItem {
+  const windowStart = Math.max(0, Math.min(time, duration - DEFAULT_WINDOW))
+  const windowEnd = Math.min(windowStart + DEFAULT_WINDOW, duration)
+  switch (kind) {
+    case 'phase':
+      return { name: `Phase ${script.phases.length + 1}`, startTime: windowStart, endTime: windowEnd }
+    case 'cue':
+      return { time, text: '' }
+    case 'sam':
+      return { startTime: windowStart, endTime: windowEnd, rotationHz: 4, mode: 'spatial', path: 'circle' }
+    case 'pulses':
+      return {
+        startTime: windowStart,
+        endTime: windowEnd,
+        layers: [{ pulseHz: 6, carrierFreq: 250, shape: 'sine', gainDb: -12 }],
+      }
+    case 'carrier':
+      return { time: Math.min(time, duration - 30), carrierIndex: carrierCount - 1, targetGain: 0, durationSec: 30 }
+    case 'ambient':
+      return { time: Math.min(time, duration - 30), targetVolume: 0.1, durationSec: 30 }
+  }
+}
+
+export function GuidanceScriptEditor({ script, duration, color, carrierCount, onChange, problem }: Props) {
+  const svgRef = useRef<SVGSVGElement>(null)
+  const [cursor, setCursor] = useState(0)
+  const [selection, setSelection] = useState<Selection | null>(null)
+  const [dragging, setDragging] = useState<{ kind: ItemKind; index: number; offset: number } | null>(null)
+
+  const getSVGX = useCallback((e: React.MouseEvent | React.TouchEvent): number | null => {
+    const svg = svgRef.current
+    if (!svg) return null
+    const rect = svg.getBoundingClientRect()
+    const clientX = 'touches' in e ? e.touches[0].clientX : e.clientX
+    return (clientX - rect.left) * (SVG_WIDTH / rect.width)
+  }, [])
+
+  const updateItem = useCallback(<K extends ItemKind>(kind: K, index: number, item: ItemOf[K]) => {
+    onChange(setList(script, kind, getList(script, kind).map((existing, i) => (i === index ? item : existing))))
+  }, [script, onChange])
+
+  const handleAdd = useCallback((kind: ItemKind) => {
+    const list = getList(script, kind)
+    onChange(setList(script, kind, [...list, createItem(kind, cursor, duration, script, carrierCount)]))
+    setSelection({ kind, index: list.length })
+  }, [script, cursor, duration, carrierCount, onChange])
+
+  const handleDelete = useCallback(() => {
+    if (!selection) return
+    const { kind, index } = selection
+    onChange(setList(script, kind, getList(script, kind).filter((_, i) => i !== index)))
+    setSelection(null)
+  }, [script, selection, onChange])
+
+  const handleItemDown = useCallback((kind: ItemKind, index: number, e: React.MouseEvent | React.TouchEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+    setSelection({ kind, index })
+    const x = getSVGX(e)
+    if (x === null) return
+    const item = getList(script, kind)[index]
+    setDragging({ kind, index, offset: xToTime(x, duration) - itemStart(item) })
+  }, [script, duration, getSVGX])
+
+  const handlePointerMove = useCallback((e: React.MouseEvent | React.TouchEvent) => {
+    if (!dragging) return
+    e.preventDefault()
+    const x = getSVGX(e)
+    if (x === null) return
+    const item = getList(script, dragging.kind)[dragging.index]
+    if (!item) return
+    const length = itemEnd(item) - itemStart(item)
+    const start = Math.max(0, Math.min(duration - length, xToTime(x, duration) - dragging.offset))
+    if (start === itemStart(item)) return
+    updateItem(dragging.kind, dragging.index, shiftItem(item, start - itemStart(item)))
+  }, [dragging, script, duration, getSVGX, updateItem])
+
+  const handlePointerUp = useCallback(() => setDragging(null), [])
+
+  const handleSVGClick = useCallback((e: React.MouseEvent) => {
+    const x = getSVGX(e)
+    if (x === null || x < PADDING.left) return
+    setCursor(xToTime(x, duration))
+    setSelection(null)
+  }, [duration, getSVGX])
+
+  const xTickCount = Math.min(6, Math.floor(duration / 300))
+  const xTicks = Array.from({ length: xTickCount + 1 }, (_, i) => Math.round((i / xTickCount) * duration))
+
+  const selectedItem = selection ? getList(script, selection.kind)[selection.index] : undefined
+
+  const renderItems = (kind: ItemKind) => {
+    const y = laneY(kind)
+    return getList(script, kind).map((item, index) => {
+      const selected = selection?.kind === kind && selection.index === index
+      const x1 = timeToX(itemStart(item), duration)
+      const events = {
+        onMouseDown: (e: React.MouseEvent) => handleItemDown(kind, index, e),
+        onTouchStart: (e: React.TouchEvent) => handleItemDown(kind, index, e),
+        onClick: (e: React.MouseEvent) => e.stopPropagation(),
+      }
+      if (kind === 'cue') {
+        const cue = item as VoiceCue
+        return (
+          <g key={index} {...events} className="cursor-grab active:cursor-grabbing">
+            <circle cx={x1} cy={y + LANE_HEIGHT / 2} r={8} fill="transparent" />
+            <circle
+              cx={x1}
+              cy={y + LANE_HEIGHT / 2}
+              r={selected ? 4.5 : 3.5}
+              fill={cue.chimeOnly ? 'transparent' : color}
+              stroke={selected ? 'white' : color}
+              strokeWidth="1.5"
+              className="pointer-events-none"
+            />
+          </g>
+        )
+      }
+      const width = Math.max(3, timeToX(itemEnd(item), duration) - x1)
+      return (
+        <g key={index} {...events} className="cursor-grab active:cursor-grabbing">
+          <rect
+            x={x1}
+            y={y + 3}
+            width={width}
+            height={LANE_HEIGHT - 6}
+            rx={3}
+            fill={selected ? `${color}70` : `${color}30`}
+            stroke={selected ? 'white' : 'none'}
+            strokeWidth="1"
+          />
+          {kind === 'phase' && width > 28 && (
+            <text
+              x={x1 + 4}
+              y={y + LANE_HEIGHT / 2 + 3}
+              fontSize="8"
+              fill="rgba(255,255,255,0.8)"
+              fontFamily="sans-serif"
+              className="pointer-events-none"
+            >
+              {(item as GuidancePhase).name.slice(0, Math.floor(width / 5))}
+            </text>
+          )}
+        </g>
+      )
+    })
+  }
+
+  const fxY = laneY('fx')
+  const resonant = script.resonantTuning
+
+  return (
+    <div className="space-y-4">
+      <div className="select-none touch-none">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${SVG_WIDTH} ${SVG_HEIGHT}`}
+          className="w-full rounded-xl"
+          style={{ background: 'rgba(255,255,255,0.02)' }}
+          onClick={handleSVGClick}
+          onMouseMove={handlePointerMove}
+          onMouseUp={handlePointerUp}
+          onMouseLeave={handlePointerUp}
+          onTouchMove={handlePointerMove}
+          onTouchEnd={handlePointerUp}
+        >
+          {/* Lanes */}
+          {LANES.map((lane, i) => {
+            const y = PADDING.top + i * LANE_HEIGHT
+            return (
+              <g key={lane.kind}>
+                <rect
+                  x={PADDING.left}
+                  y={y}
+                  width={SVG_WIDTH - PADDING.left - PADDING.right}
+                  height={LANE_HEIGHT}
+                  fill={i % 2 === 0 ? 'rgba(255,255,255,0.02)' : 'transparent'}
+                />
+                <text
+                  x={PADDING.left - 6}
+                  y={y + LANE_HEIGHT / 2 + 3}
+                  fontSize="8"
+                  fill="rgba(148, 163, 184, 0.6)"
+                  textAnchor="end"
+                  fontFamily="sans-serif"
+                >
+                  {lane.label}
+                </text>
+              </g>
+            )
+          })}
+
+          {/* X-axis ticks */}
+          {xTicks.map((time) => {
+            const x = timeToX(time, duration)
+            return (
+              <g key={time}>
+                <line
+                  x1={x}
+                  y1={PADDING.top}
+                  x2={x}
+                  y2={SVG_HEIGHT - PADDING.bottom}
+                  stroke="rgba(255,255,255,0.04)"
+                  strokeWidth="0.5"
+                />
+                <text
+                  x={x}
+                  y={SVG_HEIGHT - PADDING.bottom + 12}
+                  fontSize="9"
+                  fill="rgba(148, 163, 184, 0.5)"
+                  textAnchor="middle"
+                  fontFamily="sans-serif"
+                >
+                  {Math.round(time / 60)}m
+                </text>
+              </g>
+            )
+          })}
+
+          {/* FX lane — edited in the settings below */}
+          <g className="pointer-events-none">
+            {resonant && (
+              <rect
+                x={timeToX(resonant.startTime, duration)}
+                y={fxY + 3}
+                width={Math.max(3, timeToX(Math.min(resonant.endTime, duration), duration) - timeToX(resonant.startTime, duration))}
+                height={LANE_HEIGHT - 6}
+                rx={3}
+                fill="rgba(148, 163, 184, 0.2)"
+              />
+            )}
+            {script.rocketPanTime !== undefined && (
+              <path
+                d={`M ${timeToX(script.rocketPanTime, duration)} ${fxY + 4} l 4 12 h -8 z`}
+                fill="rgba(148, 163, 184, 0.6)"
+              />
+            )}
+          </g>
+
+          {(['phase', 'sam', 'pulses', 'carrier', 'ambient', 'cue'] as const).map((kind) => (
+            <g key={kind}>{renderItems(kind)}</g>
+          ))}
+
+          {/* Cursor — where new items are placed */}
+          <line
+            x1={timeToX(cursor, duration)}
+            y1={PADDING.top}
+            x2={timeToX(cursor, duration)}
+            y2={SVG_HEIGHT - PADDING.bottom}
+            stroke={color}
+            strokeWidth="1"
+            strokeDasharray="3 3"
+            className="pointer-events-none"
+          />
+        </svg>
+        <div className="flex justify-between mt-1.5 px-1">
+          <span className="text-[10px] text-slate-600">Tap to place cursor · {formatClock(cursor)}</span>
+          <span className="text-[10px] text-slate-600">Drag items to move them</span>
+        </div>
+      </div>
+
+      {/* Add at cursor */}
+      <div className="flex flex-wrap gap-2">
+        {LANES.filter((lane) => lane.add).map((lane) => (
+          <button
+            key={lane.kind}
+            type="button"
+            onClick={() => handleAdd(lane.kind as ItemKind)}
+            className="px-3 py-1.5 rounded-full text-[10px] font-medium text-slate-400 border border-dashed border-white/10 hover:text-slate-200 hover:border-white/20 transition-all"
+          >
+            + {lane.add}
+          </button>
+        ))}
+      </div>
+
+      {/* Inspector */}
+      {selection && selectedItem && (
+        <div className="glass rounded-xl p-4 space-y-3">
+          <ItemInspector
+            kind={selection.kind}
+            item={selectedItem}
+            duration={duration}
+            carrierCount={carrierCount}
+            onChange={(item) => updateItem(selection.kind, selection.index, item)}
+          />
+          <button
+            type="button"
+            onClick={handleDelete}
+            className="w-full py-2 rounded-xl text-xs font-medium text-red-400/80 border border-red-500/20 hover:border-red-500/40 transition-colors"
+          >
+            Delete
+          </button>
+        </div>
+      )}
+
+      {problem && <p className="text-[10px] text-red-400/80">{problem}</p>}
+
+      <ScriptSettings script={script} duration={duration} onChange={onChange} />
+
+      <p className="text-[10px] text-slate-600">
+        Custom sessions have no recorded narration — turn on "Always use live voice" in Settings to hear the cues spoken.
+      </p>
+    </div>
+  )
+}
+
+// ── Inspector ─────────────────────────────────────────────
+
+function ItemInspector({
+  kind,
+  item,
+  duration,
+  carrierCount,
+  onChange,
+}: {
+  kind: ItemKind
+  item: ScriptItem
+  duration: number
+  carrierCount: number
+  onChange: (item: ScriptItem) => void
+}) {
+  switch (kind) {
+    case 'phase': {
+      const phase = item as GuidancePhase
+      return (
+        <>
+          <TextField label="Name" value={phase.name} onChange={(name) => onChange({ ...phase, name })} />
+          <WindowFields item={phase} duration={duration} onChange={onChange} />
+        </>
+      )
+    }
+    case 'cue': {
+      const cue = item as VoiceCue
+      return (
+        <>
+          <TimeField label="Time" value={cue.time} max={duration} onChange={(time) => onChange({ ...cue, time })} />
+          {!cue.chimeOnly && (
+            <div>
+              <label className="text-[10px] text-slate-500 block mb-1">Narration</label>
+              <textarea
+                value={cue.text}
+                onChange={(e) => onChange({ ...cue, text: e.target.value })}
+                placeholder="What the voice says at this point"
+                rows={3}
+                className="w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs text-slate-100 placeholder-slate-600 outline-none focus:border-white/20 transition-colors resize-none"
+              />
+            </div>
+          )}
+          {!cue.chimeOnly && (
+            <Switch label="Chime" checked={!!cue.chime} onChange={(chime) => onChange(chime ? { ...cue, chime } : { time: cue.time, text: cue.text })} />
+          )}
+          <Switch
+            label="Chime only (no narration)"
+            checked={!!cue.chimeOnly}
+            onChange={(chimeOnly) => onChange(chimeOnly ? { time: cue.time, text: '', chimeOnly } : { time: cue.time, text: cue.text })}
+          />
+        </>
+      )
+    }
+    case 'sam': {
+      const sam = item as SAMWindow
+      return (
+        <>
+          <WindowFields item={sam} duration={duration} onChange={onChange} />
+          <Pills options={SAM_MODES} value={sam.mode} onChange={(mode) => onChange({ ...sam, mode })} />
+          <div className="grid grid-cols-2 gap-3">
+            <NumberField label="Rotation" unit="Hz" value={sam.rotationHz} min={0.5} max={50} step={0.5} onChange={(rotationHz) => onChange({ ...sam, rotationHz })} />
+            <NumberField label="Carrier" unit="Hz" value={sam.carrierFreq ?? 303} min={40} max={1000} step={1} onChange={(carrierFreq) => onChange({ ...sam, carrierFreq })} />
+          </div>
+          {sam.mode === 'spatial' && (
+            <>
+              <Pills options={ORBIT_PATHS} value={sam.path ?? 'circle'} onChange={(path) => onChange({ ...sam, path })} />
+              <div className="grid grid-cols-2 gap-3">
+                <NumberField label="Elevation" unit="°" value={sam.elevation ?? 0} min={-90} max={90} step={5} onChange={(elevation) => onChange({ ...sam, elevation })} />
+                <NumberField label="Radius" unit="m" value={sam.radius ?? 1} min={0.25} max={10} step={0.25} onChange={(radius) => onChange({ ...sam, radius })} />
+              </div>
+            </>
+          )}
+        </>
+      )
+    }
+    case 'pulses': {
+      const pulses = item as IsochronicWindow
+      const setLayer = (index: number, changes: Partial<IsochronicLayer>) =>
+        onChange({ ...pulses, layers: pulses.layers.map((l, i) => (i === index ? { ...l, ...changes } : l)) })
+      return (
+        <>
+          <WindowFields item={pulses} duration={duration} onChange={onChange} />
+          {pulses.layers.map((layer, index) => (
+            <div key={index} className="rounded-xl p-3 space-y-3" style={{ background: 'rgba(255,255,255,0.03)' }}>
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] text-slate-500">Layer {index + 1}</span>
+                {pulses.layers.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => onChange({ ...pulses, layers: pulses.layers.filter((_, i) => i !== index) })}
+                    className="text-[10px] text-slate-500 hover:text-red-400 transition-colors"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+              <Pills options={PULSE_SHAPES} value={layer.shape ?? 'trapezoid'} onChange={(shape) => setLayer(index, { shape })} />
+              <div className="grid grid-cols-2 gap-3">
+                <NumberField label="Pulse" unit="Hz" value={layer.pulseHz} min={0.5} max={50} step={0.5} onChange={(pulseHz) => setLayer(index, { pulseHz })} />
+                <NumberField label="Tone" unit="Hz" value={layer.carrierFreq} min={40} max={1000} step={1} onChange={(carrierFreq) => setLayer(index, { carrierFreq })} />
+                <NumberField label="Duty" unit="%" value={Math.round((layer.dutyCycle ?? 0.5) * 100)} min={5} max={100} step={5} onChange={(duty) => setLayer(index, { dutyCycle: duty / 100 })} />
+                <NumberField label="Level" unit="dB" value={layer.gainDb ?? 0} min={-30} max={0} step={1} onChange={(gainDb) => setLayer(index, { gainDb })} />
+              </div>
+            </div>
+          ))}
+          {pulses.layers.length < MAX_PULSE_LAYERS && (
+            <button
+              type="button"
+              onClick={() => onChange({ ...pulses, layers: [...pulses.layers, { pulseHz: 10, carrierFreq: 300, gainDb: -12 }] })}
+              className="w-full py-2 rounded-xl border border-dashed border-white/10 text-[10px] text-slate-400 hover:text-slate-200 hover:border-white/20 transition-all"
+            >
+              + Add Pulse Layer
+            </button>
+          )}
+        </>
+      )
+    }
+    case 'carrier': {
+      const event = item as CarrierGainEvent
+      return (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <TimeField label="Time" value={event.time} max={duration} onChange={(time) => onChange({ ...event, time })} />
+            <NumberField label="Fade" unit="s" value={event.durationSec} min={0} max={600} step={1} onChange={(durationSec) => onChange({ ...event, durationSec })} />
+          </div>
+          <div>
+            <label className="text-[10px] text-slate-500 block mb-1">Layer</label>
+            <Pills
+              options={Array.from({ length: carrierCount }, (_, i) => ({ id: i, label: `Layer ${i + 1}` }))}
+              value={event.carrierIndex}
+              onChange={(carrierIndex) => onChange({ ...event, carrierIndex })}
+            />
+          </div>
+          <Slider label="Target level" display={`${Math.round(event.targetGain * 100)}%`} value={event.targetGain} onChange={(targetGain) => onChange({ ...event, targetGain })} />
+        </>
+      )
+    }
+    case 'ambient': {
+      const event = item as AmbientFadeEvent
+      return (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <TimeField label="Time" value={event.time} max={duration} onChange={(time) => onChange({ ...event, time })} />
+            <NumberField label="Fade" unit="s" value={event.durationSec} min={0} max={600} step={1} onChange={(durationSec) => onChange({ ...event, durationSec })} />
+          </div>
+          <Slider label="Target volume" display={`${Math.round(event.targetVolume * 100)}%`} value={event.targetVolume} onChange={(targetVolume) => onChange({ ...event, targetVolume })} />
+        </>
+      )
+    }
+  }
+}
+
+function WindowFields<T extends { startTime: number; endTime: number }>({
+  item,
+  duration,
+  onChange,
+}: {
+  item: T
+  duration: number
+  onChange: (item: T) => void
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <TimeField label="Start" value={item.startTime} max={duration} onChange={(startTime) => onChange({ ...item, startTime })} />
+      <TimeField label="End" value={item.endTime} max={duration} onChange={(endTime) => onChange({ ...item, endTime })} />
+    </div>
+  )
+}
+
+// ── Script-wide settings ─────────────────────────────────
+
+function ScriptSettings({
+  script,
+  duration,
+  onChange,
+}: {
+  script: GuidanceScript
+  duration: number
+  onChange: (script: GuidanceScript) => void
+}) {
+  const filter = script.noiseFilter
+  const resonant = script.resonantTuning
+
+  const setFilter = (changes: Partial<NonNullable<GuidanceScript['noiseFilter']>>) => {
+    const next = { ...filter, ...changes }
+    const active = next.lowPassFreq !== undefined || next.breathingLFO
+    onChange({ ...script, noiseFilter: active ? next : undefined })
+  }
+
+  return (
+    <div className="space-y-3">
+      <Slider
+        label="Voice volume"
+        display={`${Math.round((script.voiceVolume ?? 0.71) * 100)}%`}
+        value={script.voiceVolume ?? 0.71}
+        onChange={(voiceVolume) => onChange({ ...script, voiceVolume })}
+      />
+      <Switch
+        label="Phased noise"
+        description="Noise sweeps between the ears at the beat frequency"
+        checked={!!script.phasedNoise}
+        onChange={(phasedNoise) => onChange({ ...script, phasedNoise: phasedNoise || undefined })}
+      />
+      <Switch
+        label="Low-pass noise"
+        description="Soften the noise bed into a low rumble"
+        checked={filter?.lowPassFreq !== undefined}
+        onChange={(on) => setFilter({ lowPassFreq: on ? 200 : undefined })}
+      />
+      {filter?.lowPassFreq !== undefined && (
+        <NumberField label="Cutoff" unit="Hz" value={filter.lowPassFreq} min={50} max={2000} step={10} onChange={(lowPassFreq) => setFilter({ lowPassFreq })} />
+      )}
+      <Switch
+        label="Breathing swell"
+        description="Noise rises and falls at 12 breaths/min"
+        checked={!!filter?.breathingLFO}
+        onChange={(breathingLFO) => setFilter({ breathingLFO: breathingLFO || undefined })}
+      />
+      <Switch
+        label="Resonant tuning"
+        description="A held tone to hum along with"
+        checked={!!resonant}
+        onChange={(on) => onChange({
+          ...script,
+          resonantTuning: on ? { startTime: 0, endTime: Math.min(180, duration), frequency: 136, gainDb: -6 } : undefined,
+        })}
+      />
+      {resonant && (
+        <div className="grid grid-cols-2 gap-3">
+          <TimeField label="Start" value={resonant.startTime} max={duration} onChange={(startTime) => onChange({ ...script, resonantTuning: { ...resonant, startTime } })} />
+          <TimeField label="End" value={resonant.endTime} max={duration} onChange={(endTime) => onChange({ ...script, resonantTuning: { ...resonant, endTime } })} />
+          <NumberField label="Tone" unit="Hz" value={resonant.frequency ?? 136} min={40} max={1000} step={1} onChange={(frequency) => onChange({ ...script, resonantTuning: { ...resonant, frequency } })} />
+          <NumberField label="Level" unit="dB" value={resonant.gainDb ?? -6} min={-30} max={0} step={1} onChange={(gainDb) => onChange({ ...script, resonantTuning: { ...resonant, gainDb } })} />
+        </div>
+      )}
+      <Switch
+        label="Rocket pan"
+        description="A one-off sweep across the stereo field"
+        checked={script.rocketPanTime !== undefined}
+        onChange={(on) => onChange({ ...script, rocketPanTime: on ? Math.round(duration / 2) : undefined })}
+      />
+      {script.rocketPanTime !== undefined && (
+        <TimeField label="Time" value={script.rocketPanTime} max={duration} onChange={(rocketPanTime) => onChange({ ...script, rocketPanTime })} />
+      )}
+    </div>
+  )
+}
+
+// ── Fields ───────────────────────────────────────────────
+
+function TextField({ label, value, onChange }: { label: string; value: string; onChange: (v: string) => void }) {
+  return (
+    <div>
+      <label className="text-[10px] text-slate-500 block mb-1">{label}</label>
+      <input
+        type="text"
+        value={value}
+        maxLength={40}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs text-slate-100 outline-none focus:border-white/20 transition-colors"
+      />
+    </div>
+  )
+}
+
+/** "m:ss" time input — commits on blur or Enter */
+function TimeField({ label, value, max, onChange }: { label: string; value: number; max: number; onChange: (v: number) => void }) {
+  const commit = (input: HTMLInputElement) => {
+    const parsed = parseClock(input.value)
+    if (parsed === null) {
+      input.value = formatClock(value)
+      return
+    }
+    const clamped = Math.max(0, Math.min(max, Math.round(parsed)))
+    input.value = formatClock(clamped)
+    if (clamped !== value) onChange(clamped)
+  }
+  return (
+    <div>
+      <label className="text-[10px] text-slate-500 block mb-1">{label}</label>
+      <input
+        key={value}
+        type="text"
+        inputMode="numeric"
+        defaultValue={formatClock(value)}
+        onBlur={(e) => commit(e.currentTarget)}
+        onKeyDown={(e) => { if (e.key === 'Enter') commit(e.currentTarget) }}
+        className="w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs text-slate-100 font-mono outline-none focus:border-white/20 transition-colors"
+      />
+    </div>
+  )
+}
+
+/** Number input clamped to a range — commits on blur or Enter */
+function NumberField({
+  label,
+  unit,
+  value,
+  min,
+  max,
+  step,
+  onChange,
+}: {
+  label: string
+  unit: string
+  value: number
+  min: number
+  max: number
+  step: number
+  onChange: (v: number) => void
+}) {
+  const commit = (input: HTMLInputElement) => {
+    const parsed = Number(input.value)
+    if (input.value.trim() === '' || isNaN(parsed)) {
+      input.value = String(value)
+      return
+    }
+    const clamped = Math.max(min, Math.min(max, parsed))
+    input.value = String(clamped)
+    if (clamped !== value) onChange(clamped)
+  }
+  return (
+    <div>
+      <label className="text-[10px] text-slate-500 block mb-1">
+        {label} <span className="text-slate-600">({unit})</span>
+      </label>
+      <input
+        key={value}
+        type="number"
+        min={min}
+        max={max}
+        step={step}
+        defaultValue={value}
+        onBlur={(e) => commit(e.currentTarget)}
+        onKeyDown={(e) => { if (e.key === 'Enter') commit(e.currentTarget) }}
+        className="w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs text-slate-100 outline-none focus:border-white/20 transition-colors"
+      />
+    </div>
+  )
+}
+
+function Slider({ label, display, value, onChange }: { label: string; display: string; value: number; onChange: (v: number) => void }) {
+  return (
+    <div>
+      <div className="flex justify-between text-[10px] text-slate-500 mb-1">
+        <span>{label}</span>
+        <span>{display}</span>
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.01}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-full"
+      />
+    </div>
+  )
+}
+
+function Pills<T extends string | number>({
+  options,
+  value,
+  onChange,
+}: {
+  options: { id: T; label: string }[]
+  value: T
+  onChange: (v: T) => void
+}) {
+  return (
+    <div className="flex gap-1 overflow-x-auto scrollbar-hide">
+      {options.map((opt) => (
+        <button
+          key={opt.id}
+          type="button"
+          onClick={() => onChange(opt.id)}
+          className={`shrink-0 px-2.5 py-1 rounded-full text-[10px] font-medium transition-all ${
+            value === opt.id
+              ? 'bg-white/15 text-white border border-white/20'
+              : 'text-slate-400 border border-white/5 hover:border-white/15'
+          }`}
+        >
+          {opt.label}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+function Switch({
+  label,
+  description,
+  checked,
+  onChange,
+}: {
+  label: string
+  description?: string
+  checked: boolean
+  onChange: (v: boolean) => void
+}) {
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <div>
+        <p className="text-xs text-slate-300">{label}</p>
+        {description && <p className="text-[10px] text-slate-500">{description}</p>}
+      </div>
+      <button
+        type="button"
+        role="switch"
+        aria-checked={checked}
+        aria-label={label}
+        onClick={() => onChange(!checked)}
+        className={`w-10 h-6 rounded-full p-0.5 transition-colors cursor-pointer shrink-0 ${checked ? 'bg-purple-500' : 'bg-white/10'}`}
+      >
+        <div className={`w-5 h-5 rounded-full bg-white transition-transform ${checked ? 'translate-x-4' : 'translate-x-0'}`} />
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,380 @@
+import { useState, useEffect, useMemo } from 'react'
+import type { CompletedSession, SessionPreset, PresetCategory, MoodRating } from '../types'
+import { categoryLabels, categoryOrder, moodOptions } from '../presets'
+import { ratingChanges } from '../insights'
+
+interface Props {
+  sessions: CompletedSession[]
+  /** Built-in and custom presets, for icons and replay */
+  presets: SessionPreset[]
+  onReplay: (preset: SessionPreset) => void
+  onMoodChange: (sessionId: string, mood: MoodRating) => void
+  onNoteChange: (sessionId: string, note: string) => void
+  onDelete: (sessionId: string) => void
+  onClose: () => void
+}
+
+type MoodFilter = 'all' | 'none' | MoodRating
+
+const PAGE_SIZE = 50
+
+function dayKey(iso: string): string {
+  return new Intl.DateTimeFormat('en-CA').format(new Date(iso)) // YYYY-MM-DD in local TZ
+}
+
+function formatDay(key: string): string {
+  const date = new Date(`${key}T00:00:00`)
+  const sameYear = date.getFullYear() === new Date().getFullYear()
+  return date.toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    ...(sameYear ? {} : { year: 'numeric' }),
+  })
+}
+
+function formatClock(iso: string): string {
+  return new Date(iso).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })
+}
+
+function formatMinutes(seconds: number): string {
+  const mins = Math.round(seconds / 60)
+  return mins < 1 ? '<1 min' : `${mins} min`
+}
+
+function formatDelta(delta: number): string {
+  return delta > 0 ? `+${delta}` : delta < 0 ? `−${-delta}` : '±0'
+}
+
+function deltaClass(delta: number, improved: boolean): string {
+  return delta === 0 ? 'text-slate-500' : improved ? 'text-emerald-300' : 'text-amber-300'
+}
+
+export function HistorySheet({ sessions, presets, onReplay, onMoodChange, onNoteChange, onDelete, onClose }: Props) {
+  const [category, setCategory] = useState<'all' | PresetCategory>('all')
+  const [presetId, setPresetId] = useState('')
+  const [mood, setMood] = useState<MoodFilter>('all')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [visible, setVisible] = useState(PAGE_SIZE)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [confirmDelete, setConfirmDelete] = useState(false)
+
+  const presetsById = useMemo(() => new Map(presets.map((p) => [p.id, p])), [presets])
+
+  // Presets that appear in history, for the preset filter
+  const presetChoices = useMemo(() => {
+    const names = new Map<string, string>()
+    for (const s of sessions) if (!names.has(s.presetId)) names.set(s.presetId, s.presetName)
+    return [...names].sort((a, b) => a[1].localeCompare(b[1]))
+  }, [sessions])
+
+  const categories = useMemo(
+    () => categoryOrder.filter((c) => sessions.some((s) => s.category === c)),
+    [sessions],
+  )
+
+  const filtered = useMemo(() => sessions.filter((s) => {
+    if (category !== 'all' && s.category !== category) return false
+    if (presetId && s.presetId !== presetId) return false
+    if (mood === 'none' ? s.mood !== undefined : mood !== 'all' && s.mood !== mood) return false
+    const day = dayKey(s.completedAt)
+    if (from && day < from) return false
+    if (to && day > to) return false
+    return true
+  }), [sessions, category, presetId, mood, from, to])
+
+  const totalMinutes = Math.round(filtered.reduce((sum, s) => sum + s.durationSeconds, 0) / 60)
+
+  // Group the visible page by day
+  const groups = useMemo(() => {
+    const result: { day: string; sessions: CompletedSession[] }[] = []
+    for (const s of filtered.slice(0, visible)) {
+      const day = dayKey(s.completedAt)
+      const last = result[result.length - 1]
+      if (last?.day === day) last.sessions.push(s)
+      else result.push({ day, sessions: [s] })
+    }
+    return result
+  }, [filtered, visible])
+
+  const hasFilters = category !== 'all' || presetId !== '' || mood !== 'all' || from !== '' || to !== ''
+
+  const clearFilters = () => {
+    setCategory('all')
+    setPresetId('')
+    setMood('all')
+    setFrom('')
+    setTo('')
+    setVisible(PAGE_SIZE)
+  }
+
+  const select = (id: string | null) => {
+    setSelectedId(id)
+    setConfirmDelete(false)
+  }
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center" role="dialog" aria-modal="true" aria-label="History">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/60 animate-fade-in" onClick={onClose} />
+
+      {/* Sheet */}
+      <div className="relative w-full max-w-lg sm:rounded-3xl rounded-t-3xl glass animate-slide-up overflow-y-auto max-h-[90dvh]">
+        {/* Drag handle (mobile) */}
+        <div className="flex justify-center pt-3 pb-1 sm:hidden">
+          <div className="w-8 h-1 rounded-full bg-white/20" />
+        </div>
+
+        <div className="px-6 pb-6 pt-4 space-y-4">
+          {/* Header */}
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-lg font-medium text-slate-100">History</h2>
+              <p className="text-[10px] text-slate-500">
+                {filtered.length} {filtered.length === 1 ? 'session' : 'sessions'} · {totalMinutes} min
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="w-8 h-8 rounded-full flex items-center justify-center text-slate-400 hover:text-white transition-colors hover:bg-white/10"
+              aria-label="Close"
+            >
+              <svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round">
+                <path d="M4 4l8 8M12 4l-8 8" />
+              </svg>
+            </button>
+          </div>
+
+          {/* ── Filters ── */}
+          {sessions.length > 0 && (
+            <div className="rounded-2xl p-4 space-y-3" style={{ background: 'rgba(255,255,255,0.03)' }}>
+              <div className="flex gap-1.5 overflow-x-auto scrollbar-none" style={{ scrollbarWidth: 'none' }}>
+                <FilterPill active={category === 'all'} onClick={() => setCategory('all')}>All</FilterPill>
+                {categories.map((c) => (
+                  <FilterPill key={c} active={category === c} onClick={() => setCategory(c)}>
+                    {categoryLabels[c]}
+                  </FilterPill>
+                ))}
+              </div>
+
+              <div className="flex gap-1.5 overflow-x-auto scrollbar-none" style={{ scrollbarWidth: 'none' }}>
+                <FilterPill active={mood === 'all'} onClick={() => setMood('all')}>Any mood</FilterPill>
+                {moodOptions.map((m) => (
+                  <FilterPill key={m.value} active={mood === m.value} onClick={() => setMood(m.value)}>
+                    {m.emoji} {m.label}
+                  </FilterPill>
+                ))}
+                <FilterPill active={mood === 'none'} onClick={() => setMood('none')}>No mood</FilterPill>
+              </div>
+
+              <select
+                value={presetId}
+                onChange={(e) => setPresetId(e.target.value)}
+                aria-label="Session"
+                className="w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs text-slate-100 outline-none focus:border-white/20 transition-colors"
+              >
+                <option value="">All sessions</option>
+                {presetChoices.map(([id, name]) => (
+                  <option key={id} value={id}>{name}</option>
+                ))}
+              </select>
+
+              <div className="flex items-center gap-2">
+                <input
+                  type="date"
+                  value={from}
+                  max={to || undefined}
+                  onChange={(e) => setFrom(e.target.value)}
+                  aria-label="From date"
+                  className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs text-slate-100 outline-none focus:border-white/20 transition-colors [color-scheme:dark]"
+                />
+                <span className="text-[10px] text-slate-500">to</span>
+                <input
+                  type="date"
+                  value={to}
+                  min={from || undefined}
+                  onChange={(e) => setTo(e.target.value)}
+                  aria-label="To date"
+                  className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs text-slate-100 outline-none focus:border-white/20 transition-colors [color-scheme:dark]"
+                />
+              </div>
+
+              {hasFilters && (
+                <button onClick={clearFilters} className="text-[10px] text-slate-400 hover:text-slate-200 transition-colors">
+                  Clear filters
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* ── Sessions ── */}
+          {sessions.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center py-8">Completed sessions will appear here.</p>
+          ) : filtered.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center py-8">No sessions match these filters.</p>
+          ) : (
+            <div className="space-y-4">
+              {groups.map((group) => (
+                <div key={group.day}>
+                  <p className="text-[10px] uppercase tracking-widest text-slate-500 mb-2">{formatDay(group.day)}</p>
+                  <div className="space-y-2">
+                    {group.sessions.map((session) => {
+                      const preset = presetsById.get(session.presetId)
+                      const moodOption = moodOptions.find((m) => m.value === session.mood)
+                      const isSelected = selectedId === session.id
+                      const changes = ratingChanges(session)
+                      return (
+                        <div key={session.id} className="rounded-2xl" style={{ background: 'rgba(255,255,255,0.03)' }}>
+                          <button
+                            onClick={() => select(isSelected ? null : session.id)}
+                            className="w-full flex items-center gap-3 px-4 py-3 text-left"
+                            aria-expanded={isSelected}
+                          >
+                            <span className="text-xl shrink-0">{preset?.icon ?? '🎵'}</span>
+                            <div className="flex-1 min-w-0">
+                              <p className="text-sm text-slate-200 truncate">{session.presetName}</p>
+                              <p className="text-[10px] text-slate-500">
+                                {formatClock(session.completedAt)} · {formatMinutes(session.durationSeconds)}
+                                {!session.completedFull && ' · ended early'}
+                              </p>
+                              {session.note && !isSelected && (
+                                <p className="text-[11px] text-slate-400 truncate mt-0.5">{session.note}</p>
+                              )}
+                              {!isSelected && changes.some((c) => c.delta !== undefined) && (
+                                <p className="text-[10px] mt-0.5">
+                                  {changes.filter((c) => c.delta !== undefined).map((c, i) => (
+                                    <span key={c.scale.id} className={deltaClass(c.delta!, c.improved)}>
+                                      {i > 0 && <span className="text-slate-600"> · </span>}
+                                      {c.scale.label} {formatDelta(c.delta!)}
+                                    </span>
+                                  ))}
+                                </p>
+                              )}
+                            </div>
+                            {moodOption && <span className="text-base shrink-0" title={moodOption.label}>{moodOption.emoji}</span>}
+                          </button>
+
+                          {isSelected && (
+                            <div className="px-4 pb-4 space-y-3 animate-fade-in">
+                              <div className="flex gap-1.5">
+                                {moodOptions.map((m) => (
+                                  <button
+                                    key={m.value}
+                                    onClick={() => onMoodChange(session.id, m.value)}
+                                    className={`flex-1 py-1.5 rounded-xl text-base transition-colors border ${
+                                      session.mood === m.value ? 'bg-white/15 border-white/20' : 'border-transparent hover:bg-white/5'
+                                    }`}
+                                    aria-label={m.label}
+                                    aria-pressed={session.mood === m.value}
+                                  >
+                                    {m.emoji}
+                                  </button>
+                                ))}
+                              </div>
+
+                              {(changes.length > 0 || session.preRating?.note || session.postRating?.note) && (
+                                <div className="rounded-xl bg-white/5 px-3 py-2.5 space-y-1.5">
+                                  {changes.map((c) => (
+                                    <div key={c.scale.id} className="flex items-center text-xs">
+                                      <span className="text-slate-400 w-16">{c.scale.label}</span>
+                                      <span className="text-slate-200">
+                                        {c.before ?? '–'} → {c.after ?? '–'}
+                                      </span>
+                                      {c.delta !== undefined && (
+                                        <span className={`ml-auto ${deltaClass(c.delta, c.improved)}`}>{formatDelta(c.delta)}</span>
+                                      )}
+                                    </div>
+                                  ))}
+                                  {session.preRating?.note && (
+                                    <p className="text-[11px] text-slate-400 pt-1"><span className="text-slate-500">Before:</span> {session.preRating.note}</p>
+                                  )}
+                                  {session.postRating?.note && (
+                                    <p className="text-[11px] text-slate-400"><span className="text-slate-500">After:</span> {session.postRating.note}</p>
+                                  )}
+                                </div>
+                              )}
+
+                              <textarea
+                                key={session.id}
+                                defaultValue={session.note ?? ''}
+                                onBlur={(e) => {
+                                  if (e.target.value.trim() !== (session.note ?? '')) onNoteChange(session.id, e.target.value)
+                                }}
+                                placeholder="Add a note…"
+                                maxLength={2000}
+                                rows={2}
+                                className="w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs text-slate-100 placeholder-slate-600 outline-none focus:border-white/20 transition-colors resize-none"
+                              />
+
+                              <div className="flex gap-2">
+                                <button
+                                  onClick={() => preset && onReplay(preset)}
+                                  disabled={!preset}
+                                  title={preset ? undefined : 'This session has been deleted'}
+                                  className="flex-[2] py-2 rounded-xl text-xs font-medium text-white bg-white/10 hover:bg-white/15 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                                >
+                                  Play Again
+                                </button>
+                                <button
+                                  onClick={() => {
+                                    if (!confirmDelete) {
+                                      setConfirmDelete(true)
+                                      return
+                                    }
+                                    onDelete(session.id)
+                                    select(null)
+                                  }}
+                                  className="flex-1 py-2 rounded-xl text-xs font-medium text-red-300 bg-red-500/10 hover:bg-red-500/20 transition-colors"
+                                >
+                                  {confirmDelete ? 'Confirm' : 'Delete'}
+                                </button>
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                      )
+                    })}
+                  </div>
+                </div>
+              ))}
+
+              {filtered.length > visible && (
+                <button
+                  onClick={() => setVisible((v) => v + PAGE_SIZE)}
+                  className="w-full py-2 rounded-xl text-xs font-medium text-slate-400 border border-white/10 hover:border-white/20 transition-colors"
+                >
+                  Show more ({filtered.length - visible} left)
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function FilterPill({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      onClick={onClick}
+      className={`shrink-0 px-3 py-1.5 rounded-full text-[11px] font-medium transition-all border ${
+        active
+          ? 'bg-white/15 text-white border-white/20'
+          : 'text-slate-500 hover:text-slate-300 border-transparent'
+      }`}
+    >
+      {children}
+    </button>
+  )
+}
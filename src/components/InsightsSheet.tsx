@@ -0,0 +1,233 @@
+import { useEffect, useMemo } from 'react'
+import type { CompletedSession, SessionPreset, BrainwaveBand } from '../types'
+import { computeInsights, TIME_OF_DAY_HOURS, type TimeOfDay } from '../insights'
+import { bandInfo, moodOptions } from '../presets'
+import type { StreakSummary } from '../streaks'
+import { PracticeCalendar } from './PracticeCalendar'
+
+interface Props {
+  sessions: CompletedSession[]
+  presets: SessionPreset[]
+  streaks: StreakSummary
+  onClose: () => void
+}
+
+const BAND_COLORS: Record<BrainwaveBand, string> = {
+  delta: '#6366f1',
+  theta: '#a855f7',
+  alpha: '#06b6d4',
+  beta: '#22c55e',
+  gamma: '#f59e0b',
+}
+
+const TIME_LABELS: Record<TimeOfDay, string> = {
+  morning: 'Morning',
+  afternoon: 'Afternoon',
+  evening: 'Evening',
+  night: 'Night',
+}
+
+function formatHour(hour: number): string {
+  const suffix = hour < 12 ? 'am' : 'pm'
+  return `${hour % 12 === 0 ? 12 : hour % 12}${suffix}`
+}
+
+function formatWeek(weekStart: string): string {
+  return new Date(`${weekStart}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+}
+
+function percent(rate: number): string {
+  return `${Math.round(rate * 100)}%`
+}
+
+export function InsightsSheet({ sessions, presets, streaks, onClose }: Props) {
+  const insights = useMemo(() => computeInsights(sessions, presets), [sessions, presets])
+  const maxWeek = Math.max(1, ...insights.weeks.map((w) => w.minutes))
+  const bandTotal = insights.bands.reduce((sum, b) => sum + b.minutes, 0)
+  const maxSlot = Math.max(1, ...insights.timesOfDay.map((t) => t.sessions))
+  const ratedMoods = insights.moods.filter((m) => m.total > 0)
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center" role="dialog" aria-modal="true" aria-label="Insights">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/60 animate-fade-in" onClick={onClose} />
+
+      {/* Sheet */}
+      <div className="relative w-full max-w-lg sm:rounded-3xl rounded-t-3xl glass animate-slide-up overflow-y-auto max-h-[90dvh]">
+        {/* Drag handle (mobile) */}
+        <div className="flex justify-center pt-3 pb-1 sm:hidden">
+          <div className="w-8 h-1 rounded-full bg-white/20" />
+        </div>
+
+        <div className="px-6 pb-6 pt-4 space-y-4">
+          {/* Header */}
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-medium text-slate-100">Insights</h2>
+            <button
+              onClick={onClose}
+              className="w-8 h-8 rounded-full flex items-center justify-center text-slate-400 hover:text-white transition-colors hover:bg-white/10"
+              aria-label="Close"
+            >
+              <svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round">
+                <path d="M4 4l8 8M12 4l-8 8" />
+              </svg>
+            </button>
+          </div>
+
+          {sessions.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center py-8">Complete a few sessions to see your trends.</p>
+          ) : (
+            <>
+              {/* ── Practice calendar ── */}
+              <Section
+                title="Practice calendar"
+                subtitle={`Current streak ${streaks.currentStreak} ${streaks.currentStreak === 1 ? 'day' : 'days'} · best ${streaks.longestStreak}`}
+              >
+                <PracticeCalendar streaks={streaks} />
+              </Section>
+
+              {/* ── Minutes per week ── */}
+              <Section title="Minutes per week" subtitle="Last 12 weeks">
+                <div className="flex items-end gap-1 h-24" role="img" aria-label="Minutes practiced per week">
+                  {insights.weeks.map((week) => (
+                    <div key={week.weekStart} className="flex-1 h-full flex flex-col justify-end" title={`Week of ${formatWeek(week.weekStart)}: ${week.minutes} min`}>
+                      <div
+                        className="w-full rounded-t bg-purple-400/70"
+                        style={{ height: `${(week.minutes / maxWeek) * 100}%`, minHeight: week.minutes > 0 ? 2 : 0 }}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-between text-[10px] text-slate-500 mt-1.5">
+                  <span>{formatWeek(insights.weeks[0].weekStart)}</span>
+                  <span>This week · {insights.weeks[insights.weeks.length - 1].minutes} min</span>
+                </div>
+              </Section>
+
+              {/* ── Band distribution ── */}
+              <Section title="Time by brainwave band">
+                {bandTotal === 0 ? (
+                  <p className="text-xs text-slate-500">No band data yet.</p>
+                ) : (
+                  <>
+                    <div className="flex h-3 rounded-full overflow-hidden mb-3" role="img" aria-label="Share of minutes by band">
+                      {insights.bands.filter((b) => b.minutes > 0).map((b) => (
+                        <div key={b.band} style={{ width: `${(b.minutes / bandTotal) * 100}%`, background: BAND_COLORS[b.band] }} />
+                      ))}
+                    </div>
+                    <div className="grid grid-cols-2 gap-x-4 gap-y-1.5">
+                      {insights.bands.map((b) => (
+                        <div key={b.band} className="flex items-center gap-2 text-xs">
+                          <span className="w-2 h-2 rounded-full shrink-0" style={{ background: BAND_COLORS[b.band] }} />
+                          <span className="text-slate-300">{bandInfo[b.band].label}</span>
+                          <span className="ml-auto text-slate-500">{b.minutes} min</span>
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </Section>
+
+              {/* ── Time of day ── */}
+              <Section
+                title="Time of day"
+                subtitle={insights.bestTime
+                  ? `You finish most often in the ${TIME_LABELS[insights.bestTime].toLowerCase()}`
+                  : 'A few more sessions will show your best time'}
+              >
+                <div className="space-y-2">
+                  {insights.timesOfDay.map((t) => {
+                    const [start, end] = TIME_OF_DAY_HOURS[t.slot]
+                    const isBest = t.slot === insights.bestTime
+                    return (
+                      <div key={t.slot} className="flex items-center gap-3 text-xs">
+                        <div className="w-24 shrink-0">
+                          <p className={isBest ? 'text-white' : 'text-slate-300'}>{TIME_LABELS[t.slot]}{isBest && ' ★'}</p>
+                          <p className="text-[10px] text-slate-500">{formatHour(start)}–{formatHour(end)}</p>
+                        </div>
+                        <div className="flex-1 h-2 rounded-full bg-white/5 overflow-hidden">
+                          <div
+                            className={`h-full rounded-full ${isBest ? 'bg-purple-400' : 'bg-white/25'}`}
+                            style={{ width: `${(t.sessions / maxSlot) * 100}%` }}
+                          />
+                        </div>
+                        <span className="w-20 text-right text-slate-500 shrink-0">
+                          {t.sessions > 0 ? `${t.sessions} · ${percent(t.completionRate)} done` : '—'}
+                        </span>
+                      </div>
+                    )
+                  })}
+                </div>
+              </Section>
+
+              {/* ── Completion per preset ── */}
+              <Section title="Completion rate" subtitle="Sessions finished without stopping early">
+                <div className="space-y-2">
+                  {insights.completion.slice(0, 8).map((p) => (
+                    <div key={p.presetId} className="text-xs">
+                      <div className="flex justify-between gap-3 mb-1">
+                        <span className="text-slate-300 truncate">{p.presetName}</span>
+                        <span className="text-slate-500 shrink-0">{p.completed}/{p.sessions} · {percent(p.rate)}</span>
+                      </div>
+                      <div className="h-1.5 rounded-full bg-white/5 overflow-hidden">
+                        <div className="h-full rounded-full bg-emerald-400/70" style={{ width: percent(p.rate) }} />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </Section>
+
+              {/* ── Mood ── */}
+              <Section title="What leads to each mood" subtitle="From the moods you rate after sessions">
+                {ratedMoods.length === 0 ? (
+                  <p className="text-xs text-slate-500">Rate how you feel after a session to see patterns here.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {ratedMoods.map((m) => {
+                      const option = moodOptions.find((o) => o.value === m.mood)
+                      return (
+                        <div key={m.mood}>
+                          <p className="text-xs text-slate-300 mb-1">
+                            {option?.emoji} {option?.label}
+                            <span className="text-slate-500"> · {m.total} {m.total === 1 ? 'time' : 'times'}</span>
+                          </p>
+                          <div className="flex flex-wrap gap-1.5">
+                            {m.presets.map((p) => (
+                              <span key={p.presetId} className="px-2.5 py-1 rounded-full text-[10px] text-slate-300 bg-white/5 border border-white/10">
+                                {p.presetName} · {p.count}
+                              </span>
+                            ))}
+                          </div>
+                        </div>
+                      )
+                    })}
+                  </div>
+                )}
+              </Section>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function Section({ title, subtitle, children }: { title: string; subtitle?: string; children: React.ReactNode }) {
+  return (
+    <div className="rounded-2xl p-4" style={{ background: 'rgba(255,255,255,0.03)' }}>
+      <p className="text-[10px] uppercase tracking-widest text-slate-500 mb-1">{title}</p>
+      {subtitle && <p className="text-[10px] text-slate-500 mb-3">{subtitle}</p>}
+      {!subtitle && <div className="mb-2" />}
+      {children}
+    </div>
+  )
+}
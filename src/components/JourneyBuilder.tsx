@@ -0,0 +1,397 @@
+import { useState, useEffect, useMemo } from 'react'
+import type { Journey, JourneyDay, JourneyRule, JourneyTrigger, SessionPreset } from '../types'
+import { categoryLabels, categoryOrder, iconOptions, colorOptions } from '../presets'
+import { MAX_JOURNEY_DAYS } from '../defaults'
+import { JOURNEY_TRIGGERS, MAX_RULES_PER_DAY, triggerLabels } from '../journeyRules'
+
+interface Props {
+  editingJourney?: Journey | null
+  /** Built-in and custom presets a day can use */
+  presets: SessionPreset[]
+  onSave: (journey: Journey) => void
+  onClose: () => void
+}
+
+/** A rule being edited — the swap preset is kept while switching to repeat */
+interface DraftRule {
+  key: string
+  when: JourneyTrigger
+  then: JourneyRule['then']
+  presetId: string
+}
+
+/** A day being edited — numbered on save from its position */
+type DraftDay = Omit<JourneyDay, 'day' | 'rules'> & { key: string; rules: DraftRule[] }
+
+function newDay(presetId = ''): DraftDay {
+  return { key: crypto.randomUUID(), presetId, title: '', tip: '', rules: [] }
+}
+
+function toDraftRule(rule: JourneyRule): DraftRule {
+  return { key: crypto.randomUUID(), when: rule.when, then: rule.then, presetId: rule.then === 'swap' ? rule.presetId : '' }
+}
+
+function fromDraftRule({ when, then, presetId }: DraftRule): JourneyRule {
+  return then === 'swap' ? { when, then, presetId } : { when, then }
+}
+
+export function JourneyBuilder({ editingJourney, presets, onSave, onClose }: Props) {
+  const isEditing = !!editingJourney
+
+  const [name, setName] = useState(editingJourney?.name ?? '')
+  const [description, setDescription] = useState(editingJourney?.description ?? '')
+  const [icon, setIcon] = useState(editingJourney?.icon ?? '🧘')
+  const [color, setColor] = useState(editingJourney?.color ?? '#8b5cf6')
+  const [days, setDays] = useState<DraftDay[]>(
+    () => editingJourney?.days.map((d) => ({
+      key: crypto.randomUUID(),
+      presetId: d.presetId,
+      title: d.title,
+      tip: d.tip,
+      rules: d.rules?.map(toDraftRule) ?? [],
+    })) ?? [newDay()],
+  )
+
+  // Preset picker groups: the user's own sessions first, then each built-in category
+  const presetGroups = useMemo(
+    () => [
+      { label: 'My Sessions', presets: presets.filter((p) => p.category === 'custom') },
+      ...categoryOrder
+        .filter((c) => c !== 'custom')
+        .map((c) => ({ label: categoryLabels[c], presets: presets.filter((p) => p.category === c) })),
+    ].filter((g) => g.presets.length > 0),
+    [presets],
+  )
+  const presetIds = useMemo(() => new Set(presets.map((p) => p.id)), [presets])
+
+  const valid = !!name.trim()
+    && days.length > 0
+    && days.every((d, i) => d.title.trim() && presetIds.has(d.presetId)
+      // The first day has nothing before it to repeat
+      && d.rules.every((r) => (r.then === 'repeat' ? i > 0 : presetIds.has(r.presetId))))
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  const updateDay = (key: string, changes: Partial<DraftDay>) => {
+    setDays((prev) => prev.map((d) => (d.key === key ? { ...d, ...changes } : d)))
+  }
+
+  const updateRule = (dayKey: string, ruleKey: string, changes: Partial<DraftRule>) => {
+    setDays((prev) => prev.map((d) => (
+      d.key === dayKey ? { ...d, rules: d.rules.map((r) => (r.key === ruleKey ? { ...r, ...changes } : r)) } : d
+    )))
+  }
+
+  const handleAddRule = (day: DraftDay, index: number) => {
+    if (day.rules.length >= MAX_RULES_PER_DAY) return
+    const rule: DraftRule = { key: crypto.randomUUID(), when: 'endedEarly', then: index > 0 ? 'repeat' : 'swap', presetId: '' }
+    updateDay(day.key, { rules: [...day.rules, rule] })
+  }
+
+  const moveDay = (index: number, by: number) => {
+    setDays((prev) => {
+      const next = [...prev]
+      const [day] = next.splice(index, 1)
+      next.splice(index + by, 0, day)
+      return next
+    })
+  }
+
+  const handleAddDay = () => {
+    // Start from the previous day's session — most journeys repeat one for a while
+    setDays((prev) => (prev.length >= MAX_JOURNEY_DAYS ? prev : [...prev, newDay(prev[prev.length - 1]?.presetId)]))
+  }
+
+  const handleSave = () => {
+    if (!valid) return
+    onSave({
+      id: editingJourney?.id ?? `journey_${crypto.randomUUID()}`,
+      name: name.trim(),
+      description: description.trim(),
+      category: 'custom',
+      icon,
+      color,
+      days: days.map((d, i) => ({
+        day: i + 1,
+        presetId: d.presetId,
+        title: d.title.trim(),
+        tip: d.tip.trim(),
+        ...(d.rules.length > 0 && { rules: d.rules.map(fromDraftRule) }),
+      })),
+    })
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center" role="dialog" aria-modal="true" aria-label={isEditing ? 'Edit Journey' : 'Create Journey'}>
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/60 animate-fade-in" onClick={onClose} />
+
+      {/* Sheet */}
+      <div className="relative w-full max-w-lg sm:rounded-3xl rounded-t-3xl glass animate-slide-up overflow-y-auto max-h-[90dvh]">
+        {/* Drag handle (mobile) */}
+        <div className="flex justify-center pt-3 pb-1 sm:hidden">
+          <div className="w-8 h-1 rounded-full bg-white/20" />
+        </div>
+
+        <div className="px-6 pb-6 pt-4 space-y-6">
+          {/* Header */}
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-medium text-slate-100">
+              {isEditing ? 'Edit Journey' : 'Create Journey'}
+            </h2>
+            <button
+              onClick={onClose}
+              className="w-8 h-8 rounded-full flex items-center justify-center text-slate-400 hover:text-white transition-colors hover:bg-white/10"
+              aria-label="Close"
+            >
+              <svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round">
+                <path d="M4 4l8 8M12 4l-8 8" />
+              </svg>
+            </button>
+          </div>
+
+          {/* ── Name & Identity ── */}
+          <div>
+            <label htmlFor="journey-name" className="text-xs text-slate-500 block mb-2">Name</label>
+            <input
+              id="journey-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="My Journey"
+              maxLength={50}
+              className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm text-slate-100 placeholder-slate-600 outline-none focus:border-white/20 transition-colors"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="journey-description" className="text-xs text-slate-500 block mb-2">Description (optional)</label>
+            <textarea
+              id="journey-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What this program works toward..."
+              maxLength={300}
+              rows={2}
+              className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm text-slate-100 placeholder-slate-600 outline-none focus:border-white/20 transition-colors resize-none"
+            />
+          </div>
+
+          {/* Icon picker */}
+          <div>
+            <label className="text-xs text-slate-500 block mb-2">Icon</label>
+            <div className="flex gap-1.5 overflow-x-auto pb-1 scrollbar-none" style={{ scrollbarWidth: 'none' }}>
+              {iconOptions.map((emoji) => (
+                <button
+                  key={emoji}
+                  onClick={() => setIcon(emoji)}
+                  className={`shrink-0 w-10 h-10 rounded-xl flex items-center justify-center text-lg transition-all ${
+                    icon === emoji
+                      ? 'bg-white/15 border border-white/20 scale-110'
+                      : 'bg-white/5 border border-transparent hover:bg-white/10'
+                  }`}
+                >
+                  {emoji}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Color picker */}
+          <div>
+            <label className="text-xs text-slate-500 block mb-2">Color</label>
+            <div className="flex gap-2">
+              {colorOptions.map((c) => (
+                <button
+                  key={c}
+                  onClick={() => setColor(c)}
+                  className={`w-8 h-8 rounded-full transition-all ${
+                    color === c ? 'ring-2 ring-white/40 ring-offset-2 ring-offset-transparent scale-110' : 'hover:scale-110'
+                  }`}
+                  style={{ background: c }}
+                  aria-label={`Color ${c}`}
+                />
+              ))}
+            </div>
+          </div>
+
+          {/* ── Days ── */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-xs text-slate-500">Days</label>
+              <span className="text-[10px] text-slate-600">{days.length}/{MAX_JOURNEY_DAYS}</span>
+            </div>
+            <div className="space-y-2">
+              {days.map((day, i) => (
+                <div key={day.key} className="glass rounded-xl p-4 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <span
+                      className="w-7 h-7 rounded-full flex items-center justify-center shrink-0 text-xs font-medium text-white"
+                      style={{ background: `${color}60` }}
+                    >
+                      {i + 1}
+                    </span>
+                    <input
+                      type="text"
+                      value={day.title}
+                      onChange={(e) => updateDay(day.key, { title: e.target.value })}
+                      placeholder="Day title"
+                      maxLength={60}
+                      aria-label={`Day ${i + 1} title`}
+                      className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-sm text-slate-100 placeholder-slate-600 outline-none focus:border-white/20 transition-colors"
+                    />
+                    <DayButton label="Move up" disabled={i === 0} onClick={() => moveDay(i, -1)} path="M3 8l4-4 4 4" />
+                    <DayButton label="Move down" disabled={i === days.length - 1} onClick={() => moveDay(i, 1)} path="M3 6l4 4 4-4" />
+                    <DayButton
+                      label="Remove day"
+                      disabled={days.length <= 1}
+                      onClick={() => setDays((prev) => prev.filter((d) => d.key !== day.key))}
+                      path="M4 4l6 6M10 4l-6 6"
+                    />
+                  </div>
+                  <select
+                    value={day.presetId}
+                    onChange={(e) => updateDay(day.key, { presetId: e.target.value })}
+                    aria-label={`Day ${i + 1} session`}
+                    className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-xs text-slate-100 outline-none focus:border-white/20 transition-colors"
+                  >
+                    <PresetOptions groups={presetGroups} value={day.presetId} known={presetIds.has(day.presetId)} />
+                  </select>
+                  <textarea
+                    value={day.tip}
+                    onChange={(e) => updateDay(day.key, { tip: e.target.value })}
+                    placeholder="Tip for this day (optional)"
+                    maxLength={300}
+                    rows={2}
+                    aria-label={`Day ${i + 1} tip`}
+                    className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-xs text-slate-100 placeholder-slate-600 outline-none focus:border-white/20 transition-colors resize-none"
+                  />
+
+                  {/* Adaptive rules — checked against the session before this day */}
+                  {day.rules.map((rule) => (
+                    <div key={rule.key} className="rounded-lg p-2 space-y-1.5" style={{ background: 'rgba(255,255,255,0.03)' }}>
+                      <div className="flex items-center gap-1.5">
+                        <span className="text-[10px] text-slate-500 shrink-0">If last</span>
+                        <select
+                          value={rule.when}
+                          onChange={(e) => updateRule(day.key, rule.key, { when: e.target.value as JourneyTrigger })}
+                          aria-label={`Day ${i + 1} rule condition`}
+                          className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-[11px] text-slate-100 outline-none focus:border-white/20 transition-colors"
+                        >
+                          {JOURNEY_TRIGGERS.map((t) => (
+                            <option key={t} value={t}>{triggerLabels[t].toLowerCase()}</option>
+                          ))}
+                        </select>
+                        <select
+                          value={rule.then}
+                          onChange={(e) => updateRule(day.key, rule.key, { then: e.target.value as DraftRule['then'] })}
+                          aria-label={`Day ${i + 1} rule action`}
+                          className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-[11px] text-slate-100 outline-none focus:border-white/20 transition-colors"
+                        >
+                          <option value="repeat" disabled={i === 0}>Repeat previous day</option>
+                          <option value="swap">Play instead…</option>
+                        </select>
+                        <DayButton
+                          label="Remove rule"
+                          disabled={false}
+                          onClick={() => updateDay(day.key, { rules: day.rules.filter((r) => r.key !== rule.key) })}
+                          path="M4 4l6 6M10 4l-6 6"
+                        />
+                      </div>
+                      {rule.then === 'swap' && (
+                        <select
+                          value={rule.presetId}
+                          onChange={(e) => updateRule(day.key, rule.key, { presetId: e.target.value })}
+                          aria-label={`Day ${i + 1} rule session`}
+                          className="w-full bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-[11px] text-slate-100 outline-none focus:border-white/20 transition-colors"
+                        >
+                          <PresetOptions groups={presetGroups} value={rule.presetId} known={presetIds.has(rule.presetId)} />
+                        </select>
+                      )}
+                      {rule.then === 'repeat' && i === 0 && (
+                        <p className="text-[10px] text-red-300/70">Day 1 has no previous day to repeat</p>
+                      )}
+                    </div>
+                  ))}
+                  {day.rules.length < MAX_RULES_PER_DAY && (
+                    <button
+                      onClick={() => handleAddRule(day, i)}
+                      className="text-[11px] text-slate-500 hover:text-slate-300 transition-colors"
+                    >
+                      + Add rule
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={handleAddDay}
+              disabled={days.length >= MAX_JOURNEY_DAYS}
+              className="w-full mt-2 py-2.5 rounded-xl text-xs font-medium text-slate-400 border border-dashed border-white/10 hover:border-white/20 hover:text-slate-300 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              + Add Day
+            </button>
+          </div>
+
+          {/* ── Footer ── */}
+          <button
+            onClick={handleSave}
+            disabled={!valid}
+            className="w-full py-3.5 rounded-2xl text-sm font-medium text-white transition-all active:scale-[0.98] shadow-lg disabled:opacity-40 disabled:cursor-not-allowed"
+            style={{
+              background: valid ? `linear-gradient(135deg, ${color}, ${color}aa)` : undefined,
+              boxShadow: valid ? `0 8px 32px ${color}30` : undefined,
+            }}
+          >
+            {isEditing ? 'Save Changes' : 'Save Journey'}
+          </button>
+          {!valid && name.trim() && (
+            <p className="text-[10px] text-slate-500 text-center -mt-4">Every day needs a title and a session, and so does every swap rule.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function DayButton({ label, disabled, onClick, path }: { label: string; disabled: boolean; onClick: () => void; path: string }) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className="w-7 h-7 rounded-lg flex items-center justify-center text-slate-500 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30 disabled:pointer-events-none shrink-0"
+      aria-label={label}
+    >
+      <svg width="12" height="12" viewBox="0 0 14 14" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+        <path d={path} />
+      </svg>
+    </button>
+  )
+}
+
+function PresetOptions({ groups, value, known }: { groups: { label: string; presets: SessionPreset[] }[]; value: string; known: boolean }) {
+  return (
+    <>
+      <option value="" disabled>Choose a session…</option>
+      {value && !known && (
+        <option value={value} disabled>Deleted session</option>
+      )}
+      {groups.map((group) => (
+        <optgroup key={group.label} label={group.label}>
+          {group.presets.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.icon} {p.name} · {Math.round(p.duration / 60)} min
+            </option>
+          ))}
+        </optgroup>
+      ))}
+    </>
+  )
+}
@@ -1,4 +1,5 @@
 import type { Journey, JourneyProgress } from '../types'
+import { journeyStatus } from '../journeySchedule'
 
 interface Props {
   journey: Journey
@@ -11,6 +12,7 @@ export function JourneyCard({ journey, progress, onSelect }: Props) {
   const totalDays = journey.days.length
   const progressPct = totalDays > 0 ? (completedDays / totalDays) * 100 : 0
   const isComplete = completedDays >= totalDays
+  const waiting = !isComplete && !journeyStatus(journey, progress).availableToday
 
   return (
     <button
@@ -57,6 +59,9 @@ export function JourneyCard({ journey, progress, onSelect }: Props) {
             {completedDays}/{totalDays} days
           </span>
         </div>
+        {waiting && (
+          <p className="text-[10px] text-slate-500 mt-2">Next session available tomorrow</p>
+        )}
       </div>
     </button>
   )
@@ -1,19 +1,57 @@
-import { useEffect } from 'react'
-import type { Journey, JourneyProgress, SessionPreset } from '../types'
-import { allPresets as presets } from '../presets'
+import { useEffect, useState } from 'react'
+import type { CompletedSession, Journey, JourneyProgress, JourneySchedule, SessionPreset } from '../types'
+import { journeyStatus, isDayUnlocked, DEFAULT_JOURNEY_SCHEDULE } from '../journeySchedule'
+import { requestNotificationPermission } from '../hooks/useJourneyReminders'
+import { planNextDay, triggerLabels } from '../journeyRules'
 
 interface Props {
   journey: Journey
+  /** Built-in and custom presets, to resolve each day's session */
+  presets: SessionPreset[]
   progress?: JourneyProgress
+  /** Session history, for adapting the next day to the last session */
+  sessions: CompletedSession[]
   onClose: () => void
   onStartDay: (preset: SessionPreset, journeyId: string, day: number) => void
   onReset: (journeyId: string) => void
+  onScheduleChange: (journeyId: string, schedule: JourneySchedule) => void
+  /** Set for the user's own journeys */
+  onEdit?: (journey: Journey) => void
+  onDelete?: (journeyId: string) => void
 }
 
-export function JourneyDetail({ journey, progress, onClose, onStartDay, onReset }: Props) {
+const DEFAULT_REMINDER_TIME = '08:00'
+
+function formatReminderTime(time: string): string {
+  const [hours, minutes] = time.split(':').map(Number)
+  return new Date(2000, 0, 1, hours, minutes).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })
+}
+
+export function JourneyDetail({ journey, presets, progress, sessions, onClose, onStartDay, onReset, onScheduleChange, onEdit, onDelete }: Props) {
   const completedDays = progress?.completedDays ?? []
-  const nextDay = journey.days.find((d) => !completedDays.includes(d.day))
-  const isComplete = completedDays.length >= journey.days.length
+  const schedule = progress?.schedule ?? DEFAULT_JOURNEY_SCHEDULE
+  const status = journeyStatus(journey, progress)
+  const { nextDay, isComplete } = status
+  const [permissionDenied, setPermissionDenied] = useState(false)
+  const [confirmDelete, setConfirmDelete] = useState(false)
+  const [asPlanned, setAsPlanned] = useState(false)
+  const adapted = planNextDay(journey, progress, sessions)
+  const plan = asPlanned ? planNextDay(journey, progress, sessions, true) : adapted
+  const planPreset = plan && presets.find((p) => p.id === plan.presetId)
+
+  const updateSchedule = (partial: Partial<JourneySchedule>) => {
+    onScheduleChange(journey.id, { ...schedule, ...partial })
+  }
+
+  const handleReminderToggle = async () => {
+    if (schedule.reminderTime) {
+      updateSchedule({ reminderTime: null })
+      return
+    }
+    const granted = await requestNotificationPermission()
+    setPermissionDenied(!granted)
+    if (granted) updateSchedule({ reminderTime: DEFAULT_REMINDER_TIME })
+  }
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -24,12 +62,17 @@ export function JourneyDetail({ journey, progress, onClose, onStartDay, onReset
   }, [onClose])
 
   const handleDayClick = (day: typeof journey.days[number]) => {
+    if (!isDayUnlocked(day, status, progress?.schedule)) return
     const preset = presets.find((p) => p.id === day.presetId)
     if (preset) {
       onStartDay(preset, journey.id, day.day)
     }
   }
 
+  const handleStartNext = () => {
+    if (plan && planPreset) onStartDay(planPreset, journey.id, plan.day.day)
+  }
+
   return (
     <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center" role="dialog" aria-modal="true" aria-label={`${journey.name} journey`}>
       {/* Backdrop */}
@@ -54,18 +97,59 @@ export function JourneyDetail({ journey, progress, onClose, onStartDay, onReset
 
           <p className="text-sm text-slate-400 leading-relaxed mb-6">{journey.description}</p>
 
+          {/* Schedule */}
+          <div className="rounded-2xl p-4 mb-6 space-y-4" style={{ background: 'rgba(255,255,255,0.03)' }}>
+            <p className="text-[10px] uppercase tracking-widest text-slate-500">Schedule</p>
+            <ToggleRow
+              label="One day at a time"
+              description="Unlock the next day each calendar day"
+              checked={schedule.daily}
+              color={journey.color}
+              onToggle={() => updateSchedule({ daily: !schedule.daily })}
+            />
+            <ToggleRow
+              label="Daily reminder"
+              description="A notification when the next day is ready"
+              checked={!!schedule.reminderTime}
+              color={journey.color}
+              onToggle={handleReminderToggle}
+            />
+            {schedule.reminderTime && (
+              <div className="flex items-center justify-between gap-3">
+                <label htmlFor="journey-reminder-time" className="text-xs text-slate-500">Remind me at</label>
+                <input
+                  id="journey-reminder-time"
+                  type="time"
+                  value={schedule.reminderTime}
+                  onChange={(e) => e.target.value && updateSchedule({ reminderTime: e.target.value })}
+                  className="bg-white/5 border border-white/10 rounded-xl px-3 py-1.5 text-sm text-slate-100 outline-none focus:border-white/20 transition-colors [color-scheme:dark]"
+                />
+              </div>
+            )}
+            {permissionDenied && (
+              <p className="text-[10px] text-red-300/80">Notifications are blocked. Allow them in your browser settings to get reminders.</p>
+            )}
+            {status.missedDays > 0 && (
+              <p className="text-[10px] text-slate-500">
+                {status.missedDays} missed {status.missedDays === 1 ? 'day' : 'days'} so far — just pick up where you left off.
+              </p>
+            )}
+          </div>
+
           {/* Days list */}
           <div className="space-y-2 mb-6">
             {journey.days.map((day) => {
               const isDone = completedDays.includes(day.day)
               const isNext = nextDay?.day === day.day
+              const isLocked = !isDone && !isDayUnlocked(day, status, progress?.schedule)
               const preset = presets.find((p) => p.id === day.presetId)
 
               return (
                 <button
                   key={day.day}
                   onClick={() => handleDayClick(day)}
-                  className="w-full text-left rounded-2xl p-4 transition-all"
+                  disabled={isLocked}
+                  className={`w-full text-left rounded-2xl p-4 transition-all ${isLocked ? 'opacity-50 cursor-not-allowed' : ''}`}
                   style={{
                     background: isDone ? `${journey.color}08` : 'rgba(255,255,255,0.03)',
                     boxShadow: isNext ? `inset 0 0 0 1px ${journey.color}60` : undefined,
@@ -106,6 +190,14 @@ export function JourneyDetail({ journey, progress, onClose, onStartDay, onReset
                           {preset.icon} {preset.name} · {Math.round(preset.duration / 60)} min
                         </p>
                       )}
+                      {!preset && (
+                        <p className="text-[10px] text-red-300/70 mt-1">This session has been deleted</p>
+                      )}
+                      {day.rules && day.rules.length > 0 && !isDone && (
+                        <p className="text-[10px] text-slate-600 mt-1">
+                          Adapts if: {day.rules.map((r) => triggerLabels[r.when].toLowerCase()).join(', ')}
+                        </p>
+                      )}
                     </div>
                   </div>
                 </button>
@@ -127,20 +219,103 @@ export function JourneyDetail({ journey, progress, onClose, onStartDay, onReset
                 Restart Journey
               </button>
             </div>
-          ) : nextDay ? (
-            <button
-              onClick={() => handleDayClick(nextDay)}
-              className="w-full py-4 rounded-2xl text-sm font-medium text-white transition-all active:scale-[0.98] shadow-lg"
-              style={{
-                background: `linear-gradient(135deg, ${journey.color}, ${journey.color}aa)`,
-                boxShadow: `0 8px 32px ${journey.color}30`,
-              }}
-            >
-              Start Day {nextDay.day}: {nextDay.title}
-            </button>
+          ) : nextDay && !status.availableToday ? (
+            <div className="text-center py-3">
+              <p className="text-sm text-slate-300">Next session available tomorrow</p>
+              <p className="text-[11px] text-slate-500 mt-1">
+                Day {nextDay.day}: {nextDay.title}
+                {schedule.reminderTime && ` · reminder at ${formatReminderTime(schedule.reminderTime)}`}
+              </p>
+            </div>
+          ) : plan ? (
+            <>
+              {/* Adapted plan */}
+              {adapted?.rule && (
+                <div className="rounded-2xl px-4 py-3 mb-3 text-xs" style={{ background: `${journey.color}10` }}>
+                  {plan.rule && plan.previous ? (
+                    <>
+                      <p className="text-slate-300">
+                        {triggerLabels[plan.rule.when]} last session —{' '}
+                        {plan.rule.then === 'repeat'
+                          ? `repeating Day ${plan.day.day} before moving on.`
+                          : `${planPreset?.name ?? 'a different session'} today instead.`}
+                      </p>
+                      <button onClick={() => setAsPlanned(true)} className="text-slate-500 hover:text-slate-300 transition-colors mt-1">
+                        Play Day {nextDay?.day} as planned
+                      </button>
+                    </>
+                  ) : (
+                    <button onClick={() => setAsPlanned(false)} className="text-slate-500 hover:text-slate-300 transition-colors">
+                      Use the adapted session
+                    </button>
+                  )}
+                </div>
+              )}
+              <button
+                onClick={handleStartNext}
+                disabled={!planPreset}
+                className="w-full py-4 rounded-2xl text-sm font-medium text-white transition-all active:scale-[0.98] shadow-lg disabled:opacity-40 disabled:cursor-not-allowed"
+                style={{
+                  background: `linear-gradient(135deg, ${journey.color}, ${journey.color}aa)`,
+                  boxShadow: `0 8px 32px ${journey.color}30`,
+                }}
+              >
+                {plan.rule?.then === 'repeat' ? 'Repeat' : 'Start'} Day {plan.day.day}: {plan.day.title}
+              </button>
+            </>
           ) : null}
+
+          {/* Custom journey management */}
+          {(onEdit || onDelete) && (
+            <div className="flex gap-2 mt-3">
+              {onEdit && (
+                <button
+                  onClick={() => onEdit(journey)}
+                  className="flex-1 py-2 rounded-xl text-xs font-medium text-slate-400 border border-white/10 hover:border-white/20 transition-colors"
+                >
+                  Edit Journey
+                </button>
+              )}
+              {onDelete && (
+                <button
+                  onClick={() => (confirmDelete ? onDelete(journey.id) : setConfirmDelete(true))}
+                  className="flex-1 py-2 rounded-xl text-xs font-medium text-red-300 bg-red-500/10 hover:bg-red-500/20 transition-colors"
+                >
+                  {confirmDelete ? 'Confirm Delete' : 'Delete Journey'}
+                </button>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
   )
 }
+
+function ToggleRow({ label, description, checked, color, onToggle }: {
+  label: string
+  description: string
+  checked: boolean
+  color: string
+  onToggle: () => void
+}) {
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <div>
+        <p className="text-sm text-slate-300">{label}</p>
+        <p className="text-[10px] text-slate-500">{description}</p>
+      </div>
+      <button
+        type="button"
+        role="switch"
+        aria-checked={checked}
+        aria-label={label}
+        onClick={onToggle}
+        className="w-10 h-6 rounded-full p-0.5 transition-colors cursor-pointer shrink-0"
+        style={{ background: checked ? color : 'rgba(255,255,255,0.1)' }}
+      >
+        <div className={`w-5 h-5 rounded-full bg-white transition-transform ${checked ? 'translate-x-4' : 'translate-x-0'}`} />
+      </button>
+    </div>
+  )
+}
@@ -5,6 +5,8 @@ import { phaseLabels, getMainPhaseLabel } from '../presets'
 import { Visualizer } from './Visualizer'
 import { BreathingGuide } from './BreathingGuide'
 import { ambientSounds } from '../audio/ambientSounds'
+import { envelopeOutline, getPhaseMarkers } from '../audio/envelope'
+import { SNOOZE_MINUTES } from '../audio/sleepMode'
 
 interface Props {
   state: AudioEngineState
@@ -12,6 +14,8 @@ interface Props {
   onResume: () => void
   onEarlyStop: () => void
   onSeek: (time: number) => void
+  onSnooze: () => void
+  onStopAlarm: () => void
   onVolumeChange: (v: number) => void
   onToggleIsochronic: () => void
   onToggleBreathingGuide: () => void
@@ -42,6 +46,8 @@ export function Player({
   onResume,
   onEarlyStop,
   onSeek,
+  onSnooze,
+  onStopAlarm,
   onVolumeChange,
   onToggleIsochronic,
   onToggleBreathingGuide,
@@ -109,15 +115,21 @@ export function Player({
 
   // Phase label — use guidance phase name for guided sessions, fall back to generic
   const phaseLabel = state.guidancePhaseName
-    ?? (state.phase === 'main' ? getMainPhaseLabel(preset, state.beatFreq) : phaseLabels[state.phase])
+    ?? (state.phase === 'main' ? getMainPhaseLabel(preset, state.targetFreq) : phaseLabels[state.phase])
 
   const orbSize = typeof window !== 'undefined' ? Math.min(window.innerWidth * 0.6, 300) : 300
 
+  // Sleep mode's wake-up alarm, from the start of its rise
+  const alarmActive = !!state.alarm && state.elapsed >= state.alarm.rampStart && state.phase !== 'complete'
+  const alarmRinging = !!state.alarm && state.elapsed >= state.alarm.wakeAt
+
   // Sleep fade: for sleep presets, progressively dim the UI to pure black
-  const isSleepPreset = preset.category === 'sleep'
-  const sleepFadeOpacity = isSleepPreset
-    ? Math.min(1, Math.max(0, (progress - 0.3) / 0.4)) // 0 at 30%, 1 at 70%
-    : 0
+  const isSleepPreset = preset.category === 'sleep' || state.sleepMode
+  const sleepFadeOpacity = state.sleepMode
+    ? Math.min(1, Math.max(0, (state.elapsed - 120) / 480)) // overnight: 0 at 2 min, 1 at 10 min
+    : isSleepPreset
+      ? Math.min(1, Math.max(0, (progress - 0.3) / 0.4)) // 0 at 30%, 1 at 70%
+      : 0
 
   // Scrub state
   const [isScrubbing, setIsScrubbing] = useState(false)
@@ -133,11 +145,13 @@ export function Player({
   }, [state.duration])
 
   const handleScrubStart = useCallback((clientX: number) => {
+    // An alarm session keeps to the wall clock, so it can't be scrubbed
+    if (state.alarm) return
     const time = getTimeFromPosition(clientX)
     setIsScrubbing(true)
     setScrubTime(time)
     onSeek(time)
-  }, [getTimeFromPosition, onSeek])
+  }, [state.alarm, getTimeFromPosition, onSeek])
 
   const handleScrubMove = useCallback((clientX: number) => {
     if (!isScrubbing) return
@@ -188,7 +202,7 @@ export function Player({
     const minFreq = Math.min(...env.map(p => p.beatFreq))
     const freqRange = maxFreq - minFreq || 1
 
-    const points = env.map(p => {
+    const points = envelopeOutline(env).map(p => {
       const x = (p.time / state.duration) * width
       const y = height - ((p.beatFreq - minFreq) / freqRange) * (height - 4) - 2
       return `${x},${y}`
@@ -196,6 +210,15 @@ export function Player({
     return `M${points.join(' L')}`
   })()
 
+  // Phase boundaries drawn as ticks on the scrubber
+  const phaseMarkers = (() => {
+    if (state.duration <= 0) return []
+    const { inductionEnd, returnStart } = getPhaseMarkers(preset)
+    return [inductionEnd, returnStart]
+      .filter((t): t is number => t !== null && t > 0 && t < state.duration)
+      .map((t) => (t / state.duration) * 300)
+  })()
+
   return (
     <div
       className="fixed inset-0 flex flex-col items-center justify-center overflow-hidden"
@@ -273,11 +296,17 @@ export function Player({
         {/* Center text */}
         <div className="absolute inset-0 flex flex-col items-center justify-center">
           <span className="text-4xl font-light tracking-tight" style={{ fontVariantNumeric: 'tabular-nums' }}>
-            {state.beatFreq.toFixed(1)} Hz
+            {state.targetFreq.toFixed(1)} Hz
           </span>
           <span className="text-xs uppercase tracking-widest text-slate-400 mt-1">
-            {getBandLabel(state.beatFreq)}
+            {getBandLabel(state.targetFreq)}
           </span>
+          {Math.abs(state.beatFreq - state.targetFreq) >= 0.05 && (
+            <span className="text-[10px] text-slate-500 mt-1" style={{ fontVariantNumeric: 'tabular-nums' }}>
+              {state.beatFreq > state.targetFreq ? '+' : '−'}
+              {Math.abs(state.beatFreq - state.targetFreq).toFixed(1)} Hz habituation
+            </span>
+          )}
         </div>
       </div>
 
@@ -305,7 +334,7 @@ export function Player({
       >
         <div
           ref={timelineRef}
-          className="relative h-8 cursor-pointer select-none touch-none"
+          className={`relative h-8 select-none touch-none ${state.alarm ? '' : 'cursor-pointer'}`}
           onMouseDown={(e) => { e.preventDefault(); handleScrubStart(e.clientX) }}
           onTouchStart={(e) => { if (e.touches[0]) handleScrubStart(e.touches[0].clientX) }}
         >
@@ -322,6 +351,10 @@ export function Player({
                 <path d={envelopePath} fill="none" stroke={preset.color} strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" clipPath="url(#played-clip)" />
               </>
             )}
+            {/* Phase boundaries */}
+            {phaseMarkers.map((x) => (
+              <line key={x} x1={x} y1="0" x2={x} y2="24" stroke="rgba(255,255,255,0.25)" strokeWidth="1" strokeDasharray="2 2" vectorEffect="non-scaling-stroke" />
+            ))}
             {/* Track line if no envelope */}
             {!envelopePath && (
               <>
@@ -403,7 +436,7 @@ export function Player({
               </div>
 
               {/* Isochronic toggle (only if available) */}
-              {preset.isochronicAvailable && (
+              {(preset.isochronicAvailable || state.speakerMode) && (
                 <div className="flex items-center justify-between gap-3">
                   <span className="text-xs text-slate-300">Isochronic tones</span>
                   <button
@@ -535,14 +568,40 @@ export function Player({
         </div>
       </div>
 
-      {/* Sleep fade overlay */}
-      {isSleepPreset && sleepFadeOpacity > 0 && (
+      {/* Sleep fade overlay — lifted when the alarm starts to wake you */}
+      {isSleepPreset && sleepFadeOpacity > 0 && !alarmActive && (
         <div
           className="fixed inset-0 bg-black pointer-events-none transition-opacity duration-[3000ms]"
           style={{ opacity: sleepFadeOpacity, zIndex: 40 }}
         />
       )}
 
+      {/* Wake-up alarm */}
+      {alarmActive && (
+        <div
+          className="fixed bottom-0 left-0 right-0 z-[45] flex flex-col items-center px-6 pb-8 pt-10 safe-bottom animate-fade-in-up"
+          style={{ background: 'linear-gradient(to top, var(--color-bg-deep) 60%, transparent)' }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <p className="text-sm text-slate-200 mb-4">{alarmRinging ? 'Good morning' : 'Waking you gently…'}</p>
+          <div className="flex gap-3 w-full max-w-xs">
+            <button
+              onClick={onSnooze}
+              className="flex-1 py-3.5 rounded-2xl text-sm font-medium text-slate-300 border border-white/10 hover:border-white/20 transition-colors"
+            >
+              Snooze {SNOOZE_MINUTES} min
+            </button>
+            <button
+              onClick={onStopAlarm}
+              className="flex-1 py-3.5 rounded-2xl text-sm font-medium text-white transition-all active:scale-[0.98]"
+              style={{ background: `linear-gradient(135deg, ${preset.color}, ${preset.color}bb)` }}
+            >
+              Stop Alarm
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Stop confirmation */}
       {showStopConfirm && (
         <div
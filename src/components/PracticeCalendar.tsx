@@ -0,0 +1,138 @@
+import { useState } from 'react'
+import type { StreakSummary, PracticeDay } from '../streaks'
+
+interface Props {
+  streaks: StreakSummary
+}
+
+const WEEKDAYS = ['M', 'T', 'W', 'T', 'F', 'S', 'S']
+
+function localDate(date: Date): string {
+  return new Intl.DateTimeFormat('en-CA').format(date) // YYYY-MM-DD in local TZ
+}
+
+/** Cell background: purple deepening with minutes, or a marker for covered and missed days */
+function cellStyle(day: PracticeDay | undefined): React.CSSProperties | undefined {
+  if (!day) return undefined
+  switch (day.status) {
+    case 'practiced':
+      return { background: `rgba(168, 85, 247, ${Math.min(0.9, 0.3 + day.minutes / 60)})` }
+    case 'short':
+      return { background: 'rgba(168, 85, 247, 0.15)' }
+    case 'rest':
+      return { background: 'rgba(148, 163, 184, 0.15)' }
+    case 'freeze':
+      return { background: 'rgba(56, 189, 248, 0.25)' }
+    case 'missed':
+      return undefined
+  }
+}
+
+function describe(day: PracticeDay | undefined): string {
+  if (!day) return 'No practice'
+  switch (day.status) {
+    case 'practiced': return `${day.minutes} min`
+    case 'short': return `${day.minutes} min — didn't count toward the streak`
+    case 'rest': return 'Rest day'
+    case 'freeze': return 'Streak freeze'
+    case 'missed': return 'Missed — streak ended'
+  }
+}
+
+/** Month grid of practice, Monday first, with arrows to page through past months */
+export function PracticeCalendar({ streaks }: Props) {
+  const now = new Date()
+  const [offset, setOffset] = useState(0)
+  const month = new Date(now.getFullYear(), now.getMonth() - offset, 1)
+  const today = localDate(now)
+
+  const leading = (month.getDay() + 6) % 7
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate()
+  const cells: (string | null)[] = [
+    ...Array.from({ length: leading }, () => null),
+    ...Array.from({ length: daysInMonth }, (_, i) => localDate(new Date(month.getFullYear(), month.getMonth(), i + 1))),
+  ]
+
+  let practiced = 0
+  let minutes = 0
+  for (const date of cells) {
+    const day = date ? streaks.days.get(date) : undefined
+    if (day && day.minutes > 0) {
+      practiced++
+      minutes += day.minutes
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <button
+          onClick={() => setOffset(offset + 1)}
+          className="w-7 h-7 rounded-full flex items-center justify-center text-slate-400 hover:text-white hover:bg-white/10 transition-colors"
+          aria-label="Previous month"
+        >
+          <svg width="12" height="12" viewBox="0 0 12 12" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round">
+            <path d="M8 2L4 6l4 4" />
+          </svg>
+        </button>
+        <div className="text-center">
+          <p className="text-sm text-slate-200">{month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}</p>
+          <p className="text-[10px] text-slate-500">{practiced} {practiced === 1 ? 'day' : 'days'} · {minutes} min</p>
+        </div>
+        <button
+          onClick={() => setOffset(offset - 1)}
+          disabled={offset === 0}
+          className="w-7 h-7 rounded-full flex items-center justify-center text-slate-400 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-30 disabled:pointer-events-none"
+          aria-label="Next month"
+        >
+          <svg width="12" height="12" viewBox="0 0 12 12" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round">
+            <path d="M4 2l4 4-4 4" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center" role="grid" aria-label="Practice calendar">
+        {WEEKDAYS.map((d, i) => (
+          <span key={i} className="text-[10px] text-slate-600 pb-1">{d}</span>
+        ))}
+        {cells.map((date, i) => {
+          if (!date) return <span key={`empty-${i}`} />
+          const day = streaks.days.get(date)
+          const isFuture = date > today
+          return (
+            <div
+              key={date}
+              role="gridcell"
+              title={isFuture ? undefined : describe(day)}
+              aria-label={`${date}: ${isFuture ? 'upcoming' : describe(day)}`}
+              className={`aspect-square rounded-md flex items-center justify-center text-[10px] ${
+                date === today ? 'ring-1 ring-white/40' : ''
+              } ${day?.status === 'practiced' ? 'text-white' : isFuture ? 'text-slate-700' : 'text-slate-500'} ${
+                day?.status === 'missed' ? 'border border-dashed border-red-400/30' : ''
+              }`}
+              style={cellStyle(day) ?? { background: 'rgba(255,255,255,0.03)' }}
+            >
+              {day?.status === 'freeze' ? '❄' : Number(date.slice(8))}
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-x-3 gap-y-1 mt-3 text-[10px] text-slate-500">
+        <Legend style={{ background: 'rgba(168, 85, 247, 0.6)' }}>Counted</Legend>
+        <Legend style={{ background: 'rgba(168, 85, 247, 0.15)' }}>Too short</Legend>
+        <Legend style={{ background: 'rgba(148, 163, 184, 0.15)' }}>Rest</Legend>
+        <Legend style={{ background: 'rgba(56, 189, 248, 0.25)' }}>Freeze</Legend>
+      </div>
+    </div>
+  )
+}
+
+function Legend({ style, children }: { style: React.CSSProperties; children: React.ReactNode }) {
+  return (
+    <span className="inline-flex items-center gap-1.5">
+      <span className="w-2.5 h-2.5 rounded-sm" style={style} />
+      {children}
+    </span>
+  )
+}
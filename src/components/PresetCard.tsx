@@ -1,5 +1,6 @@
 import type { SessionPreset } from '../types'
 import { bandInfo } from '../presets'
+import { isSpeakerSafe } from '../audio/speakerMode'
 
 interface Props {
   preset: SessionPreset
@@ -76,6 +77,18 @@ export function PresetCard({ preset, onSelect, isFavorite, onToggleFavorite }: P
               Guided
             </span>
           )}
+          {isSpeakerSafe(preset) && (
+            <span
+              className="inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-[10px] font-medium glass text-slate-300"
+              title="Has a speaker-safe rendering — no headphones needed"
+            >
+              <svg width="10" height="10" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" aria-hidden="true">
+                <path d="M2 6h3l4-3v10l-4-3H2z" />
+                <path d="M11.5 5.5a3.5 3.5 0 0 1 0 5" />
+              </svg>
+              Speaker
+            </span>
+          )}
         </div>
       </div>
     </button>
@@ -0,0 +1,80 @@
+import { useEffect } from 'react'
+import type { PresetImportState } from '../hooks/usePresetFiles'
+import type { CollisionMode } from '../presetFormat'
+
+interface Props {
+  state: PresetImportState
+  onResolve: (mode: CollisionMode) => void
+  onClose: () => void
+}
+
+export function PresetImportDialog({ state, onResolve, onClose }: Props) {
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  if (state.status === 'idle') return null
+
+  const title =
+    state.status === 'error' ? 'Import failed'
+    : state.status === 'conflict' ? 'Sessions already exist'
+    : 'Import complete'
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-6" role="alertdialog" aria-modal="true" aria-label={title}>
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/60 animate-fade-in" onClick={onClose} />
+
+      <div className="relative w-full max-w-sm rounded-3xl glass animate-slide-up p-6 space-y-4">
+        <h2 className="text-lg font-medium text-slate-100">{title}</h2>
+
+        {state.status === 'error' && (
+          <p className="text-sm text-red-300/90 break-words">{state.message}</p>
+        )}
+
+        {state.status === 'conflict' && (
+          <>
+            <p className="text-sm text-slate-400">
+              {state.collisions.length === 1
+                ? `"${state.collisions[0].name}" is already in My Sessions.`
+                : `${state.collisions.length} of these sessions are already in My Sessions.`}
+              {' '}Replace the saved {state.collisions.length === 1 ? 'copy' : 'copies'}, or keep both?
+            </p>
+            <div className="flex flex-col gap-2">
+              <button
+                onClick={() => onResolve('replace')}
+                className="w-full py-3 rounded-2xl text-sm font-medium text-white bg-white/10 hover:bg-white/15 transition-colors"
+              >
+                Replace
+              </button>
+              <button
+                onClick={() => onResolve('copy')}
+                className="w-full py-3 rounded-2xl text-sm font-medium text-white bg-white/10 hover:bg-white/15 transition-colors"
+              >
+                Keep Both
+              </button>
+            </div>
+          </>
+        )}
+
+        {state.status === 'done' && (
+          <p className="text-sm text-slate-400">
+            Imported {state.count} {state.count === 1 ? 'session' : 'sessions'} into My Sessions.
+          </p>
+        )}
+
+        <button
+          onClick={onClose}
+          className="w-full py-2 rounded-xl text-xs font-medium text-slate-400 border border-white/10 hover:border-white/20 transition-colors"
+        >
+          {state.status === 'conflict' ? 'Cancel' : 'Done'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,8 @@
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useRef } from 'react'
 import type { SessionPreset, PresetCategory, UserStats, Journey, JourneyProgress } from '../types'
 import { presets, allPresets as allBuiltInPresets, categoryLabels, categoryOrder, getRecommendedPresets, getTimeGreeting } from '../presets'
 import { journeys } from '../journeys'
+import { FileFormatError } from '../fileFormat'
 import { PresetCard } from './PresetCard'
 import { JourneyCard } from './JourneyCard'
 
@@ -12,10 +13,20 @@ interface Props {
   onToggleFavorite?: (presetId: string) => void
   journeyProgress?: JourneyProgress[]
   onSelectJourney?: (journey: Journey) => void
+  /** The user's own journeys, listed before the built-in ones */
+  customJourneys?: Journey[]
+  onCreateJourney?: () => void
   customPresets?: SessionPreset[]
   onCreateCustom?: () => void
   onEditCustom?: (preset: SessionPreset) => void
   onDeleteCustom?: (id: string) => void
+  onOpenSettings?: () => void
+  onOpenHistory?: () => void
+  onOpenInsights?: () => void
+  /** Import a `.bbpreset.json` file into My Sessions */
+  onImportPresets?: (file: File) => void
+  onExportPresets?: (presets: SessionPreset[]) => void
+  onShareCustom?: (preset: SessionPreset) => Promise<'shared' | 'copied' | 'cancelled'>
 }
 
 type Filter = 'all' | 'favorites' | PresetCategory
@@ -27,10 +38,13 @@ function formatHours(minutes: number): string {
   return m > 0 ? `${h}.${Math.round((m / 60) * 10)}h` : `${h}h`
 }
 
-export function PresetList({ onSelect, stats, favorites = [], onToggleFavorite, journeyProgress = [], onSelectJourney, customPresets = [], onCreateCustom, onEditCustom, onDeleteCustom }: Props) {
+export function PresetList({ onSelect, stats, favorites = [], onToggleFavorite, journeyProgress = [], onSelectJourney, customJourneys = [], onCreateJourney, customPresets = [], onCreateCustom, onEditCustom, onDeleteCustom, onOpenSettings, onOpenHistory, onOpenInsights, onImportPresets, onExportPresets, onShareCustom }: Props) {
   const [filter, setFilter] = useState<Filter>('all')
   const [deleteConfirm, setDeleteConfirm] = useState<string | null>(null)
   const [openMenu, setOpenMenu] = useState<string | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const noticeTimerRef = useRef<ReturnType<typeof setTimeout>>(null)
 
   const hasFavorites = favorites.length > 0
   const hasHistory = stats && stats.totalSessions > 0
@@ -54,6 +68,22 @@ export function PresetList({ onSelect, stats, favorites = [], onToggleFavorite,
 
   const greeting = hasHistory ? getTimeGreeting() : null
 
+  const showNotice = (text: string) => {
+    if (noticeTimerRef.current) clearTimeout(noticeTimerRef.current)
+    setNotice(text)
+    noticeTimerRef.current = setTimeout(() => setNotice(null), 3000)
+  }
+
+  const handleShare = async (preset: SessionPreset) => {
+    if (!onShareCustom) return
+    try {
+      const result = await onShareCustom(preset)
+      if (result === 'copied') showNotice('Link copied')
+    } catch (err) {
+      showNotice(err instanceof FileFormatError ? err.message : 'Could not create a link')
+    }
+  }
+
   const handleDeleteConfirm = (id: string) => {
     onDeleteCustom?.(id)
     setDeleteConfirm(null)
@@ -66,19 +96,58 @@ export function PresetList({ onSelect, stats, favorites = [], onToggleFavorite,
         <h1 className="text-xl font-light tracking-tight text-slate-100">
           {greeting || 'Binaural Beats'}
         </h1>
-        <button
-          onClick={() => {
-            try { localStorage.removeItem('onboarding_complete') } catch { /* */ }
-            window.location.reload()
-          }}
-          className="w-8 h-8 rounded-full flex items-center justify-center text-slate-500 hover:text-slate-300 transition-colors"
-          aria-label="Info"
-        >
-          <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
-            <circle cx="8" cy="8" r="7" stroke="currentColor" strokeWidth="1.5" />
-            <path d="M8 7v4M8 5h.01" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" />
-          </svg>
-        </button>
+        <div className="flex items-center gap-1">
+          {onOpenHistory && (
+            <button
+              onClick={onOpenHistory}
+              className="w-8 h-8 rounded-full flex items-center justify-center text-slate-500 hover:text-slate-300 transition-colors"
+              aria-label="History"
+            >
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <path d="M3 12a9 9 0 1 0 3-6.7L3 8" />
+                <path d="M3 3v5h5" />
+                <path d="M12 7v5l3 2" />
+              </svg>
+            </button>
+          )}
+          {onOpenInsights && (
+            <button
+              onClick={onOpenInsights}
+              className="w-8 h-8 rounded-full flex items-center justify-center text-slate-500 hover:text-slate-300 transition-colors"
+              aria-label="Insights"
+            >
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <path d="M3 3v18h18" />
+                <path d="M7 16v-4M12 16V8M17 16v-7" />
+              </svg>
+            </button>
+          )}
+          {onOpenSettings && (
+            <button
+              onClick={onOpenSettings}
+              className="w-8 h-8 rounded-full flex items-center justify-center text-slate-500 hover:text-slate-300 transition-colors"
+              aria-label="Settings"
+            >
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <circle cx="12" cy="12" r="3" />
+                <path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 1 1-2.83 2.83l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 1 1-4 0v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 1 1-2.83-2.83l.06-.06A1.65 1.65 0 0 0 4.68 15a1.65 1.65 0 0 0-1.51-1H3a2 2 0 1 1 0-4h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 1 1 2.83-2.83l.06.06A1.65 1.65 0 0 0 9 4.68a1.65 1.65 0 0 0 1-1.51V3a2 2 0 1 1 4 0v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 1 1 2.83 2.83l-.06.06A1.65 1.65 0 0 0 19.4 9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 1 1 0 4h-.09a1.65 1.65 0 0 0-1.51 1z" />
+              </svg>
+            </button>
+          )}
+          <button
+            onClick={() => {
+              try { localStorage.removeItem('onboarding_complete') } catch { /* */ }
+              window.location.reload()
+            }}
+            className="w-8 h-8 rounded-full flex items-center justify-center text-slate-500 hover:text-slate-300 transition-colors"
+            aria-label="Info"
+          >
+            <svg width="16" height="16" viewBox="0 0 16 16" fill="none">
+              <circle cx="8" cy="8" r="7" stroke="currentColor" strokeWidth="1.5" />
+              <path d="M8 7v4M8 5h.01" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" />
+            </svg>
+          </button>
+        </div>
       </div>
 
       {/* Stats bar */}
@@ -151,9 +220,19 @@ export function PresetList({ onSelect, stats, favorites = [], onToggleFavorite,
       {/* Journeys section */}
       {filter === 'all' && onSelectJourney && (
         <div className="mb-6">
-          <p className="text-xs uppercase tracking-widest text-slate-500 mb-3">7-Day Journeys</p>
+          <div className="flex items-center justify-between mb-3">
+            <p className="text-xs uppercase tracking-widest text-slate-500">Journeys</p>
+            {onCreateJourney && (
+              <button
+                onClick={onCreateJourney}
+                className="text-xs text-slate-500 hover:text-slate-300 transition-colors"
+              >
+                + New Journey
+              </button>
+            )}
+          </div>
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
-            {journeys.map((journey, i) => (
+            {[...customJourneys, ...journeys].map((journey, i) => (
               <div key={journey.id} className="animate-fade-in-up" style={{ animationDelay: `${i * 50}ms` }}>
                 <JourneyCard
                   journey={journey}
@@ -169,9 +248,40 @@ export function PresetList({ onSelect, stats, favorites = [], onToggleFavorite,
       {/* My Sessions section (custom presets) */}
       {(filter === 'all' || filter === 'custom') && onCreateCustom && (
         <div className="mb-6">
-          {filter === 'all' && (
-            <p className="text-xs uppercase tracking-widest text-slate-500 mb-3">My Sessions</p>
-          )}
+          <div className="flex items-center justify-between mb-3">
+            <p className="text-xs uppercase tracking-widest text-slate-500">{filter === 'all' ? 'My Sessions' : ''}</p>
+            <div className="flex items-center gap-3">
+              {onImportPresets && (
+                <>
+                  <button
+                    onClick={() => importInputRef.current?.click()}
+                    className="text-xs text-slate-500 hover:text-slate-300 transition-colors"
+                  >
+                    Import
+                  </button>
+                  <input
+                    ref={importInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0]
+                      e.target.value = ''
+                      if (file) onImportPresets(file)
+                    }}
+                  />
+                </>
+              )}
+              {onExportPresets && customPresets.length > 0 && (
+                <button
+                  onClick={() => onExportPresets(customPresets)}
+                  className="text-xs text-slate-500 hover:text-slate-300 transition-colors"
+                >
+                  Export all
+                </button>
+              )}
+            </div>
+          </div>
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
             {/* Create card */}
             <div className="animate-fade-in-up">
@@ -198,7 +308,7 @@ export function PresetList({ onSelect, stats, favorites = [], onToggleFavorite,
                   onToggleFavorite={onToggleFavorite}
                 />
                 {/* Overflow menu */}
-                {(onEditCustom || onDeleteCustom) && (
+                {(onEditCustom || onDeleteCustom || onExportPresets || onShareCustom) && (
                   <div className="absolute top-3 right-12 z-10">
                     <button
                       onClick={(e) => {
@@ -230,6 +340,30 @@ export function PresetList({ onSelect, stats, favorites = [], onToggleFavorite,
                               Edit
                             </button>
                           )}
+                          {onShareCustom && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation()
+                                setOpenMenu(null)
+                                handleShare(preset)
+                              }}
+                              className="w-full text-left px-4 py-2.5 text-sm text-slate-300 hover:bg-white/5 transition-colors"
+                            >
+                              Share Link
+                            </button>
+                          )}
+                          {onExportPresets && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation()
+                                setOpenMenu(null)
+                                onExportPresets([preset])
+                              }}
+                              className="w-full text-left px-4 py-2.5 text-sm text-slate-300 hover:bg-white/5 transition-colors"
+                            >
+                              Export
+                            </button>
+                          )}
                           {onDeleteCustom && (
                             <button
                               onClick={(e) => {
@@ -286,6 +420,13 @@ export function PresetList({ onSelect, stats, favorites = [], onToggleFavorite,
         </p>
       )}
 
+      {/* Share notice */}
+      {notice && (
+        <div className="fixed bottom-6 inset-x-0 z-[60] flex justify-center px-6 pointer-events-none" role="status">
+          <div className="glass rounded-full px-4 py-2 text-xs text-slate-200 animate-fade-in-up shadow-xl">{notice}</div>
+        </div>
+      )}
+
       {/* Delete confirmation dialog */}
       {deleteConfirm && (
         <div className="fixed inset-0 z-[60] flex items-center justify-center" role="dialog" aria-modal="true">
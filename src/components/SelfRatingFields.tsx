@@ -0,0 +1,76 @@
+import type { SelfRating, RatingScale } from '../types'
+import { ratingScales } from '../presets'
+
+interface Props {
+  value: SelfRating
+  onChange: (value: SelfRating) => void
+  color: string
+  /** Earlier check-in to show alongside each scale (the "before" on the completion screen) */
+  compareTo?: SelfRating
+  notePlaceholder?: string
+}
+
+const SCORES = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]
+
+/** Stress, energy and focus on 1–10 scales plus a note. Tapping the current score clears it. */
+export function SelfRatingFields({ value, onChange, color, compareTo, notePlaceholder = 'Anything worth noting?' }: Props) {
+  const setScore = (scale: RatingScale, score: number) => {
+    onChange({ ...value, [scale]: value[scale] === score ? undefined : score })
+  }
+
+  return (
+    <div className="space-y-4">
+      {ratingScales.map((scale) => {
+        const before = compareTo?.[scale.id]
+        return (
+          <div key={scale.id}>
+            <div className="flex justify-between text-xs text-slate-500 mb-2">
+              <span>{scale.label}</span>
+              <span>
+                {before !== undefined && <span className="mr-2">before {before}</span>}
+                <span className="text-slate-300">{value[scale.id] ?? '–'}</span>
+              </span>
+            </div>
+            <div className="flex gap-1" role="radiogroup" aria-label={scale.label}>
+              {SCORES.map((score) => {
+                const selected = value[scale.id] === score
+                return (
+                  <button
+                    key={score}
+                    type="button"
+                    role="radio"
+                    aria-checked={selected}
+                    onClick={() => setScore(scale.id, score)}
+                    className={`flex-1 h-8 rounded-lg text-[11px] font-medium transition-colors border ${
+                      selected
+                        ? 'text-white border-white/20'
+                        : score === before
+                          ? 'text-slate-300 border-white/20 border-dashed'
+                          : 'text-slate-500 border-transparent bg-white/5 hover:bg-white/10'
+                    }`}
+                    style={selected ? { background: `${color}66` } : undefined}
+                  >
+                    {score}
+                  </button>
+                )
+              })}
+            </div>
+            <div className="flex justify-between text-[10px] text-slate-600 mt-1">
+              <span>{scale.low}</span>
+              <span>{scale.high}</span>
+            </div>
+          </div>
+        )
+      })}
+
+      <textarea
+        value={value.note ?? ''}
+        onChange={(e) => onChange({ ...value, note: e.target.value })}
+        placeholder={notePlaceholder}
+        maxLength={2000}
+        rows={2}
+        className="w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs text-slate-100 placeholder-slate-600 outline-none focus:border-white/20 transition-colors resize-none"
+      />
+    </div>
+  )
+}
@@ -1,8 +1,14 @@
-import { useState, useEffect, useCallback, useMemo } from 'react'
-import type { SessionPreset, NoiseType, AmbientSoundType, CarrierLayer, FrequencyPoint, BrainwaveBand } from '../types'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import type { SessionPreset, NoiseType, AmbientSoundType, CarrierLayer, FrequencyPoint, BrainwaveBand, BeatMode, HabituationConfig, PhaseMarkers, GuidanceScript } from '../types'
+import { iconOptions, colorOptions } from '../presets'
 import { EnvelopeEditor } from './EnvelopeEditor'
+import { GuidanceScriptEditor } from './GuidanceScriptEditor'
 import { usePreviewTone } from '../hooks/usePreviewTone'
 import { ambientSounds } from '../audio/ambientSounds'
+import { DEFAULT_HABITUATION, derivePhaseMarkers } from '../audio/envelope'
+import { downloadPresets, readPresetFile } from '../hooks/usePresetFiles'
+import { FileFormatError } from '../fileFormat'
+import { PRESET_LIMITS } from '../presetFormat'
 
 interface Props {
   editingPreset?: SessionPreset | null
@@ -10,15 +16,11 @@ interface Props {
   onClose: () => void
 }
 
-const EMOJI_OPTIONS = [
-  '🎵', '🧠', '🌊', '🌙', '🔮', '💎', '🎯', '⚡', '🌿', '🍃',
-  '💡', '🧘', '✨', '🔷', '🎶', '🌈', '💤', '🌸', '🎧', '🪷',
-  '🌀', '🫧', '🌟', '🦋',
-]
-
-const COLOR_OPTIONS = [
-  '#3b82f6', '#8b5cf6', '#ec4899', '#ef4444', '#f97316',
-  '#f59e0b', '#22c55e', '#14b8a6', '#6366f1', '#a855f7',
+const BEAT_MODES: { id: BeatMode; label: string }[] = [
+  { id: 'binaural', label: 'Binaural' },
+  { id: 'monaural', label: 'Monaural' },
+  { id: 'swapped', label: 'Swapped' },
+  { id: 'centered', label: 'Centered' },
 ]
 
 const MIN_DURATION = 300   // 5 min
@@ -53,24 +55,124 @@ function scaleEnvelope(envelope: FrequencyPoint[], oldDuration: number, newDurat
   })
 }
 
-function isValid(
+function scalePhases(phases: PhaseMarkers, oldDuration: number, newDuration: number): PhaseMarkers {
+  const scale = (t: number) => Math.round((t / oldDuration) * newDuration)
+  return phases.returnStart === undefined
+    ? { inductionEnd: scale(phases.inductionEnd) }
+    : { inductionEnd: scale(phases.inductionEnd), returnStart: scale(phases.returnStart) }
+}
+
+function createDefaultScript(duration: number, phases: PhaseMarkers, hasReturnPhase: boolean): GuidanceScript {
+  const returnStart = hasReturnPhase ? phases.returnStart : undefined
+  const mainEnd = returnStart ?? duration
+  return {
+    phases: [
+      { name: 'Induction', startTime: 0, endTime: phases.inductionEnd },
+      { name: 'Deepening', startTime: phases.inductionEnd, endTime: mainEnd },
+      ...(returnStart !== undefined ? [{ name: 'Return', startTime: returnStart, endTime: duration }] : []),
+    ],
+    voiceCues: [
+      { time: 5, text: 'Close your eyes, and let your breathing slow down.', chime: true },
+    ],
+  }
+}
+
+function scaleScript(script: GuidanceScript, oldDuration: number, newDuration: number): GuidanceScript {
+  const scale = (t: number) => Math.round((t / oldDuration) * newDuration)
+  const scaleWindow = <T extends { startTime: number; endTime: number }>(w: T): T =>
+    ({ ...w, startTime: scale(w.startTime), endTime: scale(w.endTime) })
+  return {
+    ...script,
+    phases: script.phases.map(scaleWindow),
+    voiceCues: script.voiceCues.map((c) => ({ ...c, time: scale(c.time) })),
+    samWindows: script.samWindows?.map(scaleWindow),
+    isochronicWindows: script.isochronicWindows?.map(scaleWindow),
+    carrierGainEvents: script.carrierGainEvents?.map((e) => ({ ...e, time: scale(e.time) })),
+    ambientEvents: script.ambientEvents?.map((e) => ({ ...e, time: scale(e.time) })),
+    resonantTuning: script.resonantTuning && scaleWindow(script.resonantTuning),
+    rocketPanTime: script.rocketPanTime === undefined ? undefined : scale(script.rocketPanTime),
+  }
+}
+
+/** Everything in time order, with empty optional lists dropped */
+function sortScript(script: GuidanceScript): GuidanceScript {
+  const byStart = <T extends { startTime: number }>(list: T[]) => [...list].sort((a, b) => a.startTime - b.startTime)
+  const byTime = <T extends { time: number }>(list: T[]) => [...list].sort((a, b) => a.time - b.time)
+  const nonEmpty = <T,>(list?: T[]) => (list && list.length > 0 ? list : undefined)
+  return {
+    ...script,
+    phases: byStart(script.phases),
+    voiceCues: byTime(script.voiceCues),
+    samWindows: nonEmpty(script.samWindows && byStart(script.samWindows)),
+    isochronicWindows: nonEmpty(script.isochronicWindows && byStart(script.isochronicWindows)),
+    carrierGainEvents: nonEmpty(script.carrierGainEvents && byTime(script.carrierGainEvents)),
+    ambientEvents: nonEmpty(script.ambientEvents && byTime(script.ambientEvents)),
+  }
+}
+
+/** Why a guidance script can't be saved, or null when it's fine */
+function scriptProblem(script: GuidanceScript, duration: number, carrierCount: number): string | null {
+  const badWindow = (w: { startTime: number; endTime: number }) =>
+    w.startTime < 0 || w.endTime <= w.startTime || w.endTime > duration
+  const badEvent = (e: { time: number; durationSec: number }) => e.time < 0 || e.time + e.durationSec > duration
+
+  if (script.phases.length === 0) return 'Add at least one phase'
+  if (script.phases.some((p) => !p.name.trim())) return 'Every phase needs a name'
+  if (script.phases.some(badWindow)) return 'Each phase must end after it starts, within the session'
+  if (script.voiceCues.some((c) => c.time < 0 || c.time > duration)) return 'A voice cue falls outside the session'
+  if (script.voiceCues.some((c) => !c.chimeOnly && !c.text.trim())) return 'Every voice cue needs narration (or make it chime-only)'
+  if (script.samWindows?.some(badWindow)) return 'Each SAM window must end after it starts, within the session'
+  if (script.isochronicWindows?.some(badWindow)) return 'Each pulse window must end after it starts, within the session'
+  if (script.isochronicWindows?.some((w) => w.layers.length === 0)) return 'Each pulse window needs a layer'
+  if (script.carrierGainEvents?.some((e) => e.carrierIndex >= carrierCount)) return 'A layer fade targets a layer that no longer exists'
+  if (script.carrierGainEvents?.some(badEvent)) return 'A layer fade runs past the end of the session'
+  if (script.ambientEvents?.some(badEvent)) return 'An ambient fade runs past the end of the session'
+  if (script.resonantTuning && badWindow(script.resonantTuning)) return 'Resonant tuning must end after it starts, within the session'
+  if (script.rocketPanTime !== undefined && script.rocketPanTime > duration) return 'The rocket pan falls outside the session'
+  return null
+}
+
+/** Why the preset can't be saved yet, or null when it can */
+function presetProblem(
   name: string,
   duration: number,
   carriers: CarrierLayer[],
   envelope: FrequencyPoint[],
-): boolean {
-  if (!name.trim()) return false
-  if (duration < MIN_DURATION || duration > MAX_DURATION) return false
-  if (carriers.length < 1 || carriers.length > 4) return false
-  if (carriers.some((c) => c.carrierFreq < 20 || c.carrierFreq > 1000)) return false
-  if (envelope.length < 2 || envelope.length > 10) return false
-  if (envelope.some((p) => p.beatFreq < 0.5 || p.beatFreq > 100)) return false
-  if (envelope[0].time !== 0) return false
-  if (envelope[envelope.length - 1].time !== duration) return false
+  phases: PhaseMarkers,
+  hasReturnPhase: boolean,
+  guidanceScript: GuidanceScript | null,
+): string | null {
+  // Imported presets may sit outside the builder's own ranges, so check the file format's
+  const { carriers: carrierCount, carrierFreq, envelopePoints, beatFreq } = PRESET_LIMITS
+  const outside = (value: number, range: { min: number; max: number }) => value < range.min || value > range.max
+
+  if (!name.trim()) return 'Give the session a name'
+  if (name.length > PRESET_LIMITS.nameLength) return `Names can be up to ${PRESET_LIMITS.nameLength} characters`
+  if (outside(duration, PRESET_LIMITS.duration)) {
+    return `Sessions run ${PRESET_LIMITS.duration.min / 60}–${PRESET_LIMITS.duration.max / 60} minutes`
+  }
+  if (outside(carriers.length, carrierCount)) return `Use ${carrierCount.min}–${carrierCount.max} carrier layers`
+  if (carriers.some((c) => outside(c.carrierFreq, carrierFreq))) {
+    return `Carrier tones must be ${carrierFreq.min}–${carrierFreq.max} Hz`
+  }
+  if (outside(envelope.length, envelopePoints)) {
+    return `The envelope needs ${envelopePoints.min}–${envelopePoints.max} points (it has ${envelope.length})`
+  }
+  if (envelope.some((p) => outside(p.beatFreq, beatFreq))) {
+    return `Beat frequencies must be ${beatFreq.min}–${beatFreq.max} Hz`
+  }
+  if (envelope[0].time !== 0) return 'The envelope must start at 0:00'
+  if (envelope[envelope.length - 1].time !== duration) return 'The envelope must end with the session'
   for (let i = 1; i < envelope.length; i++) {
-    if (envelope[i].time <= envelope[i - 1].time) return false
+    if (envelope[i].time <= envelope[i - 1].time) return 'Envelope points must be in time order'
+  }
+  if (phases.inductionEnd < 0 || phases.inductionEnd > duration) return 'The induction must end within the session'
+  if (hasReturnPhase && phases.returnStart !== undefined) {
+    if (phases.returnStart <= phases.inductionEnd || phases.returnStart > duration) {
+      return 'The return phase must start after the induction, within the session'
+    }
   }
-  return true
+  return guidanceScript ? scriptProblem(guidanceScript, duration, carriers.length) : null
 }
 
 export function SessionBuilder({ editingPreset, onSave, onClose }: Props) {
@@ -92,11 +194,27 @@ export function SessionBuilder({ editingPreset, onSave, onClose }: Props) {
   const [ambientSound, setAmbientSound] = useState<AmbientSoundType>(editingPreset?.ambientSound ?? 'none')
   const [ambientVolume, setAmbientVolume] = useState(Math.round((editingPreset?.ambientVolume ?? 0.3) * 100))
   const [hasReturnPhase, setHasReturnPhase] = useState(editingPreset?.hasReturnPhase ?? true)
+  const [phases, setPhases] = useState<PhaseMarkers>(
+    () => editingPreset?.phases
+      ?? derivePhaseMarkers(editingPreset?.frequencyEnvelope ?? createDefaultEnvelope(1800), editingPreset?.duration ?? 1800),
+  )
+  const [habituation, setHabituation] = useState<HabituationConfig>(editingPreset?.habituation ?? DEFAULT_HABITUATION)
+  const [guidanceScript, setGuidanceScript] = useState<GuidanceScript | null>(editingPreset?.guidanceScript ?? null)
   const [isPreviewing, setIsPreviewing] = useState(false)
+  const [importError, setImportError] = useState<string | null>(null)
+  const importInputRef = useRef<HTMLInputElement>(null)
 
   const preview = usePreviewTone()
 
-  const valid = useMemo(() => isValid(name, duration, carriers, envelope), [name, duration, carriers, envelope])
+  const problem = useMemo(
+    () => presetProblem(name, duration, carriers, envelope, phases, hasReturnPhase, guidanceScript),
+    [name, duration, carriers, envelope, phases, hasReturnPhase, guidanceScript],
+  )
+  const valid = !problem
+  const guidanceProblem = useMemo(
+    () => guidanceScript && scriptProblem(guidanceScript, duration, carriers.length),
+    [guidanceScript, duration, carriers.length],
+  )
 
   // Close on Escape
   useEffect(() => {
@@ -113,6 +231,8 @@ export function SessionBuilder({ editingPreset, onSave, onClose }: Props) {
   const handleDurationChange = useCallback((newDuration: number) => {
     const clamped = Math.max(MIN_DURATION, Math.min(MAX_DURATION, newDuration))
     setEnvelope((prev) => scaleEnvelope(prev, duration, clamped))
+    setPhases((prev) => scalePhases(prev, duration, clamped))
+    setGuidanceScript((prev) => prev && scaleScript(prev, duration, clamped))
     setDuration(clamped)
   }, [duration])
 
@@ -124,12 +244,48 @@ export function SessionBuilder({ editingPreset, onSave, onClose }: Props) {
   const handleRemoveCarrier = useCallback((idx: number) => {
     if (carriers.length <= 1) return
     setCarriers((prev) => prev.filter((_, i) => i !== idx))
+    // Fades aimed at the removed layer go with it; later layers shift down
+    setGuidanceScript((prev) => prev && {
+      ...prev,
+      carrierGainEvents: prev.carrierGainEvents
+        ?.filter((e) => e.carrierIndex !== idx)
+        .map((e) => (e.carrierIndex > idx ? { ...e, carrierIndex: e.carrierIndex - 1 } : e)),
+    })
   }, [carriers.length])
 
   const handleCarrierChange = useCallback((idx: number, field: keyof CarrierLayer, value: number) => {
     setCarriers((prev) => prev.map((c, i) => (i === idx ? { ...c, [field]: value } : c)))
   }, [])
 
+  const handleBeatModeChange = useCallback((idx: number, mode: BeatMode) => {
+    setCarriers((prev) => prev.map((c, i) => {
+      if (i !== idx) return c
+      // Binaural is the default, so leave it implicit
+      if (mode === 'binaural') {
+        const { carrierFreq, gainDb, fixedBeatFreq } = c
+        return fixedBeatFreq === undefined ? { carrierFreq, gainDb } : { carrierFreq, gainDb, fixedBeatFreq }
+      }
+      return { ...c, beatMode: mode }
+    }))
+  }, [])
+
+  const handleReturnPhaseToggle = useCallback(() => {
+    // A return phase needs somewhere to start — fall back to the envelope's shape
+    if (!hasReturnPhase && phases.returnStart === undefined) {
+      const derived = derivePhaseMarkers(envelope, duration).returnStart ?? Math.round(duration * 0.85)
+      setPhases({ ...phases, returnStart: Math.min(Math.max(derived, phases.inductionEnd + 15), duration) })
+    }
+    setHasReturnPhase(!hasReturnPhase)
+  }, [hasReturnPhase, phases, envelope, duration])
+
+  const handleGuidedToggle = useCallback(() => {
+    setGuidanceScript((prev) => (prev ? null : createDefaultScript(duration, phases, hasReturnPhase)))
+  }, [duration, phases, hasReturnPhase])
+
+  const handleHabituationChange = useCallback((changes: Partial<HabituationConfig>) => {
+    setHabituation((prev) => ({ ...prev, ...changes }))
+  }, [])
+
   const handlePreview = useCallback(() => {
     if (isPreviewing) {
       preview.stop()
@@ -144,9 +300,11 @@ export function SessionBuilder({ editingPreset, onSave, onClose }: Props) {
         duration,
         carriers,
         frequencyEnvelope: envelope,
+        phases,
         noiseType,
         noiseVolume: noiseVolume / 100,
         hasReturnPhase,
+        habituation,
         isochronicAvailable: false,
         icon,
         color,
@@ -157,12 +315,9 @@ export function SessionBuilder({ editingPreset, onSave, onClose }: Props) {
       setIsPreviewing(true)
       setTimeout(() => setIsPreviewing(false), 5500)
     }
-  }, [isPreviewing, preview, envelope, duration, carriers, noiseType, noiseVolume, hasReturnPhase, icon, color])
-
-  const handleSave = useCallback(() => {
-    if (!valid) return
-    preview.stop()
+  }, [isPreviewing, preview, envelope, duration, carriers, noiseType, phases, noiseVolume, hasReturnPhase, habituation, icon, color])
 
+  const buildPreset = useCallback((): SessionPreset => {
     const targetBand = deriveBand(envelope)
     const minBeatFreq = envelope.reduce((min, p) => Math.min(min, p.beatFreq), Infinity)
 
@@ -175,18 +330,58 @@ export function SessionBuilder({ editingPreset, onSave, onClose }: Props) {
       duration,
       carriers,
       frequencyEnvelope: envelope,
+      phases,
       noiseType,
       noiseVolume: noiseVolume / 100,
       hasReturnPhase,
+      habituation,
       isochronicAvailable: minBeatFreq >= 8,
       icon,
       color,
       ambientSound,
       ambientVolume: ambientVolume / 100,
+      ...(guidanceScript ? { guidanceScript: sortScript(guidanceScript) } : {}),
     }
+    return preset
+  }, [editingPreset, name, description, duration, carriers, envelope, phases, noiseType, noiseVolume, hasReturnPhase, habituation, icon, color, ambientSound, ambientVolume, guidanceScript])
+
+  const handleSave = useCallback(() => {
+    if (!valid) return
+    preview.stop()
+    onSave(buildPreset())
+  }, [valid, preview, buildPreset, onSave])
 
-    onSave(preset)
-  }, [valid, preview, editingPreset, name, description, duration, carriers, envelope, noiseType, noiseVolume, hasReturnPhase, icon, color, ambientSound, ambientVolume, onSave])
+  const handleExport = useCallback(() => {
+    if (valid) downloadPresets([buildPreset()])
+  }, [valid, buildPreset])
+
+  /** Loads the first preset in a `.bbpreset.json` file into the form (keeping the id being edited) */
+  const handleImport = useCallback(async (file: File) => {
+    try {
+      const [imported] = await readPresetFile(file)
+      preview.stop()
+      setIsPreviewing(false)
+      setName(imported.name)
+      setDescription(imported.description)
+      setIcon(imported.icon)
+      setColor(imported.color)
+      setDuration(imported.duration)
+      setCarriers(imported.carriers)
+      setEnvelope(imported.frequencyEnvelope)
+      setNoiseType(imported.noiseType)
+      setNoiseVolume(Math.round(imported.noiseVolume * 100))
+      setAmbientSound(imported.ambientSound)
+      setAmbientVolume(Math.round(imported.ambientVolume * 100))
+      setHasReturnPhase(imported.hasReturnPhase)
+      setPhases(imported.phases ?? derivePhaseMarkers(imported.frequencyEnvelope, imported.duration))
+      setHabituation(imported.habituation ?? DEFAULT_HABITUATION)
+      setGuidanceScript(imported.guidanceScript ?? null)
+      setImportError(null)
+    } catch (err) {
+      if (!(err instanceof FileFormatError)) console.warn('Preset import failed:', err)
+      setImportError(err instanceof FileFormatError ? err.message : 'The file could not be imported')
+    }
+  }, [preview])
 
   return (
     <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center" role="dialog" aria-modal="true" aria-label={isEditing ? 'Edit Session' : 'Create Session'}>
@@ -228,7 +423,7 @@ export function SessionBuilder({ editingPreset, onSave, onClose }: Props) {
               value={name}
               onChange={(e) => setName(e.target.value)}
               placeholder="My Custom Session"
-              maxLength={50}
+              maxLength={PRESET_LIMITS.nameLength}
               className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm text-slate-100 placeholder-slate-600 outline-none focus:border-white/20 transition-colors"
             />
           </div>
@@ -249,7 +444,7 @@ export function SessionBuilder({ editingPreset, onSave, onClose }: Props) {
           <div>
             <label className="text-xs text-slate-500 block mb-2">Icon</label>
             <div className="flex gap-1.5 overflow-x-auto pb-1 scrollbar-none" style={{ scrollbarWidth: 'none' }}>
-              {EMOJI_OPTIONS.map((emoji) => (
+              {iconOptions.map((emoji) => (
                 <button
                   key={emoji}
                   onClick={() => setIcon(emoji)}
@@ -269,7 +464,7 @@ export function SessionBuilder({ editingPreset, onSave, onClose }: Props) {
           <div>
             <label className="text-xs text-slate-500 block mb-2">Color</label>
             <div className="flex gap-2">
-              {COLOR_OPTIONS.map((c) => (
+              {colorOptions.map((c) => (
                 <button
                   key={c}
                   onClick={() => setColor(c)}
@@ -376,6 +571,21 @@ export function SessionBuilder({ editingPreset, onSave, onClose }: Props) {
                         className="w-full"
                       />
                     </div>
+                    <div className="flex gap-1.5 overflow-x-auto scrollbar-none" style={{ scrollbarWidth: 'none' }}>
+                      {BEAT_MODES.map((m) => (
+                        <button
+                          key={m.id}
+                          onClick={() => handleBeatModeChange(idx, m.id)}
+                          className={`shrink-0 px-2.5 py-1 rounded-full text-[10px] font-medium transition-all ${
+                            (carrier.beatMode ?? 'binaural') === m.id
+                              ? 'bg-white/15 text-white border border-white/20'
+                              : 'text-slate-400 border border-white/5 hover:border-white/15'
+                          }`}
+                        >
+                          {m.label}
+                        </button>
+                      ))}
+                    </div>
                   </div>
                 </div>
               ))}
@@ -398,9 +608,98 @@ export function SessionBuilder({ editingPreset, onSave, onClose }: Props) {
               duration={duration}
               color={color}
               onChange={setEnvelope}
+              phases={phases}
+              showReturn={hasReturnPhase}
+              onPhasesChange={setPhases}
             />
           </div>
 
+          {/* ── Habituation ── */}
+          <div>
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <p className="text-sm text-slate-300">Habituation oscillation</p>
+                <p className="text-[10px] text-slate-500">Slowly wobble the beat around the envelope during the main phase</p>
+              </div>
+              <button
+                type="button"
+                role="switch"
+                aria-checked={habituation.enabled}
+                aria-label="Habituation oscillation"
+                onClick={() => handleHabituationChange({ enabled: !habituation.enabled })}
+                className={`w-10 h-6 rounded-full p-0.5 transition-colors cursor-pointer ${habituation.enabled ? 'bg-purple-500' : 'bg-white/10'}`}
+              >
+                <div
+                  className={`w-5 h-5 rounded-full bg-white transition-transform ${habituation.enabled ? 'translate-x-4' : 'translate-x-0'}`}
+                />
+              </button>
+            </div>
+            {habituation.enabled && (
+              <div className="glass rounded-xl p-4 mt-3 space-y-3">
+                <div className="flex gap-2">
+                  {(['sine', 'triangle'] as const).map((w) => (
+                    <button
+                      key={w}
+                      onClick={() => handleHabituationChange({ waveform: w })}
+                      className={`px-3 py-1.5 rounded-full text-xs font-medium transition-all ${
+                        habituation.waveform === w
+                          ? 'bg-white/15 text-white border border-white/20'
+                          : 'glass text-slate-400 border border-white/5 hover:border-white/15'
+                      }`}
+                    >
+                      {w.charAt(0).toUpperCase() + w.slice(1)}
+                    </button>
+                  ))}
+                </div>
+                <div>
+                  <div className="flex justify-between text-[10px] text-slate-500 mb-1">
+                    <span>Depth</span>
+                    <span>±{habituation.depth.toFixed(1)} Hz</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={0.1}
+                    max={2}
+                    step={0.1}
+                    value={habituation.depth}
+                    onChange={(e) => handleHabituationChange({ depth: Number(e.target.value) })}
+                    className="w-full"
+                  />
+                </div>
+                <div>
+                  <div className="flex justify-between text-[10px] text-slate-500 mb-1">
+                    <span>Period</span>
+                    <span>{habituation.period}s</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={10}
+                    max={180}
+                    step={5}
+                    value={habituation.period}
+                    onChange={(e) => handleHabituationChange({ period: Number(e.target.value) })}
+                    className="w-full"
+                  />
+                </div>
+                <div>
+                  <div className="flex justify-between text-[10px] text-slate-500 mb-1">
+                    <span>Random drift</span>
+                    <span>{habituation.drift ? `±${habituation.drift.toFixed(1)} Hz` : 'Off'}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.1}
+                    value={habituation.drift ?? 0}
+                    onChange={(e) => handleHabituationChange({ drift: Number(e.target.value) || undefined })}
+                    className="w-full"
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
           {/* ── Audio Settings ── */}
           <div>
             <label className="text-xs text-slate-500 block mb-2">Noise</label>
@@ -494,7 +793,7 @@ export function SessionBuilder({ editingPreset, onSave, onClose }: Props) {
               role="switch"
               aria-checked={hasReturnPhase}
               aria-label="Return phase"
-              onClick={() => setHasReturnPhase(!hasReturnPhase)}
+              onClick={handleReturnPhaseToggle}
               className={`w-10 h-6 rounded-full p-0.5 transition-colors cursor-pointer ${hasReturnPhase ? 'bg-purple-500' : 'bg-white/10'}`}
             >
               <div
@@ -503,7 +802,75 @@ export function SessionBuilder({ editingPreset, onSave, onClose }: Props) {
             </button>
           </div>
 
+          {/* ── Guided Script ── */}
+          <div>
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <p className="text-sm text-slate-300">Guided script</p>
+                <p className="text-[10px] text-slate-500">Voice cues, named phases and timed effects</p>
+              </div>
+              <button
+                type="button"
+                role="switch"
+                aria-checked={!!guidanceScript}
+                aria-label="Guided script"
+                onClick={handleGuidedToggle}
+                className={`w-10 h-6 rounded-full p-0.5 transition-colors cursor-pointer ${guidanceScript ? 'bg-purple-500' : 'bg-white/10'}`}
+              >
+                <div
+                  className={`w-5 h-5 rounded-full bg-white transition-transform ${guidanceScript ? 'translate-x-4' : 'translate-x-0'}`}
+                />
+              </button>
+            </div>
+            {guidanceScript && (
+              <div className="mt-3">
+                <GuidanceScriptEditor
+                  script={guidanceScript}
+                  duration={duration}
+                  color={color}
+                  carrierCount={carriers.length}
+                  onChange={setGuidanceScript}
+                  problem={guidanceProblem}
+                />
+              </div>
+            )}
+          </div>
+
+          {/* ── Preset file ── */}
+          <div>
+            <div className="flex items-center justify-end gap-3">
+              <button
+                onClick={() => importInputRef.current?.click()}
+                className="text-xs text-slate-500 hover:text-slate-300 transition-colors"
+              >
+                Import from file
+              </button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  e.target.value = ''
+                  if (file) handleImport(file)
+                }}
+              />
+              <button
+                onClick={handleExport}
+                disabled={!valid}
+                className="text-xs text-slate-500 hover:text-slate-300 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Export to file
+              </button>
+            </div>
+            {importError && (
+              <p className="text-[10px] text-red-300/80 mt-2 text-right break-words">{importError}</p>
+            )}
+          </div>
+
           {/* ── Footer ── */}
+          {problem && <p className="text-[10px] text-red-400/80 text-center">{problem}</p>}
           <div className="flex gap-3 pt-2">
             <button
               onClick={handlePreview}
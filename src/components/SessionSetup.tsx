@@ -1,9 +1,21 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
-import type { SessionPreset, SessionOptions, AmbientSoundType } from '../types'
-import { bandInfo } from '../presets'
+import type { SessionPreset, SessionOptions, AmbientSoundType, SelfRating } from '../types'
+import { bandInfo, cleanRating } from '../presets'
 import { FrequencySparkline } from './FrequencySparkline'
 import { usePreviewTone } from '../hooks/usePreviewTone'
+import { useAudioExport } from '../hooks/useAudioExport'
+import { SelfRatingFields } from './SelfRatingFields'
+import type { ExportFormat } from '../audio/OfflineRenderer'
 import { ambientSounds } from '../audio/ambientSounds'
+import { isSpeakerSafe, speakerVariant } from '../audio/speakerMode'
+import {
+  supportsSleepMode,
+  DEFAULT_SLEEP_MODE,
+  DEFAULT_WAKE_ALARM,
+  SLEEP_LENGTHS,
+  SLEEP_AMBIENT_ONLY_OPTIONS,
+  ALARM_RAMP_OPTIONS,
+} from '../audio/sleepMode'
 
 function formatPhaseTime(seconds: number): string {
   const m = Math.floor(seconds / 60)
@@ -14,7 +26,10 @@ function formatPhaseTime(seconds: number): string {
 interface Props {
   preset: SessionPreset
   onClose: () => void
-  onBegin: (preset: SessionPreset, options: SessionOptions) => void
+  /** `preRating` is the optional check-in, to be stored with the completed session */
+  onBegin: (preset: SessionPreset, options: SessionOptions, preRating?: SelfRating) => void
+  /** Set for a preset opened from a share link — offers to keep it. Returns whether it was saved. */
+  onSaveToPresets?: (preset: SessionPreset) => boolean
 }
 
 function formatDuration(seconds: number): string {
@@ -22,15 +37,39 @@ function formatDuration(seconds: number): string {
   return `${mins} min`
 }
 
-export function SessionSetup({ preset, onClose, onBegin }: Props) {
+function formatMinutes(minutes: number): string {
+  return minutes % 60 === 0 ? `${minutes / 60} h` : `${minutes} min`
+}
+
+function formatClockTime(time: string): string {
+  const [hours, minutes] = time.split(':').map(Number)
+  return new Date(2000, 0, 1, hours, minutes).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })
+}
+
+export function SessionSetup({ preset, onClose, onBegin, onSaveToPresets }: Props) {
   const [volume, setVolume] = useState(70)
   const [isochronicEnabled, setIsochronicEnabled] = useState(false)
   const [breathingGuideEnabled, setBreathingGuideEnabled] = useState(false)
+  const [speakerMode, setSpeakerMode] = useState(false)
+  const speakerSafe = isSpeakerSafe(preset)
+  const sleepCapable = supportsSleepMode(preset)
+  const [sleepEnabled, setSleepEnabled] = useState(false)
+  const [sleepMode, setSleepMode] = useState(DEFAULT_SLEEP_MODE)
+  const [alarmEnabled, setAlarmEnabled] = useState(false)
+  const [alarm, setAlarm] = useState(DEFAULT_WAKE_ALARM)
   const [isPreviewing, setIsPreviewing] = useState(false)
   const [ambientSound, setAmbientSound] = useState<AmbientSoundType>(preset.ambientSound)
   const [ambientVolume, setAmbientVolume] = useState(Math.round(preset.ambientVolume * 100))
   const band = bandInfo[preset.targetBand]
+  // Ambient-only playback needs something besides the beats to keep playing
+  const hasBackground = ambientSound !== 'none' || preset.noiseType !== 'none'
+  const sleepLengths = SLEEP_LENGTHS.filter((m) => m * 60 > preset.duration)
   const preview = usePreviewTone()
+  const audioExport = useAudioExport()
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('flac')
+  const [savedToPresets, setSavedToPresets] = useState(false)
+  const [showCheckIn, setShowCheckIn] = useState(false)
+  const [preRating, setPreRating] = useState<SelfRating>({})
 
   // Voice settings for guided sessions
   const isGuided = !!preset.guidanceScript
@@ -84,6 +123,25 @@ export function SessionSetup({ preset, onClose, onBegin }: Props) {
       ambientSound,
       ambientVolume: ambientVolume / 100,
       voiceEnabled: isGuided ? voiceEnabled : undefined,
+      speakerMode: speakerSafe && speakerMode,
+      sleepMode: sleepCapable && sleepEnabled
+        ? {
+          ...sleepMode,
+          ambientOnlyAfter: hasBackground ? sleepMode.ambientOnlyAfter : null,
+          alarm: alarmEnabled ? alarm : null,
+        }
+        : undefined,
+    }, cleanRating(preRating))
+  }
+
+  const handleExport = () => {
+    audioExport.exportPreset(preset, {
+      format: exportFormat,
+      volume: volume / 100,
+      isochronicEnabled,
+      ambientSound,
+      ambientVolume: ambientVolume / 100,
+      voiceEnabled: isGuided ? voiceEnabled : undefined,
     })
   }
 
@@ -92,12 +150,12 @@ export function SessionSetup({ preset, onClose, onBegin }: Props) {
       preview.stop()
       setIsPreviewing(false)
     } else {
-      preview.play(preset, volume / 100)
+      preview.play(speakerMode ? speakerVariant(preset) : preset, volume / 100)
       setIsPreviewing(true)
       // Auto-reset after preview duration
       setTimeout(() => setIsPreviewing(false), 5500)
     }
-  }, [isPreviewing, preset, volume, preview])
+  }, [isPreviewing, preset, volume, preview, speakerMode])
 
   // Close on Escape key
   useEffect(() => {
@@ -141,6 +199,25 @@ export function SessionSetup({ preset, onClose, onBegin }: Props) {
 
           <p className="text-sm text-slate-400 leading-relaxed mb-6">{preset.description}</p>
 
+          {/* Shared session */}
+          {onSaveToPresets && (
+            <div className="rounded-2xl p-4 mb-5 flex items-center justify-between gap-3" style={{ background: 'rgba(255,255,255,0.03)' }}>
+              <div>
+                <p className="text-sm text-slate-300">Shared session</p>
+                <p className="text-[10px] text-slate-500">Someone sent you this session as a link</p>
+              </div>
+              <button
+                onClick={() => {
+                  if (onSaveToPresets(preset)) setSavedToPresets(true)
+                }}
+                disabled={savedToPresets}
+                className="shrink-0 px-4 py-2 rounded-xl text-xs font-medium text-white bg-white/10 hover:bg-white/15 transition-colors disabled:opacity-60 disabled:cursor-default"
+              >
+                {savedToPresets ? 'Saved' : 'Save to My Sessions'}
+              </button>
+            </div>
+          )}
+
           {/* Frequency journey */}
           <div className="rounded-2xl p-4 mb-5" style={{ background: 'rgba(255,255,255,0.03)' }}>
             <p className="text-[10px] uppercase tracking-widest text-slate-500 mb-3">Frequency Journey</p>
@@ -253,7 +330,15 @@ export function SessionSetup({ preset, onClose, onBegin }: Props) {
 
           {/* Toggles */}
           <div className="space-y-3 mb-6">
-            {preset.isochronicAvailable && (
+            {speakerSafe && (
+              <Toggle
+                label="Speaker mode"
+                description="No headphones? Plays monaural beats with soft isochronic pulses instead"
+                checked={speakerMode}
+                onChange={setSpeakerMode}
+              />
+            )}
+            {preset.isochronicAvailable && !speakerMode && (
               <Toggle
                 label="Isochronic tones"
                 description="Adds pulsed tones for stronger cortical response"
@@ -267,8 +352,104 @@ export function SessionSetup({ preset, onClose, onBegin }: Props) {
               checked={breathingGuideEnabled}
               onChange={setBreathingGuideEnabled}
             />
+            {sleepCapable && (
+              <Toggle
+                label="Sleep mode"
+                description="Keeps playing overnight at a falling volume, then stops gently. The screen can turn off."
+                checked={sleepEnabled}
+                onChange={setSleepEnabled}
+              />
+            )}
           </div>
 
+          {/* Sleep mode */}
+          {sleepCapable && sleepEnabled && (
+            <div className="rounded-2xl p-4 mb-5" style={{ background: 'rgba(255,255,255,0.03)' }}>
+              <p className="text-[10px] uppercase tracking-widest text-slate-500 mb-3">Sleep Mode</p>
+              {alarmEnabled ? (
+                <p className="text-xs text-slate-500 mb-2">Plays until the alarm at {formatClockTime(alarm.time)}</p>
+              ) : (
+                <>
+                  <p className="text-xs text-slate-500 mb-2">Total length</p>
+                  <div className="flex flex-wrap gap-2 mb-2">
+                    {sleepLengths.map((minutes) => (
+                      <OptionPill
+                        key={minutes}
+                        label={formatMinutes(minutes)}
+                        active={sleepMode.totalMinutes === minutes}
+                        onClick={() => setSleepMode({ ...sleepMode, totalMinutes: minutes })}
+                      />
+                    ))}
+                  </div>
+                </>
+              )}
+              <p className="text-[10px] text-slate-600 mb-4">
+                After {formatDuration(preset.duration)}, the final {preset.frequencyEnvelope[preset.frequencyEnvelope.length - 1].beatFreq} Hz beat is held while the volume slowly falls.
+              </p>
+              {hasBackground && (
+                <>
+                  <p className="text-xs text-slate-500 mb-2">Ambient sound and noise only after</p>
+                  <div className="flex flex-wrap gap-2">
+                    <OptionPill
+                      label="Never"
+                      active={sleepMode.ambientOnlyAfter === null}
+                      onClick={() => setSleepMode({ ...sleepMode, ambientOnlyAfter: null })}
+                    />
+                    {SLEEP_AMBIENT_ONLY_OPTIONS.map((minutes) => (
+                      <OptionPill
+                        key={minutes}
+                        label={formatMinutes(minutes)}
+                        active={sleepMode.ambientOnlyAfter === minutes}
+                        onClick={() => setSleepMode({ ...sleepMode, ambientOnlyAfter: minutes })}
+                      />
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Wake-up alarm */}
+          {sleepCapable && sleepEnabled && (
+            <div className="rounded-2xl p-4 mb-5" style={{ background: 'rgba(255,255,255,0.03)' }}>
+              <p className="text-[10px] uppercase tracking-widest text-slate-500 mb-3">Alarm</p>
+              <Toggle
+                label="Wake-up alarm"
+                description="Rises from delta through theta and alpha into beta, getting louder, then chimes"
+                checked={alarmEnabled}
+                onChange={setAlarmEnabled}
+              />
+              {alarmEnabled && (
+                <div className="mt-4">
+                  <div className="flex items-center justify-between gap-3 mb-4">
+                    <label htmlFor="alarm-time" className="text-xs text-slate-500">Wake at</label>
+                    <input
+                      id="alarm-time"
+                      type="time"
+                      value={alarm.time}
+                      onChange={(e) => e.target.value && setAlarm({ ...alarm, time: e.target.value })}
+                      className="bg-white/5 border border-white/10 rounded-xl px-3 py-1.5 text-sm text-slate-100 outline-none focus:border-white/20 transition-colors [color-scheme:dark]"
+                    />
+                  </div>
+                  <p className="text-xs text-slate-500 mb-2">Wake-up rise</p>
+                  <div className="flex flex-wrap gap-2">
+                    {ALARM_RAMP_OPTIONS.map((minutes) => (
+                      <OptionPill
+                        key={minutes}
+                        label={formatMinutes(minutes)}
+                        active={alarm.rampMinutes === minutes}
+                        onClick={() => setAlarm({ ...alarm, rampMinutes: minutes })}
+                      />
+                    ))}
+                  </div>
+                  <p className="text-[10px] text-slate-600 mt-2">
+                    Keep the app open (the screen can be off). Snooze or stop from the player or your lock screen.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Guided session: Phase timeline */}
           {isGuided && preset.guidanceScript && (
             <div className="rounded-2xl p-4 mb-5" style={{ background: 'rgba(255,255,255,0.03)' }}>
@@ -294,7 +475,9 @@ export function SessionSetup({ preset, onClose, onBegin }: Props) {
               <div className="flex items-center justify-between gap-3 mb-3">
                 <div>
                   <span className="text-xs text-slate-300">Voice narration</span>
-                  <p className="text-[10px] text-slate-500">Neural voice (pre-recorded)</p>
+                  <p className="text-[10px] text-slate-500">
+                    {preset.category === 'custom' ? 'Live voice (choose it in Settings)' : 'Neural voice (pre-recorded)'}
+                  </p>
                 </div>
                 <button
                   type="button"
@@ -308,7 +491,7 @@ export function SessionSetup({ preset, onClose, onBegin }: Props) {
                 </button>
               </div>
 
-              {voiceEnabled && (
+              {voiceEnabled && preset.category !== 'custom' && (
                 <button
                   onClick={handlePreviewVoice}
                   disabled={isPreviewingVoice}
@@ -320,6 +503,95 @@ export function SessionSetup({ preset, onClose, onBegin }: Props) {
             </div>
           )}
 
+          {/* Offline export */}
+          <div className="rounded-2xl p-4 mb-5" style={{ background: 'rgba(255,255,255,0.03)' }}>
+            <p className="text-[10px] uppercase tracking-widest text-slate-500 mb-3">Export Audio</p>
+            <p className="text-[10px] text-slate-500 mb-3">
+              Render the full session with your current settings for playback outside the app.
+            </p>
+
+            {audioExport.status === 'rendering' ? (
+              <div>
+                <div className="flex justify-between text-xs text-slate-500 mb-2">
+                  <span>Rendering…</span>
+                  <span>{Math.round(audioExport.progress * 100)}%</span>
+                </div>
+                <div className="h-1.5 rounded-full bg-white/10 overflow-hidden mb-3">
+                  <div
+                    className="h-full rounded-full transition-[width] duration-300"
+                    style={{ width: `${audioExport.progress * 100}%`, background: preset.color }}
+                  />
+                </div>
+                <button
+                  onClick={audioExport.cancel}
+                  className="w-full py-2 rounded-xl text-xs font-medium text-slate-400 border border-white/10 hover:border-white/20 transition-colors"
+                >
+                  Cancel Export
+                </button>
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                {(['flac', 'wav'] as const).map((format) => (
+                  <button
+                    key={format}
+                    onClick={() => setExportFormat(format)}
+                    className={`px-3 py-2 rounded-xl text-xs font-medium transition-all ${
+                      exportFormat === format
+                        ? 'bg-white/15 text-white border border-white/20'
+                        : 'text-slate-400 border border-white/5 hover:border-white/15'
+                    }`}
+                  >
+                    {format.toUpperCase()}
+                  </button>
+                ))}
+                <button
+                  onClick={handleExport}
+                  className="flex-1 py-2 rounded-xl text-xs font-medium text-slate-300 border border-white/10 hover:border-white/20 transition-colors"
+                >
+                  Download
+                </button>
+              </div>
+            )}
+
+            {audioExport.status === 'done' && (
+              <p className="text-[10px] text-slate-500 mt-2">Export complete</p>
+            )}
+            {audioExport.status === 'error' && (
+              <p className="text-[10px] text-red-400/80 mt-2">Export failed — please try again</p>
+            )}
+          </div>
+
+          {/* Pre-session check-in */}
+          <div className="rounded-2xl p-4 mb-5" style={{ background: 'rgba(255,255,255,0.03)' }}>
+            <button
+              onClick={() => setShowCheckIn(!showCheckIn)}
+              className="w-full flex items-center justify-between text-left"
+              aria-expanded={showCheckIn}
+            >
+              <div>
+                <p className="text-[10px] uppercase tracking-widest text-slate-500">Check In</p>
+                <p className="text-[10px] text-slate-500 mt-1">Rate how you feel now to compare afterwards (optional)</p>
+              </div>
+              <svg
+                width="12"
+                height="12"
+                viewBox="0 0 12 12"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="1.5"
+                strokeLinecap="round"
+                className={`text-slate-500 shrink-0 transition-transform ${showCheckIn ? 'rotate-180' : ''}`}
+              >
+                <path d="M2 4l4 4 4-4" />
+              </svg>
+            </button>
+            {showCheckIn && (
+              <div className="mt-4">
+                <SelfRatingFields value={preRating} onChange={setPreRating} color={preset.color} />
+              </div>
+            )}
+          </div>
+
           {/* Headphone notice */}
           <div className="flex items-center gap-2 mb-6 text-slate-500">
             <svg width="14" height="14" viewBox="0 0 16 16" fill="none" className="shrink-0">
@@ -357,6 +629,21 @@ function DetailPill({ label, value }: { label: string; value: string }) {
   )
 }
 
+function OptionPill({ label, active, onClick }: { label: string; active: boolean; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      className={`px-3 py-1.5 rounded-full text-xs font-medium transition-all ${
+        active
+          ? 'bg-white/15 text-white border border-white/20'
+          : 'glass text-slate-400 border border-white/5 hover:border-white/15'
+      }`}
+    >
+      {label}
+    </button>
+  )
+}
+
 function Toggle({
   label,
   description,
@@ -0,0 +1,339 @@
+import { useEffect, useCallback, useRef } from 'react'
+import type { UserPreferences, NarrationSettings, StreakRules } from '../types'
+import { useSpeechVoices } from '../hooks/useSpeechVoices'
+import { useBackup } from '../hooks/useBackup'
+import { createUtterance } from '../audio/VoiceCueEngine'
+
+interface Props {
+  preferences: UserPreferences
+  onChange: (partial: Partial<UserPreferences>) => void
+  onClose: () => void
+}
+
+const SAMPLE_TEXT = 'Let your body relax, and allow your mind to follow the sound.'
+
+const MIN_MINUTES_OPTIONS = [0, 5, 10, 15, 20, 30]
+const REST_DAY_OPTIONS = [0, 1, 2, 3]
+const FREEZE_OPTIONS = [0, 1, 2, 3, 4]
+
+export function SettingsSheet({ preferences, onChange, onClose }: Props) {
+  const narration = preferences.narration
+  const { voices, isSupported } = useSpeechVoices()
+  const backup = useBackup()
+  const restoreInputRef = useRef<HTMLInputElement>(null)
+
+  const updateNarration = useCallback(
+    (partial: Partial<NarrationSettings>) => {
+      onChange({ narration: { ...narration, ...partial } })
+    },
+    [narration, onChange],
+  )
+
+  const updateStreakRules = useCallback(
+    (partial: Partial<StreakRules>) => {
+      onChange({ streakRules: { ...preferences.streakRules, ...partial } })
+    },
+    [preferences.streakRules, onChange],
+  )
+
+  const handleTestVoice = useCallback(() => {
+    if (!isSupported) return
+    try {
+      speechSynthesis.cancel()
+      speechSynthesis.speak(createUtterance(SAMPLE_TEXT, narration, 0.8))
+    } catch { /* silent fail */ }
+  }, [isSupported, narration])
+
+  const handleClose = useCallback(() => {
+    if (isSupported) speechSynthesis.cancel()
+    onClose()
+  }, [isSupported, onClose])
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') handleClose()
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [handleClose])
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center" role="dialog" aria-modal="true" aria-label="Settings">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/60 animate-fade-in" onClick={handleClose} />
+
+      {/* Sheet */}
+      <div className="relative w-full max-w-md sm:rounded-3xl rounded-t-3xl glass animate-slide-up overflow-y-auto max-h-[85dvh]">
+        {/* Drag handle (mobile) */}
+        <div className="flex justify-center pt-3 pb-1 sm:hidden">
+          <div className="w-8 h-1 rounded-full bg-white/20" />
+        </div>
+
+        <div className="px-6 pb-6 pt-4 space-y-5">
+          {/* Header */}
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-medium text-slate-100">Settings</h2>
+            <button
+              onClick={handleClose}
+              className="w-8 h-8 rounded-full flex items-center justify-center text-slate-400 hover:text-white transition-colors hover:bg-white/10"
+              aria-label="Close"
+            >
+              <svg width="16" height="16" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round">
+                <path d="M4 4l8 8M12 4l-8 8" />
+              </svg>
+            </button>
+          </div>
+
+          {/* ── Live narration ── */}
+          <div className="rounded-2xl p-4" style={{ background: 'rgba(255,255,255,0.03)' }}>
+            <p className="text-[10px] uppercase tracking-widest text-slate-500 mb-1">Live Narration</p>
+            <p className="text-[10px] text-slate-500 mb-4">
+              Your device's speech voice, used for guided sessions without recorded narration.
+            </p>
+
+            {!isSupported ? (
+              <p className="text-xs text-slate-400">Speech synthesis isn't available in this browser.</p>
+            ) : (
+              <div className="space-y-4">
+                <div>
+                  <label htmlFor="narration-voice" className="text-xs text-slate-500 block mb-2">Voice</label>
+                  <select
+                    id="narration-voice"
+                    value={narration.voiceURI ?? ''}
+                    onChange={(e) => updateNarration({ voiceURI: e.target.value || null })}
+                    className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm text-slate-100 outline-none focus:border-white/20 transition-colors"
+                  >
+                    <option value="">Browser default</option>
+                    {voices.map((voice) => (
+                      <option key={voice.voiceURI} value={voice.voiceURI}>
+                        {voice.name} ({voice.lang})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <div className="flex justify-between text-xs text-slate-500 mb-2">
+                    <span>Rate</span>
+                    <span>{narration.rate.toFixed(2)}×</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={0.5}
+                    max={1.5}
+                    step={0.05}
+                    value={narration.rate}
+                    onChange={(e) => updateNarration({ rate: Number(e.target.value) })}
+                    className="w-full"
+                  />
+                </div>
+
+                <div>
+                  <div className="flex justify-between text-xs text-slate-500 mb-2">
+                    <span>Pitch</span>
+                    <span>{narration.pitch.toFixed(2)}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={0.5}
+                    max={1.5}
+                    step={0.02}
+                    value={narration.pitch}
+                    onChange={(e) => updateNarration({ pitch: Number(e.target.value) })}
+                    className="w-full"
+                  />
+                </div>
+
+                <button
+                  onClick={handleTestVoice}
+                  className="w-full py-2 rounded-xl text-xs font-medium text-slate-400 border border-white/10 hover:border-white/20 transition-colors"
+                >
+                  Test Voice
+                </button>
+
+                <div className="flex items-center justify-between gap-3">
+                  <div>
+                    <p className="text-sm text-slate-300">Always use live voice</p>
+                    <p className="text-[10px] text-slate-500">Narrate custom sessions that have no recordings</p>
+                  </div>
+                  <button
+                    type="button"
+                    role="switch"
+                    aria-checked={narration.liveForUnrecorded}
+                    aria-label="Always use live voice"
+                    onClick={() => updateNarration({ liveForUnrecorded: !narration.liveForUnrecorded })}
+                    className={`w-10 h-6 rounded-full p-0.5 transition-colors cursor-pointer shrink-0 ${narration.liveForUnrecorded ? 'bg-purple-500' : 'bg-white/10'}`}
+                  >
+                    <div
+                      className={`w-5 h-5 rounded-full bg-white transition-transform ${narration.liveForUnrecorded ? 'translate-x-4' : 'translate-x-0'}`}
+                    />
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* ── Streaks ── */}
+          <div className="rounded-2xl p-4" style={{ background: 'rgba(255,255,255,0.03)' }}>
+            <p className="text-[10px] uppercase tracking-widest text-slate-500 mb-1">Streaks</p>
+            <p className="text-[10px] text-slate-500 mb-4">
+              What counts as a day of practice. Changes are applied to your whole history.
+            </p>
+
+            <div className="space-y-4">
+              <OptionRow
+                label="Minimum per day"
+                options={MIN_MINUTES_OPTIONS}
+                value={preferences.streakRules.minMinutesPerDay}
+                format={(n) => (n === 0 ? 'Any' : `${n}m`)}
+                onSelect={(minMinutesPerDay) => updateStreakRules({ minMinutesPerDay })}
+              />
+              <OptionRow
+                label="Rest days per week"
+                options={REST_DAY_OPTIONS}
+                value={preferences.streakRules.restDaysPerWeek}
+                onSelect={(restDaysPerWeek) => updateStreakRules({ restDaysPerWeek })}
+              />
+              <OptionRow
+                label="Freezes per month"
+                hint="Cover missed days once rest days are used up"
+                options={FREEZE_OPTIONS}
+                value={preferences.streakRules.freezesPerMonth}
+                onSelect={(freezesPerMonth) => updateStreakRules({ freezesPerMonth })}
+              />
+
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <p className="text-sm text-slate-300">Count sessions ended early</p>
+                  <p className="text-[10px] text-slate-500">Their minutes count toward the day</p>
+                </div>
+                <button
+                  type="button"
+                  role="switch"
+                  aria-checked={preferences.streakRules.countPartialSessions}
+                  aria-label="Count sessions ended early"
+                  onClick={() => updateStreakRules({ countPartialSessions: !preferences.streakRules.countPartialSessions })}
+                  className={`w-10 h-6 rounded-full p-0.5 transition-colors cursor-pointer shrink-0 ${preferences.streakRules.countPartialSessions ? 'bg-purple-500' : 'bg-white/10'}`}
+                >
+                  <div
+                    className={`w-5 h-5 rounded-full bg-white transition-transform ${preferences.streakRules.countPartialSessions ? 'translate-x-4' : 'translate-x-0'}`}
+                  />
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {/* ── Backup ── */}
+          <div className="rounded-2xl p-4" style={{ background: 'rgba(255,255,255,0.03)' }}>
+            <p className="text-[10px] uppercase tracking-widest text-slate-500 mb-1">Backup</p>
+            <p className="text-[10px] text-slate-500 mb-4">
+              Your history, streaks, journeys, settings and custom sessions live only on this device.
+              Save a backup file to keep them safe or move them to another device.
+            </p>
+
+            {backup.pending ? (
+              <div className="space-y-3">
+                <p className="text-xs text-slate-300">
+                  Backup from {formatBackupDate(backup.pending.exportedAt)}: {backup.pending.data.sessions.length} sessions,{' '}
+                  {backup.pending.data.customPresets.length} custom presets.
+                </p>
+                <p className="text-[10px] text-slate-500">
+                  Merge adds it to what's on this device. Replace swaps this device's data for the backup.
+                </p>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => backup.restore('merge')}
+                    className="flex-1 py-2 rounded-xl text-xs font-medium text-white bg-white/10 hover:bg-white/15 transition-colors"
+                  >
+                    Merge
+                  </button>
+                  <button
+                    onClick={() => backup.restore('replace')}
+                    className="flex-1 py-2 rounded-xl text-xs font-medium text-red-300 bg-red-500/10 hover:bg-red-500/20 transition-colors"
+                  >
+                    Replace
+                  </button>
+                </div>
+                <button
+                  onClick={backup.cancel}
+                  className="w-full py-2 rounded-xl text-xs font-medium text-slate-400 border border-white/10 hover:border-white/20 transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                <button
+                  onClick={backup.exportBackup}
+                  className="flex-1 py-2 rounded-xl text-xs font-medium text-slate-400 border border-white/10 hover:border-white/20 transition-colors"
+                >
+                  Export Backup
+                </button>
+                <button
+                  onClick={() => restoreInputRef.current?.click()}
+                  className="flex-1 py-2 rounded-xl text-xs font-medium text-slate-400 border border-white/10 hover:border-white/20 transition-colors"
+                >
+                  Restore…
+                </button>
+                <input
+                  ref={restoreInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0]
+                    e.target.value = ''
+                    if (file) backup.loadFile(file)
+                  }}
+                />
+              </div>
+            )}
+            {backup.error && (
+              <p className="text-[10px] text-red-300/80 mt-2 break-words">{backup.error}</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function OptionRow({ label, hint, options, value, format = String, onSelect }: {
+  label: string
+  hint?: string
+  options: number[]
+  value: number
+  format?: (value: number) => string
+  onSelect: (value: number) => void
+}) {
+  return (
+    <div>
+      <p className="text-xs text-slate-500 mb-2">{label}</p>
+      <div className="flex gap-1.5" role="radiogroup" aria-label={label}>
+        {options.map((option) => (
+          <button
+            key={option}
+            type="button"
+            role="radio"
+            aria-checked={value === option}
+            onClick={() => onSelect(option)}
+            className={`flex-1 py-1.5 rounded-xl text-xs transition-colors border ${
+              value === option ? 'bg-white/15 text-white border-white/20' : 'text-slate-400 border-white/10 hover:border-white/20'
+            }`}
+          >
+            {format(option)}
+          </button>
+        ))}
+      </div>
+      {hint && <p className="text-[10px] text-slate-600 mt-1">{hint}</p>}
+    </div>
+  )
+}
+
+function formatBackupDate(iso: string): string {
+  const date = new Date(iso)
+  return Number.isNaN(date.getTime())
+    ? 'an unknown date'
+    : date.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' })
+}
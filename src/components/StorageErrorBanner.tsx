@@ -0,0 +1,24 @@
+interface Props {
+  message: string
+  onDismiss: () => void
+}
+
+/** Tells the user a save to storage failed, so lost data isn't a surprise later */
+export function StorageErrorBanner({ message, onDismiss }: Props) {
+  return (
+    <div className="fixed top-0 inset-x-0 z-[70] flex justify-center px-4 pt-4 safe-top pointer-events-none" role="alert">
+      <div className="pointer-events-auto glass rounded-2xl pl-4 pr-2 py-2 max-w-md w-full flex items-center gap-3 shadow-xl animate-fade-in border border-red-400/20">
+        <p className="flex-1 text-xs text-red-200">{message}</p>
+        <button
+          onClick={onDismiss}
+          className="w-8 h-8 shrink-0 rounded-full flex items-center justify-center text-slate-400 hover:text-white transition-colors hover:bg-white/10"
+          aria-label="Dismiss"
+        >
+          <svg width="12" height="12" viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round">
+            <path d="M4 4l8 8M12 4l-8 8" />
+          </svg>
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+import type { UserStats, UserPreferences } from './types'
+import { DEFAULT_NARRATION } from './audio/VoiceCueEngine'
+import { DEFAULT_STREAK_RULES } from './streaks'
+
+/**
+ * Starting values and size limits for what the app keeps on the device,
+ * shared by the hooks that keep it and the backup format that carries it.
+ */
+
+export const DEFAULT_STATS: UserStats = {
+  totalSessions: 0,
+  totalMinutes: 0,
+  currentStreak: 0,
+  longestStreak: 0,
+  lastSessionDate: null,
+}
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  favorites: [],
+  hapticEnabled: false,
+  reducedMotion: false,
+  narration: DEFAULT_NARRATION,
+  streakRules: DEFAULT_STREAK_RULES,
+}
+
+/** Preferences saved before a field existed pick up its default */
+export function withDefaultPreferences(stored: Partial<UserPreferences> = {}): UserPreferences {
+  return {
+    ...DEFAULT_PREFERENCES,
+    ...stored,
+    narration: { ...DEFAULT_NARRATION, ...stored.narration },
+    streakRules: { ...DEFAULT_STREAK_RULES, ...stored.streakRules },
+  }
+}
+
+export const MAX_CUSTOM_PRESETS = 50
+export const MAX_CUSTOM_JOURNEYS = 20
+export const MAX_JOURNEY_DAYS = 30
+
+/** Journey progress records — one per journey started, built-in or custom, including deleted ones */
+export const MAX_JOURNEY_PROGRESS = 100
@@ -0,0 +1,106 @@
+/**
+ * Field readers for the app's JSON file formats (preset files, share links,
+ * backups). Each reader checks one field and throws FileFormatError with a
+ * path to it, e.g. `presets[0].carriers[1].carrierFreq`, so a bad file can
+ * be explained rather than just rejected.
+ */
+
+export type Json = Record<string, unknown>
+
+/** A file that can't be read. `path` points at the offending field. */
+export class FileFormatError extends Error {
+  readonly path: string
+
+  constructor(message: string, path = '') {
+    super(path ? `${path}: ${message}` : message)
+    this.name = 'FileFormatError'
+    this.path = path
+  }
+}
+
+/** Reads a picked file as text, refusing anything over `maxBytes` */
+export async function readFileText(file: File, maxBytes: number): Promise<string> {
+  if (file.size > maxBytes) throw new FileFormatError('The file is too large')
+  try {
+    return await file.text()
+  } catch {
+    throw new FileFormatError('The file could not be read')
+  }
+}
+
+/** Parses JSON, turning a syntax error into a FileFormatError */
+export function parseJSON(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    throw new FileFormatError('The file is not valid JSON')
+  }
+}
+
+export function join(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`
+  return path ? `${path}.${key}` : key
+}
+
+export function asObject(value: unknown, path: string): Json {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new FileFormatError('Expected an object', path)
+  }
+  return value as Json
+}
+
+export function object(obj: Json, key: string, path: string): Json {
+  return asObject(obj[key], join(path, key))
+}
+
+export function number(obj: Json, key: string, path: string, range: { min?: number; max?: number } = {}): number {
+  const value = obj[key]
+  const at = join(path, key)
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new FileFormatError('Expected a number', at)
+  if (range.min !== undefined && value < range.min) throw new FileFormatError(`Must be at least ${range.min}`, at)
+  if (range.max !== undefined && value > range.max) throw new FileFormatError(`Must be at most ${range.max}`, at)
+  return value
+}
+
+export function string(obj: Json, key: string, path: string, options: { nonEmpty?: boolean; maxLength?: number } = {}): string {
+  const value = obj[key]
+  const at = join(path, key)
+  if (typeof value !== 'string') throw new FileFormatError('Expected a string', at)
+  if (options.nonEmpty && !value.trim()) throw new FileFormatError('Must not be empty', at)
+  if (options.maxLength !== undefined && value.length > options.maxLength) {
+    throw new FileFormatError(`Must be at most ${options.maxLength} characters`, at)
+  }
+  return value
+}
+
+export function boolean(obj: Json, key: string, path: string): boolean {
+  const value = obj[key]
+  if (typeof value !== 'boolean') throw new FileFormatError('Expected true or false', join(path, key))
+  return value
+}
+
+export function oneOf<T extends string>(obj: Json, key: string, path: string, options: readonly T[]): T {
+  const value = obj[key]
+  if (typeof value !== 'string' || !(options as readonly string[]).includes(value)) {
+    throw new FileFormatError(`Expected one of ${options.map((o) => `"${o}"`).join(', ')}`, join(path, key))
+  }
+  return value as T
+}
+
+export function array(obj: Json, key: string, path: string, size: { min?: number; max?: number } = {}): unknown[] {
+  const value = obj[key]
+  const at = join(path, key)
+  if (!Array.isArray(value)) throw new FileFormatError('Expected a list', at)
+  if (size.min !== undefined && value.length < size.min) throw new FileFormatError(`Needs at least ${size.min} item(s)`, at)
+  if (size.max !== undefined && value.length > size.max) throw new FileFormatError(`Allows at most ${size.max} items`, at)
+  return value
+}
+
+/** Reads `key` with `read` when present, leaving it out when absent */
+export function optional<T>(obj: Json, key: string, read: () => T): { [k: string]: T } {
+  return obj[key] === undefined ? {} : { [key]: read() }
+}
+
+export function list<T>(obj: Json, key: string, path: string, read: (item: unknown, at: string) => T, size?: { min?: number; max?: number }): T[] {
+  return array(obj, key, path, size).map((item, i) => read(item, join(join(path, key), i)))
+}
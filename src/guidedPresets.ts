@@ -26,6 +26,7 @@ export const guidedPresets: SessionPreset[] = [
       { time: 2100, beatFreq: 12 },
       { time: 2280, beatFreq: 14 },
     ],
+    phases: { inductionEnd: 45, returnStart: 2100 },
     noiseType: 'pink',
     noiseVolume: 0.25,
     hasReturnPhase: true,
@@ -148,6 +149,7 @@ export const guidedPresets: SessionPreset[] = [
       { time: 1980, beatFreq: 12 },
       { time: 2100, beatFreq: 14 },
     ],
+    phases: { inductionEnd: 120, returnStart: 1980 },
     noiseType: 'pink',
     noiseVolume: 0.25,
     hasReturnPhase: true,
@@ -226,6 +228,7 @@ export const guidedPresets: SessionPreset[] = [
       { time: 2400, beatFreq: 14 },
       { time: 2520, beatFreq: 14 },
     ],
+    phases: { inductionEnd: 120, returnStart: 2400 },
     noiseType: 'pink',
     noiseVolume: 0.25,
     hasReturnPhase: true,
@@ -312,6 +315,7 @@ export const guidedPresets: SessionPreset[] = [
       { time: 2520, beatFreq: 10 },
       { time: 2700, beatFreq: 14 },
     ],
+    phases: { inductionEnd: 120, returnStart: 2520 },
     noiseType: 'pink',
     noiseVolume: 0.25,
     hasReturnPhase: true,
@@ -401,6 +405,7 @@ export const guidedPresets: SessionPreset[] = [
       { time: 2940, beatFreq: 10 },
       { time: 3000, beatFreq: 14 },
     ],
+    phases: { inductionEnd: 120, returnStart: 2940 },
     noiseType: 'pink',
     noiseVolume: 0.25,
     hasReturnPhase: true,
@@ -493,6 +498,7 @@ export const guidedPresets: SessionPreset[] = [
       { time: 3180, beatFreq: 14 },
       { time: 3300, beatFreq: 14 },
     ],
+    phases: { inductionEnd: 120, returnStart: 3180 },
     noiseType: 'pink',
     noiseVolume: 0.25,
     hasReturnPhase: true,
@@ -1,6 +1,7 @@
 import { useState, useRef, useCallback, useEffect } from 'react'
 import { SessionManager } from '../audio/SessionManager'
-import type { SessionPreset, SessionPhase, AmbientSoundType } from '../types'
+import type { WakeTimes } from '../audio/sleepMode'
+import type { SessionPreset, SessionPhase, AmbientSoundType, NarrationSettings, SleepModeSettings } from '../types'
 
 export interface AudioEngineState {
   isPlaying: boolean
@@ -9,12 +10,19 @@ export interface AudioEngineState {
   elapsed: number
   duration: number
   beatFreq: number
+  /** Envelope frequency the beat oscillates around */
+  targetFreq: number
   volume: number
+  /** In sleep mode, the preset stretched to the overnight length */
   activePreset: SessionPreset | null
   isochronicEnabled: boolean
   breathingGuideEnabled: boolean
   ambientSound: AmbientSoundType
   ambientVolume: number
+  speakerMode: boolean
+  sleepMode: boolean
+  /** Sleep mode's wake-up alarm, in session seconds */
+  alarm: WakeTimes | null
   guidancePhaseName?: string
 }
 
@@ -25,12 +33,16 @@ const initialState: AudioEngineState = {
   elapsed: 0,
   duration: 0,
   beatFreq: 0,
+  targetFreq: 0,
   volume: 0.7,
   activePreset: null,
   isochronicEnabled: false,
   breathingGuideEnabled: false,
   ambientSound: 'none',
   ambientVolume: 0,
+  speakerMode: false,
+  sleepMode: false,
+  alarm: null,
 }
 
 export function useAudioEngine() {
@@ -56,6 +68,9 @@ export function useAudioEngine() {
         ambientSound?: AmbientSoundType
         ambientVolume?: number
         voiceEnabled?: boolean
+        speakerMode?: boolean
+        narration?: NarrationSettings
+        sleepMode?: SleepModeSettings
       },
     ) => {
       const manager = getManager()
@@ -71,7 +86,7 @@ export function useAudioEngine() {
         preset,
         volumeRef.current,
         isoEnabled,
-        ({ phase, elapsed, beatFreq, guidancePhaseName }) => {
+        ({ phase, elapsed, beatFreq, targetFreq, guidancePhaseName }) => {
           setState((prev) => ({
             ...prev,
             isPlaying: phase !== 'complete',
@@ -79,6 +94,7 @@ export function useAudioEngine() {
             phase,
             elapsed,
             beatFreq,
+            targetFreq,
             guidancePhaseName,
           }))
         },
@@ -86,6 +102,9 @@ export function useAudioEngine() {
         ambVol,
         {
           voiceEnabled: options?.voiceEnabled,
+          speakerMode: options?.speakerMode,
+          narration: options?.narration,
+          sleepMode: options?.sleepMode,
         },
       )
 
@@ -95,10 +114,13 @@ export function useAudioEngine() {
         isPaused: false,
         phase: 'induction',
         elapsed: 0,
-        duration: preset.duration,
+        duration: manager.duration,
         volume: volumeRef.current,
-        activePreset: preset,
-        isochronicEnabled: isoEnabled && preset.isochronicAvailable,
+        activePreset: manager.sleepPreset ?? preset,
+        isochronicEnabled: manager.isochronicEnabled,
+        speakerMode: manager.speakerMode,
+        sleepMode: !!options?.sleepMode,
+        alarm: manager.alarm,
         breathingGuideEnabled: breathEnabled,
         ambientSound: ambSound,
         ambientVolume: ambVol,
@@ -132,6 +154,22 @@ export function useAudioEngine() {
     setState({ ...initialState, volume: volumeRef.current, ambientSound: 'none', ambientVolume: 0 })
   }, [getManager])
 
+  const snooze = useCallback(() => {
+    const manager = getManager()
+    manager.snooze()
+    // Snoozing moves the wake time, and with it the session's length
+    setState((prev) => ({
+      ...prev,
+      duration: manager.duration,
+      activePreset: manager.sleepPreset ?? prev.activePreset,
+      alarm: manager.alarm,
+    }))
+  }, [getManager])
+
+  const stopAlarm = useCallback(() => {
+    getManager().finish()
+  }, [getManager])
+
   const setVolume = useCallback(
     (v: number) => {
       volumeRef.current = v
@@ -156,8 +194,9 @@ export function useAudioEngine() {
       manager.seek(targetTime)
       setState((prev) => ({
         ...prev,
-        elapsed: targetTime,
+        elapsed: manager.elapsed,
         beatFreq: manager.currentBeatFreq,
+        targetFreq: manager.currentTargetFreq,
         phase: manager.phase,
       }))
     },
@@ -200,6 +239,8 @@ export function useAudioEngine() {
     resume,
     stop,
     seek,
+    snooze,
+    stopAlarm,
     setVolume,
     toggleIsochronic,
     toggleBreathingGuide,
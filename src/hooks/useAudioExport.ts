@@ -0,0 +1,67 @@
+import { useState, useRef, useCallback, useEffect } from 'react'
+import type { SessionPreset } from '../types'
+import { OfflineRenderer, type ExportOptions } from '../audio/OfflineRenderer'
+
+export type ExportStatus = 'idle' | 'rendering' | 'done' | 'error'
+
+function fileNameFor(preset: SessionPreset, extension: string): string {
+  const slug = preset.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+  return `${slug || 'session'}.${extension}`
+}
+
+/**
+ * Renders a preset offline and downloads the resulting audio file.
+ * Only one export runs at a time; starting a new one cancels the previous.
+ */
+export function useAudioExport() {
+  const [status, setStatus] = useState<ExportStatus>('idle')
+  const [progress, setProgress] = useState(0)
+  const rendererRef = useRef<OfflineRenderer | null>(null)
+
+  const cancel = useCallback(() => {
+    rendererRef.current?.cancel()
+    rendererRef.current = null
+    setStatus('idle')
+    setProgress(0)
+  }, [])
+
+  const exportPreset = useCallback(async (preset: SessionPreset, options: Omit<ExportOptions, 'onProgress'>) => {
+    rendererRef.current?.cancel()
+    const renderer = new OfflineRenderer()
+    rendererRef.current = renderer
+    setStatus('rendering')
+    setProgress(0)
+
+    try {
+      const blob = await renderer.render(preset, {
+        ...options,
+        onProgress: (p) => {
+          if (rendererRef.current === renderer) setProgress(p)
+        },
+      })
+      if (rendererRef.current !== renderer) return
+
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = fileNameFor(preset, options.format)
+      link.click()
+      setTimeout(() => URL.revokeObjectURL(url), 1000)
+
+      rendererRef.current = null
+      setStatus('done')
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') return
+      console.warn('Audio export failed:', err)
+      if (rendererRef.current === renderer) {
+        rendererRef.current = null
+        setStatus('error')
+      }
+    }
+  }, [])
+
+  // Abandon any in-flight render when the owner unmounts
+  useEffect(() => () => rendererRef.current?.cancel(), [])
+
+  return { status, progress, exportPreset, cancel }
+}
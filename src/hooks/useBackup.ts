@@ -0,0 +1,60 @@
+import { useState, useCallback } from 'react'
+import {
+  collectBackupData,
+  serializeBackup,
+  backupFileName,
+  parseBackup,
+  restoreBackup,
+  MAX_BACKUP_BYTES,
+  type BackupFile,
+  type RestoreMode,
+} from '../backup'
+import { FileFormatError, readFileText } from '../fileFormat'
+
+/**
+ * Backs up all local data to a `.bbbackup.json` file and restores it.
+ * A picked archive waits in `pending` until restore() is called with a
+ * mode; restoring reloads the app so every hook rereads storage.
+ */
+export function useBackup() {
+  const [pending, setPending] = useState<BackupFile | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const exportBackup = useCallback(async () => {
+    const blob = new Blob([serializeBackup(await collectBackupData())], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = backupFileName()
+    link.click()
+    setTimeout(() => URL.revokeObjectURL(url), 1000)
+  }, [])
+
+  const loadFile = useCallback(async (file: File) => {
+    try {
+      setPending(parseBackup(await readFileText(file, MAX_BACKUP_BYTES)))
+      setError(null)
+    } catch (err) {
+      if (!(err instanceof FileFormatError)) console.warn('Backup read failed:', err)
+      setPending(null)
+      setError(err instanceof FileFormatError ? err.message : 'The backup could not be read')
+    }
+  }, [])
+
+  const restore = useCallback(async (mode: RestoreMode) => {
+    if (!pending) return
+    try {
+      await restoreBackup(pending.data, mode)
+      window.location.reload()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The backup could not be restored')
+    }
+  }, [pending])
+
+  const cancel = useCallback(() => {
+    setPending(null)
+    setError(null)
+  }, [])
+
+  return { pending, error, exportBackup, loadFile, restore, cancel }
+}
@@ -1,67 +1,121 @@
-import { useState, useCallback } from 'react'
-import type { SessionPreset } from '../types'
+import { useState, useCallback, useEffect } from 'react'
+import type { SessionPreset, Journey } from '../types'
+import { loadValue, saveValue, reportRefusedWrite } from '../storage'
+import { MAX_CUSTOM_PRESETS, MAX_CUSTOM_JOURNEYS } from '../defaults'
 
-const STORAGE_KEY = 'bb_custom_presets'
-const MAX_CUSTOM_PRESETS = 50
-
-function readJSON<T>(key: string, fallback: T): T {
-  try {
-    const raw = localStorage.getItem(key)
-    return raw ? JSON.parse(raw) : fallback
-  } catch {
-    return fallback
-  }
-}
-
-function writeJSON(key: string, value: unknown): void {
-  try {
-    localStorage.setItem(key, JSON.stringify(value))
-  } catch { /* quota exceeded or private browsing */ }
+/** Whether a list may grow to `count`; if not, the storage banner says why nothing was saved */
+function withinLimit(count: number, limit: number, what: string): boolean {
+  if (count <= limit) return true
+  reportRefusedWrite(`Couldn't save — there's room for ${limit} ${what}. Delete some to make space.`)
+  return false
 }
 
+/** The user's own sessions and the journeys built from them */
 export function useCustomPresets() {
-  const [customPresets, setCustomPresets] = useState<SessionPreset[]>(() =>
-    readJSON(STORAGE_KEY, []),
-  )
+  const [customPresets, setCustomPresets] = useState<SessionPreset[]>([])
+  const [customJourneys, setCustomJourneys] = useState<Journey[]>([])
+  // Like useSessionHistory, nothing is written until storage has been read
+  const [isLoaded, setIsLoaded] = useState(false)
 
-  const savePreset = useCallback((preset: SessionPreset): void => {
+  useEffect(() => {
+    let cancelled = false
+    Promise.all([loadValue('customPresets'), loadValue('customJourneys')]).then(([storedPresets, storedJourneys]) => {
+      if (cancelled) return
+      if (storedPresets) setCustomPresets(storedPresets)
+      if (storedJourneys) setCustomJourneys(storedJourneys)
+      setIsLoaded(true)
+    })
+    return () => { cancelled = true }
+  }, [])
+
+  /** Adds or updates a preset. Returns false when nothing was saved. */
+  const savePreset = useCallback((preset: SessionPreset): boolean => {
+    if (!isLoaded) return false
+    const isNew = !customPresets.some((p) => p.id === preset.id)
+    if (isNew && !withinLimit(customPresets.length + 1, MAX_CUSTOM_PRESETS, 'custom sessions')) return false
     setCustomPresets((prev) => {
-      const idx = prev.findIndex((p) => p.id === preset.id)
-      let updated: SessionPreset[]
-      if (idx >= 0) {
-        // Update existing
-        updated = prev.map((p) => (p.id === preset.id ? preset : p))
-      } else {
-        // Add new (enforce max)
-        updated = [preset, ...prev].slice(0, MAX_CUSTOM_PRESETS)
-      }
-      writeJSON(STORAGE_KEY, updated)
+      const updated = prev.some((p) => p.id === preset.id)
+        ? prev.map((p) => (p.id === preset.id ? preset : p))
+        : [preset, ...prev]
+      saveValue('customPresets', updated)
       return updated
     })
-  }, [])
+    return true
+  }, [isLoaded, customPresets])
 
   const deletePreset = useCallback((id: string): void => {
+    if (!isLoaded) return
     setCustomPresets((prev) => {
       const updated = prev.filter((p) => p.id !== id)
-      writeJSON(STORAGE_KEY, updated)
+      saveValue('customPresets', updated)
       return updated
     })
-  }, [])
+  }, [isLoaded])
 
-  const duplicatePreset = useCallback((id: string): void => {
+  const duplicatePreset = useCallback((id: string): boolean => {
+    if (!isLoaded) return false
+    const source = customPresets.find((p) => p.id === id)
+    if (!source || !withinLimit(customPresets.length + 1, MAX_CUSTOM_PRESETS, 'custom sessions')) return false
+    const copy: SessionPreset = {
+      ...source,
+      id: `custom_${crypto.randomUUID()}`,
+      name: `${source.name} (Copy)`,
+    }
     setCustomPresets((prev) => {
-      const source = prev.find((p) => p.id === id)
-      if (!source) return prev
-      const copy: SessionPreset = {
-        ...source,
-        id: `custom_${crypto.randomUUID()}`,
-        name: `${source.name} (Copy)`,
-      }
-      const updated = [copy, ...prev].slice(0, MAX_CUSTOM_PRESETS)
-      writeJSON(STORAGE_KEY, updated)
+      const updated = [copy, ...prev]
+      saveValue('customPresets', updated)
       return updated
     })
-  }, [])
+    return true
+  }, [isLoaded, customPresets])
 
-  return { customPresets, savePreset, deletePreset, duplicatePreset }
+  /** Upserts a batch of presets — imported ones go to the top of the list. All or nothing. */
+  const importPresets = useCallback((presets: SessionPreset[]): boolean => {
+    if (!isLoaded) return false
+    const ids = new Set(presets.map((p) => p.id))
+    const kept = customPresets.filter((p) => !ids.has(p.id)).length
+    if (!withinLimit(presets.length + kept, MAX_CUSTOM_PRESETS, 'custom sessions')) return false
+    setCustomPresets((prev) => {
+      const updated = [...presets, ...prev.filter((p) => !ids.has(p.id))]
+      saveValue('customPresets', updated)
+      return updated
+    })
+    return true
+  }, [isLoaded, customPresets])
+
+  /** Adds or updates a journey. Returns false when nothing was saved. */
+  const saveJourney = useCallback((journey: Journey): boolean => {
+    if (!isLoaded) return false
+    const isNew = !customJourneys.some((j) => j.id === journey.id)
+    if (isNew && !withinLimit(customJourneys.length + 1, MAX_CUSTOM_JOURNEYS, 'custom journeys')) return false
+    setCustomJourneys((prev) => {
+      const updated = prev.some((j) => j.id === journey.id)
+        ? prev.map((j) => (j.id === journey.id ? journey : j))
+        : [journey, ...prev]
+      saveValue('customJourneys', updated)
+      return updated
+    })
+    return true
+  }, [isLoaded, customJourneys])
+
+  const deleteJourney = useCallback((id: string): void => {
+    if (!isLoaded) return
+    setCustomJourneys((prev) => {
+      const updated = prev.filter((j) => j.id !== id)
+      saveValue('customJourneys', updated)
+      return updated
+    })
+  }, [isLoaded])
+
+  return {
+    isLoaded,
+    customPresets,
+    savePreset,
+    deletePreset,
+    duplicatePreset,
+    importPresets,
+    customJourneys,
+    saveJourney,
+    deleteJourney,
+  }
 }
@@ -0,0 +1,72 @@
+import { useEffect, useState } from 'react'
+import type { Journey, JourneyDay, JourneyProgress } from '../types'
+import { journeyStatus, nextReminderAt } from '../journeySchedule'
+
+/** Reminders link to `#journey=<id>`, which App opens */
+export const JOURNEY_LINK_PARAM = 'journey'
+
+/** Asks for notification permission if it hasn't been decided; true when reminders can be shown */
+export async function requestNotificationPermission(): Promise<boolean> {
+  if (!('Notification' in window)) return false
+  if (Notification.permission !== 'default') return Notification.permission === 'granted'
+  try {
+    return (await Notification.requestPermission()) === 'granted'
+  } catch {
+    return false
+  }
+}
+
+async function showReminder(journey: Journey, day: JourneyDay) {
+  const title = `${journey.icon} ${journey.name}`
+  const url = `#${JOURNEY_LINK_PARAM}=${encodeURIComponent(journey.id)}`
+  const options: NotificationOptions = {
+    body: `Day ${day.day}: ${day.title} is ready`,
+    tag: `journey-${journey.id}`,
+    icon: 'favicon.svg',
+    data: { url },
+  }
+  try {
+    // The service worker shows it even if this tab is in the background;
+    // its notificationclick handler (public/notification-sw.js) opens `url`
+    const registration = await navigator.serviceWorker?.getRegistration()
+    if (registration) {
+      await registration.showNotification(title, options)
+    } else {
+      const notification = new Notification(title, options)
+      notification.onclick = () => {
+        window.focus()
+        window.location.hash = url
+      }
+    }
+  } catch (err) {
+    console.warn('Journey reminder failed:', err)
+  }
+}
+
+/**
+ * Fires each scheduled journey's reminder at its time of day. Timers run
+ * while the app is open or in a background tab; there's no push server, so
+ * a fully closed app can't be woken.
+ */
+export function useJourneyReminders(progress: JourneyProgress[], journeys: Journey[]) {
+  // Bumped after a reminder fires so the next one (tomorrow's) is scheduled
+  const [fired, setFired] = useState(0)
+
+  useEffect(() => {
+    if (!('Notification' in window) || Notification.permission !== 'granted') return
+
+    const timers: ReturnType<typeof setTimeout>[] = []
+    for (const p of progress) {
+      const journey = journeys.find((j) => j.id === p.journeyId)
+      const at = journey && nextReminderAt(journey, p)
+      if (!journey || !at) continue
+
+      timers.push(setTimeout(() => {
+        const { nextDay } = journeyStatus(journey, p)
+        if (nextDay) showReminder(journey, nextDay)
+        setFired((n) => n + 1)
+      }, at.getTime() - Date.now()))
+    }
+    return () => timers.forEach(clearTimeout)
+  }, [progress, journeys, fired])
+}
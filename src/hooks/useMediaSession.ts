@@ -11,6 +11,8 @@ interface MediaSessionOptions {
   onResume: () => void
   onStop: () => void
   onSeek?: (time: number) => void
+  /** Set while a wake-up alarm is rising or ringing */
+  onSnooze?: () => void
 }
 
 /**
@@ -28,6 +30,7 @@ export function useMediaSession({
   onResume,
   onStop,
   onSeek,
+  onSnooze,
 }: MediaSessionOptions) {
   const silentAudioRef = useRef<HTMLAudioElement | null>(null)
   const blobUrlRef = useRef<string | null>(null)
@@ -102,7 +105,7 @@ export function useMediaSession({
   onStopRef.current = onStop
   onSeekRef.current = onSeek
 
-  // MediaSession metadata + handlers (only re-runs on play state changes)
+  // MediaSession metadata + handlers (only re-runs on play state changes and when an alarm starts or stops)
   useEffect(() => {
     if (!('mediaSession' in navigator) || !preset) return
 
@@ -116,7 +119,9 @@ export function useMediaSession({
       navigator.mediaSession.playbackState = isPaused ? 'paused' : 'playing'
 
       navigator.mediaSession.setActionHandler('play', () => onResumeRef.current())
-      navigator.mediaSession.setActionHandler('pause', () => onPauseRef.current())
+      // While an alarm sounds, pause (e.g. a headphone button) and next snooze it
+      navigator.mediaSession.setActionHandler('pause', onSnooze ?? (() => onPauseRef.current()))
+      navigator.mediaSession.setActionHandler('nexttrack', onSnooze ?? null)
       navigator.mediaSession.setActionHandler('stop', () => onStopRef.current())
       navigator.mediaSession.setActionHandler('seekto', (details) => {
         if (details.seekTime != null) onSeekRef.current?.(details.seekTime)
@@ -129,11 +134,12 @@ export function useMediaSession({
         navigator.mediaSession.playbackState = 'none'
         navigator.mediaSession.setActionHandler('play', null)
         navigator.mediaSession.setActionHandler('pause', null)
+        navigator.mediaSession.setActionHandler('nexttrack', null)
         navigator.mediaSession.setActionHandler('stop', null)
         navigator.mediaSession.setActionHandler('seekto', null)
       }
     }
-  }, [preset, isPlaying, isPaused])
+  }, [preset, isPlaying, isPaused, onSnooze])
 
   // Position state update (runs frequently but is cheap — no teardown/setup)
   useEffect(() => {
@@ -0,0 +1,94 @@
+import { useState, useCallback } from 'react'
+import type { SessionPreset } from '../types'
+import {
+  serializePresets,
+  presetFileName,
+  parsePresetFile,
+  findCollisions,
+  prepareImport,
+  MAX_PRESET_FILE_BYTES,
+  type CollisionMode,
+} from '../presetFormat'
+import { FileFormatError, readFileText } from '../fileFormat'
+import { createPresetLink } from '../presetLink'
+
+export type PresetImportState =
+  | { status: 'idle' }
+  | { status: 'error'; message: string }
+  | { status: 'conflict'; presets: SessionPreset[]; collisions: SessionPreset[] }
+  | { status: 'done'; count: number }
+
+export function downloadPresets(presets: SessionPreset[]): void {
+  const blob = new Blob([serializePresets(presets)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = presetFileName(presets)
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+/** Reads a `.bbpreset.json` file. Throws FileFormatError with a readable message. */
+export async function readPresetFile(file: File): Promise<SessionPreset[]> {
+  return parsePresetFile(await readFileText(file, MAX_PRESET_FILE_BYTES))
+}
+
+/**
+ * Shares a preset as a `#preset=` link — through the system share sheet
+ * where there is one, otherwise by copying it. Resolves to how it went out;
+ * throws FileFormatError when the preset is too large for a link.
+ */
+export async function sharePresetLink(preset: SessionPreset): Promise<'shared' | 'copied' | 'cancelled'> {
+  const url = await createPresetLink(preset)
+  if (typeof navigator.share === 'function') {
+    try {
+      await navigator.share({ title: preset.name, url })
+      return 'shared'
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') return 'cancelled'
+    }
+  }
+  await navigator.clipboard.writeText(url)
+  return 'copied'
+}
+
+/**
+ * Exports custom presets to `.bbpreset.json` files and imports them back.
+ * An import whose ids match saved presets waits in the 'conflict' state
+ * until resolve() picks replace or keep-both. `save` returns false when it
+ * refused the batch, having already told the user why.
+ */
+export function usePresetFiles(existing: SessionPreset[], save: (presets: SessionPreset[]) => boolean) {
+  const [importState, setImportState] = useState<PresetImportState>({ status: 'idle' })
+
+  const importFile = useCallback(async (file: File) => {
+    try {
+      const presets = await readPresetFile(file)
+      const collisions = findCollisions(presets, existing)
+      if (collisions.length > 0) {
+        setImportState({ status: 'conflict', presets, collisions })
+        return
+      }
+      setImportState(save(prepareImport(presets, existing, 'copy'))
+        ? { status: 'done', count: presets.length }
+        : { status: 'idle' })
+    } catch (err) {
+      if (!(err instanceof FileFormatError)) console.warn('Preset import failed:', err)
+      setImportState({
+        status: 'error',
+        message: err instanceof FileFormatError ? err.message : 'The file could not be imported',
+      })
+    }
+  }, [existing, save])
+
+  const resolve = useCallback((mode: CollisionMode) => {
+    if (importState.status !== 'conflict') return
+    setImportState(save(prepareImport(importState.presets, existing, mode))
+      ? { status: 'done', count: importState.presets.length }
+      : { status: 'idle' })
+  }, [importState, existing, save])
+
+  const dismiss = useCallback(() => setImportState({ status: 'idle' }), [])
+
+  return { importState, importFile, exportPresets: downloadPresets, resolve, dismiss }
+}
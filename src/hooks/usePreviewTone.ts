@@ -1,5 +1,6 @@
 import { useRef, useCallback, useEffect } from 'react'
 import type { SessionPreset } from '../types'
+import { beatPairFrequencies, beatPairPans } from '../audio/BinauralEngine'
 
 /**
  * Plays a short preview of a preset's binaural tone.
@@ -36,14 +37,16 @@ export function usePreviewTone() {
 
       const carrier = preset.carriers[0]
       const beatFreq = preset.frequencyEnvelope[0]?.beatFreq ?? 10
+      const [lowFreq, highFreq] = beatPairFrequencies(carrier.carrierFreq, beatFreq, carrier.beatMode)
+      const [lowPan, highPan] = beatPairPans(carrier.beatMode)
 
-      // Left oscillator (carrier frequency only)
+      // Left oscillator (carrier frequency only, in binaural mode)
       const leftOsc = ctx.createOscillator()
       leftOsc.type = 'sine'
-      leftOsc.frequency.value = carrier.carrierFreq
+      leftOsc.frequency.value = lowFreq
 
       const leftPan = ctx.createStereoPanner()
-      leftPan.pan.value = -1
+      leftPan.pan.value = lowPan
 
       leftOsc.connect(leftPan)
       leftPan.connect(masterGain)
@@ -51,10 +54,10 @@ export function usePreviewTone() {
       // Right oscillator (carrier + beat)
       const rightOsc = ctx.createOscillator()
       rightOsc.type = 'sine'
-      rightOsc.frequency.value = carrier.carrierFreq + beatFreq
+      rightOsc.frequency.value = highFreq
 
       const rightPan = ctx.createStereoPanner()
-      rightPan.pan.value = 1
+      rightPan.pan.value = highPan
 
       rightOsc.connect(rightPan)
       rightPan.connect(masterGain)
@@ -1,144 +1,144 @@
-import { useState, useCallback } from 'react'
-import type { CompletedSession, UserStats, UserPreferences, MoodRating, JourneyProgress } from '../types'
-
-const STORAGE_KEYS = {
-  sessions: 'bb_sessions',
-  stats: 'bb_stats',
-  preferences: 'bb_preferences',
-  journeys: 'bb_journeys',
-} as const
-
-const DEFAULT_STATS: UserStats = {
-  totalSessions: 0,
-  totalMinutes: 0,
-  currentStreak: 0,
-  longestStreak: 0,
-  lastSessionDate: null,
-}
-
-const DEFAULT_PREFERENCES: UserPreferences = {
-  favorites: [],
-  hapticEnabled: false,
-  reducedMotion: false,
-}
-
-const MAX_SESSIONS = 100
-
-function readJSON<T>(key: string, fallback: T): T {
-  try {
-    const raw = localStorage.getItem(key)
-    return raw ? JSON.parse(raw) : fallback
-  } catch {
-    return fallback
-  }
-}
-
-function writeJSON(key: string, value: unknown): void {
-  try {
-    localStorage.setItem(key, JSON.stringify(value))
-  } catch { /* quota exceeded or private browsing */ }
-}
-
-function getTodayStr(): string {
-  return new Intl.DateTimeFormat('en-CA').format(new Date()) // YYYY-MM-DD in local TZ
-}
-
-function getYesterdayStr(): string {
-  const d = new Date()
-  d.setDate(d.getDate() - 1)
-  return new Intl.DateTimeFormat('en-CA').format(d)
-}
-
-function computeStreakUpdate(stats: UserStats): Pick<UserStats, 'currentStreak' | 'longestStreak' | 'lastSessionDate'> {
-  const today = getTodayStr()
-  const yesterday = getYesterdayStr()
-
-  let currentStreak = stats.currentStreak
-
-  if (stats.lastSessionDate === today) {
-    // Already recorded a session today — streak unchanged
-  } else if (stats.lastSessionDate === yesterday) {
-    currentStreak += 1
-  } else {
-    currentStreak = 1
-  }
-
-  return {
-    currentStreak,
-    longestStreak: Math.max(stats.longestStreak, currentStreak),
-    lastSessionDate: today,
-  }
-}
+import { useState, useCallback, useEffect, useMemo } from 'react'
+import type { CompletedSession, UserStats, UserPreferences, MoodRating, JourneyProgress, SelfRating, JourneySchedule } from '../types'
+import { computeStreaks, streakBeforeHistory, withStreaks } from '../streaks'
+import { DEFAULT_STATS, DEFAULT_PREFERENCES, withDefaultPreferences } from '../defaults'
+import { loadSessions, loadValue, saveSession, saveValue, deleteSession as deleteStoredSession } from '../storage'
 
 export function useSessionHistory() {
-  const [sessions, setSessions] = useState<CompletedSession[]>(() =>
-    readJSON(STORAGE_KEYS.sessions, []),
-  )
-  const [stats, setStats] = useState<UserStats>(() =>
-    readJSON(STORAGE_KEYS.stats, DEFAULT_STATS),
-  )
-  const [preferences, setPreferences] = useState<UserPreferences>(() =>
-    readJSON(STORAGE_KEYS.preferences, DEFAULT_PREFERENCES),
-  )
-  const [journeyProgress, setJourneyProgress] = useState<JourneyProgress[]>(() =>
-    readJSON(STORAGE_KEYS.journeys, []),
-  )
+  const [sessions, setSessions] = useState<CompletedSession[]>([])
+  const [stats, setStats] = useState<UserStats>(DEFAULT_STATS)
+  const [preferences, setPreferences] = useState<UserPreferences>(DEFAULT_PREFERENCES)
+  const [journeyProgress, setJourneyProgress] = useState<JourneyProgress[]>([])
+  // Writers do nothing until storage has been read: an earlier write would
+  // replace what's stored, and the load would then overwrite it in memory.
+  // App holds back the UI that writes until then.
+  const [isLoaded, setIsLoaded] = useState(false)
+
+  // Storage is async — start from defaults and fill in once it's read
+  useEffect(() => {
+    let cancelled = false
+    Promise.all([loadSessions(), loadValue('stats'), loadValue('preferences'), loadValue('journeys')])
+      .then(([storedSessions, storedStats, storedPreferences, storedJourneys]) => {
+        if (cancelled) return
+        const loadedPreferences = withDefaultPreferences(storedPreferences)
+        const rules = loadedPreferences.streakRules
+        const loadedStats = storedStats ?? DEFAULT_STATS
+        setSessions(storedSessions)
+        setStats(withStreaks(loadedStats, storedSessions, rules, streakBeforeHistory(loadedStats, storedSessions, rules)))
+        setPreferences(loadedPreferences)
+        setJourneyProgress(storedJourneys ?? [])
+        setIsLoaded(true)
+      })
+    return () => { cancelled = true }
+  }, [])
 
   const addSession = useCallback(
-    (session: Omit<CompletedSession, 'id'>): CompletedSession => {
+    (session: Omit<CompletedSession, 'id'>): CompletedSession | null => {
+      if (!isLoaded) return null
       const complete: CompletedSession = {
         ...session,
         id: crypto.randomUUID(),
       }
 
-      setSessions((prev) => {
-        const updated = [complete, ...prev].slice(0, MAX_SESSIONS)
-        writeJSON(STORAGE_KEYS.sessions, updated)
-        return updated
-      })
+      setSessions((prev) => [complete, ...prev])
+      saveSession(complete)
 
       setStats((prev) => {
-        const streakUpdate = computeStreakUpdate(prev)
-        const newStats: UserStats = {
+        const newStats = withStreaks({
+          ...prev,
           totalSessions: prev.totalSessions + 1,
           totalMinutes: prev.totalMinutes + Math.round(session.durationSeconds / 60),
-          ...streakUpdate,
-        }
-        writeJSON(STORAGE_KEYS.stats, newStats)
+        }, [complete, ...sessions], preferences.streakRules, streakBeforeHistory(prev, sessions, preferences.streakRules))
+        saveValue('stats', newStats)
         return newStats
       })
 
       return complete
     },
-    [],
+    [isLoaded, sessions, preferences.streakRules],
   )
 
   const updateSessionMood = useCallback(
     (sessionId: string, mood: MoodRating): void => {
+      if (!isLoaded) return
       setSessions((prev) => {
         const updated = prev.map((s) =>
           s.id === sessionId ? { ...s, mood } : s,
         )
-        writeJSON(STORAGE_KEYS.sessions, updated)
+        const session = updated.find((s) => s.id === sessionId)
+        if (session) saveSession(session)
+        return updated
+      })
+    },
+    [isLoaded],
+  )
+
+  const updateSessionPostRating = useCallback(
+    (sessionId: string, postRating: SelfRating): void => {
+      if (!isLoaded) return
+      setSessions((prev) => {
+        const updated = prev.map((s) =>
+          s.id === sessionId ? { ...s, postRating } : s,
+        )
+        const session = updated.find((s) => s.id === sessionId)
+        if (session) saveSession(session)
+        return updated
+      })
+    },
+    [isLoaded],
+  )
+
+  const updateSessionNote = useCallback(
+    (sessionId: string, note: string): void => {
+      if (!isLoaded) return
+      setSessions((prev) => {
+        const updated = prev.map((s) =>
+          s.id === sessionId ? { ...s, note: note.trim() || undefined } : s,
+        )
+        const session = updated.find((s) => s.id === sessionId)
+        if (session) saveSession(session)
         return updated
       })
     },
-    [],
+    [isLoaded],
+  )
+
+  /** Removes a session from history and takes it out of the totals and streaks */
+  const deleteSession = useCallback(
+    (sessionId: string): void => {
+      if (!isLoaded) return
+      const session = sessions.find((s) => s.id === sessionId)
+      if (!session) return
+      const remaining = sessions.filter((s) => s.id !== sessionId)
+      setSessions(remaining)
+      deleteStoredSession(sessionId)
+      setStats((prev) => {
+        const newStats = withStreaks({
+          ...prev,
+          totalSessions: Math.max(0, prev.totalSessions - 1),
+          totalMinutes: Math.max(0, prev.totalMinutes - Math.round(session.durationSeconds / 60)),
+        }, remaining, preferences.streakRules, streakBeforeHistory(prev, sessions, preferences.streakRules))
+        saveValue('stats', newStats)
+        return newStats
+      })
+    },
+    [isLoaded, sessions, preferences.streakRules],
   )
 
   const toggleFavorite = useCallback(
     (presetId: string): void => {
+      if (!isLoaded) return
       setPreferences((prev) => {
         const favs = prev.favorites
         const next = favs.includes(presetId)
           ? favs.filter((id) => id !== presetId)
           : [...favs, presetId]
         const updated = { ...prev, favorites: next }
-        writeJSON(STORAGE_KEYS.preferences, updated)
+        saveValue('preferences', updated)
         return updated
       })
     },
-    [],
+    [isLoaded],
   )
 
   const isFavorite = useCallback(
@@ -148,17 +148,31 @@ export function useSessionHistory() {
 
   const updatePreferences = useCallback(
     (partial: Partial<UserPreferences>): void => {
+      if (!isLoaded) return
       setPreferences((prev) => {
         const updated = { ...prev, ...partial }
-        writeJSON(STORAGE_KEYS.preferences, updated)
+        saveValue('preferences', updated)
         return updated
       })
+
+      // New streak rules apply to the whole history
+      const rules = partial.streakRules
+      if (rules) {
+        setStats((prev) => {
+          // Streak days from before history were counted under the old rules
+          const carried = streakBeforeHistory(prev, sessions, preferences.streakRules)
+          const newStats = withStreaks(prev, sessions, rules, carried, true)
+          saveValue('stats', newStats)
+          return newStats
+        })
+      }
     },
-    [],
+    [isLoaded, sessions, preferences.streakRules],
   )
 
   const startJourney = useCallback(
     (journeyId: string): void => {
+      if (!isLoaded) return
       setJourneyProgress((prev) => {
         const existing = prev.find((j) => j.journeyId === journeyId)
         if (existing) return prev // Already started
@@ -170,41 +184,84 @@ export function useSessionHistory() {
           lastCompletedAt: null,
         }
         const updated = [...prev, progress]
-        writeJSON(STORAGE_KEYS.journeys, updated)
+        saveValue('journeys', updated)
         return updated
       })
     },
-    [],
+    [isLoaded],
   )
 
   const completeJourneyDay = useCallback(
     (journeyId: string, day: number): void => {
+      if (!isLoaded) return
       setJourneyProgress((prev) => {
         const updated = prev.map((j) => {
           if (j.journeyId !== journeyId) return j
-          if (j.completedDays.includes(day)) return j
-          return {
+          const now = new Date()
+          const today = new Intl.DateTimeFormat('en-CA').format(now)
+          const practiced = {
             ...j,
+            lastCompletedAt: now.toISOString(),
+            practicedOn: [...new Set([...(j.practicedOn ?? []), today])],
+          }
+          // A repeated day still counts as today's session for daily pacing
+          if (j.completedDays.includes(day)) return practiced
+          return {
+            ...practiced,
             completedDays: [...j.completedDays, day],
-            lastCompletedAt: new Date().toISOString(),
+            completedOn: { ...j.completedOn, [day]: today },
           }
         })
-        writeJSON(STORAGE_KEYS.journeys, updated)
+        saveValue('journeys', updated)
         return updated
       })
     },
-    [],
+    [isLoaded],
   )
 
+  /** Clears a journey's progress; its schedule and reminder are kept */
   const resetJourney = useCallback(
     (journeyId: string): void => {
+      if (!isLoaded) return
+      setJourneyProgress((prev) => {
+        const updated = prev.flatMap((j): JourneyProgress[] => {
+          if (j.journeyId !== journeyId) return [j]
+          if (!j.schedule) return []
+          return [{ journeyId, completedDays: [], startedAt: new Date().toISOString(), lastCompletedAt: null, schedule: j.schedule }]
+        })
+        saveValue('journeys', updated)
+        return updated
+      })
+    },
+    [isLoaded],
+  )
+
+  /** Drops everything kept for a journey, schedule included — for deleted custom journeys */
+  const deleteJourneyProgress = useCallback(
+    (journeyId: string): void => {
+      if (!isLoaded) return
       setJourneyProgress((prev) => {
         const updated = prev.filter((j) => j.journeyId !== journeyId)
-        writeJSON(STORAGE_KEYS.journeys, updated)
+        saveValue('journeys', updated)
         return updated
       })
     },
-    [],
+    [isLoaded],
+  )
+
+  const updateJourneySchedule = useCallback(
+    (journeyId: string, schedule: JourneySchedule): void => {
+      if (!isLoaded) return
+      setJourneyProgress((prev) => {
+        const existing = prev.find((j) => j.journeyId === journeyId)
+        const updated = existing
+          ? prev.map((j) => (j.journeyId === journeyId ? { ...j, schedule } : j))
+          : [...prev, { journeyId, completedDays: [], startedAt: new Date().toISOString(), lastCompletedAt: null, schedule }]
+        saveValue('journeys', updated)
+        return updated
+      })
+    },
+    [isLoaded],
   )
 
   const getJourneyProgress = useCallback(
@@ -214,19 +271,32 @@ export function useSessionHistory() {
     [journeyProgress],
   )
 
+  // Day-by-day view of the streak, for the practice calendar
+  const streaks = useMemo(
+    () => computeStreaks(sessions, preferences.streakRules),
+    [sessions, preferences.streakRules],
+  )
+
   return {
+    isLoaded,
     sessions,
     stats,
+    streaks,
     preferences,
     journeyProgress,
     addSession,
     updateSessionMood,
+    updateSessionNote,
+    updateSessionPostRating,
+    deleteSession,
     toggleFavorite,
     isFavorite,
     updatePreferences,
     startJourney,
     completeJourneyDay,
     resetJourney,
+    updateJourneySchedule,
+    deleteJourneyProgress,
     getJourneyProgress,
   }
 }
@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react'
+
+const isSupported = typeof speechSynthesis !== 'undefined'
+
+/**
+ * The browser's Web Speech voices, sorted English-first then by name.
+ * Some browsers load voices asynchronously, so the list updates on
+ * `voiceschanged`.
+ */
+export function useSpeechVoices() {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() =>
+    isSupported ? sortVoices(speechSynthesis.getVoices()) : [],
+  )
+
+  useEffect(() => {
+    if (!isSupported) return
+    const update = () => setVoices(sortVoices(speechSynthesis.getVoices()))
+    speechSynthesis.addEventListener('voiceschanged', update)
+    return () => speechSynthesis.removeEventListener('voiceschanged', update)
+  }, [])
+
+  return { voices, isSupported }
+}
+
+function sortVoices(voices: SpeechSynthesisVoice[]): SpeechSynthesisVoice[] {
+  return [...voices].sort((a, b) => {
+    const aEn = a.lang.startsWith('en') ? 0 : 1
+    const bEn = b.lang.startsWith('en') ? 0 : 1
+    return aEn - bEn || a.lang.localeCompare(b.lang) || a.name.localeCompare(b.name)
+  })
+}
@@ -0,0 +1,13 @@
+import { useState, useEffect, useCallback } from 'react'
+import { onStorageError } from '../storage'
+
+/** The latest failed write to storage, until dismissed */
+export function useStorageErrors() {
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => onStorageError((err) => setError(err.message)), [])
+
+  const dismiss = useCallback(() => setError(null), [])
+
+  return { error, dismiss }
+}
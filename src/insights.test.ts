@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest'
+import type { CompletedSession } from './types'
+import { presets } from './presets'
+import { computeInsights, minutesPerWeek, ratingChanges } from './insights'
+
+/** Thursday 12 March 2026, midday local time */
+const NOW = new Date(2026, 2, 12, 12)
+
+let nextId = 0
+
+/** A full ten-minute session of `presetId`, finished at the given local time */
+function session(completedAt: Date, fields: Partial<CompletedSession> = {}): CompletedSession {
+  return {
+    id: `s${++nextId}`,
+    presetId: 'quick-calm',
+    presetName: 'Quick Calm',
+    category: 'relaxation',
+    targetBand: 'alpha',
+    durationSeconds: 600,
+    completedAt: completedAt.toISOString(),
+    completedFull: true,
+    ...fields,
+  }
+}
+
+describe('minutesPerWeek', () => {
+  it('lists twelve Monday-start weeks, oldest first, even with no history', () => {
+    const weeks = minutesPerWeek([], 12, NOW)
+    expect(weeks).toHaveLength(12)
+    expect(weeks[0].weekStart).toBe('2025-12-22')
+    expect(weeks[11].weekStart).toBe('2026-03-09')
+    expect(weeks.every((w) => w.minutes === 0)).toBe(true)
+  })
+
+  it('splits Sunday night from Monday morning', () => {
+    const weeks = minutesPerWeek(
+      [session(new Date(2026, 2, 8, 23, 30)), session(new Date(2026, 2, 9, 0, 30), { durationSeconds: 1200 })],
+      12,
+      NOW,
+    )
+    expect(weeks.at(-2)).toEqual({ weekStart: '2026-03-02', minutes: 10 })
+    expect(weeks.at(-1)).toEqual({ weekStart: '2026-03-09', minutes: 20 })
+  })
+
+  it('ignores sessions before the first week and rounds each week', () => {
+    const weeks = minutesPerWeek(
+      [session(new Date(2025, 11, 21, 20)), session(new Date(2025, 11, 22, 8), { durationSeconds: 100 })],
+      12,
+      NOW,
+    )
+    expect(weeks[0].minutes).toBe(2)
+    expect(weeks.reduce((sum, w) => sum + w.minutes, 0)).toBe(2)
+  })
+})
+
+describe('computeInsights', () => {
+  it('has nothing to report for an empty history', () => {
+    const insights = computeInsights([], presets, NOW)
+    expect(insights.weeks).toHaveLength(12)
+    expect(insights.bands.every((b) => b.minutes === 0 && b.sessions === 0)).toBe(true)
+    expect(insights.completion).toEqual([])
+    expect(insights.timesOfDay.every((t) => t.sessions === 0 && t.completionRate === 0)).toBe(true)
+    expect(insights.bestTime).toBeNull()
+    expect(insights.moods.map((m) => m.total)).toEqual([0, 0, 0, 0])
+  })
+
+  it('looks up the band of sessions logged without one', () => {
+    const older = session(new Date(2026, 2, 10, 8), { targetBand: undefined })
+    const unknown = session(new Date(2026, 2, 10, 9), { targetBand: undefined, presetId: 'deleted' })
+    const { bands } = computeInsights([older, unknown, session(new Date(2026, 2, 11, 8))], presets, NOW)
+    expect(bands.find((b) => b.band === 'alpha')).toEqual({ band: 'alpha', minutes: 20, sessions: 2 })
+    expect(bands.reduce((sum, b) => sum + b.sessions, 0)).toBe(2)
+  })
+
+  it('ranks presets by plays, then by completion rate', () => {
+    const sessions = [
+      session(new Date(2026, 2, 10, 8)),
+      session(new Date(2026, 2, 10, 9), { completedFull: false }),
+      session(new Date(2026, 2, 10, 10), { presetId: 'a', presetName: 'A', completedFull: false }),
+      session(new Date(2026, 2, 10, 11), { presetId: 'b', presetName: 'B' }),
+    ]
+    const { completion } = computeInsights(sessions, presets, NOW)
+    expect(completion.map((c) => [c.presetId, c.rate])).toEqual([
+      ['quick-calm', 0.5],
+      ['b', 1],
+      ['a', 0],
+    ])
+  })
+
+  it('only names a best time of day once a slot has enough sessions', () => {
+    const mornings = [8, 9].map((day) => session(new Date(2026, 2, day, 7)))
+    const evenings = [8, 9, 10].map((day, i) => session(new Date(2026, 2, day, 19), { completedFull: i > 0 }))
+    expect(computeInsights(mornings, presets, NOW).bestTime).toBeNull()
+
+    const insights = computeInsights([...mornings, ...evenings], presets, NOW)
+    expect(insights.bestTime).toBe('evening')
+    expect(insights.timesOfDay.find((t) => t.slot === 'morning')?.completionRate).toBe(1)
+  })
+
+  it('lists the three presets that most often lead to each mood', () => {
+    const calm = (presetId: string, count: number) =>
+      Array.from({ length: count }, (_, i) => session(new Date(2026, 2, 10, i), { presetId, presetName: presetId, mood: 'calm' }))
+    const sessions = [...calm('a', 1), ...calm('b', 3), ...calm('c', 2), ...calm('d', 4), session(NOW, { mood: 'sleepy' })]
+    const { moods } = computeInsights(sessions, presets, NOW)
+    const leaders = moods.find((m) => m.mood === 'calm')!
+    expect(leaders.total).toBe(10)
+    expect(leaders.presets.map((p) => [p.presetId, p.count])).toEqual([
+      ['d', 4],
+      ['b', 3],
+      ['c', 2],
+    ])
+    expect(moods.find((m) => m.mood === 'sleepy')?.total).toBe(1)
+    expect(moods.find((m) => m.mood === 'focused')?.presets).toEqual([])
+  })
+})
+
+describe('ratingChanges', () => {
+  it('reports the change on each scale rated both before and after', () => {
+    const changes = ratingChanges(session(NOW, { preRating: { stress: 7, energy: 4 }, postRating: { stress: 3, energy: 4, focus: 6 } }))
+    expect(changes.map(({ scale, before, after, delta, improved }) => [scale.id, before, after, delta, improved])).toEqual([
+      ['stress', 7, 3, -4, true],
+      ['energy', 4, 4, 0, false],
+      ['focus', undefined, 6, undefined, false],
+    ])
+  })
+
+  it('treats a rise as better except on scales where lower is better', () => {
+    const [stress, energy] = ratingChanges(session(NOW, { preRating: { stress: 2, energy: 2 }, postRating: { stress: 5, energy: 5 } }))
+    expect(stress.improved).toBe(false)
+    expect(energy.improved).toBe(true)
+  })
+
+  it('leaves out scales that were never rated', () => {
+    expect(ratingChanges(session(NOW))).toEqual([])
+    expect(ratingChanges(session(NOW, { preRating: { note: 'tired' } }))).toEqual([])
+  })
+})
@@ -0,0 +1,204 @@
+import type { CompletedSession, SessionPreset, BrainwaveBand, MoodRating } from './types'
+import { ratingScales } from './presets'
+
+/**
+ * Trends computed from session history for the insights screen. Everything
+ * here is a pure function of the sessions (plus the preset list, to look up
+ * the band of sessions logged before CompletedSession.targetBand existed).
+ */
+
+export interface WeekMinutes {
+  /** Monday the week starts on, YYYY-MM-DD in local time */
+  weekStart: string
+  minutes: number
+}
+
+export interface BandShare {
+  band: BrainwaveBand
+  minutes: number
+  sessions: number
+}
+
+export interface PresetCompletion {
+  presetId: string
+  presetName: string
+  sessions: number
+  completed: number
+  /** 0–1 */
+  rate: number
+}
+
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night'
+
+export interface TimeOfDayStats {
+  slot: TimeOfDay
+  sessions: number
+  minutes: number
+  /** 0–1, of sessions finished rather than ended early */
+  completionRate: number
+}
+
+export interface MoodLeader {
+  mood: MoodRating
+  /** Sessions rated with this mood */
+  total: number
+  presets: { presetId: string; presetName: string; count: number }[]
+}
+
+export interface Insights {
+  weeks: WeekMinutes[]
+  bands: BandShare[]
+  completion: PresetCompletion[]
+  timesOfDay: TimeOfDayStats[]
+  /** The slot with the best completion rate, among slots with enough sessions */
+  bestTime: TimeOfDay | null
+  moods: MoodLeader[]
+}
+
+export interface RatingChange {
+  scale: (typeof ratingScales)[number]
+  before?: number
+  after?: number
+  /** after − before, when both were rated */
+  delta?: number
+  /** Whether the change was in the scale's better direction */
+  improved: boolean
+}
+
+export const TIME_OF_DAY_HOURS: Record<TimeOfDay, [number, number]> = {
+  morning: [5, 12],
+  afternoon: [12, 17],
+  evening: [17, 21],
+  night: [21, 5],
+}
+
+/** A slot needs this many sessions before it can be the best time */
+const MIN_SESSIONS_FOR_BEST = 3
+
+const BANDS: BrainwaveBand[] = ['delta', 'theta', 'alpha', 'beta', 'gamma']
+const MOODS: MoodRating[] = ['energized', 'calm', 'focused', 'sleepy']
+const TIMES: TimeOfDay[] = ['morning', 'afternoon', 'evening', 'night']
+
+function localDate(date: Date): string {
+  return new Intl.DateTimeFormat('en-CA').format(date) // YYYY-MM-DD in local TZ
+}
+
+function weekStartOf(date: Date): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7))
+  return start
+}
+
+export function timeOfDay(date: Date): TimeOfDay {
+  const hour = date.getHours()
+  if (hour >= 5 && hour < 12) return 'morning'
+  if (hour >= 12 && hour < 17) return 'afternoon'
+  if (hour >= 17 && hour < 21) return 'evening'
+  return 'night'
+}
+
+/** Minutes practiced in each of the last `count` weeks, oldest first */
+export function minutesPerWeek(sessions: CompletedSession[], count = 12, now = new Date()): WeekMinutes[] {
+  const thisWeek = weekStartOf(now)
+  const weeks: WeekMinutes[] = []
+  for (let i = count - 1; i >= 0; i--) {
+    const start = new Date(thisWeek)
+    start.setDate(start.getDate() - i * 7)
+    weeks.push({ weekStart: localDate(start), minutes: 0 })
+  }
+  const index = new Map(weeks.map((w, i) => [w.weekStart, i]))
+  for (const s of sessions) {
+    const i = index.get(localDate(weekStartOf(new Date(s.completedAt))))
+    if (i !== undefined) weeks[i].minutes += s.durationSeconds / 60
+  }
+  return weeks.map((w) => ({ ...w, minutes: Math.round(w.minutes) }))
+}
+
+/** Before/after scores for each scale the session has, with the change when both were rated */
+export function ratingChanges(session: CompletedSession): RatingChange[] {
+  return ratingScales.flatMap((scale) => {
+    const before = session.preRating?.[scale.id]
+    const after = session.postRating?.[scale.id]
+    if (before === undefined && after === undefined) return []
+    const delta = before !== undefined && after !== undefined ? after - before : undefined
+    const improved = delta !== undefined && delta !== 0 && (scale.lowerIsBetter ? delta < 0 : delta > 0)
+    return [{ scale, before, after, delta, improved }]
+  })
+}
+
+export function computeInsights(sessions: CompletedSession[], presets: SessionPreset[], now = new Date()): Insights {
+  const presetBands = new Map(presets.map((p) => [p.id, p.targetBand]))
+
+  // Band distribution
+  const bandTotals = new Map<BrainwaveBand, BandShare>(BANDS.map((band) => [band, { band, minutes: 0, sessions: 0 }]))
+  for (const s of sessions) {
+    const band = s.targetBand ?? presetBands.get(s.presetId)
+    if (!band) continue
+    const share = bandTotals.get(band)!
+    share.minutes += s.durationSeconds / 60
+    share.sessions++
+  }
+  const bands = [...bandTotals.values()].map((b) => ({ ...b, minutes: Math.round(b.minutes) }))
+
+  // Completion per preset, most played first
+  const byPreset = new Map<string, PresetCompletion>()
+  for (const s of sessions) {
+    const entry = byPreset.get(s.presetId) ?? { presetId: s.presetId, presetName: s.presetName, sessions: 0, completed: 0, rate: 0 }
+    entry.sessions++
+    if (s.completedFull) entry.completed++
+    byPreset.set(s.presetId, entry)
+  }
+  const completion = [...byPreset.values()]
+    .map((p) => ({ ...p, rate: p.completed / p.sessions }))
+    .sort((a, b) => b.sessions - a.sessions || b.rate - a.rate)
+
+  // Time of day
+  const slots = new Map<TimeOfDay, { sessions: number; minutes: number; completed: number }>(
+    TIMES.map((slot) => [slot, { sessions: 0, minutes: 0, completed: 0 }]),
+  )
+  for (const s of sessions) {
+    const slot = slots.get(timeOfDay(new Date(s.completedAt)))!
+    slot.sessions++
+    slot.minutes += s.durationSeconds / 60
+    if (s.completedFull) slot.completed++
+  }
+  const timesOfDay = TIMES.map((slot) => {
+    const t = slots.get(slot)!
+    return {
+      slot,
+      sessions: t.sessions,
+      minutes: Math.round(t.minutes),
+      completionRate: t.sessions > 0 ? t.completed / t.sessions : 0,
+    }
+  })
+  const bestTime = timesOfDay
+    .filter((t) => t.sessions >= MIN_SESSIONS_FOR_BEST)
+    .sort((a, b) => b.completionRate - a.completionRate || b.sessions - a.sessions)[0]?.slot ?? null
+
+  // Presets that most often lead to each mood
+  const moods = MOODS.map((mood) => {
+    const counts = new Map<string, { presetId: string; presetName: string; count: number }>()
+    let total = 0
+    for (const s of sessions) {
+      if (s.mood !== mood) continue
+      total++
+      const entry = counts.get(s.presetId) ?? { presetId: s.presetId, presetName: s.presetName, count: 0 }
+      entry.count++
+      counts.set(s.presetId, entry)
+    }
+    return {
+      mood,
+      total,
+      presets: [...counts.values()].sort((a, b) => b.count - a.count).slice(0, 3),
+    }
+  })
+
+  return {
+    weeks: minutesPerWeek(sessions, 12, now),
+    bands,
+    completion,
+    timesOfDay,
+    bestTime,
+    moods,
+  }
+}
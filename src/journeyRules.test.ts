@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import type { CompletedSession, Journey, JourneyProgress } from './types'
+import { planNextDay } from './journeyRules'
+
+const journey: Journey = {
+  id: 'custom_journey_a',
+  name: 'Three Evenings',
+  description: '',
+  category: 'custom',
+  days: [
+    { day: 1, presetId: 'quick-calm', title: 'Settle', tip: '' },
+    {
+      day: 2,
+      presetId: 'deep-relaxation',
+      title: 'Deepen',
+      tip: '',
+      rules: [
+        { when: 'endedEarly', then: 'repeat' },
+        { when: 'energized', then: 'swap', presetId: 'sleep-descent' },
+        { when: 'calm', then: 'repeat' },
+      ],
+    },
+    { day: 3, presetId: 'sleep-descent', title: 'Rest', tip: '' },
+  ],
+  icon: '☾',
+  color: '#6366f1',
+}
+
+const STARTED = '2026-03-01T20:00:00.000Z'
+
+function progress(completedDays: number[]): JourneyProgress {
+  return { journeyId: journey.id, completedDays, startedAt: STARTED, lastCompletedAt: null }
+}
+
+function session(day: number, fields: Partial<CompletedSession> = {}): CompletedSession {
+  return {
+    id: `s${day}`,
+    presetId: journey.days[day - 1].presetId,
+    presetName: journey.days[day - 1].title,
+    category: 'custom',
+    durationSeconds: 600,
+    completedAt: `2026-03-0${day + 1}T21:00:00.000Z`,
+    completedFull: true,
+    journeyId: journey.id,
+    journeyDay: day,
+    ...fields,
+  }
+}
+
+describe('planNextDay', () => {
+  it('plays the next day as planned when no rule matches', () => {
+    expect(planNextDay(journey, undefined, [])).toEqual({ day: journey.days[0], presetId: 'quick-calm' })
+    expect(planNextDay(journey, progress([1]), [session(1, { mood: 'sleepy' })]))
+      .toEqual({ day: journey.days[1], presetId: 'deep-relaxation' })
+  })
+
+  it('swaps in another preset on a matching mood', () => {
+    const previous = session(1, { mood: 'energized' })
+    const plan = planNextDay(journey, progress([1]), [previous])
+    expect(plan).toEqual({ day: journey.days[1], presetId: 'sleep-descent', rule: journey.days[1].rules![1], previous })
+  })
+
+  it('repeats the previous day, as it was actually played', () => {
+    const previous = session(1, { mood: 'calm', presetId: 'ocean-drift' })
+    const plan = planNextDay(journey, progress([1]), [previous])
+    expect(plan?.day).toBe(journey.days[0])
+    expect(plan?.presetId).toBe('ocean-drift')
+  })
+
+  it('uses the first rule that matches', () => {
+    const previous = session(1, { mood: 'energized', completedFull: false })
+    expect(planNextDay(journey, progress([1]), [previous])?.rule).toEqual({ when: 'endedEarly', then: 'repeat' })
+  })
+
+  it('ignores the rules when asked to play as planned', () => {
+    const plan = planNextDay(journey, progress([1]), [session(1, { mood: 'energized' })], true)
+    expect(plan).toEqual({ day: journey.days[1], presetId: 'deep-relaxation' })
+  })
+
+  it('only responds to sessions from this run of the journey', () => {
+    const earlierRun = session(1, { mood: 'energized', completedAt: '2026-02-01T21:00:00.000Z' })
+    expect(planNextDay(journey, progress([1]), [earlierRun])?.rule).toBeUndefined()
+
+    const elsewhere = { ...session(1, { mood: 'energized' }), journeyId: 'another' }
+    expect(planNextDay(journey, progress([1]), [elsewhere])?.rule).toBeUndefined()
+  })
+
+  it('has nothing left once every day is done', () => {
+    expect(planNextDay(journey, progress([1, 2, 3]), [session(3)])).toBeNull()
+  })
+})
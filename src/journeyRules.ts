@@ -0,0 +1,71 @@
+import type { CompletedSession, Journey, JourneyDay, JourneyProgress, JourneyRule, JourneyTrigger } from './types'
+
+/**
+ * Adaptive journeys. Before the next day is played, its rules are checked
+ * against the previous session of this run of the journey — whether it was
+ * ended early, and the mood it was rated with. The first matching rule
+ * either repeats the previous session's day or swaps in another preset.
+ */
+
+export const triggerLabels: Record<JourneyTrigger, string> = {
+  endedEarly: 'Ended early',
+  energized: 'Felt energized',
+  calm: 'Felt calm',
+  focused: 'Felt focused',
+  sleepy: 'Felt sleepy',
+}
+
+export const JOURNEY_TRIGGERS = Object.keys(triggerLabels) as JourneyTrigger[]
+
+/** Most rules a single day can carry */
+export const MAX_RULES_PER_DAY = 4
+
+export interface PlannedDay {
+  /** The day a full session will complete */
+  day: JourneyDay
+  presetId: string
+  /** The rule that changed the plan, if one did */
+  rule?: JourneyRule
+  /** The session the rule responded to */
+  previous?: CompletedSession
+}
+
+/** Newest session played from this run of the journey (sessions are newest first) */
+export function previousJourneySession(
+  journeyId: string,
+  progress: JourneyProgress | undefined,
+  sessions: CompletedSession[],
+): CompletedSession | undefined {
+  if (!progress) return undefined
+  return sessions.find((s) => s.journeyId === journeyId && s.completedAt >= progress.startedAt)
+}
+
+export function ruleMatches(rule: JourneyRule, session: CompletedSession): boolean {
+  return rule.when === 'endedEarly' ? !session.completedFull : session.mood === rule.when
+}
+
+/**
+ * What to play next. Null once every day is complete. Pass `asPlanned` to
+ * ignore the day's rules.
+ */
+export function planNextDay(
+  journey: Journey,
+  progress: JourneyProgress | undefined,
+  sessions: CompletedSession[],
+  asPlanned = false,
+): PlannedDay | null {
+  const completedDays = progress?.completedDays ?? []
+  const next = journey.days.find((d) => !completedDays.includes(d.day))
+  if (!next) return null
+
+  const planned = { day: next, presetId: next.presetId }
+  const previous = previousJourneySession(journey.id, progress, sessions)
+  const rule = !asPlanned && previous ? next.rules?.find((r) => ruleMatches(r, previous)) : undefined
+  if (!rule || !previous) return planned
+
+  if (rule.then === 'swap') return { day: next, presetId: rule.presetId, rule, previous }
+
+  // Repeat what was actually played last time, which may itself have been a swap
+  const repeated = journey.days.find((d) => d.day === previous.journeyDay)
+  return repeated ? { day: repeated, presetId: previous.presetId, rule, previous } : planned
+}
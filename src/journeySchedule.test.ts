@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import type { Journey, JourneyProgress, JourneySchedule } from './types'
+import { isDayUnlocked, journeyStatus, nextReminderAt } from './journeySchedule'
+
+const journey: Journey = {
+  id: 'custom_journey_a',
+  name: 'Five Evenings',
+  description: '',
+  category: 'custom',
+  days: [1, 2, 3, 4, 5].map((day) => ({ day, presetId: 'quick-calm', title: `Day ${day}`, tip: '' })),
+  icon: '☾',
+  color: '#6366f1',
+}
+
+const DAILY: JourneySchedule = { daily: true, reminderTime: '20:30' }
+
+/** Thursday 12 March 2026 at `hour`, local time */
+function march12(hour: number, minute = 0): Date {
+  return new Date(2026, 2, 12, hour, minute)
+}
+
+/** Progress with each listed day completed at 9pm on the given day of March */
+function progress(completed: Record<number, number>, schedule?: JourneySchedule): JourneyProgress {
+  const entries = Object.entries(completed).map(([day, date]) => [Number(day), date] as const)
+  const times = entries.map(([, date]) => new Date(2026, 2, date, 21).toISOString()).sort()
+  return {
+    journeyId: journey.id,
+    completedDays: entries.map(([day]) => day),
+    startedAt: times[0] ?? new Date(2026, 2, 1).toISOString(),
+    lastCompletedAt: times[times.length - 1] ?? null,
+    completedOn: Object.fromEntries(entries.map(([day, date]) => [day, `2026-03-${String(date).padStart(2, '0')}`])),
+    ...(schedule ? { schedule } : {}),
+  }
+}
+
+describe('journeyStatus', () => {
+  it('offers the first day not yet completed', () => {
+    const status = journeyStatus(journey, progress({ 1: 9, 3: 10 }), march12(8))
+    expect(status.nextDay?.day).toBe(2)
+    expect(status.isComplete).toBe(false)
+    expect(status.missedDays).toBe(0)
+  })
+
+  it('holds a daily journey until tomorrow once a day is done', () => {
+    const done = progress({ 1: 10, 2: 11 }, DAILY)
+    expect(journeyStatus(journey, done, march12(8)).availableToday).toBe(true)
+
+    const doneToday = journeyStatus(journey, progress({ 1: 11, 2: 12 }, DAILY), march12(22))
+    expect(doneToday.doneToday).toBe(true)
+    expect(doneToday.availableToday).toBe(false)
+
+    // Without a schedule, the next day is there straight away
+    expect(journeyStatus(journey, progress({ 1: 11, 2: 12 }), march12(22)).availableToday).toBe(true)
+  })
+
+  it('counts calendar days without practice, up to yesterday', () => {
+    // Done on the 6th and 8th; the 7th, 9th, 10th and 11th were missed, today is still open
+    expect(journeyStatus(journey, progress({ 1: 6, 2: 8 }, DAILY), march12(8)).missedDays).toBe(4)
+    expect(journeyStatus(journey, progress({ 1: 6, 2: 8 }), march12(8)).missedDays).toBe(0)
+
+    // A finished journey stops counting at its last day
+    const finished = progress({ 1: 2, 2: 3, 3: 5, 4: 6, 5: 7 }, DAILY)
+    const status = journeyStatus(journey, finished, march12(8))
+    expect(status.isComplete).toBe(true)
+    expect(status.missedDays).toBe(1)
+  })
+
+  it('counts a repeated day as practice', () => {
+    // Day 1 on the 9th, repeated by a rule on the 10th, then day 2 on the 11th
+    const repeated = { ...progress({ 1: 9, 2: 11 }, DAILY), practicedOn: ['2026-03-09', '2026-03-10', '2026-03-11'] }
+    expect(journeyStatus(journey, repeated, march12(8)).missedDays).toBe(0)
+
+    // Progress saved before practice dates were kept still counts its completions
+    expect(journeyStatus(journey, progress({ 1: 9, 2: 11 }, DAILY), march12(8)).missedDays).toBe(1)
+  })
+})
+
+describe('isDayUnlocked', () => {
+  it('only unlocks the next day of a daily journey', () => {
+    const current = progress({ 1: 10 }, DAILY)
+    const status = journeyStatus(journey, current, march12(8))
+    expect(isDayUnlocked(journey.days[1], status, DAILY)).toBe(true)
+    expect(isDayUnlocked(journey.days[2], status, DAILY)).toBe(false)
+    expect(isDayUnlocked(journey.days[2], status, undefined)).toBe(true)
+  })
+})
+
+describe('nextReminderAt', () => {
+  it('reminds later today, or tomorrow once today is done or the time has passed', () => {
+    expect(nextReminderAt(journey, progress({ 1: 11 }, DAILY), march12(8))).toEqual(march12(20, 30))
+    expect(nextReminderAt(journey, progress({ 1: 11 }, DAILY), march12(21))).toEqual(new Date(2026, 2, 13, 20, 30))
+
+    const doneThisMorning = { ...progress({ 1: 11, 2: 12 }, DAILY), lastCompletedAt: march12(7).toISOString() }
+    expect(nextReminderAt(journey, doneThisMorning, march12(8))).toEqual(new Date(2026, 2, 13, 20, 30))
+  })
+
+  it('stays quiet without a reminder time or once the journey is done', () => {
+    expect(nextReminderAt(journey, progress({ 1: 11 }, { daily: true, reminderTime: null }), march12(8))).toBeNull()
+    expect(nextReminderAt(journey, progress({ 1: 2, 2: 3, 3: 4, 4: 5, 5: 6 }, DAILY), march12(8))).toBeNull()
+  })
+})
@@ -0,0 +1,80 @@
+import type { Journey, JourneyDay, JourneyProgress, JourneySchedule } from './types'
+
+/**
+ * Calendar pacing for journeys. With a daily schedule only the next day can
+ * be started, and only once per calendar day; missed days are calendar days
+ * between the first and latest practice (or yesterday, while the journey
+ * is still running) with nothing played — a repeated day counts as practice.
+ */
+
+export const DEFAULT_JOURNEY_SCHEDULE: JourneySchedule = {
+  daily: false,
+  reminderTime: null,
+}
+
+export interface JourneyStatus {
+  nextDay: JourneyDay | undefined
+  isComplete: boolean
+  /** A day was completed today */
+  doneToday: boolean
+  /** False while a daily journey's next day is waiting for tomorrow */
+  availableToday: boolean
+  missedDays: number
+}
+
+function localDate(date: Date): string {
+  return new Intl.DateTimeFormat('en-CA').format(date) // YYYY-MM-DD in local TZ
+}
+
+/** Dates the journey was played on. Progress saved before repeats were recorded only has completedOn. */
+function practiceDates(progress: JourneyProgress): string[] {
+  return [...new Set([...(progress.practicedOn ?? []), ...Object.values(progress.completedOn ?? {})])].sort()
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00`)
+  d.setDate(d.getDate() + days)
+  return localDate(d)
+}
+
+export function journeyStatus(journey: Journey, progress: JourneyProgress | undefined, now = new Date()): JourneyStatus {
+  const completedDays = progress?.completedDays ?? []
+  const nextDay = journey.days.find((d) => !completedDays.includes(d.day))
+  const isComplete = completedDays.length >= journey.days.length
+  const today = localDate(now)
+
+  const doneToday = !!progress?.lastCompletedAt && localDate(new Date(progress.lastCompletedAt)) === today
+  const availableToday = !isComplete && !(progress?.schedule?.daily && doneToday)
+
+  // Missed days only make sense when the journey is paced by the calendar
+  let missedDays = 0
+  const dates = progress ? practiceDates(progress) : []
+  if (progress?.schedule?.daily && dates.length > 0) {
+    const done = new Set(dates)
+    const end = isComplete ? dates[dates.length - 1] : addDays(today, -1)
+    for (let date = dates[0]; date <= end; date = addDays(date, 1)) {
+      if (!done.has(date)) missedDays++
+    }
+  }
+
+  return { nextDay, isComplete, doneToday, availableToday, missedDays }
+}
+
+/** Whether `day` can be started now under the journey's schedule */
+export function isDayUnlocked(day: JourneyDay, status: JourneyStatus, schedule: JourneySchedule | undefined): boolean {
+  if (!schedule?.daily) return true
+  return status.availableToday && status.nextDay?.day === day.day
+}
+
+/** Next time a reminder for this journey should fire, or null when none is due */
+export function nextReminderAt(journey: Journey, progress: JourneyProgress, now = new Date()): Date | null {
+  const time = progress.schedule?.reminderTime
+  if (!time) return null
+  const status = journeyStatus(journey, progress, now)
+  if (status.isComplete) return null
+
+  const [hours, minutes] = time.split(':').map(Number)
+  const at = new Date(now.getFullYear(), now.getMonth(), now.getDate(), hours, minutes)
+  if (at <= now || status.doneToday) at.setDate(at.getDate() + 1)
+  return at
+}
@@ -1,4 +1,11 @@
-import type { Journey } from './types'
+import type { Journey, JourneyRule } from './types'
+
+// Once delta sessions start: a session that left the listener wired is
+// worth repeating, and one they couldn't finish steps back to plain relaxation
+const sleepRules: JourneyRule[] = [
+  { when: 'energized', then: 'repeat' },
+  { when: 'endedEarly', then: 'swap', presetId: 'deep-relax' },
+]
 
 export const journeys: Journey[] = [
   {
@@ -32,24 +39,28 @@ export const journeys: Journey[] = [
         presetId: 'sleep-drift',
         title: 'First Delta Session',
         tip: 'Your brain is now ready for delta frequencies. Let the tones carry you to sleep — no need to stay awake.',
+        rules: sleepRules,
       },
       {
         day: 5,
         presetId: 'sleep-drift',
         title: 'Deepening Sleep',
         tip: 'Keep a consistent bedtime. Your brain is starting to associate these tones with sleep onset.',
+        rules: sleepRules,
       },
       {
         day: 6,
         presetId: 'sleep-drift',
         title: 'Full Descent',
         tip: 'Enable the breathing guide tonight. Slow breathing combined with delta waves creates powerful sleep induction.',
+        rules: sleepRules,
       },
       {
         day: 7,
         presetId: 'sleep-drift',
         title: 'Sleep Integration',
         tip: 'Final session. After tonight, your brain will have stronger neural pathways for entering deep sleep.',
+        rules: sleepRules,
       },
     ],
   },
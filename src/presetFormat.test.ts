@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest'
+import type { SessionPreset } from './types'
+import { allPresets, presets } from './presets'
+import { FileFormatError } from './fileFormat'
+import {
+  PRESET_FILE_VERSION,
+  findCollisions,
+  parsePresetFile,
+  prepareImport,
+  presetFileName,
+  serializePresets,
+} from './presetFormat'
+
+const custom: SessionPreset = {
+  ...presets[0],
+  id: 'custom_a',
+  name: 'Evening Wind-Down',
+  category: 'custom',
+}
+
+/** A preset file holding `preset` as plain JSON, for editing before parsing */
+function fileWith(preset: unknown): Record<string, unknown> {
+  return { format: 'bbpreset', version: PRESET_FILE_VERSION, exportedAt: '', presets: [preset] }
+}
+
+function parseError(file: unknown): FileFormatError {
+  try {
+    parsePresetFile(JSON.stringify(file))
+  } catch (err) {
+    if (err instanceof FileFormatError) return err
+    throw err
+  }
+  throw new Error('The file was accepted')
+}
+
+describe('parsePresetFile', () => {
+  it('reads back every built-in preset as written, guided scripts included', () => {
+    expect(parsePresetFile(serializePresets(allPresets))).toEqual(allPresets)
+    expect(parsePresetFile(serializePresets([custom], 0))).toEqual([custom])
+  })
+
+  it('drops fields it does not know', () => {
+    const file = fileWith({ ...custom, extra: 'ignored', carriers: [{ ...custom.carriers[0], extra: 1 }] })
+    const [preset] = parsePresetFile(JSON.stringify(file))
+    expect(preset).not.toHaveProperty('extra')
+    expect(preset.carriers[0]).not.toHaveProperty('extra')
+  })
+
+  it('refuses other files and newer versions', () => {
+    expect(() => parsePresetFile('{ not json')).toThrow('The file is not valid JSON')
+    expect(parseError({ format: 'bbbackup', version: 1 }).message).toMatch(/^Not a preset file/)
+    expect(parseError({ ...fileWith(custom), version: PRESET_FILE_VERSION + 1 }).path).toBe('version')
+    expect(parseError({ ...fileWith(custom), presets: [] }).path).toBe('presets')
+  })
+
+  it('points at the field that is out of range', () => {
+    const loud = fileWith({ ...custom, carriers: [{ ...custom.carriers[0], carrierFreq: 5000 }] })
+    expect(parseError(loud).message).toBe('presets[0].carriers[0].carrierFreq: Must be at most 1500')
+
+    const unnamed = fileWith({ ...custom, name: '   ' })
+    expect(parseError(unnamed).path).toBe('presets[0].name')
+  })
+
+  it('checks the envelope spans the session in time order', () => {
+    const envelope = custom.frequencyEnvelope
+    const late = fileWith({ ...custom, frequencyEnvelope: envelope.map((p, i) => (i === 0 ? { ...p, time: 5 } : p)) })
+    expect(parseError(late).path).toBe('presets[0].frequencyEnvelope')
+
+    const backwards = fileWith({ ...custom, frequencyEnvelope: [envelope[0], envelope[2], envelope[1], ...envelope.slice(3)] })
+    expect(parseError(backwards).path).toBe('presets[0].frequencyEnvelope[2]')
+
+    const short = fileWith({ ...custom, duration: custom.duration + 60 })
+    expect(parseError(short).message).toMatch(/The last point must be at the session's end/)
+  })
+})
+
+describe('prepareImport', () => {
+  const other: SessionPreset = { ...custom, id: 'custom_b', name: 'Other' }
+
+  it('keeps custom ids that are free and replaces the rest', () => {
+    const [builtIn, kept] = prepareImport([presets[1], other], [custom], 'copy')
+    expect(builtIn.id).toMatch(/^custom_/)
+    expect(builtIn.id).not.toBe(presets[1].id)
+    expect(builtIn.category).toBe('custom')
+    expect(kept).toEqual(other)
+  })
+
+  it('copies or replaces a saved preset with the same id', () => {
+    expect(findCollisions([custom, other], [custom])).toEqual([custom])
+
+    const [copy] = prepareImport([custom], [custom], 'copy')
+    expect(copy.id).not.toBe(custom.id)
+    expect(copy.name).toBe('Evening Wind-Down (Imported)')
+
+    expect(prepareImport([custom], [custom], 'replace')).toEqual([custom])
+  })
+
+  it('gives repeated ids in one file their own', () => {
+    const [first, second] = prepareImport([custom, custom], [], 'replace')
+    expect(first.id).toBe(custom.id)
+    expect(second.id).not.toBe(custom.id)
+  })
+})
+
+describe('presetFileName', () => {
+  it('names a file after its one preset', () => {
+    expect(presetFileName([custom])).toBe('evening-wind-down.bbpreset.json')
+    expect(presetFileName([{ ...custom, name: '☾ ☾' }])).toBe('session.bbpreset.json')
+    expect(presetFileName([custom, custom])).toBe('binaural-sessions.bbpreset.json')
+  })
+})
@@ -0,0 +1,353 @@
+import type {
+  SessionPreset,
+  CarrierLayer,
+  FrequencyPoint,
+  PhaseMarkers,
+  HabituationConfig,
+  GuidanceScript,
+  VoiceCue,
+  GuidancePhase,
+  SAMWindow,
+  IsochronicWindow,
+  IsochronicLayer,
+  CarrierGainEvent,
+  AmbientFadeEvent,
+  ResonantTuningConfig,
+  NoiseFilterConfig,
+  BrainwaveBand,
+  NoiseType,
+  AmbientSoundType,
+  PresetCategory,
+  EnvelopeCurve,
+  BeatMode,
+  SAMMode,
+  OrbitPath,
+  PulseShape,
+} from './types'
+import {
+  FileFormatError,
+  type Json,
+  parseJSON,
+  asObject,
+  object,
+  number,
+  string,
+  boolean,
+  oneOf,
+  array,
+  optional,
+  list,
+  join,
+} from './fileFormat'
+
+/**
+ * The `.bbpreset.json` file format — custom presets shared between people
+ * and devices. See docs/bbpreset-format.md for the full description.
+ *
+ *   { "format": "bbpreset", "version": 1, "exportedAt": "…", "presets": [ … ] }
+ *
+ * Each entry is a complete SessionPreset. Parsing validates every field and
+ * rebuilds each preset from the known fields only, so unknown keys are
+ * dropped rather than carried into storage.
+ */
+
+export const PRESET_FILE_FORMAT = 'bbpreset'
+export const PRESET_FILE_VERSION = 1
+export const PRESET_FILE_EXTENSION = '.bbpreset.json'
+
+/** Largest file we'll try to read — real files are a few KB per preset */
+export const MAX_PRESET_FILE_BYTES = 1024 * 1024
+
+/** Bounds every preset keeps to — the session builder checks the same ones before saving */
+export const PRESET_LIMITS = {
+  nameLength: 50,
+  /** Seconds */
+  duration: { min: 60, max: 14400 },
+  carriers: { min: 1, max: 4 },
+  carrierFreq: { min: 20, max: 1500 },
+  envelopePoints: { min: 2, max: 50 },
+  beatFreq: { min: 0.1, max: 100 },
+}
+
+export interface PresetFile {
+  format: typeof PRESET_FILE_FORMAT
+  version: number
+  /** ISO timestamp of the export */
+  exportedAt: string
+  presets: SessionPreset[]
+}
+
+// ── Export ───────────────────────────────────────────────
+
+/** `space` indents the JSON like JSON.stringify's — 0 gives the compact form used in links */
+export function serializePresets(presets: SessionPreset[], space = 2): string {
+  const file: PresetFile = {
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    presets,
+  }
+  return JSON.stringify(file, null, space)
+}
+
+export function presetFileName(presets: SessionPreset[]): string {
+  const base = presets.length === 1 ? presets[0].name : 'binaural-sessions'
+  const slug = base.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+  return `${slug || 'session'}${PRESET_FILE_EXTENSION}`
+}
+
+// ── Import ───────────────────────────────────────────────
+
+/** Parses and validates a `.bbpreset.json` file. Throws FileFormatError. */
+export function parsePresetFile(text: string): SessionPreset[] {
+  const file = asObject(parseJSON(text), '')
+  if (file.format !== PRESET_FILE_FORMAT) {
+    throw new FileFormatError(`Not a preset file (expected "format": "${PRESET_FILE_FORMAT}")`)
+  }
+  const version = file.version
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new FileFormatError('Missing or invalid format version', 'version')
+  }
+  if (version > PRESET_FILE_VERSION) {
+    throw new FileFormatError(
+      `This file uses format version ${version}, but this app reads up to version ${PRESET_FILE_VERSION} — update the app to import it`,
+      'version',
+    )
+  }
+
+  const presets = array(file, 'presets', '', { min: 1, max: 50 })
+  return presets.map((p, i) => readPreset(p, `presets[${i}]`))
+}
+
+export type CollisionMode = 'replace' | 'copy'
+
+/** Imported presets whose ids match a saved custom preset */
+export function findCollisions(imported: SessionPreset[], existing: SessionPreset[]): SessionPreset[] {
+  const ids = new Set(existing.map((p) => p.id))
+  return imported.filter((p) => ids.has(p.id))
+}
+
+/**
+ * Gets imported presets ready to save as custom presets. Ids that aren't
+ * custom ids, repeat within the file, or (in 'copy' mode) match a saved
+ * preset get fresh ids; in 'replace' mode a matching id overwrites the
+ * saved preset. Everything becomes category 'custom'.
+ */
+export function prepareImport(imported: SessionPreset[], existing: SessionPreset[], mode: CollisionMode): SessionPreset[] {
+  const existingIds = new Set(existing.map((p) => p.id))
+  const seen = new Set<string>()
+  return imported.map((preset) => {
+    const clash = mode === 'copy' && existingIds.has(preset.id)
+    const needsId = !preset.id.startsWith('custom_') || seen.has(preset.id) || clash
+    const id = needsId ? `custom_${crypto.randomUUID()}` : preset.id
+    seen.add(id)
+    return {
+      ...preset,
+      id,
+      name: clash ? `${preset.name} (Imported)`.slice(0, PRESET_LIMITS.nameLength) : preset.name,
+      category: 'custom',
+    }
+  })
+}
+
+// ── Field readers ────────────────────────────────────────
+
+export const PRESET_CATEGORIES = ['meditation', 'focus', 'sleep', 'relaxation', 'advanced', 'guided', 'custom'] as const satisfies readonly PresetCategory[]
+export const BRAINWAVE_BANDS = ['delta', 'theta', 'alpha', 'beta', 'gamma'] as const satisfies readonly BrainwaveBand[]
+const NOISE_TYPES = ['pink', 'brown', 'none'] as const satisfies readonly NoiseType[]
+const AMBIENT_SOUNDS = ['rain', 'ocean', 'forest', 'fire', 'wind', 'stream', 'rain-tin-roof', 'rain-on-leaves', 'none'] as const satisfies readonly AmbientSoundType[]
+const CURVES = ['linear', 'exponential', 'ease', 'hold', 'step'] as const satisfies readonly EnvelopeCurve[]
+const BEAT_MODES = ['binaural', 'monaural', 'swapped', 'centered'] as const satisfies readonly BeatMode[]
+const SAM_MODES = ['smooth', 'erratic', 'spatial'] as const satisfies readonly SAMMode[]
+const ORBIT_PATHS = ['circle', 'ellipse', 'figure8'] as const satisfies readonly OrbitPath[]
+const PULSE_SHAPES = ['trapezoid', 'sine', 'sawtooth'] as const satisfies readonly PulseShape[]
+
+function checkWindow(w: { startTime: number; endTime: number }, path: string, duration: number): void {
+  if (w.endTime <= w.startTime) throw new FileFormatError('endTime must be after startTime', path)
+  if (w.endTime > duration) throw new FileFormatError(`endTime is past the session's end (${duration}s)`, path)
+}
+
+// ── Preset readers ───────────────────────────────────────
+
+export function readPreset(value: unknown, path: string): SessionPreset {
+  const obj = asObject(value, path)
+  const duration = number(obj, 'duration', path, PRESET_LIMITS.duration)
+
+  const frequencyEnvelope = list(obj, 'frequencyEnvelope', path, readPoint, PRESET_LIMITS.envelopePoints)
+  const envPath = join(path, 'frequencyEnvelope')
+  if (frequencyEnvelope[0].time !== 0) throw new FileFormatError('The first point must be at time 0', envPath)
+  for (let i = 1; i < frequencyEnvelope.length; i++) {
+    if (frequencyEnvelope[i].time <= frequencyEnvelope[i - 1].time) {
+      throw new FileFormatError('Points must be in increasing time order', join(envPath, i))
+    }
+  }
+  if (frequencyEnvelope[frequencyEnvelope.length - 1].time !== duration) {
+    throw new FileFormatError(`The last point must be at the session's end (${duration}s)`, envPath)
+  }
+
+  const carriers = list(obj, 'carriers', path, readCarrier, PRESET_LIMITS.carriers)
+
+  const preset: SessionPreset = {
+    id: string(obj, 'id', path, { nonEmpty: true, maxLength: 100 }),
+    name: string(obj, 'name', path, { nonEmpty: true, maxLength: PRESET_LIMITS.nameLength }),
+    description: string(obj, 'description', path, { maxLength: 500 }),
+    category: oneOf(obj, 'category', path, PRESET_CATEGORIES),
+    targetBand: oneOf(obj, 'targetBand', path, BRAINWAVE_BANDS),
+    duration,
+    carriers,
+    frequencyEnvelope,
+    noiseType: oneOf(obj, 'noiseType', path, NOISE_TYPES),
+    noiseVolume: number(obj, 'noiseVolume', path, { min: 0, max: 1 }),
+    hasReturnPhase: boolean(obj, 'hasReturnPhase', path),
+    isochronicAvailable: boolean(obj, 'isochronicAvailable', path),
+    icon: string(obj, 'icon', path, { maxLength: 16 }),
+    color: readColor(obj, path),
+    ambientSound: oneOf(obj, 'ambientSound', path, AMBIENT_SOUNDS),
+    ambientVolume: number(obj, 'ambientVolume', path, { min: 0, max: 1 }),
+    ...optional(obj, 'phases', () => readPhases(object(obj, 'phases', path), join(path, 'phases'), duration)),
+    ...optional(obj, 'habituation', () => readHabituation(object(obj, 'habituation', path), join(path, 'habituation'))),
+    ...optional(obj, 'guidanceScript', () =>
+      readScript(object(obj, 'guidanceScript', path), join(path, 'guidanceScript'), duration, carriers.length)),
+  }
+  return preset
+}
+
+export function readColor(obj: Json, path: string): string {
+  const color = string(obj, 'color', path)
+  if (!/^#[0-9a-fA-F]{6}$/.test(color)) throw new FileFormatError('Expected a hex color like "#3b82f6"', join(path, 'color'))
+  return color
+}
+
+function readPoint(value: unknown, path: string): FrequencyPoint {
+  const obj = asObject(value, path)
+  return {
+    time: number(obj, 'time', path, { min: 0 }),
+    beatFreq: number(obj, 'beatFreq', path, PRESET_LIMITS.beatFreq),
+    ...optional(obj, 'curve', () => oneOf(obj, 'curve', path, CURVES)),
+  }
+}
+
+function readCarrier(value: unknown, path: string): CarrierLayer {
+  const obj = asObject(value, path)
+  return {
+    carrierFreq: number(obj, 'carrierFreq', path, PRESET_LIMITS.carrierFreq),
+    gainDb: number(obj, 'gainDb', path, { min: -60, max: 6 }),
+    ...optional(obj, 'fixedBeatFreq', () => number(obj, 'fixedBeatFreq', path, PRESET_LIMITS.beatFreq)),
+    ...optional(obj, 'beatMode', () => oneOf(obj, 'beatMode', path, BEAT_MODES)),
+  }
+}
+
+function readPhases(obj: Json, path: string, duration: number): PhaseMarkers {
+  const inductionEnd = number(obj, 'inductionEnd', path, { min: 0, max: duration })
+  const phases: PhaseMarkers = { inductionEnd }
+  if (obj.returnStart !== undefined) {
+    phases.returnStart = number(obj, 'returnStart', path, { min: inductionEnd, max: duration })
+  }
+  return phases
+}
+
+function readHabituation(obj: Json, path: string): HabituationConfig {
+  return {
+    enabled: boolean(obj, 'enabled', path),
+    depth: number(obj, 'depth', path, { min: 0, max: 10 }),
+    period: number(obj, 'period', path, { min: 1, max: 3600 }),
+    waveform: oneOf(obj, 'waveform', path, ['sine', 'triangle'] as const),
+    ...optional(obj, 'drift', () => number(obj, 'drift', path, { min: 0, max: 10 })),
+  }
+}
+
+function readScript(obj: Json, path: string, duration: number, carrierCount: number): GuidanceScript {
+  const readWindow = <T extends { startTime: number; endTime: number }>(read: (o: Json, at: string) => T) =>
+    (value: unknown, at: string): T => {
+      const w = read(asObject(value, at), at)
+      checkWindow(w, at, duration)
+      return w
+    }
+  const time = (o: Json, key: string, at: string) => number(o, key, at, { min: 0, max: duration })
+
+  const readCue = (value: unknown, at: string): VoiceCue => {
+    const o = asObject(value, at)
+    return {
+      time: time(o, 'time', at),
+      text: string(o, 'text', at, { maxLength: 2000 }),
+      ...optional(o, 'pauseAfter', () => number(o, 'pauseAfter', at, { min: 0 })),
+      ...optional(o, 'chime', () => boolean(o, 'chime', at)),
+      ...optional(o, 'chimeOnly', () => boolean(o, 'chimeOnly', at)),
+    }
+  }
+  const readPhase = readWindow((o, at): GuidancePhase => ({
+    name: string(o, 'name', at, { nonEmpty: true, maxLength: 60 }),
+    startTime: time(o, 'startTime', at),
+    endTime: time(o, 'endTime', at),
+  }))
+  const readSam = readWindow((o, at): SAMWindow => ({
+    startTime: time(o, 'startTime', at),
+    endTime: time(o, 'endTime', at),
+    rotationHz: number(o, 'rotationHz', at, { min: 0.1, max: 100 }),
+    mode: oneOf(o, 'mode', at, SAM_MODES),
+    ...optional(o, 'carrierFreq', () => number(o, 'carrierFreq', at, { min: 20, max: 1500 })),
+    ...optional(o, 'path', () => oneOf(o, 'path', at, ORBIT_PATHS)),
+    ...optional(o, 'elevation', () => number(o, 'elevation', at, { min: -90, max: 90 })),
+    ...optional(o, 'radius', () => number(o, 'radius', at, { min: 0.25, max: 10 })),
+  }))
+  const readLayer = (value: unknown, at: string): IsochronicLayer => {
+    const o = asObject(value, at)
+    return {
+      pulseHz: number(o, 'pulseHz', at, { min: 0.1, max: 100 }),
+      carrierFreq: number(o, 'carrierFreq', at, { min: 20, max: 1500 }),
+      ...optional(o, 'shape', () => oneOf(o, 'shape', at, PULSE_SHAPES)),
+      ...optional(o, 'dutyCycle', () => number(o, 'dutyCycle', at, { min: 0.05, max: 1 })),
+      ...optional(o, 'gainDb', () => number(o, 'gainDb', at, { min: -60, max: 6 })),
+    }
+  }
+  const readPulses = readWindow((o, at): IsochronicWindow => ({
+    startTime: time(o, 'startTime', at),
+    endTime: time(o, 'endTime', at),
+    layers: list(o, 'layers', at, readLayer, { min: 1, max: 4 }),
+  }))
+  const readCarrierEvent = (value: unknown, at: string): CarrierGainEvent => {
+    const o = asObject(value, at)
+    return {
+      time: time(o, 'time', at),
+      carrierIndex: number(o, 'carrierIndex', at, { min: 0, max: carrierCount - 1 }),
+      targetGain: number(o, 'targetGain', at, { min: 0, max: 1 }),
+      durationSec: number(o, 'durationSec', at, { min: 0 }),
+    }
+  }
+  const readAmbientEvent = (value: unknown, at: string): AmbientFadeEvent => {
+    const o = asObject(value, at)
+    return {
+      time: time(o, 'time', at),
+      targetVolume: number(o, 'targetVolume', at, { min: 0, max: 1 }),
+      durationSec: number(o, 'durationSec', at, { min: 0 }),
+    }
+  }
+  const readResonant = (o: Json, at: string): ResonantTuningConfig => {
+    const tuning: ResonantTuningConfig = {
+      startTime: time(o, 'startTime', at),
+      endTime: time(o, 'endTime', at),
+      ...optional(o, 'frequency', () => number(o, 'frequency', at, { min: 20, max: 1500 })),
+      ...optional(o, 'gainDb', () => number(o, 'gainDb', at, { min: -60, max: 6 })),
+    }
+    checkWindow(tuning, at, duration)
+    return tuning
+  }
+  const readFilter = (o: Json, at: string): NoiseFilterConfig => ({
+    ...optional(o, 'lowPassFreq', () => number(o, 'lowPassFreq', at, { min: 20, max: 20000 })),
+    ...optional(o, 'breathingLFO', () => boolean(o, 'breathingLFO', at)),
+  })
+
+  return {
+    voiceCues: list(obj, 'voiceCues', path, readCue, { max: 500 }),
+    phases: list(obj, 'phases', path, readPhase, { min: 1, max: 50 }),
+    ...optional(obj, 'resonantTuning', () => readResonant(object(obj, 'resonantTuning', path), join(path, 'resonantTuning'))),
+    ...optional(obj, 'phasedNoise', () => boolean(obj, 'phasedNoise', path)),
+    ...optional(obj, 'voiceVolume', () => number(obj, 'voiceVolume', path, { min: 0, max: 1 })),
+    ...optional(obj, 'samWindows', () => list(obj, 'samWindows', path, readSam, { max: 50 })),
+    ...optional(obj, 'isochronicWindows', () => list(obj, 'isochronicWindows', path, readPulses, { max: 50 })),
+    ...optional(obj, 'carrierGainEvents', () => list(obj, 'carrierGainEvents', path, readCarrierEvent, { max: 100 })),
+    ...optional(obj, 'ambientEvents', () => list(obj, 'ambientEvents', path, readAmbientEvent, { max: 100 })),
+    ...optional(obj, 'rocketPanTime', () => time(obj, 'rocketPanTime', path)),
+    ...optional(obj, 'noiseFilter', () => readFilter(object(obj, 'noiseFilter', path), join(path, 'noiseFilter'))),
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import type { SessionPreset } from './types'
+import { guidedPresets } from './guidedPresets'
+import { presets } from './presets'
+import { serializePresets } from './presetFormat'
+import { createPresetLink, presetLinkPayload, readPresetLink } from './presetLink'
+
+const BASE = 'https://example.com/app/'
+
+const custom: SessionPreset = {
+  ...presets[0],
+  id: 'custom_a',
+  name: 'Evening Wind-Down',
+  category: 'custom',
+}
+
+/** A payload as createPresetLink() builds one, for text that isn't a valid preset file */
+async function payloadOf(text: string): Promise<string> {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate-raw'))
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer())
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+describe('preset links', () => {
+  it('carry a preset in the fragment and read it back', async () => {
+    const link = await createPresetLink(custom, BASE)
+    expect(link.startsWith(`${BASE}#preset=`)).toBe(true)
+
+    const payload = presetLinkPayload(new URL(link).hash)
+    expect(payload).toMatch(/^[A-Za-z0-9_-]+$/)
+    expect(await readPresetLink(payload!)).toEqual(custom)
+  })
+
+  it('fit a guided session', async () => {
+    const guided = { ...guidedPresets[0], id: 'custom_guided', category: 'custom' as const }
+    const payload = presetLinkPayload(new URL(await createPresetLink(guided, BASE)).hash)
+    expect(await readPresetLink(payload!)).toEqual(guided)
+  })
+
+  it('ignore other fragments', () => {
+    expect(presetLinkPayload('')).toBeNull()
+    expect(presetLinkPayload('#settings')).toBeNull()
+  })
+
+  it('refuse damaged payloads', async () => {
+    const link = await createPresetLink(custom, BASE)
+    const payload = presetLinkPayload(new URL(link).hash)!
+
+    await expect(readPresetLink(payload.slice(0, payload.length / 2))).rejects.toThrow(/damaged/)
+    await expect(readPresetLink(`${payload}!`)).rejects.toThrow(/damaged/)
+    await expect(readPresetLink('x'.repeat(20_000))).rejects.toThrow(/too long/)
+  })
+
+  it('validate the payload as a preset file', async () => {
+    await expect(readPresetLink(await payloadOf('{}'))).rejects.toThrow(/Not a preset file/)
+    await expect(readPresetLink(await payloadOf(serializePresets([custom, custom])))).rejects.toThrow(/exactly one/)
+
+    const loud = { ...custom, carriers: [{ ...custom.carriers[0], carrierFreq: 5000 }] }
+    await expect(readPresetLink(await payloadOf(serializePresets([loud])))).rejects.toThrow('presets[0].carriers[0].carrierFreq')
+  })
+
+  it('stop decompressing past the size cap', async () => {
+    // A few hundred bytes that inflate to a megabyte
+    const payload = await payloadOf(' '.repeat(1024 * 1024))
+    expect(payload.length).toBeLessThan(2000)
+    await expect(readPresetLink(payload)).rejects.toThrow(/more data than a session/)
+  })
+})
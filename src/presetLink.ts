@@ -0,0 +1,94 @@
+import type { SessionPreset } from './types'
+import { serializePresets, parsePresetFile } from './presetFormat'
+import { FileFormatError } from './fileFormat'
+
+/**
+ * Share links — a custom preset packed into the URL fragment:
+ *
+ *   https://…/#preset=<base64url(deflate-raw(.bbpreset.json))>
+ *
+ * The payload is a one-preset `.bbpreset.json` file, so a link is checked
+ * by the same validation as an imported file. The fragment never reaches
+ * the server. Payloads are capped before and after decompression so a
+ * hand-crafted link can't balloon into megabytes of JSON.
+ */
+
+export const PRESET_LINK_PARAM = 'preset'
+
+/** Longest encoded payload we'll decode — links past this break in many apps anyway */
+const MAX_LINK_CHARS = 16_000
+/** Largest decompressed payload we'll parse */
+const MAX_LINK_BYTES = 256 * 1024
+
+export async function createPresetLink(preset: SessionPreset, base = `${location.origin}${location.pathname}`): Promise<string> {
+  const json = serializePresets([preset], 0)
+  const compressed = await pipe(new TextEncoder().encode(json), new CompressionStream('deflate-raw'))
+  const payload = toBase64Url(compressed)
+  if (payload.length > MAX_LINK_CHARS) {
+    throw new FileFormatError('This session is too large to share as a link — export it to a file instead')
+  }
+  return `${base}#${PRESET_LINK_PARAM}=${payload}`
+}
+
+/** The payload of a `#preset=` fragment, or null when the hash isn't a share link */
+export function presetLinkPayload(hash: string): string | null {
+  const prefix = `#${PRESET_LINK_PARAM}=`
+  return hash.startsWith(prefix) ? hash.slice(prefix.length) : null
+}
+
+/** Decodes and validates a share-link payload. Throws FileFormatError. */
+export async function readPresetLink(payload: string): Promise<SessionPreset> {
+  if (payload.length > MAX_LINK_CHARS) throw new FileFormatError('This link is too long to be a session link')
+  if (!/^[A-Za-z0-9_-]+$/.test(payload)) throw new FileFormatError('This link is damaged — it may have been cut off')
+
+  let json: string
+  try {
+    const bytes = await pipe(fromBase64Url(payload), new DecompressionStream('deflate-raw'), MAX_LINK_BYTES)
+    json = new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+  } catch (err) {
+    if (err instanceof FileFormatError) throw err
+    throw new FileFormatError('This link is damaged — it may have been cut off')
+  }
+
+  const presets = parsePresetFile(json)
+  if (presets.length !== 1) throw new FileFormatError('A session link must hold exactly one session')
+  return presets[0]
+}
+
+// ── Encoding helpers ─────────────────────────────────────
+
+async function pipe(input: Uint8Array, transform: CompressionStream | DecompressionStream, maxBytes = Infinity): Promise<Uint8Array> {
+  const reader = new Blob([input as BlobPart]).stream().pipeThrough(transform).getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.byteLength
+    if (size > maxBytes) {
+      reader.cancel().catch(() => { /* */ })
+      throw new FileFormatError('This link holds more data than a session can')
+    }
+    chunks.push(value)
+  }
+  const out = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    out.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return out
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i])
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
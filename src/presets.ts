@@ -1,4 +1,4 @@
-import type { SessionPreset } from './types'
+import type { SessionPreset, MoodRating, RatingScale, SelfRating } from './types'
 import { guidedPresets } from './guidedPresets'
 
 export const presets: SessionPreset[] = [
@@ -18,6 +18,7 @@ export const presets: SessionPreset[] = [
       { time: 780, beatFreq: 8 },     // hold 7 min
       { time: 900, beatFreq: 12 },    // ramp up 2 min (2 Hz/min)
     ],
+    phases: { inductionEnd: 120, returnStart: 780 },
     noiseType: 'pink',
     noiseVolume: 0.4,
     hasReturnPhase: true,
@@ -43,6 +44,7 @@ export const presets: SessionPreset[] = [
       { time: 1380, beatFreq: 10 },   // ramp up 3 min (0.7 Hz/min)
       { time: 1500, beatFreq: 12 },   // ramp up 2 min (1 Hz/min)
     ],
+    phases: { inductionEnd: 180, returnStart: 1380 },
     noiseType: 'pink',
     noiseVolume: 0.45,
     hasReturnPhase: true,
@@ -73,6 +75,7 @@ export const presets: SessionPreset[] = [
       { time: 1500, beatFreq: 8 },      // return to alpha 5 min
       { time: 1800, beatFreq: 10 },     // return 5 min
     ],
+    phases: { inductionEnd: 180, returnStart: 1500 },
     noiseType: 'pink',
     noiseVolume: 0.45,
     hasReturnPhase: true,
@@ -100,6 +103,7 @@ export const presets: SessionPreset[] = [
       { time: 1980, beatFreq: 10 },   // ramp up 6 min (0.67 Hz/min)
       { time: 2100, beatFreq: 10 },   // hold 2 min
     ],
+    phases: { inductionEnd: 180, returnStart: 1980 },
     noiseType: 'brown',
     noiseVolume: 0.35,
     hasReturnPhase: true,
@@ -125,6 +129,7 @@ export const presets: SessionPreset[] = [
       { time: 1680, beatFreq: 10 },   // ramp up 5 min (0.6 Hz/min)
       { time: 1800, beatFreq: 10 },   // hold 2 min
     ],
+    phases: { inductionEnd: 180, returnStart: 1680 },
     noiseType: 'pink',
     noiseVolume: 0.3,
     hasReturnPhase: true,
@@ -152,6 +157,7 @@ export const presets: SessionPreset[] = [
       { time: 1500, beatFreq: 7.83 },   // hold 22 min
       { time: 1800, beatFreq: 10 },     // return 5 min
     ],
+    phases: { inductionEnd: 180, returnStart: 1500 },
     noiseType: 'brown',
     noiseVolume: 0.4,
     hasReturnPhase: true,
@@ -179,6 +185,7 @@ export const presets: SessionPreset[] = [
       { time: 2580, beatFreq: 10 },   // ramp down 3 min (1.7 Hz/min)
       { time: 2700, beatFreq: 10 },   // hold 2 min
     ],
+    phases: { inductionEnd: 180, returnStart: 2580 },
     noiseType: 'pink',
     noiseVolume: 0.25,
     hasReturnPhase: true,
@@ -204,6 +211,7 @@ export const presets: SessionPreset[] = [
       { time: 1380, beatFreq: 12 },   // ramp down 4 min (7 Hz/min)
       { time: 1500, beatFreq: 12 },   // hold 2 min
     ],
+    phases: { inductionEnd: 120, returnStart: 1380 },
     noiseType: 'pink',
     noiseVolume: 0.2,
     hasReturnPhase: true,
@@ -233,6 +241,7 @@ export const presets: SessionPreset[] = [
       { time: 1320, beatFreq: 20 },     // return to beta 3 min
       { time: 1500, beatFreq: 12 },     // return 3 min
     ],
+    phases: { inductionEnd: 180, returnStart: 1320 },
     noiseType: 'pink',
     noiseVolume: 0.15,
     hasReturnPhase: true,
@@ -260,6 +269,7 @@ export const presets: SessionPreset[] = [
       { time: 2100, beatFreq: 2 },    // ramp 15 min (0.13 Hz/min)
       { time: 2700, beatFreq: 2 },    // hold 10 min (fade out last 5 min)
     ],
+    phases: { inductionEnd: 300 },
     noiseType: 'brown',
     noiseVolume: 0.5,
     hasReturnPhase: false,
@@ -287,6 +297,7 @@ export const presets: SessionPreset[] = [
       { time: 1380, beatFreq: 10 },   // ramp up 3 min (1.3 Hz/min)
       { time: 1500, beatFreq: 12 },   // ramp up 2 min (1 Hz/min)
     ],
+    phases: { inductionEnd: 120, returnStart: 1380 },
     noiseType: 'brown',
     noiseVolume: 0.45,
     hasReturnPhase: true,
@@ -317,6 +328,7 @@ export const presets: SessionPreset[] = [
       { time: 1920, beatFreq: 3 },      // re-descend 10 min
       { time: 2400, beatFreq: 2 },      // deep delta 8 min — no return
     ],
+    phases: { inductionEnd: 240 },
     noiseType: 'brown',
     noiseVolume: 0.45,
     hasReturnPhase: false,
@@ -348,6 +360,7 @@ export const presets: SessionPreset[] = [
       { time: 2520, beatFreq: 10 },   // ramp up 6 min (1 Hz/min)
       { time: 2700, beatFreq: 10 },   // hold 3 min
     ],
+    phases: { inductionEnd: 300, returnStart: 2520 },
     noiseType: 'pink',
     noiseVolume: 0.4,
     hasReturnPhase: true,
@@ -376,6 +389,7 @@ export const presets: SessionPreset[] = [
       { time: 1980, beatFreq: 10 },   // ramp up 6 min (0.67 Hz/min)
       { time: 2100, beatFreq: 10 },   // hold 2 min
     ],
+    phases: { inductionEnd: 240, returnStart: 1980 },
     noiseType: 'pink',
     noiseVolume: 0.35,
     hasReturnPhase: true,
@@ -407,6 +421,7 @@ export const presets: SessionPreset[] = [
       { time: 2400, beatFreq: 10 },     // return to waking (5 min)
       { time: 2700, beatFreq: 10 },     // hold 5 min
     ],
+    phases: { inductionEnd: 300, returnStart: 2400 },
     noiseType: 'pink',
     noiseVolume: 0.35,
     hasReturnPhase: true,
@@ -440,6 +455,7 @@ export const presets: SessionPreset[] = [
       { time: 3180, beatFreq: 10 },     // return 4 min
       { time: 3300, beatFreq: 10 },     // hold 2 min
     ],
+    phases: { inductionEnd: 300, returnStart: 3180 },
     noiseType: 'brown',
     noiseVolume: 0.3,
     hasReturnPhase: true,
@@ -475,6 +491,7 @@ export const presets: SessionPreset[] = [
       { time: 3540, beatFreq: 10 },     // return 5 min
       { time: 3600, beatFreq: 10 },     // hold 1 min
     ],
+    phases: { inductionEnd: 240, returnStart: 3540 },
     noiseType: 'brown',
     noiseVolume: 0.25,
     hasReturnPhase: true,
@@ -498,6 +515,44 @@ export const categoryLabels: Record<string, string> = {
   custom: 'Custom',
 }
 
+/** Icons and colors offered for custom sessions and journeys */
+export const iconOptions = [
+  '🎵', '🧠', '🌊', '🌙', '🔮', '💎', '🎯', '⚡', '🌿', '🍃',
+  '💡', '🧘', '✨', '🔷', '🎶', '🌈', '💤', '🌸', '🎧', '🪷',
+  '🌀', '🫧', '🌟', '🦋',
+]
+
+export const colorOptions = [
+  '#3b82f6', '#8b5cf6', '#ec4899', '#ef4444', '#f97316',
+  '#f59e0b', '#22c55e', '#14b8a6', '#6366f1', '#a855f7',
+]
+
+export const moodOptions: { value: MoodRating; emoji: string; label: string }[] = [
+  { value: 'energized', emoji: '⚡', label: 'Energized' },
+  { value: 'calm', emoji: '😌', label: 'Calm' },
+  { value: 'focused', emoji: '🎯', label: 'Focused' },
+  { value: 'sleepy', emoji: '😴', label: 'Sleepy' },
+]
+
+export const ratingScales: { id: RatingScale; label: string; low: string; high: string; lowerIsBetter: boolean }[] = [
+  { id: 'stress', label: 'Stress', low: 'Calm', high: 'Very stressed', lowerIsBetter: true },
+  { id: 'energy', label: 'Energy', low: 'Drained', high: 'Energized', lowerIsBetter: false },
+  { id: 'focus', label: 'Focus', low: 'Scattered', high: 'Sharp', lowerIsBetter: false },
+]
+
+/** A check-in ready to store — unset scores and blank notes dropped, or undefined when nothing is left */
+export function cleanRating(rating: SelfRating | undefined): SelfRating | undefined {
+  if (!rating) return undefined
+  const cleaned: SelfRating = {}
+  for (const scale of ratingScales) {
+    const score = rating[scale.id]
+    if (score !== undefined) cleaned[scale.id] = score
+  }
+  const note = rating.note?.trim()
+  if (note) cleaned.note = note
+  return Object.keys(cleaned).length > 0 ? cleaned : undefined
+}
+
 export const categoryOrder = ['relaxation', 'meditation', 'focus', 'sleep', 'advanced', 'guided', 'custom'] as const
 
 export const bandInfo: Record<string, { label: string; range: string; description: string }> = {
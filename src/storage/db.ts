@@ -0,0 +1,123 @@
+/**
+ * The app's IndexedDB database.
+ *
+ *   sessions — one record per CompletedSession, keyed by id, indexed by
+ *              completedAt so history can grow without limit
+ *   values   — single documents keyed by name: stats, preferences,
+ *              journeys, customPresets, customJourneys
+ *
+ * Schema changes go in UPGRADES under the version they bring the database
+ * to; opening runs every step between the stored version and DB_VERSION.
+ * Version 1 also moves the data the app used to keep in localStorage.
+ */
+
+export const DB_NAME = 'binaural-beats'
+export const DB_VERSION = 1
+
+export const STORES = {
+  sessions: 'sessions',
+  values: 'values',
+} as const
+
+/** localStorage keys used before the move to IndexedDB, by their value name */
+const LEGACY_KEYS = {
+  stats: 'bb_stats',
+  preferences: 'bb_preferences',
+  journeys: 'bb_journeys',
+  customPresets: 'bb_custom_presets',
+} as const
+const LEGACY_SESSIONS_KEY = 'bb_sessions'
+
+const UPGRADES: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  1: (db, tx) => {
+    const sessions = db.createObjectStore(STORES.sessions, { keyPath: 'id' })
+    sessions.createIndex('completedAt', 'completedAt')
+    db.createObjectStore(STORES.values)
+    migrateLocalStorage(tx)
+  },
+}
+
+function readLegacy(key: string): unknown {
+  try {
+    const raw = localStorage.getItem(key)
+    return raw ? JSON.parse(raw) : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/** Copies the old localStorage data in, clearing it once the upgrade commits */
+function migrateLocalStorage(tx: IDBTransaction): void {
+  const sessions = readLegacy(LEGACY_SESSIONS_KEY)
+  if (Array.isArray(sessions)) {
+    const store = tx.objectStore(STORES.sessions)
+    for (const session of sessions) store.put(session)
+  }
+  const values = tx.objectStore(STORES.values)
+  for (const [name, key] of Object.entries(LEGACY_KEYS)) {
+    const value = readLegacy(key)
+    if (value !== undefined) values.put(value, name)
+  }
+
+  tx.addEventListener('complete', () => {
+    try {
+      localStorage.removeItem(LEGACY_SESSIONS_KEY)
+      for (const key of Object.values(LEGACY_KEYS)) localStorage.removeItem(key)
+    } catch { /* */ }
+  })
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'))
+        return
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = (e) => {
+        const db = request.result
+        const tx = request.transaction
+        if (!tx) return
+        for (let version = e.oldVersion + 1; version <= DB_VERSION; version++) {
+          UPGRADES[version](db, tx)
+        }
+      }
+      request.onsuccess = () => {
+        const db = request.result
+        // Another tab upgraded the schema — let it, and reopen next time
+        db.onversionchange = () => {
+          db.close()
+          dbPromise = null
+        }
+        resolve(db)
+      }
+      request.onerror = () => reject(request.error)
+      request.onblocked = () => console.warn('Storage: upgrade waiting for other tabs to close')
+    })
+    dbPromise.catch(() => { dbPromise = null })
+
+    // Ask the browser not to evict our data under storage pressure
+    navigator.storage?.persist?.().catch(() => { /* */ })
+  }
+  return dbPromise
+}
+
+/** Resolves an IDBRequest */
+export function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/** Resolves when a transaction commits, rejects if it aborts */
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'))
+  })
+}
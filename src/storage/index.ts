@@ -0,0 +1,164 @@
+import type { CompletedSession, UserStats, UserPreferences, JourneyProgress, SessionPreset, Journey } from '../types'
+import { openDatabase, requestResult, transactionDone, STORES } from './db'
+
+/**
+ * Persistence for everything the app keeps on the device, backed by
+ * IndexedDB (see db.ts for the schema).
+ *
+ * Reads fall back to nothing when storage is unavailable. Writes never
+ * throw at the caller — hooks persist from inside state updates — but
+ * every failure is reported to onStorageError() listeners so the UI can
+ * tell the user their data wasn't saved.
+ */
+
+export interface StoredValues {
+  stats: UserStats
+  /** May predate newer preference fields — merge with defaults on read */
+  preferences: Partial<UserPreferences>
+  journeys: JourneyProgress[]
+  customPresets: SessionPreset[]
+  customJourneys: Journey[]
+}
+
+export type ValueName = keyof StoredValues
+
+/** Everything in storage at once — what a backup restore writes */
+export interface StoredData extends StoredValues {
+  sessions: CompletedSession[]
+}
+
+export class StorageError extends Error {
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause })
+    this.name = 'StorageError'
+  }
+}
+
+// ── Error reporting ──────────────────────────────────────
+
+type ErrorListener = (error: StorageError) => void
+const listeners = new Set<ErrorListener>()
+
+export function onStorageError(listener: ErrorListener): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+function toStorageError(err: unknown, action: string): StorageError {
+  if (err instanceof StorageError) return err
+  const name = err instanceof DOMException || err instanceof Error ? err.name : ''
+  if (name === 'QuotaExceededError') {
+    return new StorageError(`Couldn't save ${action} — this device is out of storage space`, err)
+  }
+  return new StorageError(`Couldn't save ${action} — storage is unavailable in this browser`, err)
+}
+
+function report(err: unknown, action: string): void {
+  const error = toStorageError(err, action)
+  console.warn('Storage:', error.message, err)
+  for (const listener of listeners) listener(error)
+}
+
+/** Tells listeners about a write the app refused to make, such as one past a limit */
+export function reportRefusedWrite(message: string): void {
+  const error = new StorageError(message)
+  console.warn('Storage:', error.message)
+  for (const listener of listeners) listener(error)
+}
+
+// ── Reads ────────────────────────────────────────────────
+
+export async function loadValue<K extends ValueName>(name: K): Promise<StoredValues[K] | undefined> {
+  try {
+    const db = await openDatabase()
+    const store = db.transaction(STORES.values).objectStore(STORES.values)
+    return await requestResult<StoredValues[K] | undefined>(store.get(name))
+  } catch (err) {
+    console.warn(`Storage: couldn't read ${name}`, err)
+    return undefined
+  }
+}
+
+/** All completed sessions, newest first */
+export async function loadSessions(): Promise<CompletedSession[]> {
+  try {
+    const db = await openDatabase()
+    const index = db.transaction(STORES.sessions).objectStore(STORES.sessions).index('completedAt')
+    const sessions = await requestResult<CompletedSession[]>(index.getAll())
+    return sessions.reverse()
+  } catch (err) {
+    console.warn("Storage: couldn't read session history", err)
+    return []
+  }
+}
+
+// ── Writes ───────────────────────────────────────────────
+
+const VALUE_LABELS: Record<ValueName, string> = {
+  stats: 'your stats',
+  preferences: 'your settings',
+  journeys: 'journey progress',
+  customPresets: 'your custom sessions',
+  customJourneys: 'your custom journeys',
+}
+
+export async function saveValue<K extends ValueName>(name: K, value: StoredValues[K]): Promise<boolean> {
+  try {
+    const db = await openDatabase()
+    const tx = db.transaction(STORES.values, 'readwrite')
+    tx.objectStore(STORES.values).put(value, name)
+    await transactionDone(tx)
+    return true
+  } catch (err) {
+    report(err, VALUE_LABELS[name])
+    return false
+  }
+}
+
+export async function saveSession(session: CompletedSession): Promise<boolean> {
+  try {
+    const db = await openDatabase()
+    const tx = db.transaction(STORES.sessions, 'readwrite')
+    tx.objectStore(STORES.sessions).put(session)
+    await transactionDone(tx)
+    return true
+  } catch (err) {
+    report(err, 'this session to your history')
+    return false
+  }
+}
+
+export async function deleteSession(id: string): Promise<boolean> {
+  try {
+    const db = await openDatabase()
+    const tx = db.transaction(STORES.sessions, 'readwrite')
+    tx.objectStore(STORES.sessions).delete(id)
+    await transactionDone(tx)
+    return true
+  } catch (err) {
+    report(err, 'the change to your history')
+    return false
+  }
+}
+
+/** Replaces all stored data in one transaction. Throws StorageError. */
+export async function replaceAll(data: StoredData): Promise<void> {
+  try {
+    const db = await openDatabase()
+    const tx = db.transaction([STORES.sessions, STORES.values], 'readwrite')
+    const sessions = tx.objectStore(STORES.sessions)
+    sessions.clear()
+    for (const session of data.sessions) sessions.put(session)
+    const values = tx.objectStore(STORES.values)
+    values.put(data.stats, 'stats')
+    values.put(data.preferences, 'preferences')
+    values.put(data.journeys, 'journeys')
+    values.put(data.customPresets, 'customPresets')
+    values.put(data.customJourneys, 'customJourneys')
+    await transactionDone(tx)
+  } catch (err) {
+    const error = toStorageError(err, 'the restored data')
+    report(error, 'the restored data')
+    throw error
+  }
+}
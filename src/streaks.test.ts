@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest'
+import type { CompletedSession, StreakRules, UserStats } from './types'
+import { DEFAULT_STREAK_RULES, computeStreaks, streakBeforeHistory, withStreaks } from './streaks'
+
+/** Thursday evening; the week runs Monday 9 March to Sunday 15 March */
+const NOW = new Date(2026, 2, 12, 18)
+
+/** A session at noon, local time, on day `day` of March 2026 */
+function session(day: number, minutes = 10, completedFull = true): CompletedSession {
+  return {
+    id: `s${day}-${minutes}`,
+    presetId: 'quick-calm',
+    presetName: 'Quick Calm',
+    category: 'relaxation',
+    durationSeconds: minutes * 60,
+    completedAt: new Date(2026, 2, day, 12).toISOString(),
+    completedFull,
+  }
+}
+
+function streaks(sessions: CompletedSession[], rules: Partial<StreakRules> = {}) {
+  return computeStreaks(sessions, { ...DEFAULT_STREAK_RULES, ...rules }, NOW)
+}
+
+const status = (summary: ReturnType<typeof streaks>, day: number) =>
+  summary.days.get(`2026-03-${String(day).padStart(2, '0')}`)?.status
+
+describe('computeStreaks', () => {
+  it('counts consecutive days, and today is still open', () => {
+    const summary = streaks([session(9), session(10), session(11)])
+    expect(summary.currentStreak).toBe(3)
+    expect(summary.longestStreak).toBe(3)
+    expect(summary.lastSessionDate).toBe('2026-03-11')
+    expect(status(summary, 12)).toBeUndefined()
+  })
+
+  it('breaks the streak on a missed day', () => {
+    const summary = streaks([session(2), session(3), session(4), session(6), session(7)])
+    expect(summary.currentStreak).toBe(0)
+    expect(summary.longestStreak).toBe(3)
+    expect(status(summary, 5)).toBe('missed')
+    expect(status(summary, 8)).toBe('missed')
+  })
+
+  it('only counts days that meet the minimum', () => {
+    const sessions = [session(10, 15), session(11, 5), session(11, 4, false)]
+    expect(streaks(sessions, { minMinutesPerDay: 9 }).currentStreak).toBe(2)
+
+    const strict = streaks(sessions, { minMinutesPerDay: 9, countPartialSessions: false })
+    expect(strict.currentStreak).toBe(0)
+    expect(strict.longestStreak).toBe(1)
+    expect(status(strict, 11)).toBe('short')
+    expect(strict.days.get('2026-03-11')?.minutes).toBe(9)
+  })
+
+  it('covers missed days with rest days, then freezes', () => {
+    const sessions = [session(2), session(4), session(6), session(7), session(8), session(9), session(10), session(11)]
+    const summary = streaks(sessions, { restDaysPerWeek: 1, freezesPerMonth: 1 })
+    expect(status(summary, 3)).toBe('rest')
+    expect(status(summary, 5)).toBe('freeze')
+    expect(summary.currentStreak).toBe(8)
+    expect(summary.freezesLeft).toBe(0)
+
+    // Nothing left to cover a third missed day that week
+    const broken = streaks(sessions.filter((s) => !s.id.startsWith('s7-')), { restDaysPerWeek: 1, freezesPerMonth: 1 })
+    expect(status(broken, 7)).toBe('missed')
+    expect(broken.currentStreak).toBe(4)
+    expect(broken.longestStreak).toBe(4)
+  })
+
+  it('gives each week its own rest days', () => {
+    const summary = streaks([session(6), session(7), session(9), session(11)], { restDaysPerWeek: 1 })
+    expect(status(summary, 8)).toBe('rest')
+    expect(status(summary, 10)).toBe('rest')
+    expect(summary.currentStreak).toBe(4)
+  })
+})
+
+describe('withStreaks', () => {
+  const rules = DEFAULT_STREAK_RULES
+  // Every day from the 2nd to the 11th
+  const history = Array.from({ length: 10 }, (_, i) => session(i + 2))
+  /** Stats saved when history was capped: the totals and streaks reach further back than it does */
+  const legacy: UserStats = { totalSessions: 150, totalMinutes: 1500, currentStreak: 40, longestStreak: 60, lastSessionDate: '2026-03-11' }
+
+  it('keeps the part of a stored streak that is older than history', () => {
+    const carried = streakBeforeHistory(legacy, history, rules, NOW)
+    expect(carried).toBe(30)
+    expect(withStreaks(legacy, history, rules, carried, false, NOW).currentStreak).toBe(40)
+
+    // Practicing today adds to the whole streak
+    const added = { ...legacy, totalSessions: 151 }
+    expect(withStreaks(added, [session(12), ...history], rules, carried, false, NOW).currentStreak).toBe(41)
+  })
+
+  it('drops the older part once history shows a break', () => {
+    const broken = history.filter((s) => !s.id.startsWith('s5-'))
+    expect(streakBeforeHistory(legacy, broken, rules, NOW)).toBe(0)
+    expect(withStreaks(legacy, broken, rules, 30, false, NOW).currentStreak).toBe(6)
+  })
+
+  it('trusts a history that holds every session', () => {
+    const complete = { ...legacy, totalSessions: history.length }
+    expect(streakBeforeHistory(complete, history, rules, NOW)).toBe(0)
+    const stats = withStreaks(complete, history, rules, 0, true, NOW)
+    expect(stats.currentStreak).toBe(10)
+    expect(stats.longestStreak).toBe(10)
+  })
+
+  it('keeps the longest streak through a rule change when history is short', () => {
+    const strict = { ...rules, minMinutesPerDay: 30 }
+    const stats = withStreaks(legacy, history, strict, streakBeforeHistory(legacy, history, rules, NOW), true, NOW)
+    expect(stats.currentStreak).toBe(0)
+    expect(stats.longestStreak).toBe(60)
+  })
+})
@@ -0,0 +1,158 @@
+import type { CompletedSession, StreakRules, UserStats } from './types'
+
+/**
+ * Streaks recomputed from the full session history under the user's rules.
+ * A day counts when its counted sessions add up to the minimum minutes.
+ * Missed days are covered by rest days first (per Monday-start week), then
+ * by freezes (per calendar month); a missed day with neither breaks the
+ * streak. Today never breaks it — there's still time to practice.
+ */
+
+export const DEFAULT_STREAK_RULES: StreakRules = {
+  minMinutesPerDay: 0,
+  countPartialSessions: true,
+  restDaysPerWeek: 0,
+  freezesPerMonth: 0,
+}
+
+/**
+ * - `practiced`: met the rules
+ * - `short`: practiced, but not enough to count
+ * - `rest` / `freeze`: missed, but covered
+ * - `missed`: broke the streak
+ */
+export type DayStatus = 'practiced' | 'short' | 'rest' | 'freeze' | 'missed'
+
+export interface PracticeDay {
+  /** YYYY-MM-DD in local time */
+  date: string
+  /** Every session that day, partial or not */
+  minutes: number
+  status: DayStatus
+}
+
+export interface StreakSummary extends Pick<UserStats, 'currentStreak' | 'longestStreak' | 'lastSessionDate'> {
+  /** Freezes not yet used this calendar month */
+  freezesLeft: number
+  /** Days with practice or a streak event, keyed by date */
+  days: Map<string, PracticeDay>
+}
+
+function localDate(date: Date): string {
+  return new Intl.DateTimeFormat('en-CA').format(date) // YYYY-MM-DD in local TZ
+}
+
+function weekKey(date: Date): string {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7))
+  return localDate(start)
+}
+
+export function computeStreaks(sessions: CompletedSession[], rules: StreakRules, now = new Date()): StreakSummary {
+  const days = new Map<string, PracticeDay>()
+  const counted = new Map<string, number>()
+  let lastSessionDate: string | null = null
+
+  for (const s of sessions) {
+    const date = localDate(new Date(s.completedAt))
+    const minutes = s.durationSeconds / 60
+    const day = days.get(date) ?? { date, minutes: 0, status: 'short' }
+    day.minutes += minutes
+    days.set(date, day)
+    if (s.completedFull || rules.countPartialSessions) counted.set(date, (counted.get(date) ?? 0) + minutes)
+    if (!lastSessionDate || date > lastSessionDate) lastSessionDate = date
+  }
+
+  const qualifies = (date: string) => {
+    const minutes = counted.get(date)
+    return minutes !== undefined && minutes >= rules.minMinutesPerDay
+  }
+  for (const day of days.values()) {
+    day.minutes = Math.round(day.minutes)
+    if (qualifies(day.date)) day.status = 'practiced'
+  }
+
+  const today = localDate(now)
+  const thisMonth = today.slice(0, 7)
+  const first = [...counted.keys()].filter(qualifies).sort()[0]
+  const restUsed = new Map<string, number>()
+  const freezesUsed = new Map<string, number>()
+  let run = 0
+  let longest = 0
+
+  if (first) {
+    for (const cursor = new Date(`${first}T00:00:00`); localDate(cursor) <= today; cursor.setDate(cursor.getDate() + 1)) {
+      const date = localDate(cursor)
+      if (qualifies(date)) {
+        run++
+        longest = Math.max(longest, run)
+        continue
+      }
+      if (date === today || run === 0) continue
+
+      const week = weekKey(cursor)
+      const month = date.slice(0, 7)
+      let status: DayStatus
+      if ((restUsed.get(week) ?? 0) < rules.restDaysPerWeek) {
+        restUsed.set(week, (restUsed.get(week) ?? 0) + 1)
+        status = 'rest'
+      } else if ((freezesUsed.get(month) ?? 0) < rules.freezesPerMonth) {
+        freezesUsed.set(month, (freezesUsed.get(month) ?? 0) + 1)
+        status = 'freeze'
+      } else {
+        run = 0
+        status = 'missed'
+      }
+      const day = days.get(date)
+      if (day) day.status = status === 'missed' ? 'short' : status
+      else days.set(date, { date, minutes: 0, status })
+    }
+  }
+
+  return {
+    currentStreak: run,
+    longestStreak: longest,
+    lastSessionDate,
+    freezesLeft: Math.max(0, rules.freezesPerMonth - (freezesUsed.get(thisMonth) ?? 0)),
+    days,
+  }
+}
+
+/** Whether nothing in history breaks the current streak — it runs back to the first day that counted */
+function runsBackToStart(summary: StreakSummary): boolean {
+  let counted = 0
+  for (const day of summary.days.values()) if (day.status === 'practiced') counted++
+  return summary.currentStreak > 0 && summary.currentStreak === counted
+}
+
+/**
+ * Days of `stats`' current streak from before the oldest session in
+ * history. History saved before it was unlimited was capped at 100
+ * sessions, so the totals can count sessions it no longer holds; when the
+ * streak computed from what's left runs unbroken back to its start, the
+ * rest of the stored streak is older than the history.
+ */
+export function streakBeforeHistory(stats: UserStats, sessions: CompletedSession[], rules: StreakRules, now = new Date()): number {
+  if (stats.totalSessions <= sessions.length) return 0
+  const summary = computeStreaks(sessions, rules, now)
+  return runsBackToStart(summary) ? Math.max(0, stats.currentStreak - summary.currentStreak) : 0
+}
+
+/**
+ * Stats with streaks recomputed from history, plus `carried` days from
+ * before it (see streakBeforeHistory) while the streak still runs back
+ * that far. The stored longest streak is kept unless `recalculate` is set
+ * (the rules changed) and history holds every session.
+ */
+export function withStreaks(stats: UserStats, sessions: CompletedSession[], rules: StreakRules, carried = 0, recalculate = false, now = new Date()): UserStats {
+  const summary = computeStreaks(sessions, rules, now)
+  const currentStreak = summary.currentStreak + (runsBackToStart(summary) ? carried : 0)
+  const longestStreak = Math.max(summary.longestStreak, currentStreak)
+  const complete = stats.totalSessions <= sessions.length
+  return {
+    ...stats,
+    currentStreak,
+    longestStreak: recalculate && complete ? longestStreak : Math.max(stats.longestStreak, longestStreak),
+    lastSessionDate: summary.lastSessionDate,
+  }
+}
@@ -8,15 +8,61 @@ export type SessionPhase = 'idle' | 'induction' | 'main' | 'return' | 'complete'
 
 export type PresetCategory = 'meditation' | 'focus' | 'sleep' | 'relaxation' | 'advanced' | 'guided' | 'custom'
 
+/**
+ * Shape of an envelope segment:
+ *   'linear'      — straight line (default)
+ *   'exponential' — constant ratio per second, so descents slow down as they deepen
+ *   'ease'        — ease-in-out (cosine)
+ *   'hold'        — plateau at this point's frequency, jumping at the next point
+ *   'step'        — jump to the next point's frequency straight away
+ */
+export type EnvelopeCurve = 'linear' | 'exponential' | 'ease' | 'hold' | 'step'
+
 export interface FrequencyPoint {
   /** Time offset in seconds from session start */
   time: number
   /** Beat frequency in Hz */
   beatFreq: number
+  /** How the segment from this point to the next is shaped (default 'linear') */
+  curve?: EnvelopeCurve
+}
+
+/**
+ * Slow oscillation added to the beat frequency during the main phase so the
+ * brain doesn't habituate to a perfectly constant stimulus.
+ */
+export interface HabituationConfig {
+  enabled: boolean
+  /** Peak deviation from the envelope in Hz */
+  depth: number
+  /** Seconds per oscillation cycle */
+  period: number
+  waveform: 'sine' | 'triangle'
+  /** Optional slow random wander on top of the oscillation, peak Hz */
+  drift?: number
+}
+
+/** Session-time boundaries between the induction, main and return phases */
+export interface PhaseMarkers {
+  /** Seconds at which induction gives way to the main phase */
+  inductionEnd: number
+  /** Seconds at which the return phase begins (ignored without hasReturnPhase) */
+  returnStart?: number
 }
 
+/**
+ * How a carrier layer delivers its beat:
+ *   'binaural' — carrier in the left ear, carrier + beat in the right (default)
+ *   'monaural' — both tones mixed into both ears, so the beat is acoustic
+ *                and survives speakers
+ *   'swapped'  — binaural with the ears reversed
+ *   'centered' — binaural around the carrier (carrier ± beat/2), so the
+ *                perceived pitch stays put as the envelope moves
+ */
+export type BeatMode = 'binaural' | 'monaural' | 'swapped' | 'centered'
+
 export interface CarrierLayer {
-  /** Base carrier frequency in Hz (left ear) */
+  /** Base carrier frequency in Hz (left ear in binaural mode) */
   carrierFreq: number
   /** Relative volume in dB (0 = primary, negative = quieter) */
   gainDb: number
@@ -26,6 +72,8 @@ export interface CarrierLayer {
    * overlay that runs simultaneously with deep Delta entrainment.
    */
   fixedBeatFreq?: number
+  /** How the beat is delivered to the ears (default 'binaural') */
+  beatMode?: BeatMode
 }
 
 export interface SessionPreset {
@@ -40,6 +88,8 @@ export interface SessionPreset {
   carriers: CarrierLayer[]
   /** Frequency envelope: beat frequency keyframes over time */
   frequencyEnvelope: FrequencyPoint[]
+  /** Phase boundaries — derived from the envelope shape when absent */
+  phases?: PhaseMarkers
   noiseType: NoiseType
   /** Noise volume relative to tones (0-1) */
   noiseVolume: number
@@ -54,6 +104,8 @@ export interface SessionPreset {
   ambientSound: AmbientSoundType
   /** Default ambient volume (0-1) */
   ambientVolume: number
+  /** Anti-habituation oscillation (defaults to ±0.3 Hz sine, 45s period) */
+  habituation?: HabituationConfig
   /** Guidance script for guided sessions */
   guidanceScript?: GuidanceScript
 }
@@ -83,16 +135,61 @@ export interface ResonantTuningConfig {
 
 // ── ASGEP / Advanced Session Feature Types ──────────────
 
+/**
+ * How a SAM window moves its tone:
+ *   'smooth'  — stereo pan swept left↔right by a sine LFO
+ *   'erratic' — random discontinuous pan jumps
+ *   'spatial' — HRTF-positioned tone travelling a 3D path around the head
+ */
+export type SAMMode = 'smooth' | 'erratic' | 'spatial'
+
+/** Path a 'spatial' SAM tone follows around the listener */
+export type OrbitPath = 'circle' | 'ellipse' | 'figure8'
+
 /** A time window during which the SAM engine runs at a given rotation speed. */
 export interface SAMWindow {
   startTime: number
   endTime: number
   /** Rotation Hz = target brainwave frequency (e.g. 40 for Gamma, 4 for Theta) */
   rotationHz: number
-  /** Smooth circular orbit or erratic discontinuous jumps */
-  mode: 'smooth' | 'erratic'
+  /** Smooth circular orbit, erratic discontinuous jumps, or 3D spatial orbit */
+  mode: SAMMode
   /** SAM carrier frequency in Hz (default 303) */
   carrierFreq?: number
+  /** Spatial mode: path shape (default 'circle') */
+  path?: OrbitPath
+  /** Spatial mode: degrees above (+) or below (−) ear level, -90–90 (default 0) */
+  elevation?: number
+  /** Spatial mode: orbit radius in meters, 0.25–10 (default 1) */
+  radius?: number
+}
+
+/**
+ * Gate shape of an isochronic pulse:
+ *   'trapezoid' — fast attack, held, fast release (default)
+ *   'sine'      — raised-cosine swell
+ *   'sawtooth'  — instant attack, linear decay
+ */
+export type PulseShape = 'trapezoid' | 'sine' | 'sawtooth'
+
+/** One pulsed tone within an isochronic window */
+export interface IsochronicLayer {
+  /** Pulse rate in Hz */
+  pulseHz: number
+  /** Pulsed tone frequency in Hz */
+  carrierFreq: number
+  shape?: PulseShape
+  /** Fraction of each cycle the tone sounds (0–1, default 0.5) */
+  dutyCycle?: number
+  /** Relative level in dB (default 0) */
+  gainDb?: number
+}
+
+/** A time window during which scripted isochronic layers pulse together. */
+export interface IsochronicWindow {
+  startTime: number
+  endTime: number
+  layers: IsochronicLayer[]
 }
 
 /** Schedules a carrier layer (by index) to fade in/out at a specific time. */
@@ -130,6 +227,8 @@ export interface GuidanceScript {
   voiceVolume?: number
   /** SAM (Spatial Angle Modulation) windows — time ranges with rotation parameters */
   samWindows?: SAMWindow[]
+  /** Scripted isochronic windows — run regardless of the user's isochronic toggle */
+  isochronicWindows?: IsochronicWindow[]
   /** Carrier gain events — fade specific carrier layers in/out at timestamps */
   carrierGainEvents?: CarrierGainEvent[]
   /** Ambient volume automation events (e.g. silence drop at Focus 15 entry) */
@@ -149,6 +248,27 @@ export interface SessionOptions {
   ambientSound?: AmbientSoundType
   ambientVolume?: number
   voiceEnabled?: boolean
+  /** Play without headphones: monaural beats plus isochronic pulses */
+  speakerMode?: boolean
+  narration?: NarrationSettings
+  /** Run overnight: hold the final frequency at a falling volume */
+  sleepMode?: SleepModeSettings
+}
+
+export interface SleepModeSettings {
+  /** Total length in minutes, the preset included */
+  totalMinutes: number
+  /** Minutes in after which only ambient sound and noise keep playing; null keeps the beats */
+  ambientOnlyAfter: number | null
+  /** Wake-up alarm — replaces `totalMinutes`, running the session until the alarm has rung */
+  alarm: WakeAlarmSettings | null
+}
+
+export interface WakeAlarmSettings {
+  /** Local wake time, HH:MM */
+  time: string
+  /** Minutes the rise from delta into beta takes, ending at `time` */
+  rampMinutes: number
 }
 
 export interface EngineState {
@@ -168,15 +288,34 @@ export interface EngineState {
 
 export type MoodRating = 'energized' | 'calm' | 'focused' | 'sleepy'
 
+/** Self-rating scales, each scored 1–10 */
+export type RatingScale = 'stress' | 'energy' | 'focus'
+
+/** A before- or after-session check-in; every field is optional */
+export type SelfRating = Partial<Record<RatingScale, number>> & {
+  note?: string
+}
+
 export interface CompletedSession {
   id: string
   presetId: string
   presetName: string
   category: PresetCategory
+  /** The preset's target band when played (missing on older sessions) */
+  targetBand?: BrainwaveBand
   durationSeconds: number
   completedAt: string
   mood?: MoodRating
   completedFull: boolean
+  /** Free-text note added from the history screen */
+  note?: string
+  /** Check-in taken in session setup */
+  preRating?: SelfRating
+  /** Check-in taken on the completion screen */
+  postRating?: SelfRating
+  /** Set when the session was played as a journey day */
+  journeyId?: string
+  journeyDay?: number
 }
 
 export interface UserStats {
@@ -187,19 +326,60 @@ export interface UserStats {
   lastSessionDate: string | null
 }
 
+/** Live (Web Speech) narration, used when a track has no recorded voice */
+export interface NarrationSettings {
+  /** SpeechSynthesisVoice.voiceURI, or null for the browser default */
+  voiceURI: string | null
+  rate: number
+  pitch: number
+  /**
+   * Narrate tracks with no recordings in the voice manifest (custom presets)
+   * with the live voice. Off leaves their cues as on-screen text.
+   */
+  liveForUnrecorded: boolean
+}
+
+/** What counts toward a streak */
+export interface StreakRules {
+  /** Practice needed on a day for it to count (0 = any session) */
+  minMinutesPerDay: number
+  /** Whether sessions ended early count toward the day */
+  countPartialSessions: boolean
+  /** Days per week (Monday–Sunday) that can be skipped without breaking the streak */
+  restDaysPerWeek: number
+  /** Further missed days per calendar month that are covered automatically */
+  freezesPerMonth: number
+}
+
 export interface UserPreferences {
   favorites: string[]
   hapticEnabled: boolean
   reducedMotion: boolean
+  narration: NarrationSettings
+  streakRules: StreakRules
 }
 
 // ── Journeys / Programs ──────────────────────────────────
 
+/** What about the previous journey session sets off a rule */
+export type JourneyTrigger = 'endedEarly' | MoodRating
+
+/**
+ * Adapts a day to how the previous journey session went. `repeat` plays the
+ * previous session's day again before moving on; `swap` plays `presetId` in
+ * place of the day's own preset.
+ */
+export type JourneyRule =
+  | { when: JourneyTrigger; then: 'repeat' }
+  | { when: JourneyTrigger; then: 'swap'; presetId: string }
+
 export interface JourneyDay {
   day: number
   presetId: string
   title: string
   tip: string
+  /** Checked in order; the first match applies */
+  rules?: JourneyRule[]
 }
 
 export interface Journey {
@@ -212,9 +392,22 @@ export interface Journey {
   color: string
 }
 
+/** Optional calendar pacing for a journey */
+export interface JourneySchedule {
+  /** Unlock one day per calendar day instead of all days at once */
+  daily: boolean
+  /** Local time ('HH:MM') to be reminded of the next day, or null for no reminder */
+  reminderTime: string | null
+}
+
 export interface JourneyProgress {
   journeyId: string
   completedDays: number[]
   startedAt: string
   lastCompletedAt: string | null
+  /** Local date (YYYY-MM-DD) each day was completed, by day number */
+  completedOn?: Record<number, string>
+  /** Every local date a full session of the journey was played, repeated days included */
+  practicedOn?: string[]
+  schedule?: JourneySchedule
 }
@@ -11,6 +11,10 @@ export default defineConfig({
     VitePWA({
       registerType: 'autoUpdate',
       includeAssets: ['favicon.svg', 'ambient/*.wav', 'voice/**/*.mp3'],
+      workbox: {
+        // Opens the app from journey reminder notifications
+        importScripts: ['notification-sw.js'],
+      },
       manifest: {
         name: 'Binaural Beats - Meditation & Focus',
         short_name: 'Binaural Beats',